@@ -0,0 +1,234 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext, createMockEvent } from '../setup/lambda-events';
+import { CalendarExportHandler } from '../../handlers/calendar-export';
+import { CalendarHandler } from '../../handlers/calendar';
+import { RecommendationItem } from '../../models/recommendation';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+import { generateRecommendations } from '../../services/recommendation-engine';
+
+const now = new Date('2025-01-15T12:00:00.000Z');
+
+const tree = (treeId: string, overrides: Partial<TreeItem> = {}): TreeItem => ({
+  treeId,
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7128, -74.006], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 14, trunkDiameter: 4, canopySpread: 10, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 40, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2023-01-01T00:00:00.000Z',
+  updatedAt: '2023-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Content lines with folding undone
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('Calendar Handlers', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let calendarHandler: CalendarHandler;
+  let calendarExportHandler: CalendarExportHandler;
+
+  const request = async (httpMethod: string, userId = 'user-123') => {
+    const result = await calendarHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod,
+        path: '/calendar/feed',
+        headers: { Host: 'api.example.com', 'X-Forwarded-Proto': 'https' },
+      }),
+      mockContext
+    );
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  };
+
+  const fetchFeed = (url: string) =>
+    calendarExportHandler.handler(createMockEvent({ path: new URL(url).pathname }), mockContext);
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    calendarHandler = new CalendarHandler(repositories);
+    calendarExportHandler = new CalendarExportHandler(repositories);
+    await repositories.trees.create(tree('tree_1'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.API_BASE_URL;
+  });
+
+  describe('/calendar/feed', () => {
+    it('should create a secret feed URL on the API\'s host', async () => {
+      const result = await request('POST');
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body.data).toEqual({
+        url: expect.stringMatching(/^https:\/\/api\.example\.com\/calendar\/feeds\/[A-Za-z0-9_-]{43}\.ics$/),
+        createdAt: now.toISOString(),
+      });
+      expect((await repositories.calendarFeeds.get('user-123'))?.tokenHash).not.toContain(
+        result.body.data.url.split('/').pop().replace('.ics', '')
+      );
+    });
+
+    it('should build the URL on API_BASE_URL when it is set', async () => {
+      process.env.API_BASE_URL = 'https://trees.example.com/v1/';
+
+      const result = await request('POST');
+
+      expect(result.body.data.url).toMatch(/^https:\/\/trees\.example\.com\/v1\/calendar\/feeds\//);
+    });
+
+    it('should tell whether there is a feed without giving the URL away again', async () => {
+      expect((await request('GET')).statusCode).toBe(404);
+
+      await request('POST');
+      const result = await request('GET');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body.data).toEqual({ createdAt: now.toISOString() });
+    });
+
+    it('should revoke the previous URL when a new one is created', async () => {
+      const first = await request('POST');
+      const second = await request('POST');
+
+      expect(second.body.data.url).not.toBe(first.body.data.url);
+      expect((await fetchFeed(first.body.data.url)).statusCode).toBe(404);
+      expect((await fetchFeed(second.body.data.url)).statusCode).toBe(200);
+    });
+
+    it('should revoke the URL when the feed is deleted', async () => {
+      const created = await request('POST');
+
+      const result = await request('DELETE');
+
+      expect(result.statusCode).toBe(200);
+      expect((await fetchFeed(created.body.data.url)).statusCode).toBe(404);
+      expect((await request('DELETE')).statusCode).toBe(404);
+    });
+
+    it('should require authentication', async () => {
+      const result = await calendarHandler.handler(
+        createMockEvent({ httpMethod: 'POST', path: '/calendar/feed' }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /calendar/feeds/{token}.ics', () => {
+    const feedLines = async () => {
+      const { body } = await request('POST');
+      const result = await fetchFeed(body.data.url);
+      expect(result.statusCode).toBe(200);
+      return unfold(result.body);
+    };
+
+    it('should serve the upcoming tasks as an iCalendar feed', async () => {
+      const created = await request('POST');
+      const result = await fetchFeed(created.body.data.url);
+      const expected = generateRecommendations(tree('tree_1'), now);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers!['Content-Type']).toBe('text/calendar; charset=utf-8');
+      expect(result.body.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(result.body.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+      const lines = unfold(result.body);
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(expected.length);
+      expect(lines).toContain(`UID:${expected[0].id}@treecare`);
+      expect(lines).toContain(`SUMMARY:${expected[0].title} – Front Yard Oak`);
+      expect(lines).toContain('LOCATION:Front Yard Oak\\, front yard');
+      expect(lines).toContain('GEO:40.7128;-74.006');
+    });
+
+    it('should include every active tree of the user, and only theirs', async () => {
+      await repositories.trees.create(tree('tree_2', { name: 'Backyard Maple' }));
+      await repositories.trees.create(tree('tree_3', { name: 'Old Elm', status: 'archived' }));
+      await repositories.trees.create(tree('tree_4', { name: 'Neighbour\'s Birch', userId: 'user-456' }));
+
+      const lines = await feedLines();
+
+      expect(lines.some((line) => line.includes('Backyard Maple'))).toBe(true);
+      expect(lines.some((line) => line.includes('Old Elm'))).toBe(false);
+      expect(lines.some((line) => line.includes('Birch'))).toBe(false);
+    });
+
+    it('should include the active trees shared with the user', async () => {
+      const share = async (treeId: string, name: string, status: TreeItem['status'] = 'active') => {
+        await repositories.trees.create(tree(treeId, { name, userId: 'user-456', status }));
+        await repositories.treeMembers.save({
+          treeId,
+          userId: 'user-123',
+          ownerId: 'user-456',
+          email: 'partner@example.com',
+          role: 'editor',
+          invitationId: `inv_${treeId}`,
+          createdAt: '2024-12-01T00:00:00.000Z',
+          updatedAt: '2024-12-01T00:00:00.000Z',
+        });
+      };
+      await share('tree_shared', 'Shared Birch');
+      await share('tree_shared_archived', 'Archived Willow', 'archived');
+
+      const lines = await feedLines();
+
+      expect(lines.some((line) => line.includes('Front Yard Oak'))).toBe(true);
+      expect(lines.some((line) => line.includes('Shared Birch'))).toBe(true);
+      expect(lines.some((line) => line.includes('Archived Willow'))).toBe(false);
+    });
+
+    it('should leave out completed tasks', async () => {
+      const [{ id, ...completed }] = generateRecommendations(tree('tree_1'), now);
+      const item: RecommendationItem = {
+        ...completed,
+        recommendationId: id,
+        userId: 'user-123',
+        windowStart: completed.timing.windowStart,
+        status: 'completed',
+        completedAt: now.toISOString(),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      await repositories.recommendations.createIfNew(item);
+
+      const lines = await feedLines();
+
+      expect(lines).not.toContain(`UID:${id}@treecare`);
+    });
+
+    it('should change with the tasks without a new URL', async () => {
+      const { body } = await request('POST');
+      const before = unfold((await fetchFeed(body.data.url)).body);
+
+      await repositories.trees.create(tree('tree_2', { name: 'Backyard Maple' }));
+      const after = unfold((await fetchFeed(body.data.url)).body);
+
+      expect(before.some((line) => line.includes('Backyard Maple'))).toBe(false);
+      expect(after.some((line) => line.includes('Backyard Maple'))).toBe(true);
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      const result = await calendarExportHandler.handler(
+        createMockEvent({ path: '/calendar/feeds/not-a-token.ics' }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.headers!['Content-Type']).toBe('application/json');
+    });
+  });
+});
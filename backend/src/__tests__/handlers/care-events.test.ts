@@ -0,0 +1,217 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+import { CareEventsHandler } from '../../handlers/care-events';
+import { PhotoItem } from '../../models/photo';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const tree: TreeItem = {
+  treeId: 'tree_1',
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const photo = (photoId: string, overrides: Partial<PhotoItem> = {}): PhotoItem => ({
+  photoId,
+  treeId: 'tree_1',
+  userId: 'user-123',
+  s3Key: `users/user-123/trees/tree_1/${photoId}.jpg`,
+  contentType: 'image/jpeg',
+  status: 'uploaded',
+  capturedAt: '2025-04-01T00:00:00.000Z',
+  createdAt: '2025-04-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Care Events Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let careEventsHandler: CareEventsHandler;
+
+  const request = async (
+    httpMethod: string,
+    path: string,
+    { body, query, userId = 'user-123' }: { body?: unknown; query?: Record<string, string>; userId?: string } = {}
+  ) => {
+    const result = await careEventsHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod,
+        path,
+        body: body === undefined ? null : JSON.stringify(body),
+        queryStringParameters: query ?? null,
+      }),
+      mockContext
+    );
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  };
+
+  const record = (body: Record<string, unknown>) => request('POST', '/trees/tree_1/care-events', { body });
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    careEventsHandler = new CareEventsHandler(repositories);
+    await repositories.trees.create(tree);
+  });
+
+  describe('POST /trees/{treeId}/care-events', () => {
+    it('should record a pruning with the branches removed and photos', async () => {
+      await repositories.photos.save(photo('photo_before'));
+
+      const result = await record({
+        type: 'pruning',
+        date: '2025-04-02',
+        notes: '  Took out two crossing limbs ',
+        photoIds: ['photo_before'],
+        branchesRemoved: [{ diameter: 1.5, location: 'north side', reason: 'crossing' }, { diameter: 0.75 }],
+      });
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body.data).toMatchObject({
+        treeId: 'tree_1',
+        type: 'pruning',
+        date: '2025-04-02',
+        notes: 'Took out two crossing limbs',
+        photoIds: ['photo_before'],
+        branchesRemoved: [{ diameter: 1.5, location: 'north side', reason: 'crossing' }, { diameter: 0.75 }],
+      });
+      expect(result.body.data.id).toMatch(/^care_/);
+      expect(await repositories.careEvents.get(result.body.data.id, 'tree_1')).toMatchObject({ userId: 'user-123' });
+    });
+
+    it('should only record branches removed for pruning', async () => {
+      const result = await record({ type: 'watering', date: '2025-04-02', branchesRemoved: [{ diameter: 1 }] });
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.details).toEqual([
+        { location: 'body', path: 'branchesRemoved', message: 'is only recorded for pruning' },
+      ]);
+    });
+
+    it("should reject photos that are not the user's uploads of the tree", async () => {
+      await repositories.photos.save(photo('photo_pending', { status: 'pending' }));
+      await repositories.photos.save(photo('photo_theirs', { userId: 'user-456' }));
+
+      const result = await record({
+        type: 'inspection',
+        date: '2025-04-02',
+        photoIds: ['photo_pending', 'photo_theirs', 'photo_missing'],
+      });
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.details.map((detail: any) => detail.path)).toEqual([
+        'photoIds[0]',
+        'photoIds[1]',
+        'photoIds[2]',
+      ]);
+    });
+
+    it('should validate the type and date', async () => {
+      const result = await record({ type: 'mulching', date: 'yesterday' });
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.details.map((detail: any) => detail.path).sort()).toEqual(['date', 'type']);
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      const result = await request('POST', '/trees/tree_1/care-events', {
+        body: { type: 'watering', date: '2025-04-02' },
+        userId: 'user-456',
+      });
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /trees/{treeId}/care-events', () => {
+    beforeEach(async () => {
+      await record({ type: 'watering', date: '2025-03-01' });
+      await record({ type: 'fertilizing', date: '2025-05-01' });
+      await record({ type: 'watering', date: '2025-04-01' });
+    });
+
+    it('should list the care log most recent first, a page at a time', async () => {
+      const first = await request('GET', '/trees/tree_1/care-events', { query: { limit: '2' } });
+      const second = await request('GET', '/trees/tree_1/care-events', {
+        query: { limit: '2', cursor: first.body.data.pagination.nextCursor },
+      });
+
+      expect(first.statusCode).toBe(200);
+      expect(first.body.data.careEvents.map((event: any) => event.date)).toEqual(['2025-05-01', '2025-04-01']);
+      expect(second.body.data.careEvents.map((event: any) => event.date)).toEqual(['2025-03-01']);
+      expect(second.body.data.pagination.nextCursor).toBeNull();
+    });
+
+    it('should filter by type', async () => {
+      const result = await request('GET', '/trees/tree_1/care-events', { query: { type: 'watering' } });
+
+      expect(result.body.data.careEvents.map((event: any) => event.date)).toEqual(['2025-04-01', '2025-03-01']);
+    });
+  });
+
+  describe('/trees/{treeId}/care-events/{careEventId}', () => {
+    let careEventId: string;
+
+    beforeEach(async () => {
+      const created = await record({
+        type: 'pruning',
+        date: '2025-04-02',
+        notes: 'Raised the canopy',
+        branchesRemoved: [{ diameter: 2 }],
+      });
+      careEventId = created.body.data.id;
+    });
+
+    it('should get a care event', async () => {
+      const result = await request('GET', `/trees/tree_1/care-events/${careEventId}`);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body.data).toMatchObject({ id: careEventId, notes: 'Raised the canopy' });
+    });
+
+    it('should update the fields given, dropping branches when no longer a pruning', async () => {
+      const notes = await request('PUT', `/trees/tree_1/care-events/${careEventId}`, {
+        body: { notes: 'Raised it to 8ft' },
+      });
+      const retyped = await request('PUT', `/trees/tree_1/care-events/${careEventId}`, {
+        body: { type: 'inspection' },
+      });
+
+      expect(notes.body.data).toMatchObject({ notes: 'Raised it to 8ft', branchesRemoved: [{ diameter: 2 }] });
+      expect(retyped.statusCode).toBe(200);
+      expect(retyped.body.data).toMatchObject({ type: 'inspection', date: '2025-04-02', notes: 'Raised it to 8ft' });
+      expect(retyped.body.data.branchesRemoved).toBeUndefined();
+    });
+
+    it('should delete a care event', async () => {
+      const deleted = await request('DELETE', `/trees/tree_1/care-events/${careEventId}`);
+      const fetched = await request('GET', `/trees/tree_1/care-events/${careEventId}`);
+
+      expect(deleted.statusCode).toBe(200);
+      expect(fetched.statusCode).toBe(404);
+    });
+
+    it("should not expose another user's care event", async () => {
+      await repositories.trees.create({ ...tree, userId: 'user-456' });
+
+      const result = await request('DELETE', `/trees/tree_1/care-events/${careEventId}`, { userId: 'user-456' });
+
+      expect(result.statusCode).toBe(404);
+      expect(await repositories.careEvents.get(careEventId, 'tree_1')).toBeDefined();
+    });
+  });
+});
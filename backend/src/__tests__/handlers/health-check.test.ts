@@ -2,26 +2,44 @@ import { APIGatewayProxyEvent, Context } from 'aws-lambda';
 
 // Create mock clients
 const mockDynamoDBClient = {
-  scan: jest.fn(),
+  describeTable: jest.fn(),
 };
 
 const mockS3Client = {
-  listBuckets: jest.fn(),
+  headBucket: jest.fn(),
 };
 
 const mockCognitoClient = {
-  listUserPools: jest.fn(),
+  describeUserPool: jest.fn(),
 };
 
 // Mock AWS SDK
 jest.mock('aws-sdk', () => ({
-  DynamoDB: {
-    DocumentClient: jest.fn(() => mockDynamoDBClient),
-  },
+  DynamoDB: jest.fn(() => mockDynamoDBClient),
   S3: jest.fn(() => mockS3Client),
   CognitoIdentityServiceProvider: jest.fn(() => mockCognitoClient),
 }));
 
+const resolves = (value: unknown) => ({ promise: jest.fn().mockResolvedValue(value) });
+const rejects = (message: string) => ({ promise: jest.fn().mockRejectedValue(new Error(message)) });
+
+const TABLES = [
+  'usersTable',
+  'treesTable',
+  'photosTable',
+  'subscriptionsTable',
+  'stripeEventsTable',
+  'idempotencyTable',
+  'rateLimitsTable',
+  'recommendationsTable',
+  'notificationsTable',
+  'careEventsTable',
+  'measurementsTable',
+  'calendarFeedsTable',
+  'treeMembersTable',
+  'invitationsTable',
+];
+
 import { handler } from '../../handlers/health-check';
 
 describe('Health Check Handler', () => {
@@ -33,17 +51,12 @@ describe('Health Check Handler', () => {
     jest.clearAllMocks();
 
     // Setup default successful responses
-    mockDynamoDBClient.scan.mockReturnValue({
-      promise: jest.fn().mockResolvedValue({ Items: [] }),
-    });
-
-    mockS3Client.listBuckets.mockReturnValue({
-      promise: jest.fn().mockResolvedValue({ Buckets: [] }),
-    });
-
-    mockCognitoClient.listUserPools.mockReturnValue({
-      promise: jest.fn().mockResolvedValue({ UserPools: [] }),
-    });
+    process.env.AWS_COGNITO_USER_POOL_ID = 'us-east-2_test';
+    mockDynamoDBClient.describeTable.mockImplementation((params: any) =>
+      resolves({ Table: { TableName: params.TableName, TableStatus: 'ACTIVE' } })
+    );
+    mockS3Client.headBucket.mockReturnValue(resolves({}));
+    mockCognitoClient.describeUserPool.mockReturnValue(resolves({ UserPool: { Id: 'us-east-2_test' } }));
 
     mockEvent = {
       body: null,
@@ -107,26 +120,32 @@ describe('Health Check Handler', () => {
   });
 
   describe('Successful Health Checks', () => {
-    it('should return 200 when all services are healthy', async () => {
+    it('should return 200 when all dependencies are healthy', async () => {
       const result = await handler(mockEvent, mockContext);
 
       expect(result.statusCode).toBe(200);
       const body = JSON.parse(result.body);
       expect(body.status).toBe('healthy');
+      expect(body.mode).toBe('ready');
       expect(body.requestId).toBe(mockContext.awsRequestId);
-      expect(body.services).toBeDefined();
+      expect(body.dependencies).toBeDefined();
     });
 
-    it('should include service status for all dependencies', async () => {
+    it('should check every table, the photo bucket and the user pool', async () => {
+      process.env.STAGE = 'dev';
+
       const result = await handler(mockEvent, mockContext);
       const body = JSON.parse(result.body);
 
-      expect(body.services).toHaveProperty('dynamodb');
-      expect(body.services).toHaveProperty('s3');
-      expect(body.services).toHaveProperty('cognito');
-      expect(body.services.dynamodb).toBe('healthy');
-      expect(body.services.s3).toBe('healthy');
-      expect(body.services.cognito).toBe('healthy');
+      expect(Object.keys(body.dependencies).sort()).toEqual([...TABLES, 'photoBucket', 'userPool'].sort());
+      expect(body.dependencies.treesTable).toEqual({
+        status: 'healthy',
+        critical: true,
+        latencyMs: expect.any(Number),
+      });
+      expect(mockDynamoDBClient.describeTable).toHaveBeenCalledWith({ TableName: 'TreeCareTrees-dev' });
+      expect(mockS3Client.headBucket).toHaveBeenCalledWith({ Bucket: 'tree-care-photos-dev' });
+      expect(mockCognitoClient.describeUserPool).toHaveBeenCalledWith({ UserPoolId: 'us-east-2_test' });
     });
 
     it('should include environment information', async () => {
@@ -162,68 +181,107 @@ describe('Health Check Handler', () => {
     });
   });
 
-  describe('Service Health Checks', () => {
-    it('should handle DynamoDB failure gracefully', async () => {
-      mockDynamoDBClient.scan = jest.fn().mockReturnValue({
-        promise: jest.fn().mockRejectedValue(new Error('DynamoDB error')),
-      });
+  describe('Liveness and Readiness', () => {
+    it('should answer liveness without checking dependencies', async () => {
+      mockDynamoDBClient.describeTable.mockReturnValue(rejects('DynamoDB error'));
+      mockEvent.path = '/health/live';
+
+      const result = await handler(mockEvent, mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body).toMatchObject({ status: 'healthy', mode: 'live' });
+      expect(body.dependencies).toBeUndefined();
+      expect(mockDynamoDBClient.describeTable).not.toHaveBeenCalled();
+    });
+
+    it('should check dependencies for readiness', async () => {
+      mockEvent.path = '/health/ready';
+
+      const result = await handler(mockEvent, mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.mode).toBe('ready');
+      expect(Object.keys(body.dependencies)).toHaveLength(TABLES.length + 2);
+    });
+  });
+
+  describe('Dependency Health Checks', () => {
+    it('should be unhealthy when a critical table fails', async () => {
+      mockDynamoDBClient.describeTable.mockImplementation((params: any) =>
+        params.TableName.startsWith('TreeCareTrees')
+          ? rejects('Requested resource not found')
+          : resolves({ Table: { TableStatus: 'ACTIVE' } })
+      );
 
       const result = await handler(mockEvent, mockContext);
       const body = JSON.parse(result.body);
 
       expect(result.statusCode).toBe(503);
       expect(body.status).toBe('unhealthy');
-      expect(body.services.dynamodb).toBe('unhealthy');
-      expect(body.services.s3).toBe('healthy');
-      expect(body.services.cognito).toBe('healthy');
+      expect(body.dependencies.treesTable).toMatchObject({
+        status: 'unhealthy',
+        error: 'Requested resource not found',
+      });
+      expect(body.dependencies.usersTable.status).toBe('healthy');
     });
 
-    it('should handle S3 failure gracefully', async () => {
-      mockS3Client.listBuckets = jest.fn().mockReturnValue({
-        promise: jest.fn().mockRejectedValue(new Error('S3 error')),
-      });
+    it('should be degraded, but still serving, when only a non-critical table fails', async () => {
+      mockDynamoDBClient.describeTable.mockImplementation((params: any) =>
+        params.TableName.startsWith('TreeCareRecommendations')
+          ? rejects('Requested resource not found')
+          : resolves({ Table: { TableStatus: 'ACTIVE' } })
+      );
+
+      const result = await handler(mockEvent, mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.status).toBe('degraded');
+      expect(body.dependencies.recommendationsTable).toMatchObject({ status: 'unhealthy', critical: false });
+    });
+
+    it('should treat a table that is not active as unhealthy', async () => {
+      mockDynamoDBClient.describeTable.mockReturnValue(resolves({ Table: { TableStatus: 'CREATING' } }));
 
       const result = await handler(mockEvent, mockContext);
       const body = JSON.parse(result.body);
 
       expect(result.statusCode).toBe(503);
-      expect(body.status).toBe('unhealthy');
-      expect(body.services.dynamodb).toBe('healthy');
-      expect(body.services.s3).toBe('unhealthy');
-      expect(body.services.cognito).toBe('healthy');
+      expect(body.dependencies.usersTable.error).toBe('TreeCareUsers-dev is CREATING');
     });
 
-    it('should handle Cognito failure gracefully', async () => {
-      mockCognitoClient.listUserPools = jest.fn().mockReturnValue({
-        promise: jest.fn().mockRejectedValue(new Error('Cognito error')),
-      });
+    it('should handle a missing photo bucket', async () => {
+      mockS3Client.headBucket.mockReturnValue(rejects('NotFound'));
 
       const result = await handler(mockEvent, mockContext);
       const body = JSON.parse(result.body);
 
       expect(result.statusCode).toBe(503);
-      expect(body.status).toBe('unhealthy');
-      expect(body.services.dynamodb).toBe('healthy');
-      expect(body.services.s3).toBe('healthy');
-      expect(body.services.cognito).toBe('unhealthy');
+      expect(body.dependencies.photoBucket).toMatchObject({ status: 'unhealthy', error: 'NotFound' });
     });
 
-    it('should handle multiple service failures', async () => {
-      mockDynamoDBClient.scan = jest.fn().mockReturnValue({
-        promise: jest.fn().mockRejectedValue(new Error('DynamoDB error')),
-      });
-      mockS3Client.listBuckets = jest.fn().mockReturnValue({
-        promise: jest.fn().mockRejectedValue(new Error('S3 error')),
-      });
+    it('should handle Cognito failure gracefully', async () => {
+      mockCognitoClient.describeUserPool.mockReturnValue(rejects('Cognito error'));
 
       const result = await handler(mockEvent, mockContext);
       const body = JSON.parse(result.body);
 
       expect(result.statusCode).toBe(503);
       expect(body.status).toBe('unhealthy');
-      expect(body.services.dynamodb).toBe('unhealthy');
-      expect(body.services.s3).toBe('unhealthy');
-      expect(body.errors).toHaveLength(2);
+      expect(body.dependencies.userPool.status).toBe('unhealthy');
+      expect(body.dependencies.photoBucket.status).toBe('healthy');
+    });
+
+    it('should report an unconfigured user pool', async () => {
+      delete process.env.AWS_COGNITO_USER_POOL_ID;
+
+      const result = await handler(mockEvent, mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(body.dependencies.userPool.error).toBe('AWS_COGNITO_USER_POOL_ID is not set');
+      expect(mockCognitoClient.describeUserPool).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,228 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+import { MeasurementsHandler } from '../../handlers/measurements';
+import { MeasurementItem } from '../../models/measurement';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+import { GROWTH_HEALTH_PENALTY } from '../../services/growth';
+
+const tree: TreeItem = {
+  treeId: 'tree_1',
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2023-01-01T00:00:00.000Z',
+  updatedAt: '2023-01-01T00:00:00.000Z',
+};
+
+const measurement = (measurementId: string, measuredAt: string, values: Partial<MeasurementItem>): MeasurementItem => ({
+  measurementId,
+  treeId: 'tree_1',
+  userId: 'user-123',
+  measuredAt,
+  source: 'manual',
+  createdAt: measuredAt,
+  ...values,
+});
+
+// Relative to today, as measurements can't be dated in the future
+const yearsAgo = (years: number) => new Date(Date.now() - years * 365 * 24 * 60 * 60 * 1000).toISOString();
+
+describe('Measurements Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let measurementsHandler: MeasurementsHandler;
+
+  const request = async (
+    httpMethod: string,
+    path: string,
+    { body, query, userId = 'user-123' }: { body?: unknown; query?: Record<string, string>; userId?: string } = {}
+  ) => {
+    const result = await measurementsHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod,
+        path,
+        body: body === undefined ? null : JSON.stringify(body),
+        queryStringParameters: query ?? null,
+      }),
+      mockContext
+    );
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  };
+
+  const record = (body: Record<string, unknown>) => request('POST', '/trees/tree_1/measurements', { body });
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    measurementsHandler = new MeasurementsHandler(repositories);
+    await repositories.trees.create(tree);
+  });
+
+  describe('POST /trees/{treeId}/measurements', () => {
+    it('should record a dated manual measurement and update the tree', async () => {
+      const measuredAt = yearsAgo(0.1);
+
+      const result = await record({ measuredAt, height: 11.5, canopySpread: 7 });
+      const stored = await repositories.trees.get('tree_1', 'user-123');
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body.data).toEqual({
+        id: expect.stringMatching(/^meas_/),
+        treeId: 'tree_1',
+        measuredAt,
+        source: 'manual',
+        height: 11.5,
+        canopySpread: 7,
+        createdAt: expect.any(String),
+      });
+      expect(stored?.currentStatus).toMatchObject({ height: 11.5, trunkDiameter: 3, canopySpread: 7 });
+      expect(stored?.currentStatus.growth?.signal).toBe('unknown');
+      expect(stored?.version).toBe(2);
+    });
+
+    it('should keep the tree at its latest measurement when an older one is recorded', async () => {
+      await record({ height: 12 });
+      await record({ measuredAt: yearsAgo(1), height: 10 });
+
+      const stored = await repositories.trees.get('tree_1', 'user-123');
+
+      expect(stored?.currentStatus.height).toBe(12);
+    });
+
+    it('should lower the health score while the tree grows slower than expected', async () => {
+      await repositories.measurements.create(measurement('meas_1', yearsAgo(2), { height: 10 }));
+      await repositories.measurements.create(measurement('meas_2', yearsAgo(1), { height: 10.2 }));
+
+      await record({ height: 10.4 });
+      let stored = await repositories.trees.get('tree_1', 'user-123');
+
+      expect(stored?.currentStatus.growth?.signal).toBe('slower_than_expected');
+      expect(stored?.currentStatus.healthScore).toBe(90 - GROWTH_HEALTH_PENALTY);
+
+      await record({ height: 14 });
+      stored = await repositories.trees.get('tree_1', 'user-123');
+
+      expect(stored?.currentStatus.growth?.signal).toBe('as_expected');
+      expect(stored?.currentStatus.healthScore).toBe(90);
+    });
+
+    it('should require at least one metric', async () => {
+      const result = await record({ measuredAt: yearsAgo(0.1) });
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.details).toEqual([
+        { location: 'body', path: 'height', message: 'or trunkDiameter or canopySpread is required' },
+      ]);
+    });
+
+    it('should reject measurements from the future and negative sizes', async () => {
+      const future = await record({ measuredAt: '2999-01-01T00:00:00.000Z', height: 12 });
+      const negative = await record({ trunkDiameter: -1 });
+
+      expect(future.statusCode).toBe(400);
+      expect(future.body.details[0]).toMatchObject({ path: 'measuredAt' });
+      expect(negative.statusCode).toBe(400);
+      expect(negative.body.details[0]).toMatchObject({ path: 'trunkDiameter' });
+    });
+
+    it('should return 404 for another user\'s tree', async () => {
+      const result = await request('POST', '/trees/tree_1/measurements', { body: { height: 12 }, userId: 'user-456' });
+
+      expect(result.statusCode).toBe(404);
+      expect(await repositories.measurements.listAllByTree('tree_1', 'user-456')).toEqual([]);
+    });
+
+    it('should start over from the stored tree when it changed meanwhile', async () => {
+      const save = repositories.trees.save.bind(repositories.trees);
+      let first = true;
+      repositories.trees.save = async (item, expectedVersion) => {
+        if (first) {
+          first = false;
+          const current = await repositories.trees.get('tree_1', 'user-123');
+          await save({ ...current!, name: 'Renamed on the phone', version: 2 }, 1);
+        }
+        return save(item, expectedVersion);
+      };
+
+      const result = await record({ height: 12 });
+      const stored = await repositories.trees.get('tree_1', 'user-123');
+
+      expect(result.statusCode).toBe(201);
+      expect(stored).toMatchObject({ name: 'Renamed on the phone', version: 3 });
+      expect(stored?.currentStatus.height).toBe(12);
+    });
+  });
+
+  describe('GET /trees/{treeId}/measurements', () => {
+    beforeEach(async () => {
+      await repositories.measurements.create(measurement('meas_1', '2024-01-01T00:00:00.000Z', { height: 10 }));
+      await repositories.measurements.create(
+        measurement('meas_2', '2024-06-01T00:00:00.000Z', { height: 11, source: 'photo_analysis', photoId: 'photo_1' })
+      );
+      await repositories.measurements.create(measurement('meas_3', '2025-01-01T00:00:00.000Z', { trunkDiameter: 4 }));
+    });
+
+    it('should list measurements newest first, a page at a time', async () => {
+      const first = await request('GET', '/trees/tree_1/measurements', { query: { limit: '2' } });
+
+      expect(first.statusCode).toBe(200);
+      expect(first.body.data.measurements.map((item: { id: string }) => item.id)).toEqual(['meas_3', 'meas_2']);
+      expect(first.body.data.measurements[1]).toMatchObject({ source: 'photo_analysis', photoId: 'photo_1' });
+      expect(first.body.data.pagination.nextCursor).toEqual(expect.any(String));
+
+      const second = await request('GET', '/trees/tree_1/measurements', {
+        query: { limit: '2', cursor: first.body.data.pagination.nextCursor },
+      });
+
+      expect(second.body.data.measurements.map((item: { id: string }) => item.id)).toEqual(['meas_1']);
+      expect(second.body.data.pagination.nextCursor).toBeNull();
+    });
+
+    it('should return 404 for an unknown tree', async () => {
+      const result = await request('GET', '/trees/tree_missing/measurements');
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /trees/{treeId}/growth', () => {
+    it('should give the annual growth rates against the species\' expected rates', async () => {
+      await repositories.measurements.create(measurement('meas_1', yearsAgo(2), { height: 10, trunkDiameter: 3 }));
+      await repositories.measurements.create(measurement('meas_2', yearsAgo(1), { height: 11.5 }));
+      await repositories.measurements.create(measurement('meas_3', yearsAgo(0), { height: 13, trunkDiameter: 3.1 }));
+
+      const result = await request('GET', '/trees/tree_1/growth');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body.data).toMatchObject({
+        treeId: 'tree_1',
+        signal: 'slower_than_expected',
+        metrics: {
+          height: { annualRate: 1.5, expectedRate: [1, 2], status: 'as_expected', observations: 3 },
+          trunkDiameter: { annualRate: 0.05, expectedRate: [0.25, 0.5], status: 'slower_than_expected', observations: 2 },
+          canopySpread: { annualRate: null, status: 'unknown', observations: 0 },
+        },
+      });
+    });
+
+    it('should be unknown until there is enough history', async () => {
+      await record({ height: 12 });
+
+      const result = await request('GET', '/trees/tree_1/growth');
+
+      expect(result.body.data.signal).toBe('unknown');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { NotificationDispatcher } from '../../handlers/notification-dispatcher';
+import { NotificationItem } from '../../models/notification';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+import { configurePushProvider, LocalPushProvider, resetPushProvider } from '../../services/push-provider';
+
+let repositories: Repositories;
+
+const seed = (notificationId: string, dueAt: string, overrides: Partial<NotificationItem> = {}) =>
+  repositories.notifications.create({
+    notificationId,
+    userId: 'user-123',
+    type: 'care_reminder',
+    title: 'Time to prune',
+    message: 'The dormant pruning window is open',
+    scheduledTime: dueAt,
+    dueAt,
+    channels: ['push'],
+    status: 'pending',
+    attempts: 0,
+    createdAt: '2025-02-01T00:00:00.000Z',
+    updatedAt: '2025-02-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+const stored = (notificationId: string) => repositories.notifications.get(notificationId);
+
+const runAt = (time: string) => new NotificationDispatcher(repositories).dispatchDue(new Date(time));
+
+describe('Notification dispatcher', () => {
+  let provider: LocalPushProvider;
+
+  beforeEach(() => {
+    repositories = inMemoryRepositories();
+    provider = new LocalPushProvider();
+    configurePushProvider(provider);
+  });
+
+  afterAll(() => {
+    resetPushProvider();
+  });
+
+  it('should send only notifications that are due', async () => {
+    await seed('notif_due', '2025-02-12T08:00:00.000Z');
+    await seed('notif_later', '2025-02-12T10:00:00.000Z');
+
+    const summary = await runAt('2025-02-12T09:00:00Z');
+
+    expect(summary).toEqual({ processed: 1, sent: 1, retrying: 0, failed: 0 });
+    expect(provider.sent.map((message) => message.notificationId)).toEqual(['notif_due']);
+    expect(await stored('notif_due')).toMatchObject({ status: 'sent', sentAt: '2025-02-12T09:00:00.000Z' });
+    expect((await stored('notif_later'))?.status).toBe('pending');
+  });
+
+  it('should retry transient failures on later runs and then succeed', async () => {
+    await seed('notif_1', '2025-02-12T08:00:00.000Z');
+    provider.failNext({ error: 'Service unavailable', retryable: true });
+
+    const first = await runAt('2025-02-12T09:00:00Z');
+    const tooSoon = await runAt('2025-02-12T09:00:30Z');
+    const retry = await runAt('2025-02-12T09:01:00Z');
+
+    expect(first).toMatchObject({ retrying: 1 });
+    expect(tooSoon.processed).toBe(0);
+    expect(retry).toMatchObject({ sent: 1 });
+    expect(await stored('notif_1')).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  it('should mark notifications failed when delivery cannot succeed', async () => {
+    await seed('notif_1', '2025-02-12T08:00:00.000Z');
+    await seed('notif_2', '2025-02-12T08:30:00.000Z', { attempts: 3, lastError: 'Service unavailable' });
+    provider.failNext(
+      { error: 'DeviceNotRegistered', retryable: false },
+      { error: 'Service unavailable', retryable: true }
+    );
+
+    const summary = await runAt('2025-02-12T09:00:00Z');
+
+    expect(summary).toEqual({ processed: 2, sent: 0, retrying: 0, failed: 2 });
+    expect(await stored('notif_1')).toMatchObject({ status: 'failed', lastError: 'DeviceNotRegistered' });
+    expect(await stored('notif_2')).toMatchObject({ status: 'failed', attempts: 4 });
+  });
+
+  it('should not send notifications another run has claimed', async () => {
+    await seed('notif_1', '2025-02-12T08:00:00.000Z');
+    jest.spyOn(repositories.notifications, 'saveAttempt').mockResolvedValueOnce(false);
+
+    const summary = await runAt('2025-02-12T09:00:00Z');
+
+    expect(summary.processed).toBe(0);
+    expect(provider.sent).toEqual([]);
+  });
+
+  it('should send a notification once when runs overlap', async () => {
+    await seed('notif_1', '2025-02-12T08:00:00.000Z');
+
+    const summaries = await Promise.all([runAt('2025-02-12T09:00:00Z'), runAt('2025-02-12T09:00:00Z')]);
+
+    expect(summaries.map((summary) => summary.sent).sort()).toEqual([0, 1]);
+    expect(provider.sent).toHaveLength(1);
+    expect(await stored('notif_1')).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('should claim the attempt before sending, and send again once the claim of a dead run times out', async () => {
+    await seed('notif_1', '2025-02-12T08:00:00.000Z');
+    const { notifications } = repositories;
+    let claimedWhileSending: NotificationItem | undefined;
+    const send = provider.send.bind(provider);
+    jest.spyOn(provider, 'send').mockImplementationOnce(async (message) => {
+      claimedWhileSending = await stored('notif_1');
+      return send(message);
+    });
+    const saveAttempt = notifications.saveAttempt.bind(notifications);
+    jest
+      .spyOn(notifications, 'saveAttempt')
+      .mockImplementationOnce(saveAttempt)
+      .mockRejectedValueOnce(new Error('Lambda timed out'));
+
+    await expect(runAt('2025-02-12T09:00:00Z')).rejects.toThrow('Lambda timed out');
+    const whileClaimed = await runAt('2025-02-12T09:10:00Z');
+    const afterTimeout = await runAt('2025-02-12T09:15:00Z');
+
+    expect(claimedWhileSending).toMatchObject({ status: 'pending', attempts: 1, dueAt: '2025-02-12T09:15:00.000Z' });
+    expect(whileClaimed.processed).toBe(0);
+    expect(afterTimeout).toMatchObject({ sent: 1 });
+    expect(await stored('notif_1')).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+});
@@ -0,0 +1,202 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+import { NotificationsHandler } from '../../handlers/notifications';
+import { NotificationStatus } from '../../models/notification';
+import { MemberRole } from '../../models/sharing';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const tree: TreeItem = {
+  treeId: 'tree_1',
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const notificationBody = {
+  treeId: 'tree_1',
+  type: 'care_reminder',
+  title: 'Time to check your Red Oak',
+  message: 'Optimal pruning window opens in 3 days',
+  scheduledTime: '2025-02-12T09:00:00Z',
+  metadata: { recommendationId: 'rec_123', priority: 'high' },
+};
+
+describe('Notifications Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let notificationsHandler: NotificationsHandler;
+
+  const schedule = async (body: any = notificationBody, userId = 'user-123') => {
+    const result = await notificationsHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod: 'POST',
+        path: '/notifications/schedule',
+        body: JSON.stringify(body),
+      }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  const list = async (query: Record<string, string> | null = null) => {
+    const result = await notificationsHandler.handler(
+      createAuthorizedEvent('user-123', { path: '/notifications', queryStringParameters: query }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    notificationsHandler = new NotificationsHandler(repositories);
+    await repositories.trees.create(tree);
+  });
+
+  describe('POST /notifications/schedule', () => {
+    it('should store a pending notification due at the scheduled time', async () => {
+      const { result, body } = await schedule();
+      const item = await repositories.notifications.get(body.data.notificationId);
+
+      expect(result.statusCode).toBe(201);
+      expect(body.data).toMatchObject({
+        notificationId: expect.stringMatching(/^notif_/),
+        status: 'pending',
+        attempts: 0,
+        channels: ['push'],
+        scheduledTime: '2025-02-12T09:00:00.000Z',
+      });
+      expect(item).toMatchObject({ userId: 'user-123', dueAt: '2025-02-12T09:00:00.000Z' });
+    });
+
+    it('should allow notifications that are not about a tree', async () => {
+      const { result, body } = await schedule({
+        type: 'general',
+        title: 'Spring checklist',
+        message: 'Time to look over all your trees',
+        scheduledTime: '2025-03-20T09:00:00Z',
+      });
+
+      expect(result.statusCode).toBe(201);
+      expect(body.data).not.toHaveProperty('treeId');
+    });
+
+    it('should require a plan with weather alerts for weather alert notifications', async () => {
+      const weatherAlert = { ...notificationBody, type: 'weather_alert', title: 'Frost tonight' };
+
+      const { result, body } = await schedule(weatherAlert);
+      await repositories.subscriptions.applyStripeUpdate('user-123', {
+        subscriptionTier: 'arborist',
+        status: 'active',
+        stripeEventCreated: 1,
+      });
+      const { result: upgraded } = await schedule(weatherAlert);
+
+      expect(result.statusCode).toBe(402);
+      expect(body.details).toEqual({ entitlement: 'weatherAlerts', tier: 'free', requiredTier: 'arborist' });
+      expect(upgraded.statusCode).toBe(201);
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      const { result } = await schedule(notificationBody, 'user-456');
+
+      expect(result.statusCode).toBe(404);
+      expect(await repositories.notifications.listByUser('user-456', { limit: 10 })).toEqual([]);
+    });
+
+    it('should let members who can edit the tree schedule notifications about it', async () => {
+      const share = (userId: string, role: MemberRole) =>
+        repositories.treeMembers.save({
+          treeId: 'tree_1',
+          userId,
+          ownerId: 'user-123',
+          email: `${userId}@example.com`,
+          role,
+          invitationId: `inv_${userId}`,
+          createdAt: '2025-01-02T00:00:00.000Z',
+          updatedAt: '2025-01-02T00:00:00.000Z',
+        });
+      await share('user-456', 'editor');
+      await share('user-789', 'viewer');
+
+      const { result: editor, body } = await schedule(notificationBody, 'user-456');
+      const { result: viewer } = await schedule(notificationBody, 'user-789');
+
+      expect(editor.statusCode).toBe(201);
+      expect(await repositories.notifications.get(body.data.notificationId)).toMatchObject({
+        userId: 'user-456',
+        treeId: 'tree_1',
+      });
+      expect(viewer.statusCode).toBe(403);
+      expect(await repositories.notifications.listByUser('user-789', { limit: 10 })).toEqual([]);
+    });
+
+    it('should reject unsupported channels and missing fields', async () => {
+      const { result, body } = await schedule({ ...notificationBody, channels: ['sms'], title: undefined });
+
+      expect(result.statusCode).toBe(400);
+      expect(body.details.map((detail: any) => detail.path)).toEqual(['title', 'channels[0]']);
+    });
+  });
+
+  describe('GET /notifications', () => {
+    beforeEach(async () => {
+      const seed = (notificationId: string, status: NotificationStatus, scheduledTime: string, userId = 'user-123') =>
+        repositories.notifications.create({
+          notificationId,
+          userId,
+          treeId: 'tree_1',
+          type: 'care_reminder',
+          title: notificationBody.title,
+          message: notificationBody.message,
+          status,
+          scheduledTime,
+          dueAt: scheduledTime,
+          attempts: status === 'pending' ? 0 : 1,
+          channels: ['push'],
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+        });
+      await seed('notif_1', 'sent', '2025-02-01T09:00:00.000Z');
+      await seed('notif_2', 'pending', '2025-02-12T09:00:00.000Z');
+      await seed('notif_3', 'failed', '2025-02-05T09:00:00.000Z');
+      await seed('notif_4', 'pending', '2025-02-20T09:00:00.000Z', 'user-456');
+    });
+
+    it("should list the caller's notifications, latest first", async () => {
+      const { result, body } = await list();
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.notifications.map((n: any) => n.notificationId)).toEqual(['notif_2', 'notif_3', 'notif_1']);
+      expect(body.data.notifications[0]).not.toHaveProperty('userId');
+    });
+
+    it('should filter by status and apply the limit', async () => {
+      const failed = await list({ status: 'failed' });
+      const limited = await list({ limit: '1' });
+
+      expect(failed.body.data.notifications.map((n: any) => n.notificationId)).toEqual(['notif_3']);
+      expect(limited.body.data.notifications).toHaveLength(1);
+    });
+
+    it('should reject an unknown status', async () => {
+      const { result } = await list({ status: 'queued' });
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+});
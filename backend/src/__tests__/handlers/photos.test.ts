@@ -0,0 +1,441 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+
+// Objects "uploaded" to the photo bucket, by key
+const mockObjects = new Map<string, { ContentLength: number; ContentType: string }>();
+
+const mockS3Client = {
+  getSignedUrlPromise: jest.fn(async (operation: string, params: any) =>
+    `https://photos.example.com/${params.Key}?op=${operation}&expires=${params.Expires}`
+  ),
+  headObject: jest.fn((params: any) => ({
+    promise: jest.fn(async () => {
+      const object = mockObjects.get(params.Key);
+      if (!object) {
+        throw Object.assign(new Error('Not Found'), { code: 'NotFound', statusCode: 404 });
+      }
+      return object;
+    }),
+  })),
+  deleteObject: jest.fn((params: any) => ({
+    promise: jest.fn(async () => {
+      mockObjects.delete(params.Key);
+      return {};
+    }),
+  })),
+};
+
+jest.mock('aws-sdk', () => ({
+  ...jest.requireActual('aws-sdk'),
+  S3: jest.fn(() => mockS3Client),
+}));
+
+import { PhotosHandler } from '../../handlers/photos';
+import { SubscriptionTier, UsageCounterAttribute } from '../../models/subscription';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const treeItem = (treeId: string, userId = 'user-123'): TreeItem => ({
+  treeId,
+  userId,
+  name: 'Front Yard Oak',
+  plantedDate: '2020-03-15',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red Oak', speciesId: 'quercus_rubra' },
+  location: { yardPosition: 'front yard', coordinates: [40.7128, -74.006], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 14, trunkDiameter: 4, canopySpread: 10, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 40, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Photos Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let photosHandler: PhotosHandler;
+
+  const setTier = async (
+    subscriptionTier: SubscriptionTier,
+    usage: Record<UsageCounterAttribute, number> = {},
+    userId = 'user-123'
+  ) => {
+    await repositories.subscriptions.applyStripeUpdate(userId, { subscriptionTier, status: 'active', stripeEventCreated: 1 });
+    for (const [counter, amount] of Object.entries(usage)) {
+      await repositories.subscriptions.addUsage(userId, counter as UsageCounterAttribute, amount);
+    }
+  };
+
+  const storedPhoto = async (photoId: string, treeId = 'tree_1') => (await repositories.photos.get(photoId, treeId))!;
+
+  const requestUpload = async (treeId = 'tree_1', userId = 'user-123', body: any = {}) =>
+    photosHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod: 'POST',
+        path: `/trees/${treeId}/photos`,
+        body: JSON.stringify({ contentType: 'image/jpeg', contentLength: 2048, ...body }),
+      }),
+      mockContext
+    );
+
+  const complete = async (photoId: string, body: any = {}, treeId = 'tree_1', userId = 'user-123') =>
+    photosHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod: 'POST',
+        path: `/trees/${treeId}/photos/${photoId}/complete`,
+        body: JSON.stringify(body),
+      }),
+      mockContext
+    );
+
+  const uploadPhoto = async (capturedAt: string, treeId = 'tree_1') => {
+    const { data } = JSON.parse((await requestUpload(treeId)).body);
+    const item = await storedPhoto(data.photoId, treeId);
+    mockObjects.set(item.s3Key, { ContentLength: 2048, ContentType: 'image/jpeg' });
+    await complete(data.photoId, { capturedAt, cameraAngle: 'front' }, treeId);
+    return data.photoId as string;
+  };
+
+  const list = async (query: Record<string, string> | null = null, treeId = 'tree_1') => {
+    const result = await photosHandler.handler(
+      createAuthorizedEvent('user-123', {
+        path: `/trees/${treeId}/photos`,
+        queryStringParameters: query,
+      }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-03-15T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    mockObjects.clear();
+    jest.clearAllMocks();
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    photosHandler = new PhotosHandler(repositories);
+    await repositories.trees.create(treeItem('tree_1'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('POST /trees/{treeId}/photos', () => {
+    it('should issue a presigned PUT URL scoped to the user and tree', async () => {
+      const result = await requestUpload();
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(201);
+      expect(body.data.photoId).toMatch(/^photo_/);
+      expect(body.data.method).toBe('PUT');
+      expect(body.data.headers['Content-Type']).toBe('image/jpeg');
+      expect(mockS3Client.getSignedUrlPromise).toHaveBeenCalledWith('putObject', {
+        Bucket: 'tree-care-photos-dev',
+        Key: `users/user-123/trees/tree_1/${body.data.photoId}.jpg`,
+        ContentType: 'image/jpeg',
+        Expires: 300,
+      });
+    });
+
+    it('should record a pending photo that expires', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+      const item = await storedPhoto(data.photoId);
+
+      expect(item.status).toBe('pending');
+      expect(item.expiresAt).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should reject unsupported content types and oversized files', async () => {
+      const badType = await requestUpload('tree_1', 'user-123', { contentType: 'image/gif' });
+      const tooLarge = await requestUpload('tree_1', 'user-123', { contentLength: 50 * 1024 * 1024 });
+
+      expect(badType.statusCode).toBe(400);
+      expect(JSON.parse(badType.body).details[0].path).toBe('contentType');
+      expect(tooLarge.statusCode).toBe(400);
+      expect(JSON.parse(tooLarge.body).details[0].path).toBe('contentLength');
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      await repositories.trees.create(treeItem('tree_2', 'user-456'));
+
+      const result = await requestUpload('tree_2');
+
+      expect(result.statusCode).toBe(404);
+      expect(mockS3Client.getSignedUrlPromise).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /trees/{treeId}/photos/{photoId}/complete', () => {
+    it('should record the uploaded photo with capture metadata', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+      const key = `users/user-123/trees/tree_1/${data.photoId}.jpg`;
+      mockObjects.set(key, { ContentLength: 2048, ContentType: 'image/jpeg' });
+
+      const result = await complete(data.photoId, {
+        capturedAt: '2025-01-01T12:00:00Z',
+        cameraAngle: 'front',
+        gpsLocation: [40.7128, -74.006],
+        weather: { temperature: 45, conditions: 'partly cloudy' },
+      });
+      const body = JSON.parse(result.body);
+      const item = await storedPhoto(data.photoId);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data).toMatchObject({
+        photoId: data.photoId,
+        timestamp: '2025-01-01T12:00:00.000Z',
+        cameraAngle: 'front',
+        sizeBytes: 2048,
+      });
+      expect(body.data.originalUrl).toContain('op=getObject');
+      expect(item.status).toBe('uploaded');
+      expect(item).not.toHaveProperty('expiresAt');
+    });
+
+    it('should return 409 when the file has not been uploaded', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+
+      const result = await complete(data.photoId);
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    it('should delete uploads that exceed the size limit', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+      const key = `users/user-123/trees/tree_1/${data.photoId}.jpg`;
+      mockObjects.set(key, { ContentLength: 40 * 1024 * 1024, ContentType: 'image/jpeg' });
+
+      const result = await complete(data.photoId);
+
+      expect(result.statusCode).toBe(400);
+      expect(mockObjects.has(key)).toBe(false);
+    });
+
+    it("should return 404 for another user's photo", async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+
+      const result = await complete(data.photoId, {}, 'tree_1', 'user-456');
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /trees/{treeId}/photos', () => {
+    it('should list uploaded photos newest first', async () => {
+      const older = await uploadPhoto('2025-01-01T12:00:00Z');
+      const newer = await uploadPhoto('2025-03-01T12:00:00Z');
+      await requestUpload(); // pending, not listed
+
+      const { result, body } = await list();
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.photos.map((photo: any) => photo.photoId)).toEqual([newer, older]);
+      expect(body.data.pagination).toEqual({ limit: 20, nextCursor: null });
+    });
+
+    it('should filter by date range, treating a bare end date as the whole day', async () => {
+      await uploadPhoto('2025-01-01T12:00:00Z');
+      const inRange = await uploadPhoto('2025-02-10T18:30:00Z');
+      await uploadPhoto('2025-03-01T12:00:00Z');
+
+      const { body } = await list({ startDate: '2025-02-01', endDate: '2025-02-10' });
+
+      expect(body.data.photos.map((photo: any) => photo.photoId)).toEqual([inRange]);
+    });
+
+    it('should page through the history with a cursor', async () => {
+      const oldest = await uploadPhoto('2025-01-01T12:00:00Z');
+      const middle = await uploadPhoto('2025-02-01T12:00:00Z');
+      const newest = await uploadPhoto('2025-03-01T12:00:00Z');
+
+      const first = await list({ limit: '2' });
+      const second = await list({ limit: '2', cursor: first.body.data.pagination.nextCursor });
+
+      expect(first.body.data.photos.map((photo: any) => photo.photoId)).toEqual([newest, middle]);
+      expect(first.body.data.pagination).toEqual({ limit: 2, nextCursor: expect.any(String) });
+      expect(second.body.data.photos.map((photo: any) => photo.photoId)).toEqual([oldest]);
+      expect(second.body.data.pagination.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor issued for a different date range', async () => {
+      await uploadPhoto('2025-01-01T12:00:00Z');
+      await uploadPhoto('2025-02-01T12:00:00Z');
+      const { body } = await list({ limit: '1' });
+
+      const { result } = await list({ cursor: body.data.pagination.nextCursor, startDate: '2025-01-01' });
+
+      expect(result.statusCode).toBe(400);
+    });
+
+    it("should only go back as far as the free tier's photo history", async () => {
+      await uploadPhoto('2024-11-01T12:00:00Z');
+      const recent = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { body } = await list();
+
+      expect(body.data.photos.map((photo: any) => photo.photoId)).toEqual([recent]);
+    });
+
+    it('should return the full history on unlimited tiers', async () => {
+      await setTier('arborist');
+      await uploadPhoto('2020-06-01T12:00:00Z');
+      await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { body } = await list();
+
+      expect(body.data.photos).toHaveLength(2);
+    });
+
+    it('should return 402 for a start date beyond the tier history', async () => {
+      const { result, body } = await list({ startDate: '2024-01-01' });
+
+      expect(result.statusCode).toBe(402);
+      expect(body.error).toBe('EntitlementError');
+      expect(body.details).toEqual({
+        entitlement: 'photoHistoryDays',
+        tier: 'free',
+        limit: 90,
+        requiredTier: 'arborist',
+      });
+    });
+
+    it('should reject an inverted date range', async () => {
+      const { result, body } = await list({ startDate: '2025-03-01', endDate: '2025-02-01' });
+
+      expect(result.statusCode).toBe(400);
+      expect(body.details).toEqual([
+        { location: 'query', path: 'startDate', message: 'must not be after endDate' },
+      ]);
+    });
+  });
+
+  describe('POST /photos/analyze', () => {
+    const analyze = async (body: any, userId = 'user-123') => {
+      const result = await photosHandler.handler(
+        createAuthorizedEvent(userId, {
+          httpMethod: 'POST',
+          path: '/photos/analyze',
+          body: JSON.stringify(body),
+        }),
+        mockContext
+      );
+      return { result, body: JSON.parse(result.body) };
+    };
+
+    it('should analyze the photo and store the result on its record', async () => {
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { result, body } = await analyze({ treeId: 'tree_1', photoId });
+      const item = await storedPhoto(photoId);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.photoId).toBe(photoId);
+      expect(body.data.analysis.analyzer).toBe('local');
+      expect(body.data.analysis.species.predicted).toBe('Quercus rubra');
+      expect(body.data.overlays).toEqual(item.analysis?.overlays);
+      expect(item.analysis?.health).toEqual(body.data.analysis.health);
+    });
+
+    it('should record the estimated sizes as a measurement taken with the photo', async () => {
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { body } = await analyze({ treeId: 'tree_1', photoId });
+      const [measurement] = await repositories.measurements.listAllByTree('tree_1', 'user-123');
+      const tree = (await repositories.trees.get('tree_1', 'user-123'))!;
+
+      expect(measurement).toMatchObject({
+        treeId: 'tree_1',
+        userId: 'user-123',
+        source: 'photo_analysis',
+        photoId,
+        measuredAt: '2025-01-01T12:00:00.000Z',
+        height: body.data.analysis.structure.estimatedHeight,
+        trunkDiameter: body.data.analysis.structure.trunkDiameter,
+        canopySpread: body.data.analysis.structure.canopySpread,
+      });
+      expect(tree.currentStatus.height).toBe(body.data.analysis.structure.estimatedHeight);
+      expect(tree.currentStatus.growth?.signal).toBe('unknown');
+    });
+
+    it('should include the analysis summary in photo history', async () => {
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+      const { body: analyzed } = await analyze({ treeId: 'tree_1', photoId });
+
+      const { body } = await list();
+
+      expect(body.data.photos[0].analysis).toEqual({
+        healthScore: analyzed.data.analysis.health.overallScore,
+        estimatedHeight: analyzed.data.analysis.structure.estimatedHeight,
+        speciesConfidence: analyzed.data.analysis.species.confidence,
+      });
+    });
+
+    it('should return 409 for a photo that is still pending', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+
+      const { result } = await analyze({ treeId: 'tree_1', photoId: data.photoId });
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    it('should count analyses against the monthly allowance', async () => {
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      await analyze({ treeId: 'tree_1', photoId });
+      await analyze({ treeId: 'tree_1', photoId });
+
+      expect(await repositories.subscriptions.get('user-123')).toMatchObject({
+        'usage:monthlyAnalyses:2025-03': 2,
+      });
+    });
+
+    it('should not count analyses that fail', async () => {
+      const { data } = JSON.parse((await requestUpload()).body);
+
+      await analyze({ treeId: 'tree_1', photoId: data.photoId });
+
+      expect(await repositories.subscriptions.get('user-123')).toMatchObject({
+        'usage:monthlyAnalyses:2025-03': 0,
+      });
+    });
+
+    it('should return 402 once the monthly allowance is used up', async () => {
+      await setTier('free', { 'usage:monthlyAnalyses:2025-03': 10 });
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { result, body } = await analyze({ treeId: 'tree_1', photoId });
+
+      expect(result.statusCode).toBe(402);
+      expect(body.details).toEqual({
+        entitlement: 'monthlyAnalyses',
+        tier: 'free',
+        limit: 10,
+        requiredTier: 'hobbyist',
+      });
+      expect(await storedPhoto(photoId)).not.toHaveProperty('analysis');
+    });
+
+    it('should start a new allowance each month', async () => {
+      await setTier('free', { 'usage:monthlyAnalyses:2025-02': 10 });
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { result } = await analyze({ treeId: 'tree_1', photoId });
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    it("should return 404 for another user's photo", async () => {
+      const photoId = await uploadPhoto('2025-01-01T12:00:00Z');
+
+      const { result } = await analyze({ treeId: 'tree_1', photoId }, 'user-456');
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+
+import { RecommendationsHandler } from '../../handlers/recommendations';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const treeItem = (treeId: string, userId = 'user-123', healthScore = 90): TreeItem => ({
+  treeId,
+  userId,
+  name: 'Front Yard Oak',
+  plantedDate: '2020-03-15',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red Oak', speciesId: 'quercus_rubra' },
+  location: { yardPosition: 'front yard', coordinates: [40.7128, -74.006], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 14, trunkDiameter: 4, canopySpread: 10, healthScore, growthStage: 'juvenile' },
+  goals: { targetHeight: 40, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Recommendations Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let recommendationsHandler: RecommendationsHandler;
+
+  const list = async (query: Record<string, string> | null = null, treeId = 'tree_1', userId = 'user-123') => {
+    const result = await recommendationsHandler.handler(
+      createAuthorizedEvent(userId, {
+        path: `/recommendations/${treeId}`,
+        queryStringParameters: query,
+      }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  const complete = async (recommendationId: string, body: any = {}, userId = 'user-123') => {
+    const result = await recommendationsHandler.handler(
+      createAuthorizedEvent(userId, {
+        httpMethod: 'PUT',
+        path: `/recommendations/${recommendationId}/complete`,
+        body: JSON.stringify(body),
+      }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  const history = async (treeId = 'tree_1') => {
+    const result = await recommendationsHandler.handler(
+      createAuthorizedEvent('user-123', { path: `/trees/${treeId}/recommendations/history` }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-15T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    recommendationsHandler = new RecommendationsHandler(repositories);
+    await repositories.trees.create(treeItem('tree_1'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('GET /recommendations/{treeId}', () => {
+    it('should return generated recommendations with a summary', async () => {
+      const { result, body } = await list();
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.recommendations.length).toBeGreaterThan(0);
+      expect(body.data.recommendations[0]).toMatchObject({
+        priority: 'high',
+        status: 'pending',
+        timing: { seasonalFactor: 'late_winter_dormant' },
+      });
+      expect(body.data.summary).toMatchObject({
+        totalRecommendations: body.data.recommendations.length,
+        urgentCount: 0,
+        highPriorityCount: 2,
+      });
+    });
+
+    it('should record each recommendation once', async () => {
+      const { body } = await list();
+      await list();
+
+      expect(await repositories.recommendations.listByTree('tree_1')).toHaveLength(body.data.recommendations.length);
+      expect(await repositories.recommendations.get(body.data.recommendations[0].id)).toMatchObject({
+        userId: 'user-123',
+        windowStart: '2024-12-01T00:00:00.000Z',
+        status: 'pending',
+      });
+    });
+
+    it('should filter by priority', async () => {
+      await repositories.trees.save({ ...treeItem('tree_1', 'user-123', 40), version: 2 }, 1);
+
+      const { body } = await list({ priority: 'urgent' });
+
+      expect(body.data.recommendations).toHaveLength(1);
+      expect(body.data.recommendations[0].ruleId).toBe('health-inspection');
+      expect(body.data.summary.urgentCount).toBe(1);
+    });
+
+    it('should reject an unknown priority', async () => {
+      const { result, body } = await list({ priority: 'someday' });
+
+      expect(result.statusCode).toBe(400);
+      expect(body.details[0].path).toBe('priority');
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      await repositories.trees.create(treeItem('tree_2', 'user-456'));
+
+      const { result } = await list(null, 'tree_2');
+
+      expect(result.statusCode).toBe(404);
+      expect(await repositories.recommendations.listByTree('tree_2')).toEqual([]);
+    });
+  });
+
+  describe('PUT /recommendations/{recommendationId}/complete', () => {
+    it('should mark the recommendation completed and hide it from the pending list', async () => {
+      const { body: listed } = await list();
+      const target = listed.data.recommendations[0];
+
+      const { result, body } = await complete(target.id, {
+        completedAt: '2025-01-14T16:00:00Z',
+        notes: 'Removed two crossing limbs',
+        beforePhotoId: 'photo_before',
+        results: { timeSpent: 50, satisfaction: 4 },
+      });
+      const { body: after } = await list();
+      const { body: withCompleted } = await list({ includeCompleted: 'true' });
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data).toMatchObject({
+        id: target.id,
+        status: 'completed',
+        completedAt: '2025-01-14T16:00:00.000Z',
+        completion: { notes: 'Removed two crossing limbs', results: { timeSpent: 50, satisfaction: 4 } },
+      });
+      expect(after.data.recommendations.map((r: any) => r.id)).not.toContain(target.id);
+      expect(withCompleted.data.recommendations.find((r: any) => r.id === target.id).status).toBe('completed');
+    });
+
+    it('should return 409 when already completed', async () => {
+      const { body: listed } = await list();
+      const { id } = listed.data.recommendations[0];
+      await complete(id);
+
+      const { result } = await complete(id);
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    it("should return 404 for unknown or another user's recommendations", async () => {
+      const { body: listed } = await list();
+
+      const unknown = await complete('rec_missing');
+      const otherUser = await complete(listed.data.recommendations[0].id, {}, 'user-456');
+
+      expect(unknown.result.statusCode).toBe(404);
+      expect(otherUser.result.statusCode).toBe(404);
+    });
+
+    it('should validate completion results', async () => {
+      const { body: listed } = await list();
+
+      const { result, body } = await complete(listed.data.recommendations[0].id, { results: { satisfaction: 9 } });
+
+      expect(result.statusCode).toBe(400);
+      expect(body.details[0].path).toBe('results.satisfaction');
+    });
+  });
+
+  describe('GET /trees/{treeId}/recommendations/history', () => {
+    it('should list completed recommendations newest first', async () => {
+      const { body: listed } = await list();
+      const [first, second] = listed.data.recommendations;
+      await complete(first.id, { completedAt: '2025-01-10T00:00:00Z', beforePhotoId: 'p1', afterPhotoId: 'p2' });
+      await complete(second.id, { completedAt: '2025-01-12T00:00:00Z', notes: 'Done' });
+
+      const { result, body } = await history();
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.history).toEqual([
+        expect.objectContaining({ id: second.id, userNotes: 'Done', beforeAfterPhotos: [] }),
+        expect.objectContaining({
+          id: first.id,
+          status: 'completed',
+          recommendedDate: first.timing.idealDate,
+          beforeAfterPhotos: ['p1', 'p2'],
+        }),
+      ]);
+    });
+
+    it('should return an empty history for a tree with nothing completed', async () => {
+      const { body } = await history();
+
+      expect(body.data.history).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { Context } from 'aws-lambda';
+import { TEST_CLIENT_ID, installTestSigningKey, mintTestToken } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+import { CareEventsHandler } from '../../handlers/care-events';
+import { BaseLambdaHandler } from '../../handlers/lambda-base';
+import { PhotosHandler } from '../../handlers/photos';
+import { SharingHandler } from '../../handlers/sharing';
+import { TreesHandler } from '../../handlers/trees';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const now = new Date('2025-03-01T12:00:00.000Z');
+
+const tree: TreeItem = {
+  treeId: 'tree_1',
+  userId: 'owner-1',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+// Who signs in as whom
+const EMAILS: Record<string, string> = {
+  'owner-1': 'owner@example.com',
+  'partner-1': 'partner@example.com',
+  'kid-1': 'kid@example.com',
+  'stranger-1': 'stranger@example.com',
+};
+
+describe('Sharing', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let handlers: Record<'sharing' | 'trees' | 'careEvents' | 'photos', BaseLambdaHandler>;
+
+  const request = async (
+    handler: keyof typeof handlers,
+    userId: string,
+    httpMethod: string,
+    path: string,
+    { body, claims }: { body?: unknown; claims?: Record<string, unknown> } = {}
+  ) => {
+    const result = await handlers[handler].handler(
+      createAuthorizedEvent(userId, {
+        httpMethod,
+        path,
+        body: body === undefined ? null : JSON.stringify(body),
+        headers: { Authorization: `Bearer ${mintTestToken({ sub: userId, email: EMAILS[userId], email_verified: true, ...claims })}` },
+      }),
+      mockContext
+    );
+    return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+  };
+
+  const invite = (email: string, role: string) =>
+    request('sharing', 'owner-1', 'POST', '/trees/tree_1/invitations', { body: { email, role } });
+
+  // Invite the user and have them accept
+  const share = async (userId: string, role: string) => {
+    const invitation = await invite(EMAILS[userId], role);
+    expect(invitation.statusCode).toBe(201);
+    const accepted = await request('sharing', userId, 'POST', `/invitations/${invitation.body.data.id}/accept`);
+    expect(accepted.statusCode).toBe(200);
+    return invitation.body.data;
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    handlers = {
+      sharing: new SharingHandler(repositories),
+      trees: new TreesHandler(repositories),
+      careEvents: new CareEventsHandler(repositories),
+      photos: new PhotosHandler(repositories),
+    };
+    await repositories.trees.create(tree);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('invitations', () => {
+    it('should invite an address to the tree', async () => {
+      const result = await invite('Partner@Example.com', 'editor');
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body.data).toEqual({
+        id: expect.stringMatching(/^inv_/),
+        treeId: 'tree_1',
+        treeName: 'Front Yard Oak',
+        email: 'partner@example.com',
+        role: 'editor',
+        status: 'pending',
+        invitedBy: 'owner-1',
+        createdAt: now.toISOString(),
+        expiresAt: '2025-03-15T12:00:00.000Z',
+      });
+      expect((await request('sharing', 'owner-1', 'GET', '/trees/tree_1/invitations')).body.data.invitations).toEqual([
+        result.body.data,
+      ]);
+    });
+
+    it('should show invitations to the address the invitee signs in with', async () => {
+      await invite('partner@example.com', 'editor');
+
+      const mine = await request('sharing', 'partner-1', 'GET', '/invitations');
+      const others = await request('sharing', 'kid-1', 'GET', '/invitations');
+
+      expect(mine.statusCode).toBe(200);
+      expect(mine.body.data.invitations).toHaveLength(1);
+      expect(mine.body.data.invitations[0]).toMatchObject({ treeName: 'Front Yard Oak', role: 'editor' });
+      expect(others.body.data.invitations).toEqual([]);
+    });
+
+    it('should reject duplicate invitations, members and the owner', async () => {
+      await invite('partner@example.com', 'editor');
+      await share('kid-1', 'viewer');
+
+      expect((await invite('PARTNER@example.com', 'viewer')).statusCode).toBe(409);
+      expect((await invite('kid@example.com', 'editor')).statusCode).toBe(409);
+      expect((await invite('owner@example.com', 'editor')).statusCode).toBe(400);
+      expect((await invite('not-an-address', 'editor')).statusCode).toBe(400);
+      expect((await invite('friend@example.com', 'owner')).statusCode).toBe(400);
+    });
+
+    it('should only let the owner invite', async () => {
+      await share('partner-1', 'editor');
+
+      const result = await request('sharing', 'partner-1', 'POST', '/trees/tree_1/invitations', {
+        body: { email: 'kid@example.com', role: 'viewer' },
+      });
+      const stranger = await request('sharing', 'stranger-1', 'POST', '/trees/tree_1/invitations', {
+        body: { email: 'kid@example.com', role: 'viewer' },
+      });
+
+      expect(result.statusCode).toBe(403);
+      expect(stranger.statusCode).toBe(404);
+    });
+
+    it('should only let ID tokens that vouch for the address claim invitations', async () => {
+      const { body } = await invite('partner@example.com', 'editor');
+      const path = `/invitations/${body.data.id}/accept`;
+      const accessToken = { token_use: 'access', aud: undefined, client_id: TEST_CLIENT_ID };
+
+      const unverified = await request('sharing', 'partner-1', 'POST', path, { claims: { email_verified: undefined } });
+      const viaAccessToken = await request('sharing', 'partner-1', 'GET', '/invitations', { claims: accessToken });
+
+      expect(unverified.statusCode).toBe(403);
+      expect(viaAccessToken.statusCode).toBe(403);
+      expect((await request('sharing', 'partner-1', 'GET', '/invitations')).body.data.invitations).toHaveLength(1);
+    });
+
+    it('should accept an invitation only once, as the invited address', async () => {
+      const { body } = await invite('partner@example.com', 'editor');
+      const path = `/invitations/${body.data.id}/accept`;
+
+      expect((await request('sharing', 'stranger-1', 'POST', path)).statusCode).toBe(404);
+      expect((await request('sharing', 'partner-1', 'POST', path, { claims: { email_verified: false } })).statusCode).toBe(
+        403
+      );
+
+      const accepted = await request('sharing', 'partner-1', 'POST', path);
+
+      expect(accepted.statusCode).toBe(200);
+      expect(accepted.body.data).toMatchObject({ id: 'tree_1', name: 'Front Yard Oak', role: 'editor' });
+      expect((await request('sharing', 'partner-1', 'POST', path)).statusCode).toBe(409);
+      expect((await repositories.invitations.get(body.data.id))?.status).toBe('accepted');
+      expect((await request('sharing', 'owner-1', 'GET', '/trees/tree_1/invitations')).body.data.invitations).toEqual([]);
+    });
+
+    it('should not accept expired, declined or revoked invitations', async () => {
+      const expired = (await invite('partner@example.com', 'editor')).body.data;
+      jest.setSystemTime(new Date('2025-03-16T00:00:00.000Z'));
+      expect((await request('sharing', 'partner-1', 'POST', `/invitations/${expired.id}/accept`)).statusCode).toBe(409);
+
+      const declined = (await invite('partner@example.com', 'editor')).body.data;
+      const decline = await request('sharing', 'partner-1', 'POST', `/invitations/${declined.id}/decline`);
+      expect(decline.statusCode).toBe(200);
+      expect(decline.body.data.status).toBe('declined');
+      expect((await request('sharing', 'partner-1', 'POST', `/invitations/${declined.id}/accept`)).statusCode).toBe(409);
+
+      const revoked = (await invite('partner@example.com', 'editor')).body.data;
+      const revoke = await request('sharing', 'owner-1', 'DELETE', `/trees/tree_1/invitations/${revoked.id}`);
+      expect(revoke.statusCode).toBe(200);
+      expect((await request('sharing', 'partner-1', 'POST', `/invitations/${revoked.id}/accept`)).statusCode).toBe(409);
+
+      expect(await repositories.treeMembers.listByTree('tree_1')).toEqual([]);
+    });
+
+    it('should not accept an invitation revoked while the accept was under way', async () => {
+      const { body } = await invite('partner@example.com', 'editor');
+      const { invitations } = repositories;
+      const get = invitations.get.bind(invitations);
+      jest.spyOn(invitations, 'get').mockImplementationOnce(async (invitationId) => {
+        const pending = await get(invitationId);
+        await invitations.respond({ ...pending!, status: 'revoked' });
+        return pending;
+      });
+
+      const accepted = await request('sharing', 'partner-1', 'POST', `/invitations/${body.data.id}/accept`);
+
+      expect(accepted.statusCode).toBe(409);
+      expect((await invitations.get(body.data.id))?.status).toBe('revoked');
+      expect(await repositories.treeMembers.listByTree('tree_1')).toEqual([]);
+    });
+  });
+
+  describe('members', () => {
+    it('should list the owner and members in the order they joined', async () => {
+      await repositories.users.save({
+        userId: 'owner-1',
+        email: 'owner@example.com',
+        name: 'Owner',
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      });
+      await share('partner-1', 'editor');
+      jest.setSystemTime(new Date('2025-03-02T00:00:00.000Z'));
+      await share('kid-1', 'viewer');
+
+      const result = await request('sharing', 'kid-1', 'GET', '/trees/tree_1/members');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body.data.members).toEqual([
+        { userId: 'owner-1', email: 'owner@example.com', role: 'owner' },
+        { userId: 'partner-1', email: 'partner@example.com', role: 'editor', joinedAt: now.toISOString() },
+        { userId: 'kid-1', email: 'kid@example.com', role: 'viewer', joinedAt: '2025-03-02T00:00:00.000Z' },
+      ]);
+      expect((await request('sharing', 'stranger-1', 'GET', '/trees/tree_1/members')).statusCode).toBe(404);
+    });
+
+    it("should let the owner change a member's role", async () => {
+      await share('kid-1', 'viewer');
+
+      const result = await request('sharing', 'owner-1', 'PUT', '/trees/tree_1/members/kid-1', {
+        body: { role: 'editor' },
+      });
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body.data.role).toBe('editor');
+      expect((await repositories.treeMembers.get('tree_1', 'kid-1'))?.role).toBe('editor');
+      expect(
+        (await request('sharing', 'kid-1', 'PUT', '/trees/tree_1/members/kid-1', { body: { role: 'editor' } })).statusCode
+      ).toBe(403);
+      expect(
+        (await request('sharing', 'owner-1', 'PUT', '/trees/tree_1/members/stranger-1', { body: { role: 'viewer' } }))
+          .statusCode
+      ).toBe(404);
+    });
+
+    it('should let the owner remove members and members leave', async () => {
+      await share('partner-1', 'editor');
+      await share('kid-1', 'viewer');
+
+      expect((await request('sharing', 'partner-1', 'DELETE', '/trees/tree_1/members/kid-1')).statusCode).toBe(403);
+      expect((await request('sharing', 'owner-1', 'DELETE', '/trees/tree_1/members/kid-1')).statusCode).toBe(200);
+      expect((await request('sharing', 'partner-1', 'DELETE', '/trees/tree_1/members/partner-1')).statusCode).toBe(200);
+      expect((await request('sharing', 'owner-1', 'DELETE', '/trees/tree_1/members/owner-1')).statusCode).toBe(404);
+
+      expect(await repositories.treeMembers.listByTree('tree_1')).toEqual([]);
+      expect((await request('trees', 'partner-1', 'GET', '/trees/tree_1')).statusCode).toBe(404);
+    });
+  });
+
+  describe('roles in the tree, care log and photo endpoints', () => {
+    it('should list trees shared with the caller and their role', async () => {
+      await share('kid-1', 'viewer');
+
+      const shared = await request('trees', 'kid-1', 'GET', '/trees/shared');
+      const own = await request('trees', 'kid-1', 'GET', '/trees');
+
+      expect(shared.statusCode).toBe(200);
+      expect(shared.body.data.trees).toEqual([expect.objectContaining({ id: 'tree_1', role: 'viewer' })]);
+      expect(own.body.data.trees).toEqual([]);
+    });
+
+    it('should let viewers read but not change the tree', async () => {
+      await share('kid-1', 'viewer');
+
+      expect((await request('trees', 'kid-1', 'GET', '/trees/tree_1')).statusCode).toBe(200);
+      expect((await request('careEvents', 'kid-1', 'GET', '/trees/tree_1/care-events')).statusCode).toBe(200);
+      expect((await request('photos', 'kid-1', 'GET', '/trees/tree_1/photos')).statusCode).toBe(200);
+
+      expect((await request('trees', 'kid-1', 'PUT', '/trees/tree_1', { body: { name: 'Mine' } })).statusCode).toBe(403);
+      expect(
+        (await request('careEvents', 'kid-1', 'POST', '/trees/tree_1/care-events', {
+          body: { type: 'watering', date: '2025-03-01' },
+        })).statusCode
+      ).toBe(403);
+      expect(
+        (await request('photos', 'kid-1', 'POST', '/trees/tree_1/photos', {
+          body: { contentType: 'image/jpeg', contentLength: 1000 },
+        })).statusCode
+      ).toBe(403);
+    });
+
+    it("should record editors' changes on the owner's tree", async () => {
+      await share('partner-1', 'editor');
+
+      const updated = await request('trees', 'partner-1', 'PUT', '/trees/tree_1', { body: { name: 'Shared Oak' } });
+      const recorded = await request('careEvents', 'partner-1', 'POST', '/trees/tree_1/care-events', {
+        body: { type: 'watering', date: '2025-03-01' },
+      });
+
+      expect(updated.statusCode).toBe(200);
+      expect(updated.body.data.name).toBe('Shared Oak');
+      expect(recorded.statusCode).toBe(201);
+      expect(recorded.body.data.recordedBy).toBe('partner-1');
+      expect((await repositories.trees.get('tree_1', 'owner-1'))?.name).toBe('Shared Oak');
+
+      const log = await request('careEvents', 'owner-1', 'GET', '/trees/tree_1/care-events');
+      expect(log.body.data.careEvents.map((event: { id: string }) => event.id)).toEqual([recorded.body.data.id]);
+    });
+
+    it('should leave archiving to the owner', async () => {
+      await share('partner-1', 'editor');
+
+      expect((await request('trees', 'partner-1', 'DELETE', '/trees/tree_1')).statusCode).toBe(403);
+      expect((await request('trees', 'owner-1', 'DELETE', '/trees/tree_1')).statusCode).toBe(200);
+      expect((await request('trees', 'partner-1', 'GET', '/trees/shared')).body.data.trees).toEqual([]);
+    });
+
+    it('should hide shared trees from everyone else', async () => {
+      await share('partner-1', 'editor');
+
+      expect((await request('trees', 'stranger-1', 'GET', '/trees/tree_1')).statusCode).toBe(404);
+      expect((await request('careEvents', 'stranger-1', 'GET', '/trees/tree_1/care-events')).statusCode).toBe(404);
+      expect((await request('photos', 'stranger-1', 'GET', '/trees/tree_1/photos')).statusCode).toBe(404);
+    });
+  });
+});
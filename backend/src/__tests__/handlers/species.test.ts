@@ -0,0 +1,118 @@
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext, createMockEvent } from '../setup/lambda-events';
+import { SpeciesHandler } from '../../handlers/species';
+import { inMemoryRepositories } from '../../repositories/repositories';
+import { SpeciesCatalog, speciesCatalog } from '../../services/species-catalog';
+
+// Subscriptions size the caller's rate limits
+const { subscriptions } = inMemoryRepositories();
+const speciesHandler = new SpeciesHandler(speciesCatalog, subscriptions);
+const handler = (event: APIGatewayProxyEvent, context: Context) => speciesHandler.handler(event, context);
+
+describe('Species Handler', () => {
+  let mockContext: Context;
+
+  const search = async (query: Record<string, string> | null) => {
+    const result = await handler(
+      createAuthorizedEvent('user-123', { path: '/species/search', queryStringParameters: query }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+  });
+
+  describe('GET /species/search', () => {
+    it('should return matching species summaries', async () => {
+      const { result, body } = await search({ q: 'suger mapel' });
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.species[0]).toEqual({
+        speciesId: 'acer_saccharum',
+        scientificName: 'Acer saccharum',
+        commonNames: ['Sugar Maple', 'Rock Maple'],
+        family: 'Sapindaceae',
+        characteristics: {
+          matureHeight: [60, 75],
+          matureSpread: [40, 50],
+          growthRate: 'slow',
+          hardinessZones: [3, 4, 5, 6, 7, 8],
+          sunRequirements: 'full sun to partial shade',
+        },
+        shapeCompatibility: ['high_canopy', 'natural_form'],
+      });
+    });
+
+    it('should apply the limit', async () => {
+      const { body } = await search({ q: 'maple', limit: '1' });
+
+      expect(body.data.species).toHaveLength(1);
+    });
+
+    it('should require a query', async () => {
+      const missing = await search(null);
+      const blank = await search({ q: '  ' });
+
+      expect(missing.result.statusCode).toBe(400);
+      expect(missing.body.details[0]).toMatchObject({ location: 'query', path: 'q' });
+      expect(blank.result.statusCode).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+      const result = await handler(
+        createMockEvent({ path: '/species/search', queryStringParameters: { q: 'oak' } }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /species/{speciesId}', () => {
+    it('should return pruning windows and shape goals', async () => {
+      const result = await handler(createAuthorizedEvent('user-123', { path: '/species/acer_rubrum' }), mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.characteristics.growthRate).toBe('fast');
+      expect(body.data.pruning).toMatchObject({
+        bestSeason: ['early_summer'],
+        restrictions: ['sap_bleeding'],
+      });
+      expect(body.data.shapeCompatibility[0]).toEqual({
+        goalId: 'high_canopy',
+        suitability: 'good',
+        timeline: '6-10 years',
+      });
+    });
+
+    it('should return 404 for an unknown species', async () => {
+      const result = await handler(createAuthorizedEvent('user-123', { path: '/species/not_a_tree' }), mockContext);
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  it('should serve the catalog it is given', async () => {
+    const oneSpecies = new SpeciesHandler(new SpeciesCatalog([speciesCatalog.get('acer_rubrum')!]), subscriptions);
+
+    const found = await oneSpecies.handler(
+      createAuthorizedEvent('user-123', { path: '/species/acer_rubrum' }),
+      mockContext
+    );
+    const missing = await oneSpecies.handler(
+      createAuthorizedEvent('user-123', { path: '/species/acer_saccharum' }),
+      mockContext
+    );
+
+    expect(found.statusCode).toBe(200);
+    expect(missing.statusCode).toBe(404);
+  });
+});
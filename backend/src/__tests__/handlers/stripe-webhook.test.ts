@@ -0,0 +1,159 @@
+import { Context } from 'aws-lambda';
+import { createMockContext, createMockEvent } from '../setup/lambda-events';
+import { TEST_WEBHOOK_SECRET, loadStripeFixture, signStripePayload } from '../setup/stripe-events';
+
+import { StripeWebhookHandler } from '../../handlers/stripe-webhook';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+describe('Stripe Webhook Handler', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let stripeWebhookHandler: StripeWebhookHandler;
+  const subscription = () => repositories.subscriptions.get('user-123');
+
+  const deliver = async (payload: string, signature = signStripePayload(payload)) => {
+    const result = await stripeWebhookHandler.handler(
+      createMockEvent({
+        httpMethod: 'POST',
+        path: '/webhooks/stripe',
+        headers: { 'Stripe-Signature': signature, 'Content-Type': 'application/json' },
+        body: payload,
+      }),
+      mockContext
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  const replay = (name: string) => deliver(loadStripeFixture(name));
+
+  beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = TEST_WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+  });
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    stripeWebhookHandler = new StripeWebhookHandler(repositories);
+    jest.spyOn(repositories.subscriptions, 'applyStripeUpdate');
+    jest.spyOn(repositories.stripeEvents, 'claim');
+  });
+
+  it('should link the customer and set the tier on checkout', async () => {
+    const { result, body } = await replay('checkout.session.completed');
+
+    expect(result.statusCode).toBe(200);
+    expect(body.data).toEqual({ received: true });
+    expect(await subscription()).toMatchObject({
+      userId: 'user-123',
+      subscriptionTier: 'hobbyist',
+      status: 'active',
+      stripeCustomerId: 'cus_NffrFeUfNV2Hib',
+      stripeSubscriptionId: 'sub_1MowQVLkdIwHu7ixeRlqHVzs',
+    });
+  });
+
+  it('should follow a subscription through upgrade, renewal, failed payment and cancellation', async () => {
+    await replay('checkout.session.completed');
+
+    await replay('customer.subscription.updated');
+    expect(await subscription()).toMatchObject({ subscriptionTier: 'arborist', status: 'active' });
+
+    await replay('invoice.paid');
+    expect(await subscription()).toMatchObject({
+      subscriptionTier: 'arborist',
+      status: 'active',
+      currentPeriodEnd: '2025-03-01T12:00:00.000Z',
+    });
+
+    await replay('invoice.payment_failed');
+    expect(await subscription()).toMatchObject({ subscriptionTier: 'arborist', status: 'past_due' });
+
+    await replay('customer.subscription.deleted');
+    expect(await subscription()).toMatchObject({ subscriptionTier: 'free', status: 'canceled' });
+  });
+
+  it('should acknowledge redelivered events without applying them again', async () => {
+    await replay('checkout.session.completed');
+    const { result, body } = await replay('checkout.session.completed');
+
+    expect(result.statusCode).toBe(200);
+    expect(body.data).toEqual({ received: true, duplicate: true });
+    expect(repositories.subscriptions.applyStripeUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip events older than the last one applied', async () => {
+    await replay('checkout.session.completed');
+    await replay('customer.subscription.deleted');
+
+    const { result } = await replay('customer.subscription.updated');
+
+    expect(result.statusCode).toBe(200);
+    expect(await subscription()).toMatchObject({ subscriptionTier: 'free', status: 'canceled' });
+  });
+
+  it('should keep usage counters when syncing', async () => {
+    await repositories.subscriptions.addUsage('user-123', 'usage:monthlyAnalyses:2025-01', 7);
+
+    await replay('checkout.session.completed');
+
+    expect(await subscription()).toMatchObject({ 'usage:monthlyAnalyses:2025-01': 7, subscriptionTier: 'hobbyist' });
+  });
+
+  it('should fail events for unknown customers so Stripe redelivers them', async () => {
+    const first = await replay('invoice.paid');
+    await replay('checkout.session.completed');
+    const redelivered = await replay('invoice.paid');
+
+    expect(first.result.statusCode).toBe(404);
+    expect(redelivered.result.statusCode).toBe(200);
+    expect(await subscription()).toMatchObject({ currentPeriodEnd: '2025-03-01T12:00:00.000Z' });
+  });
+
+  it('should acknowledge events that do not affect subscriptions', async () => {
+    const { result } = await replay('customer.created');
+    const redelivered = await replay('customer.created');
+
+    expect(result.statusCode).toBe(200);
+    expect(repositories.subscriptions.applyStripeUpdate).not.toHaveBeenCalled();
+    // Recorded as processed all the same
+    expect(redelivered.body.data).toEqual({ received: true, duplicate: true });
+  });
+
+  it('should reject payloads that are not signed with the webhook secret', async () => {
+    const payload = loadStripeFixture('checkout.session.completed');
+
+    const forged = await deliver(payload, signStripePayload(payload, 'whsec_someone_else'));
+    const tampered = await deliver(payload.replace('hobbyist', 'professional'), signStripePayload(payload));
+    const unsigned = await stripeWebhookHandler.handler(
+      createMockEvent({ httpMethod: 'POST', path: '/webhooks/stripe', body: payload }),
+      mockContext
+    );
+
+    expect(forged.result.statusCode).toBe(400);
+    expect(tampered.result.statusCode).toBe(400);
+    expect(unsigned.statusCode).toBe(400);
+    expect(repositories.stripeEvents.claim).not.toHaveBeenCalled();
+    expect(repositories.subscriptions.applyStripeUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should verify base64-encoded bodies', async () => {
+    const payload = loadStripeFixture('checkout.session.completed');
+
+    const result = await stripeWebhookHandler.handler(
+      createMockEvent({
+        httpMethod: 'POST',
+        path: '/webhooks/stripe',
+        headers: { 'stripe-signature': signStripePayload(payload) },
+        body: Buffer.from(payload).toString('base64'),
+        isBase64Encoded: true,
+      }),
+      mockContext
+    );
+
+    expect(result.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,282 @@
+// In-memory stand-in for the photo bucket
+const mockObjects = new Set<string>();
+
+const mockS3Client = {
+  listObjectsV2: jest.fn((params: any) => ({
+    promise: jest.fn(async () => ({
+      Contents: [...mockObjects].filter((key) => key.startsWith(params.Prefix)).map((Key) => ({ Key })),
+    })),
+  })),
+  deleteObjects: jest.fn((params: any) => ({
+    promise: jest.fn(async () => {
+      params.Delete.Objects.forEach((object: any) => mockObjects.delete(object.Key));
+      return { Deleted: params.Delete.Objects, Errors: [] };
+    }),
+  })),
+};
+
+jest.mock('aws-sdk', () => ({
+  ...jest.requireActual('aws-sdk'),
+  S3: jest.fn(() => mockS3Client),
+}));
+
+import { TreePurger } from '../../handlers/tree-purger';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+let repositories: Repositories;
+
+const archivedTree = (treeId: string, overrides: Partial<TreeItem> = {}): TreeItem => ({
+  treeId,
+  userId: 'user-123',
+  name: 'Old Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'archived',
+  archivedAt: '2025-01-01T00:00:00.000Z',
+  version: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const seedTree = (treeId: string, overrides: Partial<TreeItem> = {}) =>
+  repositories.trees.create(archivedTree(treeId, overrides));
+
+const seedPhoto = async (photoId: string, treeId: string, userId = 'user-123') => {
+  const s3Key = `users/${userId}/trees/${treeId}/${photoId}.jpg`;
+  await repositories.photos.create({
+    photoId,
+    treeId,
+    userId,
+    s3Key,
+    contentType: 'image/jpeg',
+    status: 'uploaded',
+    capturedAt: '2024-12-01T00:00:00.000Z',
+    createdAt: '2024-12-01T00:00:00.000Z',
+  });
+  mockObjects.add(s3Key);
+};
+
+const seedCareEvent = (careEventId: string, treeId: string) =>
+  repositories.careEvents.create({
+    careEventId,
+    treeId,
+    userId: 'user-123',
+    type: 'watering',
+    date: '2024-12-01',
+    createdAt: '2024-12-01T12:00:00.000Z',
+    updatedAt: '2024-12-01T12:00:00.000Z',
+  });
+
+const seedMeasurement = (measurementId: string, treeId: string) =>
+  repositories.measurements.create({
+    measurementId,
+    treeId,
+    userId: 'user-123',
+    measuredAt: '2024-12-01T00:00:00.000Z',
+    source: 'photo_analysis',
+    height: 20,
+    photoId: 'photo_1',
+    createdAt: '2024-12-01T00:00:00.000Z',
+  });
+
+const seedSharing = async (treeId: string) => {
+  await repositories.treeMembers.save({
+    treeId,
+    userId: 'user-456',
+    ownerId: 'user-123',
+    email: 'partner@example.com',
+    role: 'editor',
+    invitationId: `inv_${treeId}`,
+    createdAt: '2024-12-01T00:00:00.000Z',
+    updatedAt: '2024-12-01T00:00:00.000Z',
+  });
+  await repositories.invitations.create({
+    invitationId: `inv_${treeId}`,
+    treeId,
+    ownerId: 'user-123',
+    treeName: 'Old Oak',
+    email: 'partner@example.com',
+    role: 'editor',
+    status: 'accepted',
+    invitedBy: 'user-123',
+    createdAt: '2024-11-30T00:00:00.000Z',
+    updatedAt: '2024-12-01T00:00:00.000Z',
+    expiresAt: '2024-12-14T00:00:00.000Z',
+  });
+};
+
+const seedRecommendation = (recommendationId: string, treeId: string) =>
+  repositories.recommendations.createIfNew({
+    recommendationId,
+    treeId,
+    userId: 'user-123',
+    ruleId: 'mulch_refresh',
+    type: 'mulching',
+    priority: 'medium',
+    title: 'Refresh mulch',
+    description: 'Spread 2-3 inches of mulch out to the drip line.',
+    timing: {
+      idealDate: '2025-04-01T00:00:00.000Z',
+      windowStart: '2025-03-15T00:00:00.000Z',
+      windowEnd: '2025-04-15T00:00:00.000Z',
+      seasonalFactor: 'spring_growth',
+    },
+    status: 'pending',
+    windowStart: '2025-03-15T00:00:00.000Z',
+    createdAt: '2024-12-01T00:00:00.000Z',
+    updatedAt: '2024-12-01T00:00:00.000Z',
+  });
+
+const seedNotification = (notificationId: string, treeId: string, userId = 'user-123') =>
+  repositories.notifications.create({
+    notificationId,
+    userId,
+    treeId,
+    type: 'care_reminder',
+    title: 'Time to mulch',
+    message: 'Spread fresh mulch out to the drip line',
+    scheduledTime: '2025-03-15T09:00:00.000Z',
+    channels: ['push'],
+    status: 'pending',
+    attempts: 0,
+    dueAt: '2025-03-15T09:00:00.000Z',
+    createdAt: '2024-12-01T00:00:00.000Z',
+    updatedAt: '2024-12-01T00:00:00.000Z',
+  });
+
+const storedTree = (treeId: string) => repositories.trees.get(treeId, 'user-123');
+
+const runAt = (time: string) => new TreePurger(repositories).purgeExpired(new Date(time));
+
+describe('Archived tree purge', () => {
+  beforeEach(() => {
+    repositories = inMemoryRepositories();
+    mockObjects.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should delete trees past the retention window with their photos and files', async () => {
+    await seedTree('tree_old');
+    await seedPhoto('photo_1', 'tree_old');
+    await seedPhoto('photo_2', 'tree_old');
+    mockObjects.add('users/user-123/trees/tree_old/photo_pending.jpg');
+    await seedTree('tree_kept', { archivedAt: '2025-01-20T00:00:00.000Z' });
+    await seedPhoto('photo_3', 'tree_kept');
+    await seedCareEvent('care_1', 'tree_old');
+    await seedCareEvent('care_2', 'tree_kept');
+    await seedMeasurement('meas_1', 'tree_old');
+    await seedMeasurement('meas_2', 'tree_kept');
+    await seedRecommendation('rec_1', 'tree_old');
+    await seedRecommendation('rec_2', 'tree_kept');
+    await seedNotification('notif_1', 'tree_old');
+    await seedNotification('notif_2', 'tree_old', 'user-456');
+    await seedNotification('notif_3', 'tree_kept');
+    await seedSharing('tree_old');
+    await seedSharing('tree_kept');
+
+    const summary = await runAt('2025-02-05T00:00:00Z');
+
+    expect(summary).toEqual({
+      purged: 1,
+      photosDeleted: 2,
+      careEventsDeleted: 1,
+      measurementsDeleted: 1,
+      recommendationsDeleted: 1,
+      notificationsDeleted: 2,
+      membersDeleted: 1,
+      invitationsDeleted: 1,
+      objectsDeleted: 3,
+      skipped: 0,
+    });
+    expect(await repositories.treeMembers.listByTree('tree_old')).toEqual([]);
+    expect(await repositories.treeMembers.listByTree('tree_kept')).toHaveLength(1);
+    expect(await repositories.invitations.get('inv_tree_old')).toBeUndefined();
+    expect(await repositories.invitations.get('inv_tree_kept')).toBeDefined();
+    expect(await repositories.careEvents.get('care_1', 'tree_old')).toBeUndefined();
+    expect(await repositories.careEvents.get('care_2', 'tree_kept')).toBeDefined();
+    expect(await repositories.measurements.listAllByTree('tree_old', 'user-123')).toEqual([]);
+    expect(await repositories.measurements.listAllByTree('tree_kept', 'user-123')).toHaveLength(1);
+    expect(await repositories.recommendations.listByTree('tree_old')).toEqual([]);
+    expect(await repositories.recommendations.listByTree('tree_kept')).toHaveLength(1);
+    expect(await repositories.notifications.listDue('2025-06-01T00:00:00.000Z', 10)).toEqual([
+      expect.objectContaining({ notificationId: 'notif_3' }),
+    ]);
+    expect(await storedTree('tree_old')).toBeUndefined();
+    expect(await storedTree('tree_kept')).toBeDefined();
+    expect(await repositories.photos.get('photo_1', 'tree_old')).toBeUndefined();
+    expect(await repositories.photos.get('photo_2', 'tree_old')).toBeUndefined();
+    expect(await repositories.photos.get('photo_3', 'tree_kept')).toBeDefined();
+    expect([...mockObjects]).toEqual(['users/user-123/trees/tree_kept/photo_3.jpg']);
+  });
+
+  it('should leave active trees alone', async () => {
+    await seedTree('tree_active', { status: 'active', archivedAt: undefined });
+    await seedPhoto('photo_1', 'tree_active');
+
+    const summary = await runAt('2025-06-01T00:00:00Z');
+
+    expect(summary.purged).toBe(0);
+    expect(await storedTree('tree_active')).toBeDefined();
+    expect(mockObjects.size).toBe(1);
+  });
+
+  it('should keep a tree restored before its purge started, with its history', async () => {
+    await seedTree('tree_old');
+    await seedPhoto('photo_1', 'tree_old');
+    await seedCareEvent('care_1', 'tree_old');
+    const { trees } = repositories;
+    const listArchivedBefore = trees.listArchivedBefore.bind(trees);
+    jest.spyOn(trees, 'listArchivedBefore').mockImplementationOnce(async (cutoff, limit) => {
+      const listed = await listArchivedBefore(cutoff, limit);
+      const restored: TreeItem = { ...listed[0], status: 'active', version: listed[0].version + 1 };
+      delete restored.archivedAt;
+      await trees.save(restored, listed[0].version);
+      return listed;
+    });
+
+    const summary = await runAt('2025-02-05T00:00:00Z');
+
+    expect(summary).toMatchObject({ purged: 0, skipped: 1, photosDeleted: 0, careEventsDeleted: 0, objectsDeleted: 0 });
+    expect((await storedTree('tree_old'))?.status).toBe('active');
+    expect(await repositories.photos.get('photo_1', 'tree_old')).toBeDefined();
+    expect(await repositories.careEvents.get('care_1', 'tree_old')).toBeDefined();
+    expect(mockObjects.size).toBe(1);
+  });
+
+  it('should mark the tree before deleting anything of it', async () => {
+    await seedTree('tree_old', { version: 4 });
+    await seedPhoto('photo_1', 'tree_old');
+    let duringPurge: TreeItem | undefined;
+    mockS3Client.listObjectsV2.mockImplementationOnce((params: any) => ({
+      promise: jest.fn(async () => {
+        duringPurge = await storedTree('tree_old');
+        return { Contents: [...mockObjects].filter((key) => key.startsWith(params.Prefix)).map((Key) => ({ Key })) };
+      }),
+    }));
+
+    const summary = await runAt('2025-02-05T00:00:00Z');
+
+    expect(duringPurge).toMatchObject({ status: 'archived', purgeStartedAt: '2025-02-05T00:00:00.000Z', version: 5 });
+    expect(summary).toMatchObject({ purged: 1, skipped: 0 });
+  });
+
+  it('should keep the tree for the next run when its files cannot be deleted', async () => {
+    await seedTree('tree_old');
+    await seedPhoto('photo_1', 'tree_old');
+    mockS3Client.deleteObjects.mockImplementationOnce((params: any) => ({
+      promise: jest.fn().mockResolvedValue({ Errors: [{ Key: params.Delete.Objects[0].Key, Code: 'AccessDenied' }] }),
+    }));
+
+    await expect(runAt('2025-02-05T00:00:00Z')).rejects.toThrow('Failed to delete 1 photo files');
+    expect(await storedTree('tree_old')).toBeDefined();
+
+    const retried = await runAt('2025-02-05T01:00:00Z');
+
+    expect(retried).toMatchObject({ purged: 1, photosDeleted: 1 });
+  });
+});
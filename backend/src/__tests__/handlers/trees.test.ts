@@ -0,0 +1,762 @@
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext, createMockEvent } from '../setup/lambda-events';
+
+import { TreesHandler } from '../../handlers/trees';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+
+const treeBody = {
+  name: 'Front Yard Oak',
+  species: {
+    scientificName: 'Quercus rubra',
+    commonName: 'Red Oak',
+  },
+  plantedDate: '2020-03-15',
+  location: {
+    yardPosition: 'front yard northeast corner',
+    coordinates: [40.7128, -74.006],
+  },
+};
+
+describe('Trees Handlers', () => {
+  let mockContext: Context;
+  let repositories: Repositories;
+  let treesHandler: TreesHandler;
+
+  const handler = (event: APIGatewayProxyEvent, context: Context) => treesHandler.handler(event, context);
+
+  const storedTree = async (treeId: string, userId = 'user-123') => (await repositories.trees.get(treeId, userId))!;
+
+  const create = async (userId = 'user-123', body: any = treeBody) => {
+    const result = await handler(
+      createAuthorizedEvent(userId, {
+        httpMethod: 'POST',
+        path: '/trees',
+        body: JSON.stringify(body),
+      }),
+      mockContext
+    );
+    return JSON.parse(result.body).data;
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockContext = createMockContext();
+    repositories = inMemoryRepositories();
+    treesHandler = new TreesHandler(repositories);
+  });
+
+  describe('POST /trees', () => {
+    it('should create a tree with defaults for omitted fields', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify(treeBody),
+        }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(201);
+      expect(body.requestId).toBe(mockContext.awsRequestId);
+      expect(body.data.id).toMatch(/^tree_/);
+      expect(body.data.userId).toBe('user-123');
+      expect(body.data.species.speciesId).toBe('quercus_rubra');
+      expect(body.data.location.sunExposure).toBe('partial sun');
+      expect(body.data.currentStatus.growthStage).toBe('seedling');
+      expect(body.data.status).toBe('active');
+      expect(await storedTree(body.data.id)).toMatchObject({ name: 'Front Yard Oak', version: 1 });
+    });
+
+    it('should reject requests without a bearer token', async () => {
+      const result = await handler(
+        createMockEvent({ httpMethod: 'POST', path: '/trees', body: JSON.stringify(treeBody) }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('UnauthorizedError');
+    });
+
+    it('should fill in the species from the catalog', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify({ ...treeBody, species: { speciesId: 'acer_saccharum' } }),
+        }),
+        mockContext
+      );
+
+      expect(JSON.parse(result.body).data.species).toEqual({
+        speciesId: 'acer_saccharum',
+        scientificName: 'Acer saccharum',
+        commonName: 'Sugar Maple',
+      });
+    });
+
+    it('should store the climate at the coordinates', async () => {
+      const tree = await create();
+
+      expect(tree.climate).toEqual({
+        hemisphere: 'northern',
+        hardinessZone: '7b',
+        frostDates: { lastFrost: '04-07', firstFrost: '11-07' },
+        referencePoint: 'New York',
+      });
+      expect(tree).not.toHaveProperty('warnings');
+      expect((await storedTree(tree.id)).climate).toEqual(tree.climate);
+    });
+
+    it('should warn when the species is not hardy at the coordinates', async () => {
+      const tree = await create('user-123', { ...treeBody, location: { coordinates: [25.76, -80.19] } });
+
+      expect(tree.climate.hardinessZone).toBe('11a');
+      expect(tree.warnings).toEqual([
+        { code: 'outside_hardiness_zone', message: 'Red Oak is hardy in zones 3-8; this tree is in zone 11a.' },
+      ]);
+    });
+
+    it('should not resolve a climate without coordinates', async () => {
+      const tree = await create('user-123', { ...treeBody, location: undefined });
+
+      expect(tree.location.coordinates).toEqual([0, 0]);
+      expect(tree).not.toHaveProperty('climate');
+    });
+
+    it('should keep species that are not in the catalog as given', async () => {
+      const species = { scientificName: 'Sassafras albidum', commonName: 'Sassafras' };
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify({ ...treeBody, species }),
+        }),
+        mockContext
+      );
+
+      expect(JSON.parse(result.body).data.species).toEqual({ ...species, speciesId: 'sassafras_albidum' });
+    });
+
+    it('should reject an unknown speciesId without names', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify({ ...treeBody, species: { speciesId: 'not_a_tree' } }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).details).toEqual([
+        { location: 'body', path: 'species.speciesId', message: 'is not in the species catalog' },
+      ]);
+    });
+
+    it('should reject a missing name', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify({ species: treeBody.species }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).details).toEqual([
+        { location: 'body', path: 'name', message: 'is required' },
+      ]);
+    });
+
+    it('should report every invalid field', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'POST',
+          path: '/trees',
+          body: JSON.stringify({
+            ...treeBody,
+            location: { coordinates: [95, -74] },
+            currentStatus: { growthStage: 'ancient' },
+          }),
+        }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(400);
+      expect(body.error).toBe('ValidationError');
+      expect(body.details.map((detail: any) => detail.path)).toEqual([
+        'location.coordinates[0]',
+        'currentStatus.growthStage',
+      ]);
+    });
+  });
+
+  describe('tree limits', () => {
+    const setTier = (status: 'active' | 'canceled') =>
+      repositories.subscriptions.applyStripeUpdate('user-123', {
+        subscriptionTier: 'hobbyist',
+        status,
+        stripeEventCreated: 1,
+      });
+    const createResult = (userId = 'user-123') =>
+      handler(
+        createAuthorizedEvent(userId, { httpMethod: 'POST', path: '/trees', body: JSON.stringify(treeBody) }),
+        mockContext
+      );
+
+    it('should return 402 when a free user already has three trees', async () => {
+      await create();
+      await create();
+      await create();
+
+      const result = await createResult();
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(402);
+      expect(body.error).toBe('EntitlementError');
+      expect(body.details).toEqual({ entitlement: 'maxTrees', tier: 'free', limit: 3, requiredTier: 'hobbyist' });
+      expect(await repositories.trees.listAllByUser('user-123')).toHaveLength(3);
+    });
+
+    it('should not count archived trees', async () => {
+      const first = await create();
+      await create();
+      await create();
+      await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${first.id}` }),
+        mockContext
+      );
+
+      expect((await createResult()).statusCode).toBe(201);
+    });
+
+    it('should allow more trees on a paid tier', async () => {
+      await setTier('active');
+      await create();
+      await create();
+      await create();
+
+      expect((await createResult()).statusCode).toBe(201);
+    });
+
+    it('should treat a canceled subscription as free', async () => {
+      await setTier('canceled');
+      await create();
+      await create();
+      await create();
+
+      expect((await createResult()).statusCode).toBe(402);
+    });
+  });
+
+  describe('GET /trees', () => {
+    it("should list only the caller's active trees", async () => {
+      await create('user-123');
+      await create('user-123', { ...treeBody, name: 'Backyard Maple' });
+      await create('user-456');
+
+      const result = await handler(createAuthorizedEvent('user-123', { path: '/trees' }), mockContext);
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.trees).toHaveLength(2);
+      expect(body.data.pagination).toEqual({ limit: 20, nextCursor: null });
+    });
+
+    const list = async (query: Record<string, string>, userId = 'user-123') => {
+      const result = await handler(createAuthorizedEvent(userId, { path: '/trees', queryStringParameters: query }), mockContext);
+      return { result, body: JSON.parse(result.body) };
+    };
+
+    it('should page through the trees with a cursor', async () => {
+      await create('user-123', { ...treeBody, name: 'One' });
+      await create('user-123', { ...treeBody, name: 'Two' });
+      await create('user-123', { ...treeBody, name: 'Three' });
+
+      const first = await list({ limit: '2' });
+      const second = await list({ limit: '2', cursor: first.body.data.pagination.nextCursor });
+      const names = [...first.body.data.trees, ...second.body.data.trees].map((tree: any) => tree.name);
+
+      expect(first.body.data.trees).toHaveLength(2);
+      expect(first.body.data.pagination).toEqual({ limit: 2, nextCursor: expect.any(String) });
+      expect(second.body.data.trees).toHaveLength(1);
+      expect(second.body.data.pagination.nextCursor).toBeNull();
+      expect(names.sort()).toEqual(['One', 'Three', 'Two']);
+    });
+
+    it('should fill the page past trees filtered out by status', async () => {
+      await create('user-123', { ...treeBody, name: 'One' });
+      const archived = await create('user-123', { ...treeBody, name: 'Two' });
+      await create('user-123', { ...treeBody, name: 'Three' });
+      await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${archived.id}` }),
+        mockContext
+      );
+
+      const { body } = await list({ limit: '2' });
+
+      expect(body.data.trees.map((tree: any) => tree.name).sort()).toEqual(['One', 'Three']);
+    });
+
+    it('should reject cursors that were altered or issued for another list', async () => {
+      await create('user-123');
+      await create('user-123');
+      await create('user-456');
+      await create('user-456');
+      const { body } = await list({ limit: '1' });
+      const cursor: string = body.data.pagination.nextCursor;
+      const [payload, signature] = cursor.split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ treeId: 'tree_other', userId: 'user-456' })).toString(
+        'base64url'
+      );
+
+      const responses = await Promise.all([
+        list({ cursor: `${forgedPayload}.${signature}` }),
+        list({ cursor: `${payload}.${signature}x` }),
+        list({ cursor: 'not-a-cursor' }),
+        list({ cursor }, 'user-456'),
+        list({ cursor, status: 'archived' }),
+      ]);
+
+      responses.forEach(({ result, body: error }) => {
+        expect(result.statusCode).toBe(400);
+        expect(error.details).toEqual([
+          { location: 'query', path: 'cursor', message: 'is not a valid cursor for this list' },
+        ]);
+      });
+    });
+
+    it('should filter by status', async () => {
+      const tree = await create('user-123');
+      await create('user-123', { ...treeBody, name: 'Still here' });
+      await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${tree.id}` }),
+        mockContext
+      );
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', { path: '/trees', queryStringParameters: { status: 'archived' } }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(body.data.trees).toHaveLength(1);
+      expect(body.data.trees[0].id).toBe(tree.id);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const badLimit = await handler(
+        createAuthorizedEvent('user-123', { path: '/trees', queryStringParameters: { limit: '0' } }),
+        mockContext
+      );
+      const badStatus = await handler(
+        createAuthorizedEvent('user-123', { path: '/trees', queryStringParameters: { status: 'deleted' } }),
+        mockContext
+      );
+
+      expect(badLimit.statusCode).toBe(400);
+      expect(JSON.parse(badLimit.body).details).toEqual([
+        { location: 'query', path: 'limit', message: 'must be >= 1' },
+      ]);
+      expect(badStatus.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /trees/{treeId}', () => {
+    it('should return the tree', async () => {
+      const tree = await create();
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', { path: `/trees/${tree.id}` }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual(tree);
+      expect(result.headers?.ETag).toBe('"1"');
+    });
+
+    it('should treat trees stored before versioning as version 0', async () => {
+      const tree = await create();
+      const { version, ...unversioned } = await storedTree(tree.id);
+      await repositories.trees.save(unversioned as TreeItem, version);
+
+      const result = await handler(createAuthorizedEvent('user-123', { path: `/trees/${tree.id}` }), mockContext);
+
+      expect(version).toBe(1);
+      expect(result.headers?.ETag).toBe('"0"');
+      expect(JSON.parse(result.body).data.version).toBe(0);
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      const tree = await create('user-456');
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', { path: `/trees/${tree.id}` }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('NotFoundError');
+    });
+  });
+
+  describe('PUT /trees/{treeId}', () => {
+    it('should merge partial updates into the stored tree', async () => {
+      const tree = await create();
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'PUT',
+          path: `/trees/${tree.id}`,
+          body: JSON.stringify({ name: 'Updated Tree Name', currentStatus: { height: 14 } }),
+        }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.name).toBe('Updated Tree Name');
+      expect(body.data.currentStatus.height).toBe(14);
+      expect(body.data.currentStatus.trunkDiameter).toBe(tree.currentStatus.trunkDiameter);
+      expect(body.data.createdAt).toBe(tree.createdAt);
+    });
+
+    it('should resolve the climate again when the tree moves', async () => {
+      const tree = await create('user-123', { ...treeBody, location: { coordinates: [25.76, -80.19] } });
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'PUT',
+          path: `/trees/${tree.id}`,
+          body: JSON.stringify({ location: { coordinates: [-37.81, 144.96] } }),
+        }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(body.data.climate).toMatchObject({ hemisphere: 'southern', hardinessZone: '10a' });
+      expect(body.data.warnings[0].message).toContain('zone 10a');
+      expect(body.data.location.yardPosition).toBe(tree.location.yardPosition);
+    });
+
+    it('should drop the hardiness warning once the species suits the zone', async () => {
+      const tree = await create('user-123', { ...treeBody, location: { coordinates: [25.76, -80.19] } });
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'PUT',
+          path: `/trees/${tree.id}`,
+          body: JSON.stringify({ location: { coordinates: [40.7128, -74.006] } }),
+        }),
+        mockContext
+      );
+
+      expect(JSON.parse(result.body).data).not.toHaveProperty('warnings');
+      expect(await storedTree(tree.id)).not.toHaveProperty('warnings');
+    });
+
+    it('should keep every measured height as a dated manual measurement', async () => {
+      const tree = await create();
+      const put = (height: number) =>
+        handler(
+          createAuthorizedEvent('user-123', {
+            httpMethod: 'PUT',
+            path: `/trees/${tree.id}`,
+            body: JSON.stringify({ currentStatus: { height } }),
+          }),
+          mockContext
+        );
+
+      await put(14);
+      await put(15);
+
+      const measurements = await repositories.measurements.listAllByTree(tree.id, 'user-123');
+      expect(measurements).toHaveLength(2);
+      expect(measurements.map((item) => item.height)).toEqual([14, 15]);
+      measurements.forEach((item) => {
+        expect(item).toMatchObject({ treeId: tree.id, userId: 'user-123', source: 'manual' });
+        expect(item).not.toHaveProperty('trunkDiameter');
+      });
+      expect((await storedTree(tree.id)).currentStatus.height).toBe(15);
+    });
+
+    it('should not record the unchanged readings an edit resends', async () => {
+      const tree = await create();
+      const put = (body: any) =>
+        handler(
+          createAuthorizedEvent('user-123', { httpMethod: 'PUT', path: `/trees/${tree.id}`, body: JSON.stringify(body) }),
+          mockContext
+        );
+
+      const renamed = await put({ name: 'Renamed', currentStatus: tree.currentStatus });
+      await put({ currentStatus: { ...tree.currentStatus, height: 3 } });
+
+      const measurements = await repositories.measurements.listAllByTree(tree.id, 'user-123');
+      expect(renamed.statusCode).toBe(200);
+      expect(JSON.parse(renamed.body).data.version).toBe(2);
+      expect(measurements).toHaveLength(1);
+      expect(measurements[0]).toMatchObject({ height: 3 });
+      expect(measurements[0]).not.toHaveProperty('trunkDiameter');
+    });
+
+    describe('with If-Match', () => {
+      const update = async (treeId: string, body: any, ifMatch?: string) => {
+        const result = await handler(
+          createAuthorizedEvent('user-123', {
+            httpMethod: 'PUT',
+            path: `/trees/${treeId}`,
+            headers: ifMatch ? { 'if-match': ifMatch } : {},
+            body: JSON.stringify(body),
+          }),
+          mockContext
+        );
+        return { result, body: JSON.parse(result.body) };
+      };
+
+      // The next save loses the race to a rename saved elsewhere
+      const saveElsewhereFirst = (treeId: string) => {
+        const { trees } = repositories;
+        const save = trees.save.bind(trees);
+        jest.spyOn(trees, 'save').mockImplementationOnce(async () => {
+          const stored = await storedTree(treeId);
+          await save({ ...stored, name: 'Saved elsewhere', version: stored.version + 1 }, stored.version);
+          return false;
+        });
+      };
+
+      it('should apply the update to the version the client saw and bump the ETag', async () => {
+        const tree = await create();
+
+        const { result, body } = await update(tree.id, { name: 'Renamed' }, '"1"');
+
+        expect(result.statusCode).toBe(200);
+        expect(result.headers?.ETag).toBe('"2"');
+        expect(body.data.version).toBe(2);
+      });
+
+      it('should return 409 with the server copy for a stale version', async () => {
+        const tree = await create();
+        await update(tree.id, { name: 'Renamed on the phone' }, '"1"');
+
+        const { result, body } = await update(tree.id, { name: 'Renamed on the tablet' }, '"1"');
+
+        expect(result.statusCode).toBe(409);
+        expect(body.error).toBe('ConflictError');
+        expect(body.details.current).toMatchObject({ id: tree.id, name: 'Renamed on the phone', version: 2 });
+        expect((await storedTree(tree.id)).name).toBe('Renamed on the phone');
+      });
+
+      it('should accept any version for *', async () => {
+        const tree = await create();
+        await update(tree.id, { name: 'Renamed' });
+
+        const { result } = await update(tree.id, { name: 'Renamed again' }, '*');
+
+        expect(result.statusCode).toBe(200);
+      });
+
+      it('should return 409 when another write lands between reading and saving', async () => {
+        const tree = await create();
+        saveElsewhereFirst(tree.id);
+
+        const { result, body } = await update(tree.id, { name: 'Renamed' });
+
+        expect(result.statusCode).toBe(409);
+        expect(body.details.current).toMatchObject({ name: 'Saved elsewhere', version: 2 });
+      });
+
+      it('should not keep the measured height of an update that lost the race', async () => {
+        const tree = await create();
+        saveElsewhereFirst(tree.id);
+
+        const { result } = await update(tree.id, { currentStatus: { height: 14 } });
+
+        expect(result.statusCode).toBe(409);
+        expect(await repositories.measurements.listAllByTree(tree.id, 'user-123')).toEqual([]);
+      });
+
+      it('should return the reassessed tree and its latest ETag after a measured update', async () => {
+        const tree = await create();
+
+        const { result, body } = await update(tree.id, { currentStatus: { height: 14 } }, '"1"');
+
+        expect(result.statusCode).toBe(200);
+        expect(body.data).toMatchObject({ version: 3, currentStatus: { height: 14 } });
+        expect(result.headers?.ETag).toBe('"3"');
+        expect((await storedTree(tree.id)).version).toBe(3);
+        expect(await repositories.measurements.listAllByTree(tree.id, 'user-123')).toHaveLength(1);
+      });
+    });
+
+    it('should return 409 for an archived tree, without changing it', async () => {
+      const tree = await create();
+      await handler(createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${tree.id}` }), mockContext);
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'PUT',
+          path: `/trees/${tree.id}`,
+          body: JSON.stringify({ name: 'Renamed', currentStatus: { height: 14 } }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body).message).toContain('is archived');
+      expect(await storedTree(tree.id)).toMatchObject({ name: 'Front Yard Oak', status: 'archived', version: 2 });
+      expect(await repositories.measurements.listAllByTree(tree.id, 'user-123')).toEqual([]);
+    });
+
+    it('should return 404 for an unknown tree', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', {
+          httpMethod: 'PUT',
+          path: '/trees/tree_missing',
+          body: JSON.stringify({ name: 'Nope' }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /trees/{treeId}', () => {
+    it('should archive the tree instead of deleting it', async () => {
+      const tree = await create();
+
+      const result = await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${tree.id}` }),
+        mockContext
+      );
+      const body = JSON.parse(result.body);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.data.status).toBe('archived');
+      expect(body.data.archivedAt).toEqual(expect.any(String));
+      expect(body.message).toBe('Tree archived');
+      expect(await repositories.trees.listAllByUser('user-123')).toHaveLength(1);
+    });
+
+    it('should keep the original archive time when archived again', async () => {
+      const tree = await create();
+      const archive = async () =>
+        JSON.parse(
+          (
+            await handler(
+              createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${tree.id}` }),
+              mockContext
+            )
+          ).body
+        ).data;
+
+      const first = await archive();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const second = await archive();
+
+      expect(second.archivedAt).toBe(first.archivedAt);
+    });
+  });
+
+  describe('POST /trees/{treeId}/restore', () => {
+    const archive = (treeId: string) =>
+      handler(createAuthorizedEvent('user-123', { httpMethod: 'DELETE', path: `/trees/${treeId}` }), mockContext);
+    const restore = async (treeId: string) => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'POST', path: `/trees/${treeId}/restore` }),
+        mockContext
+      );
+      return { result, body: JSON.parse(result.body) };
+    };
+
+    it('should make an archived tree active again', async () => {
+      const tree = await create();
+      await archive(tree.id);
+
+      const { result, body } = await restore(tree.id);
+
+      expect(result.statusCode).toBe(200);
+      expect(body.message).toBe('Tree restored');
+      expect(body.data.status).toBe('active');
+      expect(body.data).not.toHaveProperty('archivedAt');
+      expect(await storedTree(tree.id)).not.toHaveProperty('archivedAt');
+    });
+
+    it('should return 409 for a tree that is not archived', async () => {
+      const tree = await create();
+
+      const { result } = await restore(tree.id);
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    it('should return 409 once the purge of the tree has started', async () => {
+      const tree = await create();
+      await archive(tree.id);
+      const archived = await storedTree(tree.id);
+      await repositories.trees.save(
+        { ...archived, purgeStartedAt: new Date().toISOString(), version: archived.version + 1 },
+        archived.version
+      );
+
+      const { result, body } = await restore(tree.id);
+
+      expect(result.statusCode).toBe(409);
+      expect(body.message).toContain('can no longer be restored');
+      expect((await storedTree(tree.id)).status).toBe('archived');
+    });
+
+    it('should count the restored tree against the plan limit', async () => {
+      const archived = await create();
+      await archive(archived.id);
+      await create();
+      await create();
+      await create();
+
+      const { result, body } = await restore(archived.id);
+
+      expect(result.statusCode).toBe(402);
+      expect(body.details).toMatchObject({ entitlement: 'maxTrees', limit: 3 });
+    });
+
+    it("should return 404 for another user's tree", async () => {
+      const tree = await create('user-456');
+
+      const { result } = await restore(tree.id);
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('routing', () => {
+    it('should return 405 for an unsupported method on a known path', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', { httpMethod: 'PATCH', path: '/trees/tree_1' }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(405);
+      expect(result.headers?.Allow).toBe('GET, PUT, DELETE');
+    });
+
+    it('should return 404 for an unknown path', async () => {
+      const result = await handler(
+        createAuthorizedEvent('user-123', { path: '/trees/tree_1/unknown' }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { LocalDynamoDB } from '../../local/dynamodb';
+
+describe('LocalDynamoDB', () => {
+  const TableName = 'TreeCareTrees-local';
+  let dynamodb: LocalDynamoDB;
+
+  const putTree = (treeId: string, createdAt: string, extra: Record<string, unknown> = {}) =>
+    dynamodb.put({ TableName, Item: { treeId, userId: 'user-1', createdAt, status: 'active', ...extra } });
+
+  beforeEach(() => {
+    dynamodb = new LocalDynamoDB([
+      {
+        name: TableName,
+        partitionKey: 'treeId',
+        sortKey: 'userId',
+        indexes: { 'userId-index': { partitionKey: 'userId', sortKey: 'createdAt' } },
+      },
+    ]);
+  });
+
+  it('should reject a put whose condition fails', () => {
+    putTree('tree-1', '2025-01-01');
+
+    expect(() =>
+      dynamodb.put({
+        TableName,
+        Item: { treeId: 'tree-1', userId: 'user-1' },
+        ConditionExpression: 'attribute_not_exists(treeId)',
+      })
+    ).toThrow(expect.objectContaining({ code: 'ConditionalCheckFailedException' }));
+  });
+
+  it('should apply SET, REMOVE and ADD from the item as it was', () => {
+    putTree('tree-1', '2025-01-01', { version: 2, notes: 'old' });
+
+    const { Attributes } = dynamodb.update({
+      TableName,
+      Key: { treeId: 'tree-1', userId: 'user-1' },
+      UpdateExpression: 'SET #version = #version + :one, views = if_not_exists(views, :zero) REMOVE notes ADD edits :one',
+      ConditionExpression: '#version = :expected',
+      ExpressionAttributeNames: { '#version': 'version' },
+      ExpressionAttributeValues: { ':one': 1, ':zero': 0, ':expected': 2 },
+      ReturnValues: 'ALL_NEW',
+    });
+
+    expect(Attributes).toMatchObject({ version: 3, views: 0, edits: 1 });
+    expect(Attributes).not.toHaveProperty('notes');
+  });
+
+  it('should query an index in sort key order, a page at a time', () => {
+    ['2025-03-01', '2025-01-01', '2025-02-01'].forEach((createdAt, i) => putTree(`tree-${i}`, createdAt));
+    putTree('tree-archived', '2025-02-15', { status: 'archived' });
+
+    const query = (ExclusiveStartKey?: Record<string, unknown>) =>
+      dynamodb.query({
+        TableName,
+        IndexName: 'userId-index',
+        KeyConditionExpression: 'userId = :userId AND createdAt BETWEEN :from AND :to',
+        FilterExpression: '#status = :active',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':userId': 'user-1', ':from': '2025-01-15', ':to': '2025-12-31', ':active': 'active' },
+        ScanIndexForward: false,
+        Limit: 2,
+        ExclusiveStartKey,
+      });
+
+    const first = query();
+    const second = query(first.LastEvaluatedKey);
+
+    // Limit counts items read, so the filtered-out archived tree uses up a slot
+    expect(first.Items?.map((item) => item.createdAt)).toEqual(['2025-03-01']);
+    expect(first.LastEvaluatedKey).toEqual({ userId: 'user-1', createdAt: '2025-02-15', treeId: 'tree-archived' });
+    expect(second.Items?.map((item) => item.createdAt)).toEqual(['2025-02-01']);
+    expect(second.LastEvaluatedKey).toBeUndefined();
+  });
+
+  it('should leave items without the index keys out of the index', () => {
+    dynamodb.put({ TableName, Item: { treeId: 'tree-1', userId: 'user-1' } });
+
+    const { Count } = dynamodb.query({
+      TableName,
+      IndexName: 'userId-index',
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: { ':userId': 'user-1' },
+    });
+
+    expect(Count).toBe(0);
+  });
+
+  it('should reject expressions DynamoDB would reject', () => {
+    expect(() =>
+      dynamodb.query({ TableName, KeyConditionExpression: 'treeId = :treeId', ExpressionAttributeValues: {} })
+    ).toThrow(expect.objectContaining({ code: 'ValidationException' }));
+    expect(() => dynamodb.get({ TableName, Key: { treeId: 'tree-1' } })).toThrow(
+      expect.objectContaining({ code: 'ValidationException' })
+    );
+    expect(() => dynamodb.get({ TableName: 'Missing', Key: { treeId: 'tree-1' } })).toThrow(
+      expect.objectContaining({ code: 'ResourceNotFoundException' })
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { COGNITO_PATH, DEMO_USER, LocalServer, startLocalServer } from '../../local/server';
+
+describe('Local API server', () => {
+  let server: LocalServer;
+  let token: string;
+
+  const cognito = (operation: string, params: Record<string, unknown>) =>
+    fetch(`${server.url}${COGNITO_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-amz-json-1.1',
+        'X-Amz-Target': `AWSCognitoIdentityProviderService.${operation}`,
+      },
+      body: JSON.stringify({ ClientId: server.aws.userPool.clientId, ...params }),
+    });
+
+  const signIn = async (email: string, password: string): Promise<string> => {
+    const response = await cognito('InitiateAuth', {
+      AuthFlow: 'USER_PASSWORD_AUTH',
+      AuthParameters: { USERNAME: email, PASSWORD: password },
+    });
+    return (await response.json()).AuthenticationResult.IdToken;
+  };
+
+  const api = async (path: string, init: { method?: string; body?: unknown; token?: string } = {}) => {
+    const response = await fetch(`${server.url}${path}`, {
+      method: init.method ?? 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(init.token && { Authorization: `Bearer ${init.token}` }),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+    return { status: response.status, headers: response.headers, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    server = await startLocalServer({ port: 0, host: '127.0.0.1' });
+    token = await signIn(DEMO_USER.email, DEMO_USER.password);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should report every local dependency as ready', async () => {
+    const { status, body } = await api('/health/ready');
+
+    expect(status).toBe(200);
+    expect(body.status).toBe('healthy');
+    expect(Object.values(body.dependencies).every((dependency: any) => dependency.status === 'healthy')).toBe(true);
+  });
+
+  it('should sign up users and reject bad passwords', async () => {
+    const signUp = await cognito('SignUp', { Username: 'new@treecare.local', Password: 'long-enough' });
+    const wrongPassword = await cognito('InitiateAuth', {
+      AuthFlow: 'USER_PASSWORD_AUTH',
+      AuthParameters: { USERNAME: 'new@treecare.local', PASSWORD: 'not-it' },
+    });
+
+    expect(signUp.status).toBe(200);
+    expect((await signUp.json()).UserConfirmed).toBe(true);
+    expect(wrongPassword.status).toBe(400);
+    expect((await wrongPassword.json()).__type).toBe('NotAuthorizedException');
+  });
+
+  it('should serve the API with tokens from the local user pool', async () => {
+    const created = await api('/trees', {
+      method: 'POST',
+      token,
+      body: { name: 'Front Yard Oak', species: { scientificName: 'Quercus rubra', commonName: 'Red oak' } },
+    });
+    const listed = await api('/trees', { token });
+    const anonymous = await api('/trees');
+
+    expect(created.status).toBe(201);
+    expect(created.headers.get('ETag')).toBe('"1"');
+    expect(listed.body.data.trees.map((tree: any) => tree.name)).toEqual(['Front Yard Oak']);
+    expect(anonymous.status).toBe(401);
+  });
+
+  it('should upload photos through presigned URLs', async () => {
+    const tree = await api('/trees', {
+      method: 'POST',
+      token,
+      body: { name: 'Maple', species: { scientificName: 'Acer rubrum', commonName: 'Red maple' } },
+    });
+    const treeId = tree.body.data.id;
+    const image = Buffer.from('not really a jpeg');
+
+    const upload = await api(`/trees/${treeId}/photos`, {
+      method: 'POST',
+      token,
+      body: { contentType: 'image/jpeg', contentLength: image.length },
+    });
+    const put = await fetch(upload.body.data.uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/jpeg' },
+      body: image,
+    });
+    const completed = await api(`/trees/${treeId}/photos/${upload.body.data.photoId}/complete`, {
+      method: 'POST',
+      token,
+      body: {},
+    });
+    const listed = await api(`/trees/${treeId}/photos`, { token });
+
+    expect(upload.status).toBe(201);
+    expect(put.status).toBe(200);
+    expect(completed.status).toBe(200);
+    expect(listed.body.data.photos).toHaveLength(1);
+  });
+
+  it('should return 404 for paths no handler serves', async () => {
+    const { status, body } = await api('/nowhere');
+
+    expect(status).toBe(404);
+    expect(body.error).toBe('NotFoundError');
+  });
+});
@@ -0,0 +1,214 @@
+import { generateKeyPairSync } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import jwt from 'jsonwebtoken';
+import axios from 'axios';
+import { BaseLambdaHandler, CallerIdentity } from '../../handlers/lambda-base';
+import {
+  CognitoTokenVerifier,
+  getBearerToken,
+  JwksKeyProvider,
+  StaticKeyProvider,
+} from '../../middleware/auth';
+import { InMemorySubscriptionRepository } from '../../repositories/subscriptions';
+import {
+  installTestSigningKey,
+  mintTestToken,
+  testKeyPair,
+  TEST_CLIENT_ID,
+  TEST_ISSUER,
+  TEST_KID,
+} from '../setup/auth-tokens';
+import { createMockContext, createMockEvent } from '../setup/lambda-events';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Cognito token verification', () => {
+  const verifier = new CognitoTokenVerifier({
+    issuer: TEST_ISSUER,
+    clientId: TEST_CLIENT_ID,
+    keyProvider: new StaticKeyProvider({ [TEST_KID]: testKeyPair.publicKey }),
+  });
+
+  describe('CognitoTokenVerifier', () => {
+    it('should accept a valid ID token', async () => {
+      const identity = await verifier.verify(
+        mintTestToken({ sub: 'user-1', email: 'a@example.com' })
+      );
+
+      expect(identity.userId).toBe('user-1');
+      expect(identity.email).toBe('a@example.com');
+      expect(identity.tokenUse).toBe('id');
+      expect(identity.subscriptionTier).toBe('free');
+    });
+
+    it('should accept a valid access token', async () => {
+      const identity = await verifier.verify(mintTestToken({}, { tokenUse: 'access' }));
+
+      expect(identity.tokenUse).toBe('access');
+    });
+
+    it('should read the subscription tier from the custom attribute', async () => {
+      const identity = await verifier.verify(
+        mintTestToken({ 'custom:subscription_tier': 'arborist' })
+      );
+
+      expect(identity.subscriptionTier).toBe('arborist');
+    });
+
+    it('should fall back to Cognito groups for the subscription tier', async () => {
+      const identity = await verifier.verify(
+        mintTestToken({ 'cognito:groups': ['beta', 'hobbyist'] }, { tokenUse: 'access' })
+      );
+
+      expect(identity.subscriptionTier).toBe('hobbyist');
+    });
+
+    it('should reject an expired token', async () => {
+      await expect(verifier.verify(mintTestToken({}, { expiresIn: -10 }))).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Token expired',
+      });
+    });
+
+    it('should reject a token for another app client', async () => {
+      await expect(verifier.verify(mintTestToken({ aud: 'other-client' }))).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid token audience',
+      });
+    });
+
+    it('should reject a token from another issuer', async () => {
+      const token = jwt.sign({ sub: 'user-1', token_use: 'id', aud: TEST_CLIENT_ID }, testKeyPair.privateKey, {
+        algorithm: 'RS256',
+        keyid: TEST_KID,
+        issuer: 'https://evil.example.com',
+      });
+
+      await expect(verifier.verify(token)).rejects.toMatchObject({ message: 'Invalid token' });
+    });
+
+    it('should reject a token signed with a different key', async () => {
+      const otherKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = jwt.sign({ sub: 'user-1', token_use: 'id', aud: TEST_CLIENT_ID }, otherKeys.privateKey, {
+        algorithm: 'RS256',
+        keyid: TEST_KID,
+        issuer: TEST_ISSUER,
+      });
+
+      await expect(verifier.verify(token)).rejects.toMatchObject({ message: 'Invalid token' });
+    });
+
+    it('should reject an unknown key id', async () => {
+      await expect(verifier.verify(mintTestToken({}, { kid: 'rotated-away' }))).rejects.toMatchObject({
+        message: 'Unknown signing key',
+      });
+    });
+
+    it('should reject garbage', async () => {
+      await expect(verifier.verify('not-a-jwt')).rejects.toMatchObject({
+        message: 'Malformed token',
+      });
+    });
+  });
+
+  describe('getBearerToken', () => {
+    it('should read the Authorization header case-insensitively', () => {
+      const event = createMockEvent({ headers: { authorization: 'Bearer abc.def.ghi' } });
+
+      expect(getBearerToken(event)).toBe('abc.def.ghi');
+    });
+
+    it('should reject non-bearer schemes', () => {
+      const event = createMockEvent({ headers: { Authorization: 'Basic dXNlcjpwYXNz' } });
+
+      expect(() => getBearerToken(event)).toThrow('Missing bearer token');
+    });
+  });
+
+  describe('JwksKeyProvider', () => {
+    const jwk = { ...testKeyPair.publicKey.export({ format: 'jwk' }), kid: TEST_KID, use: 'sig' };
+
+    beforeEach(() => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValue({ data: { keys: [jwk] } });
+    });
+
+    it('should fetch and cache the key set', async () => {
+      const provider = new JwksKeyProvider('https://example.com/jwks.json');
+
+      const first = await provider.getSigningKey(TEST_KID);
+      const second = await provider.getSigningKey(TEST_KID);
+
+      expect(first).toBeDefined();
+      expect(second).toBe(first);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch for an unknown kid once the refresh interval has passed', async () => {
+      const provider = new JwksKeyProvider('https://example.com/jwks.json', 60 * 60 * 1000, 0);
+
+      await provider.getSigningKey(TEST_KID);
+      const missing = await provider.getSigningKey('new-key');
+
+      expect(missing).toBeUndefined();
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not refetch for an unknown kid within the refresh interval', async () => {
+      const provider = new JwksKeyProvider('https://example.com/jwks.json');
+
+      await provider.getSigningKey(TEST_KID);
+      await provider.getSigningKey('new-key');
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('BaseLambdaHandler integration', () => {
+    class ProtectedHandler extends BaseLambdaHandler {
+      protected requiresAuth = true;
+
+      async processRequest(
+        _event: APIGatewayProxyEvent,
+        context: Context,
+        identity?: CallerIdentity
+      ): Promise<APIGatewayProxyResult> {
+        return this.createSuccessResponse({ userId: identity?.userId }, context.awsRequestId);
+      }
+    }
+
+    const protectedHandler = new ProtectedHandler(new InMemorySubscriptionRepository());
+
+    beforeAll(() => {
+      installTestSigningKey();
+    });
+
+    it('should pass the verified identity to processRequest', async () => {
+      const event = createMockEvent({
+        headers: { Authorization: `Bearer ${mintTestToken({ sub: 'user-42' })}` },
+      });
+
+      const result = await protectedHandler.handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.userId).toBe('user-42');
+    });
+
+    it('should return 401 without a token', async () => {
+      const result = await protectedHandler.handler(createMockEvent(), createMockContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).message).toBe('Missing bearer token');
+    });
+
+    it('should not require a token for CORS preflight', async () => {
+      const result = await protectedHandler.handler(
+        createMockEvent({ httpMethod: 'OPTIONS' }),
+        createMockContext()
+      );
+
+      expect(result.statusCode).toBe(204);
+    });
+  });
+});
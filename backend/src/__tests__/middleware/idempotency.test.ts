@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { installTestSigningKey } from '../setup/auth-tokens';
+import { createAuthorizedEvent, createMockContext } from '../setup/lambda-events';
+
+// In-memory stand-in for the TreeCareIdempotency table
+const mockItems = new Map<string, any>();
+
+const conditionalCheckFailed = () =>
+  Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' });
+
+const mockDynamoDBClient = {
+  put: jest.fn((params: any) => ({
+    promise: jest.fn(async () => {
+      const existing = mockItems.get(params.Item.idempotencyKey);
+      const values = params.ExpressionAttributeValues;
+      if (
+        params.ConditionExpression &&
+        existing &&
+        !(existing.status === values[':inProgress'] && existing.lockedUntil < values[':now'])
+      ) {
+        throw conditionalCheckFailed();
+      }
+      mockItems.set(params.Item.idempotencyKey, params.Item);
+      return {};
+    }),
+  })),
+  get: jest.fn((params: any) => ({
+    promise: jest.fn(async () => ({ Item: mockItems.get(params.Key.idempotencyKey) })),
+  })),
+  delete: jest.fn((params: any) => ({
+    promise: jest.fn(async () => {
+      mockItems.delete(params.Key.idempotencyKey);
+      return {};
+    }),
+  })),
+};
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: {
+    DocumentClient: jest.fn(() => mockDynamoDBClient),
+  },
+}));
+
+import { BaseLambdaHandler, CallerIdentity } from '../../handlers/lambda-base';
+import { InMemorySubscriptionRepository } from '../../repositories/subscriptions';
+import { TIER_ENTITLEMENTS } from '../../services/entitlements';
+
+describe('Idempotency keys', () => {
+  const processed = jest.fn();
+
+  class CountingHandler extends BaseLambdaHandler {
+    protected requiresAuth = true;
+
+    async processRequest(
+      event: APIGatewayProxyEvent,
+      context: Context,
+      identity?: CallerIdentity
+    ): Promise<APIGatewayProxyResult> {
+      const count = processed(identity?.userId, event.body);
+      return this.createSuccessResponse({ count }, context.awsRequestId, undefined, 201);
+    }
+  }
+
+  const countingHandler = new CountingHandler(new InMemorySubscriptionRepository());
+  let counter: number;
+
+  const send = async (body: unknown, headers: Record<string, string> = {}, userId = 'user-123', httpMethod = 'POST') => {
+    const result = await countingHandler.handler(
+      createAuthorizedEvent(userId, { httpMethod, path: '/trees', headers, body: JSON.stringify(body) }),
+      createMockContext()
+    );
+    return { result, body: JSON.parse(result.body) };
+  };
+
+  beforeAll(() => {
+    installTestSigningKey();
+  });
+
+  beforeEach(() => {
+    mockItems.clear();
+    jest.clearAllMocks();
+    counter = 0;
+    processed.mockImplementation(() => ++counter);
+  });
+
+  it('should run a retried request once and replay the first response', async () => {
+    const first = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const retry = await send({ name: 'Oak' }, { 'idempotency-key': 'key-1' });
+
+    expect(processed).toHaveBeenCalledTimes(1);
+    expect(retry.result.statusCode).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.result.headers['Idempotent-Replayed']).toBe('true');
+    expect(first.result.headers['Idempotent-Replayed']).toBeUndefined();
+  });
+
+  it('should not spend a rate limit token on a replay', async () => {
+    const { burst } = TIER_ENTITLEMENTS.free.rateLimits.write;
+
+    const first = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const retry = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const next = await send({ name: 'Maple' });
+
+    expect(first.result.headers['X-RateLimit-Remaining']).toBe(String(burst - 1));
+    expect(retry.result.headers['X-RateLimit-Remaining']).toBeUndefined();
+    expect(next.result.headers['X-RateLimit-Remaining']).toBe(String(burst - 2));
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const { result, body } = await send({ name: 'Maple' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(result.statusCode).toBe(422);
+    expect(body.error).toBe('IdempotencyKeyReusedError');
+    expect(processed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep keys apart per caller', async () => {
+    await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const { body } = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' }, 'user-456');
+
+    expect(body.data.count).toBe(2);
+  });
+
+  it('should return 409 while the first attempt is still running', async () => {
+    mockItems.set('user-123 POST /trees key-1', {
+      idempotencyKey: 'user-123 POST /trees key-1',
+      requestHash: createHash('sha256').update(JSON.stringify({ name: 'Oak' })).digest('hex'),
+      status: 'in_progress',
+      lockedUntil: Math.floor(Date.now() / 1000) + 60,
+    });
+
+    const { result } = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(result.statusCode).toBe(409);
+    expect(processed).not.toHaveBeenCalled();
+  });
+
+  it('should let a request that failed on the server run again', async () => {
+    processed.mockImplementationOnce(() => {
+      throw new Error('DynamoDB unavailable');
+    });
+
+    const failed = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+    const retry = await send({ name: 'Oak' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(failed.result.statusCode).toBe(500);
+    expect(retry.result.statusCode).toBe(201);
+    expect(processed).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run requests without a key, or with a safe method, every time', async () => {
+    await send({ name: 'Oak' });
+    await send({ name: 'Oak' });
+    await send(null, { 'Idempotency-Key': 'key-1' }, 'user-123', 'GET');
+    await send(null, { 'Idempotency-Key': 'key-1' }, 'user-123', 'GET');
+
+    expect(processed).toHaveBeenCalledTimes(4);
+    expect(mockDynamoDBClient.put).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed keys', async () => {
+    const { result, body } = await send({ name: 'Oak' }, { 'Idempotency-Key': 'not a key' });
+
+    expect(result.statusCode).toBe(400);
+    expect(body.details).toEqual([
+      expect.objectContaining({ location: 'header', path: 'Idempotency-Key' }),
+    ]);
+    expect(processed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, CallerIdentity } from '../../handlers/lambda-base';
+import {
+  configureRateLimitStore,
+  InMemoryRateLimitStore,
+  RateLimiter,
+  RateLimitStore,
+  takeToken,
+} from '../../middleware/rate-limit';
+import { InMemorySubscriptionRepository } from '../../repositories/subscriptions';
+import { RouteClass, TIER_ENTITLEMENTS } from '../../services/entitlements';
+import { installTestSigningKey, mintTestToken } from '../setup/auth-tokens';
+import { createMockContext, createMockEvent } from '../setup/lambda-events';
+
+describe('Rate limiting', () => {
+  const freeWrites = TIER_ENTITLEMENTS.free.rateLimits.write;
+
+  describe('takeToken', () => {
+    const rateLimit = { burst: 2, perHour: 3600 };
+
+    it('should start with a full bucket', () => {
+      const { status } = takeToken(undefined, rateLimit, 0);
+
+      expect(status).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: 1, retryAfterSeconds: 0 });
+    });
+
+    it('should refuse an empty bucket until a token has been refilled', () => {
+      const empty = { tokens: 0.5, updatedAt: 0 };
+
+      expect(takeToken(empty, rateLimit, 0).status).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+      expect(takeToken(empty, rateLimit, 500).status).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('should not refill past the burst', () => {
+      const { bucket } = takeToken({ tokens: 0, updatedAt: 0 }, rateLimit, 60 * 60 * 1000);
+
+      expect(bucket.tokens).toBe(1);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should keep a bucket per user and route class', async () => {
+      const limiter = new RateLimiter(new InMemoryRateLimitStore());
+      for (let i = 0; i < freeWrites.burst; i++) {
+        await limiter.check('user-1', 'free', 'write', 0);
+      }
+
+      await expect(limiter.check('user-1', 'free', 'write', 0)).rejects.toMatchObject({ statusCode: 429 });
+      await expect(limiter.check('user-1', 'free', 'read', 0)).resolves.toMatchObject({ allowed: true });
+      await expect(limiter.check('user-2', 'free', 'write', 0)).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should retry when another request changed the bucket first', async () => {
+      const memory = new InMemoryRateLimitStore();
+      const save = jest.spyOn(memory, 'save').mockResolvedValueOnce(false);
+
+      await new RateLimiter(memory).check('user-1', 'free', 'write', 0);
+
+      expect(save).toHaveBeenCalledTimes(2);
+      expect((await memory.get('user-1#write'))?.tokens).toBe(freeWrites.burst - 1);
+    });
+  });
+
+  describe('in handlers', () => {
+    class EchoHandler extends BaseLambdaHandler {
+      protected requiresAuth = true;
+
+      async processRequest(
+        _event: APIGatewayProxyEvent,
+        context: Context,
+        identity?: CallerIdentity
+      ): Promise<APIGatewayProxyResult> {
+        return this.createSuccessResponse({ userId: identity?.userId }, context.awsRequestId);
+      }
+
+      protected rateLimitClass(event: APIGatewayProxyEvent): RouteClass {
+        return event.path === '/expensive' ? 'analysis' : super.rateLimitClass(event);
+      }
+    }
+
+    const subscriptions = new InMemorySubscriptionRepository();
+    const echoHandler = new EchoHandler(subscriptions);
+
+    const send = (path: string, userId = 'user-123', claims: Record<string, unknown> = {}) =>
+      echoHandler.handler(
+        createMockEvent({
+          httpMethod: 'POST',
+          path,
+          headers: {
+            Authorization: `Bearer ${mintTestToken({ sub: userId, ...claims })}`,
+          },
+        }),
+        createMockContext()
+      );
+
+    beforeAll(() => {
+      installTestSigningKey();
+    });
+
+    it('should report the bucket on every response', async () => {
+      const result = await send('/trees');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['X-RateLimit-Limit']).toBe(String(freeWrites.burst));
+      expect(result.headers['X-RateLimit-Remaining']).toBe(String(freeWrites.burst - 1));
+      expect(Number(result.headers['X-RateLimit-Reset'])).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should return 429 with Retry-After once the tier allowance is used up', async () => {
+      const { burst } = TIER_ENTITLEMENTS.free.rateLimits.analysis;
+      for (let i = 0; i < burst; i++) {
+        await send('/expensive');
+      }
+
+      const rejected = await send('/expensive');
+      const otherRoute = await send('/trees');
+
+      expect(rejected.statusCode).toBe(429);
+      expect(JSON.parse(rejected.body).error).toBe('RateLimitError');
+      expect(Number(rejected.headers['Retry-After'])).toBeGreaterThan(0);
+      expect(rejected.headers['X-RateLimit-Remaining']).toBe('0');
+      expect(otherRoute.statusCode).toBe(200);
+    });
+
+    it('should size buckets by the stored subscription tier', async () => {
+      await subscriptions.applyStripeUpdate('user-pro', {
+        subscriptionTier: 'professional',
+        status: 'active',
+        stripeEventCreated: 1,
+      });
+
+      const result = await send('/expensive', 'user-pro');
+
+      expect(result.headers['X-RateLimit-Limit']).toBe(String(TIER_ENTITLEMENTS.professional.rateLimits.analysis.burst));
+    });
+
+    it('should not size buckets by a tier claimed in the token', async () => {
+      const result = await send('/expensive', 'user-claims', { 'custom:subscription_tier': 'professional' });
+
+      expect(result.headers['X-RateLimit-Limit']).toBe(String(TIER_ENTITLEMENTS.free.rateLimits.analysis.burst));
+    });
+
+    it('should let requests through when the store is unavailable', async () => {
+      const broken: RateLimitStore = {
+        get: jest.fn().mockRejectedValue(new Error('ProvisionedThroughputExceededException')),
+        save: jest.fn(),
+      };
+      configureRateLimitStore(broken);
+
+      const result = await send('/trees');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['X-RateLimit-Limit']).toBeUndefined();
+    });
+  });
+});
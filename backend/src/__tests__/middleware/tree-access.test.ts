@@ -0,0 +1,107 @@
+import { TreeAccessGuard } from '../../middleware/tree-access';
+import { MemberRole, TreeMemberItem } from '../../models/sharing';
+import { TreeItem } from '../../models/tree';
+import { Repositories, inMemoryRepositories } from '../../repositories/repositories';
+import { ForbiddenError, NotFoundError } from '../../utils/errors';
+
+const tree = (treeId: string, overrides: Partial<TreeItem> = {}): TreeItem => ({
+  treeId,
+  userId: 'owner-1',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const member = (
+  treeId: string,
+  userId: string,
+  role: MemberRole,
+  createdAt = '2025-02-01T00:00:00.000Z'
+): TreeMemberItem => ({
+  treeId,
+  userId,
+  ownerId: 'owner-1',
+  email: `${userId}@example.com`,
+  role,
+  invitationId: `inv_${treeId}_${userId}`,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe('TreeAccessGuard', () => {
+  let repositories: Repositories;
+  let access: TreeAccessGuard;
+
+  beforeEach(async () => {
+    repositories = inMemoryRepositories();
+    access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    await repositories.trees.create(tree('tree_1'));
+    await repositories.treeMembers.save(member('tree_1', 'editor-1', 'editor'));
+    await repositories.treeMembers.save(member('tree_1', 'viewer-1', 'viewer'));
+  });
+
+  it('should give each caller their role on the tree', async () => {
+    expect((await access.find('tree_1', 'owner-1'))?.role).toBe('owner');
+    expect((await access.find('tree_1', 'editor-1'))?.role).toBe('editor');
+    expect((await access.find('tree_1', 'viewer-1'))?.role).toBe('viewer');
+    expect(await access.find('tree_1', 'stranger-1')).toBeUndefined();
+  });
+
+  it("should load the owner's copy of the tree for members", async () => {
+    const { tree: loaded } = await access.load('tree_1', 'viewer-1', 'viewer');
+
+    expect(loaded.userId).toBe('owner-1');
+    expect(loaded.name).toBe('Front Yard Oak');
+  });
+
+  it.each([
+    ['owner-1', 'owner'],
+    ['editor-1', 'editor'],
+    ['editor-1', 'viewer'],
+    ['viewer-1', 'viewer'],
+  ] as const)('should let %s act as %s', async (userId, required) => {
+    await expect(access.load('tree_1', userId, required)).resolves.toBeDefined();
+  });
+
+  it.each([
+    ['editor-1', 'owner'],
+    ['viewer-1', 'owner'],
+    ['viewer-1', 'editor'],
+  ] as const)('should forbid %s from acting as %s', async (userId, required) => {
+    await expect(access.load('tree_1', userId, required)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should not reveal trees to callers without a role', async () => {
+    await expect(access.load('tree_1', 'stranger-1', 'viewer')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(access.load('tree_missing', 'owner-1', 'viewer')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should not find a membership whose tree is gone', async () => {
+    await repositories.treeMembers.save(member('tree_gone', 'viewer-1', 'viewer'));
+
+    expect(await access.find('tree_gone', 'viewer-1')).toBeUndefined();
+  });
+
+  it('should list active trees shared with the user, most recently joined first', async () => {
+    await repositories.trees.create(tree('tree_2', { name: 'Backyard Maple' }));
+    await repositories.trees.create(tree('tree_3', { status: 'archived' }));
+    await repositories.treeMembers.save(member('tree_2', 'viewer-1', 'editor', '2025-03-01T00:00:00.000Z'));
+    await repositories.treeMembers.save(member('tree_3', 'viewer-1', 'viewer', '2025-04-01T00:00:00.000Z'));
+
+    const shared = await access.listShared('viewer-1');
+
+    expect(shared.map(({ tree: { treeId }, role }) => [treeId, role])).toEqual([
+      ['tree_2', 'editor'],
+      ['tree_1', 'viewer'],
+    ]);
+    expect(await access.listShared('owner-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * One contract for both implementations of every repository: the DynamoDB
+ * ones run against the local DynamoDB fake, so key design, indexes and
+ * conditions are exercised the way the tables would
+ */
+import { DynamoDB } from 'aws-sdk';
+import { LocalUserPool } from '../../local/cognito';
+import { localAwsServices } from '../../local/aws';
+import { LocalDynamoDB } from '../../local/dynamodb';
+import { LocalS3 } from '../../local/s3';
+import { localTables } from '../../local/tables';
+import { CareEventItem } from '../../models/care-event';
+import { MeasurementItem } from '../../models/measurement';
+import { NotificationItem } from '../../models/notification';
+import { PhotoItem } from '../../models/photo';
+import { RecommendationItem } from '../../models/recommendation';
+import { InvitationItem, TreeMemberItem } from '../../models/sharing';
+import { TreeItem } from '../../models/tree';
+import { Repositories, dynamoRepositories, inMemoryRepositories } from '../../repositories/repositories';
+import { ConflictError } from '../../utils/errors';
+
+const userPool = new LocalUserPool('us-east-2');
+
+const localDynamoRepositories = (): Repositories => {
+  const { DynamoDB: LocalDynamoDBClient } = localAwsServices({
+    dynamodb: new LocalDynamoDB(localTables('test')),
+    s3: new LocalS3(),
+    userPool,
+  });
+  const dynamoClient = new LocalDynamoDBClient.DocumentClient() as unknown as DynamoDB.DocumentClient;
+  return dynamoRepositories(dynamoClient, 'test');
+};
+
+const tree = (treeId: string, overrides: Partial<TreeItem> = {}): TreeItem => ({
+  treeId,
+  userId: 'user-1',
+  name: treeId,
+  species: { scientificName: 'Quercus rubra', commonName: 'Red oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: { yardPosition: 'backyard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 10, trunkDiameter: 3, canopySpread: 6, healthScore: 90, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const photo = (photoId: string, capturedAt: string, overrides: Partial<PhotoItem> = {}): PhotoItem => ({
+  photoId,
+  treeId: 'tree-1',
+  userId: 'user-1',
+  s3Key: `users/user-1/trees/tree-1/${photoId}.jpg`,
+  contentType: 'image/jpeg',
+  status: 'uploaded',
+  capturedAt,
+  createdAt: capturedAt,
+  ...overrides,
+});
+
+const careEvent = (careEventId: string, date: string, overrides: Partial<CareEventItem> = {}): CareEventItem => ({
+  careEventId,
+  treeId: 'tree-1',
+  userId: 'user-1',
+  type: 'watering',
+  date,
+  createdAt: `${date}T12:00:00.000Z`,
+  updatedAt: `${date}T12:00:00.000Z`,
+  ...overrides,
+});
+
+const measurement = (
+  measurementId: string,
+  measuredAt: string,
+  overrides: Partial<MeasurementItem> = {}
+): MeasurementItem => ({
+  measurementId,
+  treeId: 'tree-1',
+  userId: 'user-1',
+  measuredAt,
+  source: 'manual',
+  height: 10,
+  createdAt: measuredAt,
+  ...overrides,
+});
+
+const recommendation = (
+  recommendationId: string,
+  windowStart: string,
+  overrides: Partial<RecommendationItem> = {}
+): RecommendationItem => ({
+  recommendationId,
+  treeId: 'tree-1',
+  userId: 'user-1',
+  ruleId: 'mulch_refresh',
+  type: 'mulching',
+  priority: 'medium',
+  title: 'Refresh mulch',
+  description: 'Spread 2-3 inches of mulch out to the drip line.',
+  timing: { idealDate: windowStart, windowStart, windowEnd: windowStart, seasonalFactor: 'spring_growth' },
+  status: 'pending',
+  windowStart,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const member = (treeId: string, userId: string, createdAt: string): TreeMemberItem => ({
+  treeId,
+  userId,
+  ownerId: 'user-1',
+  email: `${userId}@example.com`,
+  role: 'viewer',
+  invitationId: `inv-${treeId}-${userId}`,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const invitation = (
+  invitationId: string,
+  createdAt: string,
+  overrides: Partial<InvitationItem> = {}
+): InvitationItem => ({
+  invitationId,
+  treeId: 'tree-1',
+  ownerId: 'user-1',
+  treeName: 'Front Yard Oak',
+  email: 'partner@example.com',
+  role: 'editor',
+  status: 'pending',
+  invitedBy: 'user-1',
+  createdAt,
+  updatedAt: createdAt,
+  expiresAt: '2025-12-31T00:00:00.000Z',
+  ...overrides,
+});
+
+const notification = (
+  notificationId: string,
+  scheduledTime: string,
+  overrides: Partial<NotificationItem> = {}
+): NotificationItem => ({
+  notificationId,
+  userId: 'user-1',
+  type: 'care_reminder',
+  title: 'Time to prune',
+  message: 'The dormant pruning window is open',
+  scheduledTime,
+  channels: ['push'],
+  status: 'pending',
+  attempts: 0,
+  dueAt: scheduledTime,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe.each([
+  ['DynamoDB', localDynamoRepositories],
+  ['in-memory', inMemoryRepositories],
+])('%s repositories', (_, createRepositories) => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createRepositories();
+  });
+
+  describe('trees', () => {
+    it('should only return a tree to its owner', async () => {
+      await repositories.trees.create(tree('tree-1'));
+
+      expect(await repositories.trees.get('tree-1', 'user-1')).toEqual(tree('tree-1'));
+      expect(await repositories.trees.get('tree-1', 'user-2')).toBeUndefined();
+    });
+
+    it('should refuse to create a tree twice', async () => {
+      await repositories.trees.create(tree('tree-1'));
+
+      await expect(repositories.trees.create(tree('tree-1', { name: 'Again' }))).rejects.toThrow(ConflictError);
+      expect((await repositories.trees.get('tree-1', 'user-1'))?.name).toBe('tree-1');
+    });
+
+    it('should only save over the expected version', async () => {
+      await repositories.trees.create(tree('tree-1'));
+
+      expect(await repositories.trees.save(tree('tree-1', { name: 'Renamed', version: 2 }), 1)).toBe(true);
+      expect(await repositories.trees.save(tree('tree-1', { name: 'Stale', version: 2 }), 1)).toBe(false);
+      expect(await repositories.trees.save(tree('tree-2', { version: 2 }), 1)).toBe(false);
+      expect(await repositories.trees.get('tree-1', 'user-1')).toMatchObject({ name: 'Renamed', version: 2 });
+    });
+
+    it('should list a status newest first, a page at a time', async () => {
+      await repositories.trees.create(tree('tree-old', { createdAt: '2025-01-01T00:00:00.000Z' }));
+      await repositories.trees.create(tree('tree-new', { createdAt: '2025-03-01T00:00:00.000Z' }));
+      await repositories.trees.create(tree('tree-mid', { createdAt: '2025-02-01T00:00:00.000Z' }));
+      await repositories.trees.create(tree('tree-gone', { status: 'archived', archivedAt: '2025-04-01T00:00:00.000Z' }));
+      await repositories.trees.create(tree('tree-theirs', { userId: 'user-2' }));
+      const scope = 'trees:user-1:active';
+
+      const first = await repositories.trees.listByUser('user-1', 'active', { limit: 2, scope });
+      const second = await repositories.trees.listByUser('user-1', 'active', {
+        limit: 2,
+        cursor: first.nextCursor!,
+        scope,
+      });
+
+      expect(first.items.map((item) => item.treeId)).toEqual(['tree-new', 'tree-mid']);
+      expect(second.items.map((item) => item.treeId)).toEqual(['tree-old']);
+      expect(second.nextCursor).toBeNull();
+      expect((await repositories.trees.listAllByUser('user-1')).map((item) => item.treeId).sort()).toEqual(
+        ['tree-gone', 'tree-mid', 'tree-new', 'tree-old']
+      );
+    });
+
+    it('should mark only trees still archived before the cutoff as being purged', async () => {
+      const expired = tree('tree-expired', { status: 'archived', archivedAt: '2025-01-01T00:00:00.000Z', version: 3 });
+      const legacy = tree('tree-legacy', { status: 'archived', archivedAt: '2025-01-01T00:00:00.000Z' });
+      delete (legacy as Partial<TreeItem>).version;
+      await repositories.trees.create(expired);
+      await repositories.trees.create(legacy);
+      await repositories.trees.create(tree('tree-active'));
+      const cutoff = '2025-02-01T00:00:00.000Z';
+
+      expect(await repositories.trees.startPurge(expired, cutoff, '2025-02-05T00:00:00.000Z')).toBe(true);
+      expect(await repositories.trees.startPurge(expired, cutoff, '2025-02-06T00:00:00.000Z')).toBe(true);
+      expect(await repositories.trees.startPurge(legacy, cutoff, '2025-02-05T00:00:00.000Z')).toBe(true);
+      expect(await repositories.trees.startPurge(tree('tree-active'), cutoff, '2025-02-05T00:00:00.000Z')).toBe(false);
+
+      expect(await repositories.trees.get('tree-expired', 'user-1')).toMatchObject({
+        purgeStartedAt: '2025-02-05T00:00:00.000Z',
+        version: 5,
+      });
+      expect((await repositories.trees.get('tree-legacy', 'user-1'))?.version).toBe(1);
+      // A restore that read the tree before the purge started loses
+      expect(await repositories.trees.save({ ...expired, status: 'active', version: 4 }, 3)).toBe(false);
+    });
+
+    it('should only delete trees still archived before the cutoff', async () => {
+      const expired = tree('tree-expired', { status: 'archived', archivedAt: '2025-01-01T00:00:00.000Z' });
+      const restored = tree('tree-restored', { status: 'archived', archivedAt: '2025-01-02T00:00:00.000Z' });
+      await repositories.trees.create(expired);
+      await repositories.trees.create(restored);
+      await repositories.trees.create(tree('tree-recent', { status: 'archived', archivedAt: '2025-06-01T00:00:00.000Z' }));
+      const cutoff = '2025-02-01T00:00:00.000Z';
+
+      const due = await repositories.trees.listArchivedBefore(cutoff, 25);
+      await repositories.trees.save({ ...restored, status: 'active', archivedAt: undefined, version: 2 }, 1);
+
+      expect(due.map((item) => item.treeId)).toEqual(['tree-expired', 'tree-restored']);
+      expect(await repositories.trees.deleteArchived(expired, cutoff)).toBe(true);
+      expect(await repositories.trees.deleteArchived(restored, cutoff)).toBe(false);
+      expect(await repositories.trees.get('tree-expired', 'user-1')).toBeUndefined();
+    });
+
+    it('should not let callers change stored trees in place', async () => {
+      await repositories.trees.create(tree('tree-1'));
+
+      const loaded = await repositories.trees.get('tree-1', 'user-1');
+      loaded!.currentStatus.height = 99;
+
+      expect((await repositories.trees.get('tree-1', 'user-1'))?.currentStatus.height).toBe(10);
+    });
+  });
+
+  describe('photos', () => {
+    it('should refuse to create a photo twice', async () => {
+      await repositories.photos.create(photo('photo-1', '2025-01-01T00:00:00.000Z', { status: 'pending' }));
+
+      await expect(repositories.photos.create(photo('photo-1', '2025-01-01T00:00:00.000Z'))).rejects.toThrow(
+        ConflictError
+      );
+      expect((await repositories.photos.get('photo-1', 'tree-1'))?.status).toBe('pending');
+    });
+
+    it("should list a tree's uploaded photos in a capture range, newest first", async () => {
+      await repositories.photos.save(photo('photo-jan', '2025-01-15T00:00:00.000Z'));
+      await repositories.photos.save(photo('photo-feb', '2025-02-15T00:00:00.000Z'));
+      await repositories.photos.save(photo('photo-mar', '2025-03-15T00:00:00.000Z'));
+      await repositories.photos.save(photo('photo-pending', '2025-02-20T00:00:00.000Z', { status: 'pending' }));
+      await repositories.photos.save(photo('photo-theirs', '2025-02-21T00:00:00.000Z', { userId: 'user-2' }));
+      const range = { from: '2025-02-01T00:00:00.000Z', to: '2025-03-31T00:00:00.000Z' };
+      const scope = 'photos:user-1:tree-1';
+
+      const first = await repositories.photos.listUploaded('tree-1', 'user-1', range, { limit: 1, scope });
+      const second = await repositories.photos.listUploaded('tree-1', 'user-1', range, {
+        limit: 1,
+        cursor: first.nextCursor!,
+        scope,
+      });
+      const backwards = await repositories.photos.listUploaded(
+        'tree-1',
+        'user-1',
+        { from: range.to, to: range.from },
+        { limit: 10, scope }
+      );
+
+      expect(first.items.map((item) => item.photoId)).toEqual(['photo-mar']);
+      expect(second.items.map((item) => item.photoId)).toEqual(['photo-feb']);
+      expect(backwards.items).toEqual([]);
+    });
+
+    it("should delete all of a user's photo records for a tree", async () => {
+      await repositories.photos.save(photo('photo-1', '2025-01-15T00:00:00.000Z'));
+      await repositories.photos.save(photo('photo-2', '2025-01-16T00:00:00.000Z', { status: 'pending' }));
+      await repositories.photos.save(photo('photo-3', '2025-01-17T00:00:00.000Z', { userId: 'user-2' }));
+
+      expect(await repositories.photos.deleteByTree('tree-1', 'user-1')).toBe(2);
+      expect(await repositories.photos.get('photo-2', 'tree-1')).toBeUndefined();
+      expect(await repositories.photos.get('photo-3', 'tree-1')).toBeDefined();
+    });
+  });
+
+  describe('care events', () => {
+    it('should refuse to create a care event twice', async () => {
+      await repositories.careEvents.create(careEvent('care-1', '2025-01-01', { notes: 'First' }));
+
+      await expect(repositories.careEvents.create(careEvent('care-1', '2025-01-01'))).rejects.toThrow(ConflictError);
+      expect((await repositories.careEvents.get('care-1', 'tree-1'))?.notes).toBe('First');
+    });
+
+    it("should list a tree's care events most recent first, optionally by type", async () => {
+      await repositories.careEvents.save(careEvent('care-jan', '2025-01-15'));
+      await repositories.careEvents.save(careEvent('care-mar', '2025-03-15'));
+      await repositories.careEvents.save(careEvent('care-feb', '2025-02-15', { type: 'pruning' }));
+      await repositories.careEvents.save(careEvent('care-theirs', '2025-02-20', { userId: 'user-2' }));
+      const scope = 'care-events:user-1:tree-1';
+
+      const first = await repositories.careEvents.listByTree('tree-1', 'user-1', undefined, { limit: 2, scope });
+      const second = await repositories.careEvents.listByTree('tree-1', 'user-1', undefined, {
+        limit: 2,
+        cursor: first.nextCursor!,
+        scope,
+      });
+      const watering = await repositories.careEvents.listByTree('tree-1', 'user-1', 'watering', { limit: 10, scope });
+
+      expect(first.items.map((item) => item.careEventId)).toEqual(['care-mar', 'care-feb']);
+      expect(second.items.map((item) => item.careEventId)).toEqual(['care-jan']);
+      expect(watering.items.map((item) => item.careEventId)).toEqual(['care-mar', 'care-jan']);
+    });
+
+    it("should delete all of a user's care events for a tree", async () => {
+      await repositories.careEvents.save(careEvent('care-1', '2025-01-15'));
+      await repositories.careEvents.save(careEvent('care-2', '2025-01-16'));
+      await repositories.careEvents.save(careEvent('care-3', '2025-01-17', { userId: 'user-2' }));
+
+      expect(await repositories.careEvents.deleteByTree('tree-1', 'user-1')).toBe(2);
+      expect(await repositories.careEvents.get('care-2', 'tree-1')).toBeUndefined();
+      expect(await repositories.careEvents.get('care-3', 'tree-1')).toBeDefined();
+    });
+  });
+
+  describe('measurements', () => {
+    it('should refuse to create a measurement twice', async () => {
+      await repositories.measurements.create(measurement('meas-1', '2025-01-01T00:00:00.000Z'));
+
+      await expect(
+        repositories.measurements.create(measurement('meas-1', '2025-01-01T00:00:00.000Z', { height: 11 }))
+      ).rejects.toThrow(ConflictError);
+      expect((await repositories.measurements.listAllByTree('tree-1', 'user-1')).map((item) => item.height)).toEqual([
+        10,
+      ]);
+    });
+
+    it("should list a tree's measurements newest first, or all of them oldest first", async () => {
+      await repositories.measurements.create(measurement('meas-jan', '2025-01-15T00:00:00.000Z'));
+      await repositories.measurements.create(measurement('meas-mar', '2025-03-15T00:00:00.000Z'));
+      await repositories.measurements.create(
+        measurement('meas-feb', '2025-02-15T00:00:00.000Z', { source: 'photo_analysis', photoId: 'photo-1' })
+      );
+      await repositories.measurements.create(measurement('meas-theirs', '2025-02-20T00:00:00.000Z', { userId: 'user-2' }));
+      const scope = 'measurements:user-1:tree-1';
+
+      const first = await repositories.measurements.listByTree('tree-1', 'user-1', { limit: 2, scope });
+      const second = await repositories.measurements.listByTree('tree-1', 'user-1', {
+        limit: 2,
+        cursor: first.nextCursor!,
+        scope,
+      });
+      const all = await repositories.measurements.listAllByTree('tree-1', 'user-1');
+
+      expect(first.items.map((item) => item.measurementId)).toEqual(['meas-mar', 'meas-feb']);
+      expect(second.items.map((item) => item.measurementId)).toEqual(['meas-jan']);
+      expect(all.map((item) => item.measurementId)).toEqual(['meas-jan', 'meas-feb', 'meas-mar']);
+    });
+
+    it("should delete all of a user's measurements of a tree", async () => {
+      await repositories.measurements.create(measurement('meas-1', '2025-01-15T00:00:00.000Z'));
+      await repositories.measurements.create(measurement('meas-2', '2025-01-16T00:00:00.000Z'));
+      await repositories.measurements.create(measurement('meas-3', '2025-01-17T00:00:00.000Z', { userId: 'user-2' }));
+
+      expect(await repositories.measurements.deleteByTree('tree-1', 'user-1')).toBe(2);
+      expect(await repositories.measurements.listAllByTree('tree-1', 'user-1')).toEqual([]);
+      expect(await repositories.measurements.listAllByTree('tree-1', 'user-2')).toHaveLength(1);
+    });
+  });
+
+  describe('recommendations', () => {
+    it('should only record a recommendation the first time', async () => {
+      const { recommendations } = repositories;
+
+      expect(await recommendations.createIfNew(recommendation('rec-1', '2025-03-01T00:00:00.000Z'))).toBe(true);
+      expect(
+        await recommendations.createIfNew(recommendation('rec-1', '2025-03-01T00:00:00.000Z', { title: 'Again' }))
+      ).toBe(false);
+      expect((await recommendations.get('rec-1'))?.title).toBe('Refresh mulch');
+    });
+
+    it('should only complete a pending recommendation', async () => {
+      const { recommendations } = repositories;
+      const completed = recommendation('rec-1', '2025-03-01T00:00:00.000Z', {
+        status: 'completed',
+        completedAt: '2025-03-02T00:00:00.000Z',
+      });
+      await recommendations.createIfNew(recommendation('rec-1', '2025-03-01T00:00:00.000Z'));
+
+      expect(await recommendations.complete(completed)).toBe(true);
+      expect(await recommendations.complete(completed)).toBe(false);
+      expect(await recommendations.complete(recommendation('rec-2', '2025-03-01T00:00:00.000Z'))).toBe(false);
+      expect(await recommendations.get('rec-1')).toEqual(completed);
+      expect(await recommendations.get('rec-2')).toBeUndefined();
+    });
+
+    it('should list a tree\'s recommendations by window start', async () => {
+      const { recommendations } = repositories;
+      await recommendations.createIfNew(recommendation('rec-late', '2025-06-01T00:00:00.000Z'));
+      await recommendations.createIfNew(recommendation('rec-early', '2025-03-01T00:00:00.000Z'));
+      await recommendations.createIfNew(recommendation('rec-other', '2025-04-01T00:00:00.000Z', { treeId: 'tree-2' }));
+
+      const listed = await recommendations.listByTree('tree-1');
+
+      expect(listed.map((item) => item.recommendationId)).toEqual(['rec-early', 'rec-late']);
+    });
+
+    it("should delete all of a tree's recommendations", async () => {
+      const { recommendations } = repositories;
+      await recommendations.createIfNew(recommendation('rec-1', '2025-03-01T00:00:00.000Z'));
+      await recommendations.createIfNew(recommendation('rec-2', '2025-04-01T00:00:00.000Z'));
+      await recommendations.createIfNew(recommendation('rec-other', '2025-04-01T00:00:00.000Z', { treeId: 'tree-2' }));
+
+      expect(await recommendations.deleteByTree('tree-1')).toBe(2);
+      expect(await recommendations.listByTree('tree-1')).toEqual([]);
+      expect(await recommendations.get('rec-other')).toBeDefined();
+    });
+  });
+
+  describe('calendar feeds', () => {
+    const feed = { userId: 'user-1', tokenHash: 'hash-1', createdAt: '2025-01-01T00:00:00.000Z' };
+
+    it('should find a feed by user and by token hash', async () => {
+      await repositories.calendarFeeds.save(feed);
+
+      expect(await repositories.calendarFeeds.get('user-1')).toEqual(feed);
+      expect(await repositories.calendarFeeds.findByTokenHash('hash-1')).toEqual(feed);
+      expect(await repositories.calendarFeeds.findByTokenHash('hash-2')).toBeUndefined();
+    });
+
+    it('should forget the previous token when the feed is replaced or deleted', async () => {
+      const { calendarFeeds } = repositories;
+      await calendarFeeds.save(feed);
+      await calendarFeeds.save({ ...feed, tokenHash: 'hash-2', createdAt: '2025-02-01T00:00:00.000Z' });
+
+      expect(await calendarFeeds.findByTokenHash('hash-1')).toBeUndefined();
+      expect((await calendarFeeds.findByTokenHash('hash-2'))?.userId).toBe('user-1');
+
+      await calendarFeeds.delete('user-1');
+
+      expect(await calendarFeeds.get('user-1')).toBeUndefined();
+      expect(await calendarFeeds.findByTokenHash('hash-2')).toBeUndefined();
+    });
+  });
+
+  describe('tree members', () => {
+    it("should list a tree's members oldest first and a user's trees newest first", async () => {
+      const { treeMembers } = repositories;
+      await treeMembers.save(member('tree-1', 'user-2', '2025-01-02T00:00:00.000Z'));
+      await treeMembers.save(member('tree-1', 'user-3', '2025-01-01T00:00:00.000Z'));
+      await treeMembers.save(member('tree-2', 'user-2', '2025-01-03T00:00:00.000Z'));
+
+      expect((await treeMembers.listByTree('tree-1')).map((item) => item.userId)).toEqual(['user-3', 'user-2']);
+      expect((await treeMembers.listByUser('user-2')).map((item) => item.treeId)).toEqual(['tree-2', 'tree-1']);
+      expect((await treeMembers.get('tree-1', 'user-2'))?.role).toBe('viewer');
+      expect(await treeMembers.get('tree-2', 'user-3')).toBeUndefined();
+    });
+
+    it("should replace a member's role and delete one or all of a tree's members", async () => {
+      const { treeMembers } = repositories;
+      await treeMembers.save(member('tree-1', 'user-2', '2025-01-01T00:00:00.000Z'));
+      await treeMembers.save({ ...member('tree-1', 'user-2', '2025-01-01T00:00:00.000Z'), role: 'editor' });
+      await treeMembers.save(member('tree-1', 'user-3', '2025-01-02T00:00:00.000Z'));
+      await treeMembers.save(member('tree-2', 'user-3', '2025-01-02T00:00:00.000Z'));
+
+      expect((await treeMembers.get('tree-1', 'user-2'))?.role).toBe('editor');
+
+      await treeMembers.delete('tree-1', 'user-2');
+
+      expect(await treeMembers.get('tree-1', 'user-2')).toBeUndefined();
+      expect(await treeMembers.deleteByTree('tree-1')).toBe(1);
+      expect(await treeMembers.listByTree('tree-1')).toEqual([]);
+      expect(await treeMembers.listByUser('user-3')).toHaveLength(1);
+    });
+  });
+
+  describe('invitations', () => {
+    it('should refuse to create an invitation twice', async () => {
+      await repositories.invitations.create(invitation('inv-1', '2025-01-01T00:00:00.000Z'));
+
+      await expect(
+        repositories.invitations.create(invitation('inv-1', '2025-01-02T00:00:00.000Z'))
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it("should list a tree's invitations and an address's, newest first, whatever its case", async () => {
+      const { invitations } = repositories;
+      await invitations.create(invitation('inv-1', '2025-01-01T00:00:00.000Z'));
+      await invitations.create(invitation('inv-2', '2025-01-02T00:00:00.000Z', { email: 'Friend@Example.com' }));
+      await invitations.create(invitation('inv-3', '2025-01-03T00:00:00.000Z', { treeId: 'tree-2' }));
+
+      expect((await invitations.listByTree('tree-1')).map((item) => item.invitationId)).toEqual(['inv-2', 'inv-1']);
+      expect((await invitations.listByEmail('PARTNER@example.com')).map((item) => item.invitationId)).toEqual([
+        'inv-3',
+        'inv-1',
+      ]);
+      expect((await invitations.listByEmail('friend@example.com')).map((item) => item.invitationId)).toEqual(['inv-2']);
+    });
+
+    it("should only respond to pending invitations and delete all of a tree's invitations", async () => {
+      const { invitations } = repositories;
+      await invitations.create(invitation('inv-1', '2025-01-01T00:00:00.000Z'));
+      await invitations.create(invitation('inv-2', '2025-01-02T00:00:00.000Z', { treeId: 'tree-2' }));
+
+      expect(await invitations.respond({ ...invitation('inv-1', '2025-01-01T00:00:00.000Z'), status: 'accepted' })).toBe(
+        true
+      );
+      expect(await invitations.respond({ ...invitation('inv-1', '2025-01-01T00:00:00.000Z'), status: 'revoked' })).toBe(
+        false
+      );
+
+      expect((await invitations.get('inv-1'))?.status).toBe('accepted');
+      expect(await invitations.deleteByTree('tree-1')).toBe(1);
+      expect(await invitations.get('inv-1')).toBeUndefined();
+      expect(await invitations.get('inv-2')).toBeDefined();
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should apply Stripe updates in event order and find them by customer', async () => {
+      const { subscriptions } = repositories;
+
+      expect(
+        await subscriptions.applyStripeUpdate('user-1', {
+          subscriptionTier: 'arborist',
+          stripeCustomerId: 'cus_1',
+          stripeEventCreated: 200,
+        })
+      ).toBe(true);
+      expect(
+        await subscriptions.applyStripeUpdate('user-1', { subscriptionTier: 'hobbyist', stripeEventCreated: 100 })
+      ).toBe(false);
+
+      expect(await subscriptions.get('user-1')).toMatchObject({ subscriptionTier: 'arborist', stripeEventCreated: 200 });
+      expect((await subscriptions.findByStripeCustomer('cus_1'))?.userId).toBe('user-1');
+      expect(await subscriptions.findByStripeCustomer('cus_2')).toBeUndefined();
+    });
+
+    it('should only add usage while the counter is below the limit', async () => {
+      const { subscriptions } = repositories;
+      const counter = 'usage:monthlyAnalyses:2025-01';
+
+      expect(await subscriptions.addUsage('user-1', counter, 1, 2)).toBe(true);
+      expect(await subscriptions.addUsage('user-1', counter, 1, 2)).toBe(true);
+      expect(await subscriptions.addUsage('user-1', counter, 1, 2)).toBe(false);
+      expect(await subscriptions.addUsage('user-1', counter, -1)).toBe(true);
+
+      expect((await subscriptions.get('user-1'))?.[counter]).toBe(1);
+    });
+  });
+
+  describe('notifications', () => {
+    it('should refuse to create a notification twice', async () => {
+      await repositories.notifications.create(notification('notif-1', '2025-02-01T09:00:00.000Z'));
+
+      await expect(
+        repositories.notifications.create(notification('notif-1', '2025-02-02T09:00:00.000Z'))
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it("should list a user's notifications, latest scheduled first, by status and up to the limit", async () => {
+      const { notifications } = repositories;
+      await notifications.create(notification('notif-1', '2025-02-01T09:00:00.000Z'));
+      await notifications.create(notification('notif-2', '2025-02-03T09:00:00.000Z', { status: 'sent' }));
+      await notifications.create(notification('notif-3', '2025-02-02T09:00:00.000Z'));
+      await notifications.create(notification('notif-4', '2025-02-04T09:00:00.000Z', { userId: 'user-2' }));
+
+      const ids = (items: NotificationItem[]) => items.map((item) => item.notificationId);
+      expect(ids(await notifications.listByUser('user-1', { limit: 10 }))).toEqual(['notif-2', 'notif-3', 'notif-1']);
+      expect(ids(await notifications.listByUser('user-1', { status: 'pending', limit: 10 }))).toEqual([
+        'notif-3',
+        'notif-1',
+      ]);
+      expect(ids(await notifications.listByUser('user-1', { status: 'pending', limit: 1 }))).toEqual(['notif-3']);
+    });
+
+    it('should list pending notifications that are due, earliest first', async () => {
+      const { notifications } = repositories;
+      await notifications.create(notification('notif-1', '2025-02-02T09:00:00.000Z'));
+      await notifications.create(notification('notif-2', '2025-02-01T09:00:00.000Z'));
+      await notifications.create(notification('notif-3', '2025-02-01T08:00:00.000Z', { status: 'sent' }));
+      await notifications.create(notification('notif-4', '2025-02-05T09:00:00.000Z'));
+
+      const due = await notifications.listDue('2025-02-03T00:00:00.000Z', 10);
+
+      expect(due.map((item) => item.notificationId)).toEqual(['notif-2', 'notif-1']);
+      expect(await notifications.listDue('2025-02-03T00:00:00.000Z', 1)).toHaveLength(1);
+    });
+
+    it('should only save a delivery attempt over the attempt it followed', async () => {
+      const { notifications } = repositories;
+      const pending = notification('notif-1', '2025-02-01T09:00:00.000Z');
+      await notifications.create(pending);
+      const sent: NotificationItem = { ...pending, status: 'sent', attempts: 1, sentAt: '2025-02-01T09:00:05.000Z' };
+
+      expect(await notifications.saveAttempt(sent, 0)).toBe(true);
+      expect(await notifications.saveAttempt({ ...sent, attempts: 2 }, 0)).toBe(false);
+      expect(await notifications.get('notif-1')).toMatchObject({ status: 'sent', attempts: 1 });
+    });
+
+    it('should delete every notification about a tree, whoever scheduled it', async () => {
+      const { notifications } = repositories;
+      await notifications.create(notification('notif-1', '2025-02-01T09:00:00.000Z', { treeId: 'tree-1' }));
+      await notifications.create(
+        notification('notif-2', '2025-02-02T09:00:00.000Z', { treeId: 'tree-1', userId: 'user-2', status: 'sent' })
+      );
+      await notifications.create(notification('notif-3', '2025-02-03T09:00:00.000Z', { treeId: 'tree-2' }));
+      await notifications.create(notification('notif-4', '2025-02-04T09:00:00.000Z'));
+
+      expect(await notifications.deleteByTree('tree-1')).toBe(2);
+      expect(await notifications.get('notif-1')).toBeUndefined();
+      expect(await notifications.get('notif-2')).toBeUndefined();
+      expect(await notifications.get('notif-3')).toBeDefined();
+      expect(await notifications.get('notif-4')).toBeDefined();
+    });
+  });
+
+  describe('Stripe events', () => {
+    it('should claim each event once until it is released', async () => {
+      const { stripeEvents } = repositories;
+      const event = {
+        eventId: 'evt_1',
+        type: 'customer.subscription.updated',
+        receivedAt: '2025-01-01T00:00:00.000Z',
+        expiresAt: 1738368000,
+      };
+
+      expect(await stripeEvents.claim(event)).toBe(true);
+      expect(await stripeEvents.claim(event)).toBe(false);
+      await stripeEvents.release('evt_1');
+      expect(await stripeEvents.claim(event)).toBe(true);
+    });
+  });
+
+  describe('users', () => {
+    it('should find users by id and by email, whatever its case', async () => {
+      const user = {
+        userId: 'user-1',
+        email: 'Ada@Example.com',
+        name: 'Ada',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      };
+      await repositories.users.save(user);
+
+      expect(await repositories.users.get('user-1')).toEqual({ ...user, email: 'ada@example.com' });
+      expect((await repositories.users.findByEmail('ADA@example.com'))?.userId).toBe('user-1');
+      expect(await repositories.users.findByEmail('bob@example.com')).toBeUndefined();
+    });
+  });
+});
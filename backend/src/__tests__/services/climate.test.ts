@@ -0,0 +1,78 @@
+import { ClimateReference } from '../../models/climate';
+import {
+  MAX_REFERENCE_DISTANCE_KM,
+  distanceKm,
+  hardinessZoneFor,
+  hemisphereOf,
+  resolveClimate,
+  zoneNumber,
+} from '../../services/climate';
+
+describe('Climate', () => {
+  describe('hardinessZoneFor', () => {
+    it('should split every 10°F zone into 5°F halves', () => {
+      expect(hardinessZoneFor(-7)).toBe('6a');
+      expect(hardinessZoneFor(-3)).toBe('6b');
+      expect(hardinessZoneFor(0)).toBe('7a');
+      expect(hardinessZoneFor(8)).toBe('7b');
+      expect(hardinessZoneFor(42)).toBe('11a');
+    });
+
+    it('should stay within zones 1 to 13', () => {
+      expect(hardinessZoneFor(-70)).toBe('1a');
+      expect(hardinessZoneFor(80)).toBe('13b');
+    });
+  });
+
+  it('should give the whole zone species list', () => {
+    expect(zoneNumber('7b')).toBe(7);
+    expect(zoneNumber('10a')).toBe(10);
+  });
+
+  it('should tell the hemisphere from the latitude', () => {
+    expect(hemisphereOf([40.7, -74])).toBe('northern');
+    expect(hemisphereOf([-33.9, 151.2])).toBe('southern');
+  });
+
+  it('should measure great-circle distances', () => {
+    expect(distanceKm([40.71, -74.01], [42.36, -71.06])).toBeCloseTo(306, -1);
+  });
+
+  describe('resolveClimate', () => {
+    it('should take the zone and frost dates from the nearest reference point', () => {
+      expect(resolveClimate([40.65, -73.95])).toEqual({
+        hemisphere: 'northern',
+        hardinessZone: '7b',
+        frostDates: { lastFrost: '04-07', firstFrost: '11-07' },
+        referencePoint: 'New York',
+      });
+    });
+
+    it('should resolve southern-hemisphere locations', () => {
+      expect(resolveClimate([-37.9, 145.1])).toEqual({
+        hemisphere: 'southern',
+        hardinessZone: '10a',
+        frostDates: { lastFrost: '08-31', firstFrost: '05-15' },
+        referencePoint: 'Melbourne',
+      });
+    });
+
+    it('should leave out frost dates where frost is rare', () => {
+      const climate = resolveClimate([25.8, -80.2]);
+
+      expect(climate?.hardinessZone).toBe('11a');
+      expect(climate).not.toHaveProperty('frostDates');
+    });
+
+    it('should only give the hemisphere when no reference point is near enough', () => {
+      const references: ClimateReference[] = [{ name: 'Far away', coordinates: [10, 10], extremeMinimum: 20 }];
+
+      expect(distanceKm([-20, -20], [10, 10])).toBeGreaterThan(MAX_REFERENCE_DISTANCE_KM);
+      expect(resolveClimate([-20, -20], references)).toEqual({ hemisphere: 'southern' });
+    });
+
+    it('should not resolve coordinates that were never set', () => {
+      expect(resolveClimate([0, 0])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { TIER_ENTITLEMENTS, checkEntitlement, requiredTierFor } from '../../services/entitlements';
+import { EntitlementError } from '../../utils/errors';
+
+describe('entitlements', () => {
+  it('should declare more generous limits for each higher tier', () => {
+    const { free, hobbyist, arborist } = TIER_ENTITLEMENTS;
+
+    expect(free.limits.maxTrees).toBe(3);
+    expect(hobbyist.limits.maxTrees).toBe(10);
+    expect(arborist.limits.maxTrees).toBe(Infinity);
+    expect(hobbyist.limits.monthlyAnalyses).toBeGreaterThan(free.limits.monthlyAnalyses);
+  });
+
+  it('should allow amounts up to and including the limit', () => {
+    expect(() => checkEntitlement('free', { limit: 'maxTrees', amount: 3 })).not.toThrow();
+    expect(() => checkEntitlement('free', { limit: 'maxTrees', amount: 4 })).toThrow(EntitlementError);
+    expect(() => checkEntitlement('arborist', { limit: 'maxTrees', amount: 500 })).not.toThrow();
+  });
+
+  it('should name the cheapest tier that allows the request', () => {
+    expect(requiredTierFor({ limit: 'maxTrees', amount: 4 })).toBe('hobbyist');
+    expect(requiredTierFor({ limit: 'maxTrees', amount: 11 })).toBe('arborist');
+    expect(requiredTierFor({ feature: 'weatherAlerts' })).toBe('arborist');
+  });
+
+  it('should raise a 402 with upgrade details', () => {
+    let error: EntitlementError | undefined;
+    try {
+      checkEntitlement('hobbyist', { limit: 'monthlyAnalyses', amount: 101 });
+    } catch (caught) {
+      error = caught as EntitlementError;
+    }
+
+    expect(error?.statusCode).toBe(402);
+    expect(error?.details).toEqual({
+      entitlement: 'monthlyAnalyses',
+      tier: 'hobbyist',
+      limit: 100,
+      requiredTier: 'arborist',
+    });
+  });
+
+  it('should raise a 403 when no tier allows the request', () => {
+    const error = new EntitlementError('Not available', { entitlement: 'maxTrees', tier: 'professional' });
+
+    expect(error.statusCode).toBe(403);
+  });
+});
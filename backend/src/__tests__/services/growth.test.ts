@@ -0,0 +1,158 @@
+import { Observation } from '../../models/measurement';
+import { TreeStatus } from '../../models/tree';
+import { GROWTH_HEALTH_PENALTY, annualRate, applyGrowth, assessGrowth } from '../../services/growth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T00:00:00.000Z');
+
+const observation = (measuredAt: string, values: Partial<Observation> = {}): Observation => ({
+  measuredAt,
+  source: 'manual',
+  ...values,
+});
+
+const status: TreeStatus = {
+  height: 10,
+  trunkDiameter: 3,
+  canopySpread: 6,
+  healthScore: 90,
+  growthStage: 'juvenile',
+};
+
+describe('Growth', () => {
+  describe('annualRate', () => {
+    const point = (date: string, value: number) => ({ time: Date.parse(date), value });
+
+    it('should give the change per year', () => {
+      expect(annualRate([point('2023-06-01', 10), point('2024-06-01', 11.5), point('2025-06-01', 13)])).toBeCloseTo(1.5, 1);
+    });
+
+    it('should smooth out a single noisy reading', () => {
+      const rate = annualRate([
+        point('2023-06-01', 10),
+        point('2024-01-01', 12),
+        point('2024-06-01', 11),
+        point('2025-06-01', 12),
+      ]);
+
+      expect(rate).toBeGreaterThan(0.5);
+      expect(rate).toBeLessThan(1.5);
+    });
+
+    it('should need readings spanning most of a year', () => {
+      expect(annualRate([point('2025-01-01', 10)])).toBeNull();
+      expect(annualRate([point('2025-01-01', 10), point('2025-06-01', 11)])).toBeNull();
+    });
+
+    it('should only count the last three years', () => {
+      const rate = annualRate([
+        point('2015-06-01', 2),
+        point('2022-06-01', 10),
+        point('2023-06-01', 10.5),
+        point('2025-06-01', 11.5),
+      ]);
+
+      expect(rate).toBeCloseTo(0.5, 1);
+    });
+
+    it('should not be thrown off by points out of order', () => {
+      expect(annualRate([point('2025-06-01', 12), point('2024-06-01', 10)])).toBeCloseTo(2, 1);
+    });
+  });
+
+  describe('assessGrowth', () => {
+    const yearly = (values: number[]) =>
+      values.map((height, index) =>
+        observation(new Date(now.getTime() - (values.length - 1 - index) * 365 * DAY_MS).toISOString(), { height })
+      );
+
+    it('should compare each metric with the expected rate for the species', () => {
+      const assessment = assessGrowth({
+        observations: yearly([10, 11.5, 13]),
+        growthRate: 'moderate',
+        growthStage: 'juvenile',
+        now,
+      });
+
+      expect(assessment.signal).toBe('as_expected');
+      expect(assessment.metrics.height).toEqual({
+        annualRate: expect.any(Number),
+        expectedRate: [1, 2],
+        status: 'as_expected',
+        observations: 3,
+      });
+      expect(assessment.metrics.trunkDiameter).toMatchObject({ annualRate: null, status: 'unknown', observations: 0 });
+      expect(assessment.assessedAt).toBe(now.toISOString());
+    });
+
+    it('should flag growth slower than expected', () => {
+      const assessment = assessGrowth({
+        observations: yearly([10, 10.2, 10.4]),
+        growthRate: 'moderate',
+        growthStage: 'juvenile',
+        now,
+      });
+
+      expect(assessment.metrics.height.status).toBe('slower_than_expected');
+      expect(assessment.signal).toBe('slower_than_expected');
+    });
+
+    it('should not hold growth faster than expected against the tree', () => {
+      const assessment = assessGrowth({ observations: yearly([10, 14, 18]), growthRate: 'moderate', growthStage: 'juvenile', now });
+
+      expect(assessment.metrics.height.status).toBe('faster_than_expected');
+      expect(assessment.signal).toBe('as_expected');
+    });
+
+    it('should only expect mature trees to put on girth', () => {
+      const assessment = assessGrowth({ observations: yearly([40, 40, 40]), growthRate: 'fast', growthStage: 'mature', now });
+
+      expect(assessment.metrics.height).toMatchObject({ annualRate: 0, expectedRate: null, status: 'unknown' });
+      expect(assessment.metrics.trunkDiameter.expectedRate).toEqual([0.5, 1]);
+      expect(assessment.signal).toBe('unknown');
+    });
+
+    it('should be unknown without the species growth rate', () => {
+      const assessment = assessGrowth({ observations: yearly([10, 10, 10]), growthStage: 'juvenile', now });
+
+      expect(assessment.metrics.height.status).toBe('unknown');
+      expect(assessment.signal).toBe('unknown');
+    });
+  });
+
+  describe('applyGrowth', () => {
+    const assessed = (signal: 'slower_than_expected' | 'as_expected') => ({
+      signal,
+      metrics: {} as any,
+      assessedAt: now.toISOString(),
+    });
+
+    it('should take the latest value of each metric', () => {
+      const updated = applyGrowth(
+        status,
+        [
+          observation('2025-05-01T00:00:00.000Z', { height: 12, trunkDiameter: 4 }),
+          observation('2024-05-01T00:00:00.000Z', { height: 11, canopySpread: 7 }),
+        ],
+        assessed('as_expected')
+      );
+
+      expect(updated).toMatchObject({ height: 12, trunkDiameter: 4, canopySpread: 7, healthScore: 90 });
+      expect(updated.growth).toEqual({ signal: 'as_expected', assessedAt: now.toISOString() });
+    });
+
+    it('should lower the health score while growth is slower than expected', () => {
+      const slow = applyGrowth(status, [], assessed('slower_than_expected'));
+      const stillSlow = applyGrowth(slow, [], assessed('slower_than_expected'));
+      const recovered = applyGrowth(stillSlow, [], assessed('as_expected'));
+
+      expect(slow.healthScore).toBe(90 - GROWTH_HEALTH_PENALTY);
+      expect(stillSlow.healthScore).toBe(90 - GROWTH_HEALTH_PENALTY);
+      expect(recovered.healthScore).toBe(90);
+    });
+
+    it('should keep the health score within 0-100', () => {
+      expect(applyGrowth({ ...status, healthScore: 5 }, [], assessed('slower_than_expected')).healthScore).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Calendar,
+  CalendarEvent,
+  PRODUCT_ID,
+  escapeText,
+  foldLine,
+  formatCalendar,
+  formatDateTime,
+} from '../../services/icalendar';
+
+const now = new Date('2025-01-15T12:34:56.789Z');
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: 'rec_1@treecare',
+  date: '2025-02-01',
+  summary: 'Structural pruning – Front Yard Oak',
+  ...overrides,
+});
+
+const calendar = (events: CalendarEvent[]): Calendar => ({ name: 'Tree Care', refreshInterval: 'PT1H', events });
+
+// Content lines as RFC 5545 section 3.1 defines them, folding undone
+const unfold = (ics: string): string[] => ics.replace(/\r\n[ \t]/g, '').split('\r\n').slice(0, -1);
+
+const property = (line: string) => {
+  const match = /^([A-Z0-9-]+)((?:;[A-Z0-9-]+=[^;:]*)*):(.*)$/.exec(line);
+  return match && { name: match[1], params: match[2], value: match[3] };
+};
+
+// The properties of each component, by name
+const components = (lines: string[]) => {
+  const found: { name: string; properties: Map<string, string[]> }[] = [];
+  const open: { name: string; properties: Map<string, string[]> }[] = [];
+  for (const line of lines) {
+    const { name, value } = property(line)!;
+    if (name === 'BEGIN') {
+      open.push({ name: value, properties: new Map() });
+    } else if (name === 'END') {
+      const component = open.pop();
+      expect(component?.name).toBe(value);
+      found.push(component!);
+    } else {
+      const properties = open[open.length - 1].properties;
+      properties.set(name, [...(properties.get(name) ?? []), line]);
+    }
+  }
+  expect(open).toEqual([]);
+  return found;
+};
+
+describe('iCalendar', () => {
+  describe('formatCalendar', () => {
+    it('should write CRLF-terminated content lines of at most 75 octets', () => {
+      const ics = formatCalendar(calendar([event({ description: 'Prune '.repeat(40) })]), now);
+      const physicalLines = ics.split('\r\n');
+
+      expect(ics.endsWith('\r\n')).toBe(true);
+      expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+      physicalLines.forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+      expect(physicalLines.some((line) => line.startsWith(' '))).toBe(true);
+      unfold(ics).forEach((line) => expect(property(line)).not.toBeNull());
+    });
+
+    it('should nest balanced components with the required properties', () => {
+      const lines = unfold(formatCalendar(calendar([event(), event({ uid: 'rec_2@treecare' })]), now));
+      const found = components(lines);
+      const [calendarComponent] = found.filter(({ name }) => name === 'VCALENDAR');
+      const events = found.filter(({ name }) => name === 'VEVENT');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+      expect(calendarComponent.properties.get('VERSION')).toEqual(['VERSION:2.0']);
+      expect(calendarComponent.properties.get('PRODID')).toEqual([`PRODID:${PRODUCT_ID}`]);
+      expect(events).toHaveLength(2);
+      events.forEach(({ properties }) => {
+        ['UID', 'DTSTAMP', 'DTSTART', 'DTEND', 'SUMMARY'].forEach((name) => expect(properties.get(name)).toHaveLength(1));
+      });
+      expect(new Set(events.map(({ properties }) => properties.get('UID')![0])).size).toBe(2);
+    });
+
+    it('should write all-day events and UTC timestamps', () => {
+      const lines = unfold(formatCalendar(calendar([event({ date: '2025-12-31' })]), now));
+
+      expect(lines).toContain('DTSTAMP:20250115T123456Z');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20251231');
+      expect(lines).toContain('DTEND;VALUE=DATE:20260101');
+    });
+
+    it('should write the optional event properties that are given', () => {
+      const lines = unfold(
+        formatCalendar(
+          calendar([
+            event({
+              description: 'Remove crossing branches.',
+              location: 'Front Yard Oak, front yard',
+              geo: [40.7128, -74.006],
+              priority: 3,
+              categories: ['pruning'],
+            }),
+          ]),
+          now
+        )
+      );
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          'DESCRIPTION:Remove crossing branches.',
+          'LOCATION:Front Yard Oak\\, front yard',
+          'GEO:40.7128;-74.006',
+          'PRIORITY:3',
+          'CATEGORIES:pruning',
+        ])
+      );
+      expect(unfold(formatCalendar(calendar([event()]), now)).some((line) => line.startsWith('GEO'))).toBe(false);
+    });
+
+    it('should write an empty calendar', () => {
+      const found = components(unfold(formatCalendar(calendar([]), now)));
+
+      expect(found.map(({ name }) => name)).toEqual(['VCALENDAR']);
+    });
+  });
+
+  it('should escape TEXT values', () => {
+    expect(escapeText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldLine('SUMMARY:Water')).toBe('SUMMARY:Water');
+    });
+
+    it('should not split multi-octet characters', () => {
+      const line = `SUMMARY:${'🌳'.repeat(40)}`;
+      const folded = foldLine(line);
+
+      folded.split('\r\n').forEach((part) => {
+        expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+        expect(Buffer.from(part, 'utf8').toString('utf8')).toBe(part);
+      });
+      expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+  });
+
+  it('should format UTC date-times without separators', () => {
+    expect(formatDateTime(new Date('2025-03-04T05:06:07.000Z'))).toBe('20250304T050607Z');
+  });
+});
@@ -0,0 +1,111 @@
+import { NotificationItem } from '../../models/notification';
+import {
+  deliverNotification,
+  MAX_DELIVERY_ATTEMPTS,
+  toPushMessage,
+} from '../../services/notification-dispatcher';
+import { LocalPushProvider, PushProvider } from '../../services/push-provider';
+
+const NOW = new Date('2025-02-12T09:00:00.000Z');
+
+const notification = (overrides: Partial<NotificationItem> = {}): NotificationItem => ({
+  notificationId: 'notif_1',
+  userId: 'user-123',
+  treeId: 'tree_1',
+  type: 'care_reminder',
+  title: 'Time to check your Red Oak',
+  message: 'Optimal pruning window opens in 3 days',
+  scheduledTime: '2025-02-12T09:00:00.000Z',
+  channels: ['push'],
+  metadata: { recommendationId: 'rec_123', priority: 'high' },
+  status: 'pending',
+  attempts: 0,
+  dueAt: '2025-02-12T09:00:00.000Z',
+  createdAt: '2025-02-01T00:00:00.000Z',
+  updatedAt: '2025-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Notification delivery', () => {
+  let provider: LocalPushProvider;
+
+  beforeEach(() => {
+    provider = new LocalPushProvider();
+  });
+
+  it('should build the push message from the notification', () => {
+    expect(toPushMessage(notification())).toEqual({
+      notificationId: 'notif_1',
+      userId: 'user-123',
+      title: 'Time to check your Red Oak',
+      body: 'Optimal pruning window opens in 3 days',
+      data: { type: 'care_reminder', treeId: 'tree_1', recommendationId: 'rec_123' },
+    });
+  });
+
+  it('should mark a delivered notification sent', async () => {
+    const delivered = await deliverNotification(notification({ attempts: 1, lastError: 'timeout' }), provider, NOW);
+
+    expect(delivered).toMatchObject({ status: 'sent', attempts: 2, sentAt: NOW.toISOString() });
+    expect(delivered).not.toHaveProperty('lastError');
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it('should schedule a retry after a transient failure', async () => {
+    provider.failNext({ error: 'Service unavailable', retryable: true });
+
+    const delivered = await deliverNotification(notification(), provider, NOW);
+
+    expect(delivered).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Service unavailable',
+      dueAt: '2025-02-12T09:01:00.000Z',
+    });
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('should back off further on each retry', async () => {
+    provider.failNext({ error: 'Service unavailable', retryable: true });
+
+    const delivered = await deliverNotification(notification({ attempts: 2 }), provider, NOW);
+
+    expect(delivered.dueAt).toBe('2025-02-12T09:30:00.000Z');
+  });
+
+  it('should fail once attempts run out', async () => {
+    provider.failNext({ error: 'Service unavailable', retryable: true });
+
+    const delivered = await deliverNotification(
+      notification({ attempts: MAX_DELIVERY_ATTEMPTS - 1 }),
+      provider,
+      NOW
+    );
+
+    expect(delivered).toMatchObject({
+      status: 'failed',
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      failedAt: NOW.toISOString(),
+      lastError: 'Service unavailable',
+    });
+  });
+
+  it('should fail immediately when the provider says retrying cannot help', async () => {
+    provider.failNext({ error: 'DeviceNotRegistered', retryable: false });
+
+    const delivered = await deliverNotification(notification(), provider, NOW);
+
+    expect(delivered).toMatchObject({ status: 'failed', attempts: 1, lastError: 'DeviceNotRegistered' });
+  });
+
+  it('should retry when the provider throws', async () => {
+    const throwing: PushProvider = {
+      name: 'throwing',
+      send: jest.fn().mockRejectedValue(new Error('socket hang up')),
+    };
+
+    const delivered = await deliverNotification(notification(), throwing, NOW);
+
+    expect(delivered).toMatchObject({ status: 'pending', attempts: 1, lastError: 'socket hang up' });
+  });
+});
@@ -0,0 +1,139 @@
+import { PhotoItem } from '../../models/photo';
+import { TreeItem } from '../../models/tree';
+import {
+  analyzePhoto,
+  configurePhotoAnalyzer,
+  getPhotoAnalyzer,
+  LocalPhotoAnalyzer,
+  PhotoAnalyzer,
+  registerPhotoAnalyzer,
+  resetPhotoAnalyzer,
+} from '../../services/photo-analysis';
+
+const tree: TreeItem = {
+  treeId: 'tree_1',
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red Oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: {
+    yardPosition: 'front yard',
+    coordinates: [40.7128, -74.006],
+    sunExposure: 'full sun',
+    soilType: 'loam',
+  },
+  currentStatus: {
+    height: 14,
+    trunkDiameter: 4,
+    canopySpread: 10,
+    healthScore: 90,
+    growthStage: 'juvenile',
+  },
+  goals: { targetHeight: 40, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const photo = (photoId: string): PhotoItem => ({
+  photoId,
+  treeId: 'tree_1',
+  userId: 'user-123',
+  s3Key: `users/user-123/trees/tree_1/${photoId}.jpg`,
+  contentType: 'image/jpeg',
+  status: 'uploaded',
+  capturedAt: '2025-01-01T12:00:00.000Z',
+  createdAt: '2025-01-01T12:00:00.000Z',
+});
+
+describe('Photo analysis', () => {
+  const loadImage = jest.fn(async () => Buffer.from('image'));
+
+  afterEach(() => {
+    resetPhotoAnalyzer();
+    delete process.env.PHOTO_ANALYZER;
+  });
+
+  describe('LocalPhotoAnalyzer', () => {
+    const analyzer = new LocalPhotoAnalyzer();
+
+    it('should return the same findings for the same photo', async () => {
+      const first = await analyzer.analyze({ photo: photo('photo_a'), tree, loadImage });
+      const second = await analyzer.analyze({ photo: photo('photo_a'), tree, loadImage });
+      const other = await analyzer.analyze({ photo: photo('photo_b'), tree, loadImage });
+
+      expect(second).toEqual(first);
+      expect(other).not.toEqual(first);
+      expect(loadImage).not.toHaveBeenCalled();
+    });
+
+    it("should base its findings on the tree's recorded state", async () => {
+      const result = await analyzer.analyze({ photo: photo('photo_a'), tree, loadImage });
+
+      expect(result.species.predicted).toBe('Quercus rubra');
+      expect(result.species.confidence).toBeGreaterThanOrEqual(0.8);
+      expect(result.structure.estimatedHeight).toBeGreaterThanOrEqual(14 * 0.95);
+      expect(result.structure.estimatedHeight).toBeLessThanOrEqual(14 * 1.05);
+      expect(result.health.overallScore).toBeGreaterThanOrEqual(85);
+      expect(result.health.indicators.leafColor).toBe('healthy');
+      expect(result.health.pests).toEqual([]);
+    });
+
+    it('should suggest crown raising once the tree is well above the clearance goal', async () => {
+      const result = await analyzer.analyze({ photo: photo('photo_a'), tree, loadImage });
+
+      expect(result.overlays).toContainEqual(
+        expect.objectContaining({ type: 'pruning_cut', technique: 'crown_raising', priority: 'low' })
+      );
+      for (const overlay of result.overlays) {
+        overlay.coordinates.forEach((value) => {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(1);
+        });
+      }
+    });
+
+    it('should flag pests and diseases for unhealthy trees', async () => {
+      const unhealthy = { ...tree, currentStatus: { ...tree.currentStatus, healthScore: 40 } };
+
+      const result = await analyzer.analyze({ photo: photo('photo_a'), tree: unhealthy, loadImage });
+
+      expect(result.health.indicators.leafColor).toBe('poor');
+      expect(result.health.diseases).toEqual(['leaf spot']);
+      expect(result.overlays).toContainEqual(
+        expect.objectContaining({ type: 'health_concern', description: 'Monitor for scale insects' })
+      );
+    });
+  });
+
+  describe('analyzer selection', () => {
+    it('should default to the local analyzer', () => {
+      expect(getPhotoAnalyzer()).toBeInstanceOf(LocalPhotoAnalyzer);
+    });
+
+    it('should select a registered analyzer by PHOTO_ANALYZER', async () => {
+      const stub: PhotoAnalyzer = {
+        name: 'stub-model',
+        analyze: jest.fn(async (input) => {
+          await input.loadImage();
+          return new LocalPhotoAnalyzer().analyze(input);
+        }),
+      };
+      registerPhotoAnalyzer('stub-model', () => stub);
+      process.env.PHOTO_ANALYZER = 'stub-model';
+
+      const analysis = await analyzePhoto({ photo: photo('photo_a'), tree, loadImage });
+
+      expect(analysis.analyzer).toBe('stub-model');
+      expect(analysis.analyzedAt).toEqual(expect.any(String));
+      expect(loadImage).toHaveBeenCalled();
+    });
+
+    it('should reject an unknown analyzer name', () => {
+      process.env.PHOTO_ANALYZER = 'missing';
+
+      expect(() => configurePhotoAnalyzer()).toThrow('Unknown photo analyzer: missing');
+    });
+  });
+});
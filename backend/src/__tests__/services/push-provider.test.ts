@@ -0,0 +1,81 @@
+import {
+  configurePushProvider,
+  getPushProvider,
+  LocalPushProvider,
+  PushProvider,
+  registerPushProvider,
+  resetPushProvider,
+} from '../../services/push-provider';
+
+const message = {
+  notificationId: 'notif_1',
+  userId: 'user-123',
+  title: 'Water your tree',
+  body: 'It has been dry for a week',
+};
+
+describe('Push providers', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    resetPushProvider();
+    process.env = { ...env };
+  });
+
+  describe('LocalPushProvider', () => {
+    it('should record sent messages', async () => {
+      const provider = new LocalPushProvider();
+
+      const result = await provider.send(message);
+
+      expect(result).toEqual({ ok: true, providerMessageId: 'local_1' });
+      expect(provider.sent).toEqual([message]);
+    });
+
+    it('should return queued failures in order before succeeding again', async () => {
+      const provider = new LocalPushProvider();
+      provider.failNext(
+        { error: 'Service unavailable', retryable: true },
+        { error: 'DeviceNotRegistered', retryable: false }
+      );
+
+      const results = [await provider.send(message), await provider.send(message), await provider.send(message)];
+
+      expect(results).toEqual([
+        { ok: false, error: 'Service unavailable', retryable: true },
+        { ok: false, error: 'DeviceNotRegistered', retryable: false },
+        { ok: true, providerMessageId: 'local_1' },
+      ]);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should default to the local provider in local runs and tests', () => {
+      expect(getPushProvider()).toBeInstanceOf(LocalPushProvider);
+    });
+
+    it('should require PUSH_PROVIDER in deployed stages', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.STAGE = 'prod';
+
+      expect(() => configurePushProvider()).toThrow('PUSH_PROVIDER must be set');
+
+      process.env.PUSH_PROVIDER = 'local';
+      expect(getPushProvider()).toBeInstanceOf(LocalPushProvider);
+    });
+
+    it('should select a registered provider by PUSH_PROVIDER', () => {
+      const expo: PushProvider = { name: 'expo', send: jest.fn() };
+      registerPushProvider('expo', () => expo);
+      process.env.PUSH_PROVIDER = 'expo';
+
+      expect(getPushProvider()).toBe(expo);
+    });
+
+    it('should reject an unknown provider name', () => {
+      process.env.PUSH_PROVIDER = 'carrier-pigeon';
+
+      expect(() => configurePushProvider()).toThrow('Unknown push provider: carrier-pigeon');
+    });
+  });
+});
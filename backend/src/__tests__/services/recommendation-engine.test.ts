@@ -0,0 +1,210 @@
+import { TreeItem } from '../../models/tree';
+import {
+  generateRecommendations,
+  recommendationId,
+  RecommendationRule,
+} from '../../services/recommendation-engine';
+
+const tree = (overrides: Partial<TreeItem> = {}): TreeItem => ({
+  treeId: 'tree_1',
+  userId: 'user-123',
+  name: 'Front Yard Oak',
+  species: { scientificName: 'Quercus rubra', commonName: 'Red Oak', speciesId: 'quercus_rubra' },
+  plantedDate: '2020-03-15',
+  location: {
+    yardPosition: 'front yard',
+    coordinates: [40.7128, -74.006],
+    sunExposure: 'full sun',
+    soilType: 'loam',
+  },
+  currentStatus: {
+    height: 14,
+    trunkDiameter: 4,
+    canopySpread: 10,
+    healthScore: 90,
+    growthStage: 'juvenile',
+  },
+  goals: { targetHeight: 40, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const MID_WINTER = new Date('2025-01-15T12:00:00Z');
+const EARLY_AUTUMN = new Date('2025-10-01T12:00:00Z');
+
+const byRule = (recommendations: ReturnType<typeof generateRecommendations>, ruleId: string) =>
+  recommendations.find((recommendation) => recommendation.ruleId === ruleId);
+
+describe('Recommendation engine', () => {
+  describe('timing', () => {
+    it('should schedule structural pruning in the open dormancy window with a late-winter ideal date', () => {
+      const pruning = byRule(generateRecommendations(tree(), MID_WINTER), 'structural-pruning');
+
+      expect(pruning?.timing).toEqual({
+        windowStart: '2024-12-01T00:00:00.000Z',
+        windowEnd: '2025-03-01T00:00:00.000Z',
+        idealDate: '2025-02-01T00:00:00.000Z',
+        seasonalFactor: 'late_winter_dormant',
+      });
+      expect(pruning?.priority).toBe('high');
+    });
+
+    it('should point at the next dormancy window and keep base priority before it opens', () => {
+      const pruning = byRule(generateRecommendations(tree(), EARLY_AUTUMN), 'structural-pruning');
+
+      expect(pruning?.timing.windowStart).toBe('2025-12-01T00:00:00.000Z');
+      expect(pruning?.priority).toBe('medium');
+    });
+
+    it('should move structural work on maples to early summer to avoid sap bleeding', () => {
+      const maple = tree({
+        species: { scientificName: 'Acer rubrum', commonName: 'Red Maple', speciesId: 'acer_rubrum' },
+      });
+
+      const pruning = byRule(generateRecommendations(maple, MID_WINTER), 'structural-pruning');
+
+      expect(pruning?.timing.windowStart).toBe('2025-06-15T00:00:00.000Z');
+      expect(pruning?.timing.seasonalFactor).toBe('summer_active');
+      expect(pruning?.description).toContain('in early summer');
+    });
+
+    describe('in the southern hemisphere', () => {
+      const southern = (overrides: Partial<TreeItem> = {}) =>
+        tree({
+          location: { ...tree().location, coordinates: [-37.81, 144.96] },
+          climate: { hemisphere: 'southern', hardinessZone: '10a', referencePoint: 'Melbourne' },
+          ...overrides,
+        });
+
+      it('should move dormancy to June through August', () => {
+        const summer = byRule(generateRecommendations(southern(), MID_WINTER), 'structural-pruning');
+        const winter = byRule(
+          generateRecommendations(southern(), new Date('2025-07-10T12:00:00Z')),
+          'structural-pruning'
+        );
+
+        expect(summer?.timing).toEqual({
+          windowStart: '2025-06-01T00:00:00.000Z',
+          windowEnd: '2025-09-01T00:00:00.000Z',
+          idealDate: '2025-08-01T00:00:00.000Z',
+          seasonalFactor: 'late_winter_dormant',
+        });
+        expect(summer?.priority).toBe('medium');
+        expect(winter?.timing.windowStart).toBe('2025-06-01T00:00:00.000Z');
+        expect(winter?.priority).toBe('high');
+      });
+
+      it('should move spring and summer work six months', () => {
+        const recommendations = generateRecommendations(southern(), EARLY_AUTUMN);
+
+        expect(byRule(recommendations, 'spring-mulch')?.timing.windowStart).toBe('2025-09-15T00:00:00.000Z');
+        expect(byRule(recommendations, 'establishment-watering')?.timing.windowStart).toBe(
+          '2025-12-01T00:00:00.000Z'
+        );
+      });
+
+      it('should warn about oak wilt from October through January', () => {
+        const pruning = byRule(generateRecommendations(southern(), MID_WINTER), 'structural-pruning');
+
+        expect(pruning?.safety).toContain(
+          'Do not prune oaks from October through January to avoid spreading oak wilt'
+        );
+      });
+
+      it('should go by the latitude when the climate was never resolved', () => {
+        const pruning = byRule(
+          generateRecommendations(southern({ climate: undefined }), MID_WINTER),
+          'structural-pruning'
+        );
+
+        expect(pruning?.timing.windowStart).toBe('2025-06-01T00:00:00.000Z');
+      });
+    });
+  });
+
+  describe('rules', () => {
+    it('should add the oak wilt warning to pruning work on oaks only', () => {
+      const maple = tree({
+        species: { scientificName: 'Acer rubrum', commonName: 'Red Maple', speciesId: 'acer_rubrum' },
+      });
+      const oakWilt = expect.stringContaining('oak wilt');
+
+      expect(byRule(generateRecommendations(tree(), MID_WINTER), 'structural-pruning')?.safety).toContainEqual(oakWilt);
+      expect(byRule(generateRecommendations(maple, MID_WINTER), 'structural-pruning')?.safety).not.toContainEqual(
+        oakWilt
+      );
+    });
+
+    it('should raise an urgent inspection for a poor health score', () => {
+      const recommendations = generateRecommendations(
+        tree({ currentStatus: { ...tree().currentStatus, healthScore: 40 } }),
+        MID_WINTER
+      );
+
+      expect(recommendations[0]).toMatchObject({
+        ruleId: 'health-inspection',
+        priority: 'urgent',
+        timing: { seasonalFactor: 'immediate', idealDate: '2025-01-15T00:00:00.000Z' },
+      });
+    });
+
+    it('should only suggest pollard cuts for pollarded trees', () => {
+      const pollard = generateRecommendations(tree({ goals: { ...tree().goals, aestheticStyle: 'pollarded' } }), MID_WINTER);
+
+      expect(byRule(pollard, 'pollard-cycle')).toBeDefined();
+      expect(byRule(pollard, 'structural-pruning')).toBeUndefined();
+      expect(byRule(generateRecommendations(tree(), MID_WINTER), 'pollard-cycle')).toBeUndefined();
+    });
+
+    it('should skip height reduction until the target height is reached', () => {
+      const reached = tree({ currentStatus: { ...tree().currentStatus, height: 42 } });
+
+      expect(byRule(generateRecommendations(tree(), MID_WINTER), 'height-reduction')).toBeUndefined();
+      expect(byRule(generateRecommendations(reached, MID_WINTER), 'height-reduction')).toBeDefined();
+    });
+  });
+
+  describe('generateRecommendations', () => {
+    it('should keep IDs stable for the same window', () => {
+      const first = generateRecommendations(tree(), MID_WINTER);
+      const later = generateRecommendations(tree(), new Date('2025-02-10T08:00:00Z'));
+
+      expect(byRule(later, 'structural-pruning')?.id).toBe(byRule(first, 'structural-pruning')?.id);
+      expect(byRule(first, 'structural-pruning')?.id).toBe(
+        recommendationId('tree_1', 'structural-pruning', '2024-12-01T00:00:00.000Z')
+      );
+    });
+
+    it('should sort by priority and then by ideal date', () => {
+      const draft = (priority: 'high' | 'low', ideal: string): RecommendationRule['evaluate'] => () => ({
+        type: 'inspection',
+        priority,
+        title: ideal,
+        description: ideal,
+        window: {
+          start: new Date(ideal),
+          end: new Date(ideal),
+          ideal: new Date(ideal),
+          seasonalFactor: 'immediate',
+        },
+      });
+      const rules: RecommendationRule[] = [
+        { id: 'low', evaluate: draft('low', '2025-01-01T00:00:00Z') },
+        { id: 'high-late', evaluate: draft('high', '2025-03-01T00:00:00Z') },
+        { id: 'high-early', evaluate: draft('high', '2025-02-01T00:00:00Z') },
+      ];
+
+      const recommendations = generateRecommendations(tree(), MID_WINTER, rules);
+
+      expect(recommendations.map((recommendation) => recommendation.ruleId)).toEqual([
+        'high-early',
+        'high-late',
+        'low',
+      ]);
+      expect(recommendations.every((recommendation) => recommendation.status === 'pending')).toBe(true);
+    });
+  });
+});
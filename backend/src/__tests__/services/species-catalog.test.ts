@@ -0,0 +1,80 @@
+import { Species } from '../../models/species';
+import { SpeciesCatalog, speciesCatalog } from '../../services/species-catalog';
+
+const idsFor = (query: string, limit?: number) =>
+  speciesCatalog.search(query, limit).map((match) => match.species.speciesId);
+
+describe('Species catalog', () => {
+  it('should load the bundled dataset', () => {
+    expect(speciesCatalog.get('quercus_rubra')).toMatchObject({
+      scientificName: 'Quercus rubra',
+      commonNames: ['Red Oak', 'Northern Red Oak'],
+    });
+    expect(speciesCatalog.get('unknown')).toBeUndefined();
+  });
+
+  it('should find species by scientific name regardless of case and spacing', () => {
+    expect(speciesCatalog.findByScientificName('  quercus   RUBRA ')?.speciesId).toBe('quercus_rubra');
+  });
+
+  describe('search', () => {
+    it('should rank an exact common name first', () => {
+      expect(idsFor('red maple')[0]).toBe('acer_rubrum');
+    });
+
+    it('should match prefixes while typing', () => {
+      expect(idsFor('quercus rub')).toEqual(['quercus_rubra']);
+      expect(idsFor('birc')).toEqual(expect.arrayContaining(['betula_nigra', 'betula_papyrifera']));
+    });
+
+    it('should tolerate typos and swapped letters', () => {
+      expect(idsFor('mapel')).toEqual(expect.arrayContaining(['acer_rubrum', 'acer_saccharum', 'acer_palmatum']));
+      expect(idsFor('gingko')).toEqual(['ginkgo_biloba']);
+      expect(idsFor('magnolai')).toEqual(['magnolia_grandiflora']);
+    });
+
+    it('should require every word to match', () => {
+      expect(idsFor('red oak')).toEqual(['quercus_rubra']);
+      expect(idsFor('purple oak')).toEqual([]);
+    });
+
+    it('should not fuzz short words', () => {
+      expect(idsFor('oek')).toEqual([]);
+    });
+
+    it('should ignore accents and punctuation', () => {
+      expect(idsFor('Platanus × acerifolia')).toContain('platanus_x_acerifolia');
+    });
+
+    it('should respect the limit and ignore blank queries', () => {
+      expect(idsFor('a', 2)).toHaveLength(2);
+      expect(idsFor('   ')).toEqual([]);
+    });
+
+    it('should order equal scores by common name', () => {
+      const entry = (speciesId: string, commonName: string): Species => ({
+        ...speciesCatalog.get('quercus_alba')!,
+        speciesId,
+        commonNames: [commonName],
+      });
+      const catalog = new SpeciesCatalog([entry('b', 'Swamp Oak'), entry('a', 'Bur Oak')]);
+
+      expect(catalog.search('oak').map((match) => match.species.speciesId)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('hardinessWarning', () => {
+    it('should warn when the zone is outside the species range', () => {
+      expect(speciesCatalog.hardinessWarning('quercus_rubra', '10a')).toEqual({
+        code: 'outside_hardiness_zone',
+        message: 'Red Oak is hardy in zones 3-8; this tree is in zone 10a.',
+      });
+    });
+
+    it('should not warn within the range or for species outside the catalog', () => {
+      expect(speciesCatalog.hardinessWarning('quercus_rubra', '8b')).toBeUndefined();
+      expect(speciesCatalog.hardinessWarning('quercus_rubra', '3a')).toBeUndefined();
+      expect(speciesCatalog.hardinessWarning('unknown', '13b')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { subscriptionChangeFor } from '../../services/stripe-events';
+import { parseStripeFixture } from '../setup/stripe-events';
+
+describe('subscriptionChangeFor', () => {
+  it('should link the checkout customer to the user', () => {
+    expect(subscriptionChangeFor(parseStripeFixture('checkout.session.completed'))).toEqual({
+      userId: 'user-123',
+      customerId: 'cus_NffrFeUfNV2Hib',
+      fields: {
+        status: 'active',
+        stripeSubscriptionId: 'sub_1MowQVLkdIwHu7ixeRlqHVzs',
+        subscriptionTier: 'hobbyist',
+      },
+    });
+  });
+
+  it('should take the tier and billing period from the subscription', () => {
+    expect(subscriptionChangeFor(parseStripeFixture('customer.subscription.updated'))).toEqual({
+      userId: 'user-123',
+      customerId: 'cus_NffrFeUfNV2Hib',
+      fields: {
+        status: 'active',
+        subscriptionTier: 'arborist',
+        stripeSubscriptionId: 'sub_1MowQVLkdIwHu7ixeRlqHVzs',
+        currentPeriodStart: '2025-01-01T12:00:00.000Z',
+        currentPeriodEnd: '2025-02-01T12:00:00.000Z',
+        cancelAtPeriodEnd: false,
+      },
+    });
+  });
+
+  it('should map Stripe statuses onto subscription statuses', () => {
+    const event = parseStripeFixture('customer.subscription.updated');
+    const withStatus = (status: string) => {
+      (event.data.object as any).status = status;
+      return subscriptionChangeFor(event)?.fields.status;
+    };
+
+    expect(withStatus('unpaid')).toBe('past_due');
+    expect(withStatus('incomplete')).toBe('incomplete');
+    expect(withStatus('incomplete_expired')).toBe('canceled');
+  });
+
+  it('should leave the tier alone for prices without a known tier', () => {
+    const event = parseStripeFixture('customer.subscription.updated');
+    (event.data.object as any).items.data[0].price.metadata = {};
+
+    expect(subscriptionChangeFor(event)?.fields).not.toHaveProperty('subscriptionTier');
+  });
+
+  it('should record renewals and failed payments by customer', () => {
+    expect(subscriptionChangeFor(parseStripeFixture('invoice.paid'))).toEqual({
+      customerId: 'cus_NffrFeUfNV2Hib',
+      fields: {
+        status: 'active',
+        stripeSubscriptionId: 'sub_1MowQVLkdIwHu7ixeRlqHVzs',
+        currentPeriodStart: '2025-02-01T12:00:00.000Z',
+        currentPeriodEnd: '2025-03-01T12:00:00.000Z',
+      },
+    });
+    expect(subscriptionChangeFor(parseStripeFixture('invoice.payment_failed'))?.fields).toEqual({
+      status: 'past_due',
+      stripeSubscriptionId: 'sub_1MowQVLkdIwHu7ixeRlqHVzs',
+    });
+  });
+
+  it('should ignore events that do not affect subscriptions', () => {
+    expect(subscriptionChangeFor(parseStripeFixture('customer.created'))).toBeUndefined();
+  });
+});
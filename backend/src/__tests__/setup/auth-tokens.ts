@@ -0,0 +1,45 @@
+/**
+ * Offline Cognito token minting for tests
+ * Generates a throwaway RSA key pair and installs it as the verifier's signing key
+ */
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { configureAuth, StaticKeyProvider } from '../../middleware/auth';
+
+export const TEST_KID = 'test-key';
+export const TEST_ISSUER = 'https://cognito-idp.us-east-2.amazonaws.com/us-east-2_TestPool';
+export const TEST_CLIENT_ID = 'test-client-id';
+
+export const testKeyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+export const installTestSigningKey = (): void => {
+  configureAuth({
+    issuer: TEST_ISSUER,
+    clientId: TEST_CLIENT_ID,
+    keyProvider: new StaticKeyProvider({ [TEST_KID]: testKeyPair.publicKey }),
+  });
+};
+
+/**
+ * Mint a Cognito-style ID token (or access token with tokenUse: 'access')
+ */
+export const mintTestToken = (
+  claims: Record<string, any> = {},
+  options: { tokenUse?: 'id' | 'access'; expiresIn?: number; kid?: string } = {}
+): string => {
+  const tokenUse = options.tokenUse || 'id';
+  const payload = {
+    sub: 'user-123',
+    email: 'test@example.com',
+    token_use: tokenUse,
+    ...(tokenUse === 'id' ? { aud: TEST_CLIENT_ID } : { client_id: TEST_CLIENT_ID }),
+    ...claims,
+  };
+
+  return jwt.sign(payload, testKeyPair.privateKey, {
+    algorithm: 'RS256',
+    keyid: options.kid || TEST_KID,
+    issuer: TEST_ISSUER,
+    expiresIn: options.expiresIn ?? 3600,
+  });
+};
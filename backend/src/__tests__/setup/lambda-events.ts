@@ -0,0 +1,85 @@
+/**
+ * API Gateway event and Lambda context factories for handler tests
+ */
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { mintTestToken } from './auth-tokens';
+
+export const createMockEvent = (
+  overrides: Partial<APIGatewayProxyEvent> = {}
+): APIGatewayProxyEvent => ({
+  body: null,
+  headers: {},
+  multiValueHeaders: {},
+  httpMethod: 'GET',
+  isBase64Encoded: false,
+  path: '/',
+  pathParameters: null,
+  queryStringParameters: null,
+  multiValueQueryStringParameters: null,
+  stageVariables: null,
+  requestContext: {
+    accountId: '123456789012',
+    apiId: '1234567890',
+    authorizer: null,
+    protocol: 'HTTP/1.1',
+    httpMethod: overrides.httpMethod || 'GET',
+    identity: {
+      accessKey: null,
+      accountId: null,
+      apiKey: null,
+      apiKeyId: null,
+      caller: null,
+      clientCert: null,
+      cognitoAuthenticationProvider: null,
+      cognitoAuthenticationType: null,
+      cognitoIdentityId: null,
+      cognitoIdentityPoolId: null,
+      principalOrgId: null,
+      sourceIp: '127.0.0.1',
+      user: null,
+      userAgent: 'test-agent',
+      userArn: null,
+    },
+    path: overrides.path || '/',
+    stage: 'test',
+    requestId: 'test-request-id',
+    requestTime: '01/Jan/2025:00:00:00 +0000',
+    requestTimeEpoch: 1704067200000,
+    resourceId: 'test-resource',
+    resourcePath: overrides.resource || '/',
+  },
+  resource: '/',
+  ...overrides,
+});
+
+/**
+ * Event carrying a bearer token for the given user, signed with the test key
+ * (call installTestSigningKey() before using)
+ */
+export const createAuthorizedEvent = (
+  userId: string,
+  overrides: Partial<APIGatewayProxyEvent> = {}
+): APIGatewayProxyEvent =>
+  createMockEvent({
+    ...overrides,
+    headers: {
+      Authorization: `Bearer ${mintTestToken({ sub: userId })}`,
+      ...overrides.headers,
+    },
+  });
+
+export const createMockContext = (overrides: Partial<Context> = {}): Context => ({
+  callbackWaitsForEmptyEventLoop: true,
+  functionName: 'test-function',
+  functionVersion: '$LATEST',
+  invokedFunctionArn: 'arn:aws:lambda:us-east-2:123456789012:function:test-function',
+  memoryLimitInMB: '1024',
+  awsRequestId: 'test-request-id',
+  logGroupName: '/aws/lambda/test-function',
+  logStreamName: '2025/01/01/[$LATEST]test',
+  getRemainingTimeInMillis: () => 30000,
+  done: jest.fn(),
+  fail: jest.fn(),
+  succeed: jest.fn(),
+  ...overrides,
+});
@@ -0,0 +1,9 @@
+/**
+ * Handlers keep rate limit buckets in memory under test, fresh for each test,
+ * so suites never reach DynamoDB (or their own DocumentClient mocks) for them
+ */
+import { configureRateLimitStore, InMemoryRateLimitStore } from '../../middleware/rate-limit';
+
+beforeEach(() => {
+  configureRateLimitStore(new InMemoryRateLimitStore());
+});
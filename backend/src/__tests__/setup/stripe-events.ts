@@ -0,0 +1,25 @@
+/**
+ * Recorded Stripe webhook payloads (fixtures/stripe) and a test signing
+ * secret for replaying them against the webhook handler
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import Stripe from 'stripe';
+
+export const TEST_WEBHOOK_SECRET = 'whsec_test_secret';
+
+const stripe = new Stripe('', { apiVersion: '2022-11-15' });
+
+/**
+ * The raw payload exactly as Stripe sent it
+ */
+export const loadStripeFixture = (name: string): string =>
+  readFileSync(join(__dirname, '..', 'fixtures', 'stripe', `${name}.json`), 'utf8');
+
+export const parseStripeFixture = (name: string): Stripe.Event => JSON.parse(loadStripeFixture(name));
+
+/**
+ * A Stripe-Signature header for the payload, as Stripe would send it
+ */
+export const signStripePayload = (payload: string, secret = TEST_WEBHOOK_SECRET): string =>
+  stripe.webhooks.generateTestHeaderString({ payload, secret });
@@ -0,0 +1,46 @@
+import { HealthRegistry } from '../../utils/health-registry';
+
+const after = (ms: number, fail?: string) =>
+  new Promise<void>((resolve, reject) => setTimeout(() => (fail ? reject(new Error(fail)) : resolve()), ms));
+
+describe('HealthRegistry', () => {
+  it('should run checks in parallel and time each one', async () => {
+    const registry = new HealthRegistry()
+      .register({ name: 'a', critical: true, timeoutMs: 1000, check: () => after(50) })
+      .register({ name: 'b', critical: true, timeoutMs: 1000, check: () => after(50) });
+
+    const startedAt = Date.now();
+    const report = await registry.run();
+
+    expect(Date.now() - startedAt).toBeLessThan(100);
+    expect(report.status).toBe('healthy');
+    expect(report.dependencies.a.latencyMs).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should fail checks that take longer than their timeout', async () => {
+    const report = await new HealthRegistry()
+      .register({ name: 'slow', critical: true, timeoutMs: 10, check: () => after(200) })
+      .run();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.dependencies.slow).toMatchObject({ status: 'unhealthy', error: 'Timed out after 10ms' });
+  });
+
+  it('should only degrade for non-critical failures', async () => {
+    const report = await new HealthRegistry()
+      .register({ name: 'core', critical: true, timeoutMs: 100, check: () => after(0) })
+      .register({ name: 'extra', critical: false, timeoutMs: 100, check: () => after(0, 'down') })
+      .run();
+
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.extra).toMatchObject({ status: 'unhealthy', critical: false, error: 'down' });
+  });
+
+  it('should refuse the same dependency twice', () => {
+    const registry = new HealthRegistry().register({ name: 'a', critical: true, timeoutMs: 1, check: async () => {} });
+
+    expect(() => registry.register({ name: 'a', critical: false, timeoutMs: 1, check: async () => {} })).toThrow(
+      'Health check a is already registered'
+    );
+  });
+});
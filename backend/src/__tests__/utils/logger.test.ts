@@ -0,0 +1,205 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, ValidationError } from '../../handlers/lambda-base';
+import { createLogger, Logger, LogLevel, REDACTED, runWithLogContext } from '../../utils/logger';
+import { createMockContext, createMockEvent } from '../setup/lambda-events';
+
+const captureLogger = (options: { level?: LogLevel; redactKeys?: string[] } = {}) => {
+  const lines: any[] = [];
+  const logger = new Logger({
+    ...options,
+    sink: (line) => lines.push(JSON.parse(line)),
+  });
+  return { logger, lines };
+};
+
+describe('Logger', () => {
+  it('should write one JSON line per entry', () => {
+    const sink = jest.fn();
+    new Logger({ sink }).info('Tree created', { treeId: 'tree_1' });
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    const [line, level] = sink.mock.calls[0];
+    expect(level).toBe('info');
+    expect(line).not.toContain('\n');
+    expect(JSON.parse(line)).toEqual({
+      timestamp: expect.any(String),
+      level: 'info',
+      message: 'Tree created',
+      treeId: 'tree_1',
+    });
+  });
+
+  it('should drop entries below the configured level', () => {
+    const { logger, lines } = captureLogger({ level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should redact credential headers case-insensitively', () => {
+    const { logger, lines } = captureLogger();
+
+    logger.info('Request received', {
+      headers: {
+        Authorization: 'Bearer secret',
+        cookie: 'session=abc',
+        'X-Api-Key': 'key',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    expect(lines[0].headers).toEqual({
+      Authorization: REDACTED,
+      cookie: REDACTED,
+      'X-Api-Key': REDACTED,
+      'Content-Type': 'application/json',
+    });
+  });
+
+  it('should redact configured body fields at any depth', () => {
+    const { logger, lines } = captureLogger({ redactKeys: ['email'] });
+
+    logger.debug('body', {
+      body: { user: { email: 'a@example.com', password: 'hunter2' }, items: [{ email: 'b' }] },
+    });
+
+    expect(lines).toHaveLength(0);
+
+    const verbose = captureLogger({ level: 'debug', redactKeys: ['email'] });
+    verbose.logger.debug('body', {
+      body: { user: { email: 'a@example.com', password: 'hunter2' }, items: [{ email: 'b' }] },
+    });
+
+    expect(verbose.lines[0].body).toEqual({
+      user: { email: REDACTED, password: REDACTED },
+      items: [{ email: REDACTED }],
+    });
+  });
+
+  it('should read redacted fields and level from the environment', () => {
+    process.env.LOG_LEVEL = 'debug';
+    process.env.LOG_REDACT_FIELDS = 'ssn, phone';
+    const lines: any[] = [];
+    const logger = createLogger({ sink: (line) => lines.push(JSON.parse(line)) });
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_REDACT_FIELDS;
+
+    logger.debug('profile', { ssn: '123', phone: '555', name: 'Ash' });
+
+    expect(lines[0]).toMatchObject({ ssn: REDACTED, phone: REDACTED, name: 'Ash' });
+  });
+
+  it('should serialize errors', () => {
+    const { logger, lines } = captureLogger();
+
+    logger.error('failed', { error: new ValidationError('bad input') });
+
+    expect(lines[0].error).toMatchObject({
+      name: 'ValidationError',
+      message: 'bad input',
+      statusCode: 400,
+      stack: expect.any(String),
+    });
+  });
+
+  it('should attach context fields inside runWithLogContext', async () => {
+    const { logger, lines } = captureLogger();
+
+    await runWithLogContext({ awsRequestId: 'req-1', correlationId: 'corr-1' }, async () => {
+      await Promise.resolve();
+      logger.child({ component: 'trees' }).info('inside');
+    });
+    logger.info('outside');
+
+    expect(lines[0]).toMatchObject({ awsRequestId: 'req-1', correlationId: 'corr-1', component: 'trees' });
+    expect(lines[1]).not.toHaveProperty('awsRequestId');
+  });
+});
+
+describe('BaseLambdaHandler request logging', () => {
+  class EchoHandler extends BaseLambdaHandler {
+    async processRequest(
+      event: APIGatewayProxyEvent,
+      context: Context
+    ): Promise<APIGatewayProxyResult> {
+      if (event.path === '/fail') {
+        throw new Error('boom');
+      }
+      return this.createSuccessResponse({ ok: true }, context.awsRequestId);
+    }
+  }
+
+  const echo = new EchoHandler();
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  const loggedLines = (): any[] =>
+    [...logSpy.mock.calls, ...errorSpy.mock.calls].map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should not log bearer tokens', async () => {
+    await echo.handler(
+      createMockEvent({ headers: { Authorization: 'Bearer secret-token', Cookie: 'a=b' } }),
+      createMockContext()
+    );
+
+    const output = [...logSpy.mock.calls, ...errorSpy.mock.calls].join('\n');
+    expect(output).not.toContain('secret-token');
+    expect(loggedLines()[0].headers.Authorization).toBe(REDACTED);
+  });
+
+  it('should echo the client correlation ID and log it on every line', async () => {
+    const result = await echo.handler(
+      createMockEvent({ headers: { 'x-correlation-id': 'mobile-abc123' } }),
+      createMockContext()
+    );
+
+    expect(result.headers['X-Correlation-Id']).toBe('mobile-abc123');
+    expect(loggedLines().map((line) => line.message)).toEqual(['Request received', 'Request completed']);
+    for (const line of loggedLines()) {
+      expect(line).toMatchObject({ awsRequestId: 'test-request-id', correlationId: 'mobile-abc123' });
+    }
+  });
+
+  it('should fall back to the request ID for missing or malformed correlation IDs', async () => {
+    const missing = await echo.handler(createMockEvent(), createMockContext());
+    const malformed = await echo.handler(
+      createMockEvent({ headers: { 'X-Correlation-Id': 'bad id\nwith newline' } }),
+      createMockContext()
+    );
+
+    expect(missing.headers['X-Correlation-Id']).toBe('test-request-id');
+    expect(malformed.headers['X-Correlation-Id']).toBe('test-request-id');
+  });
+
+  it('should echo the correlation ID on errors and preflight responses', async () => {
+    const headers = { 'X-Correlation-Id': 'corr-9' };
+    const failed = await echo.handler(createMockEvent({ path: '/fail', headers }), createMockContext());
+    const preflight = await echo.handler(
+      createMockEvent({ httpMethod: 'OPTIONS', headers }),
+      createMockContext()
+    );
+
+    expect(failed.statusCode).toBe(500);
+    expect(failed.headers['X-Correlation-Id']).toBe('corr-9');
+    expect(preflight.headers['X-Correlation-Id']).toBe('corr-9');
+    expect(loggedLines().find((line) => line.level === 'error')).toMatchObject({
+      message: 'Handler error',
+      correlationId: 'corr-9',
+      error: { message: 'boom' },
+    });
+  });
+});
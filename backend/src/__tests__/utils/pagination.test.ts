@@ -0,0 +1,35 @@
+import { decodeCursor, encodeCursor } from '../../utils/pagination';
+
+describe('pagination cursors', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should round-trip a key within its listing', () => {
+    const cursor = encodeCursor({ treeId: 'tree_1', userId: 'user-123' }, 'trees:user-123:active');
+
+    expect(decodeCursor(cursor, 'trees:user-123:active')).toEqual({ treeId: 'tree_1', userId: 'user-123' });
+    expect(() => decodeCursor(cursor, 'trees:user-456:active')).toThrow('Request validation failed');
+  });
+
+  it('should not accept cursors signed with another secret', () => {
+    process.env.CURSOR_SECRET = 'stage-secret';
+    const cursor = encodeCursor({ treeId: 'tree_1' }, 'trees');
+    process.env.CURSOR_SECRET = 'other-secret';
+
+    expect(() => decodeCursor(cursor, 'trees')).toThrow('Request validation failed');
+  });
+
+  it('should require CURSOR_SECRET in deployed stages', () => {
+    delete process.env.CURSOR_SECRET;
+    process.env.NODE_ENV = 'production';
+    process.env.STAGE = 'prod';
+
+    expect(() => encodeCursor({ treeId: 'tree_1' }, 'trees')).toThrow('CURSOR_SECRET must be set');
+
+    process.env.STAGE = 'local';
+    expect(() => encodeCursor({ treeId: 'tree_1' }, 'trees')).not.toThrow();
+  });
+});
@@ -0,0 +1,97 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, CallerIdentity } from '../../handlers/lambda-base';
+import { MethodNotAllowedError, NotFoundError } from '../../utils/errors';
+import { Router } from '../../utils/router';
+import { createMockContext, createMockEvent } from '../setup/lambda-events';
+
+const ok = (body: unknown): Promise<APIGatewayProxyResult> =>
+  Promise.resolve({ statusCode: 200, headers: {}, body: JSON.stringify(body) });
+
+describe('Router', () => {
+  const router = new Router()
+    .get('/trees', () => ok({ route: 'list' }))
+    .post('/trees', () => ok({ route: 'create' }))
+    .get('/trees/archived', () => ok({ route: 'archived' }))
+    .get('/trees/:treeId', ({ params }) => ok({ route: 'get', treeId: params.treeId }))
+    .delete('/trees/:treeId', ({ params }) => ok({ route: 'delete', treeId: params.treeId }))
+    .get('/trees/:treeId/photos/:photoId', ({ params }) => ok(params));
+
+  const dispatch = async (httpMethod: string, path: string) => {
+    const result = await router.handle(createMockEvent({ httpMethod, path }), createMockContext());
+    return JSON.parse(result.body);
+  };
+
+  it('should dispatch on method and path', async () => {
+    expect(await dispatch('GET', '/trees')).toEqual({ route: 'list' });
+    expect(await dispatch('POST', '/trees')).toEqual({ route: 'create' });
+    expect(await dispatch('DELETE', '/trees/tree_1')).toEqual({ route: 'delete', treeId: 'tree_1' });
+  });
+
+  it('should extract and decode path parameters', async () => {
+    expect(await dispatch('GET', '/trees/tree%201/photos/photo_2/')).toEqual({
+      treeId: 'tree 1',
+      photoId: 'photo_2',
+    });
+  });
+
+  it('should prefer static segments over parameters', async () => {
+    expect(await dispatch('GET', '/trees/archived')).toEqual({ route: 'archived' });
+  });
+
+  it('should throw NotFoundError for an unknown path', () => {
+    expect(() => router.match('GET', '/gardens')).toThrow(NotFoundError);
+    expect(() => router.match('GET', '/trees/tree_1/notes')).toThrow(NotFoundError);
+  });
+
+  it('should throw MethodNotAllowedError listing the allowed methods', () => {
+    const attempt = () => router.match('PUT', '/trees/tree_1');
+
+    expect(attempt).toThrow(MethodNotAllowedError);
+    expect(attempt).toThrow(expect.objectContaining({ allowedMethods: ['GET', 'DELETE'] }));
+  });
+
+  describe('with BaseLambdaHandler', () => {
+    class RoutedHandler extends BaseLambdaHandler {
+      private router = new Router().get('/things/:thingId', ({ context, params }) =>
+        Promise.resolve(this.createSuccessResponse(params, context.awsRequestId))
+      );
+
+      async processRequest(
+        event: APIGatewayProxyEvent,
+        context: Context,
+        identity?: CallerIdentity
+      ): Promise<APIGatewayProxyResult> {
+        return this.router.handle(event, context, identity);
+      }
+    }
+
+    const routed = new RoutedHandler();
+
+    it('should return 405 with an Allow header for the wrong method', async () => {
+      const result = await routed.handler(
+        createMockEvent({ httpMethod: 'POST', path: '/things/1' }),
+        createMockContext()
+      );
+
+      expect(result.statusCode).toBe(405);
+      expect(result.headers?.Allow).toBe('GET');
+      expect(JSON.parse(result.body).error).toBe('MethodNotAllowedError');
+    });
+
+    it('should return 404 for an unknown path', async () => {
+      const result = await routed.handler(createMockEvent({ path: '/others' }), createMockContext());
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('NotFoundError');
+    });
+
+    it('should still answer CORS preflight requests', async () => {
+      const result = await routed.handler(
+        createMockEvent({ httpMethod: 'OPTIONS', path: '/others' }),
+        createMockContext()
+      );
+
+      expect(result.statusCode).toBe(204);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { s, validate } from '../../utils/schema';
+import { createTreeSchema } from '../../models/tree-schemas';
+
+describe('Schema validation', () => {
+  const profileSchema = s.object({
+    name: s.string({ minLength: 1, maxLength: 10 }),
+    age: s.integer({ min: 0 }).optional(),
+    role: s.enum(['owner', 'viewer'] as const),
+    tags: s.array(s.string(), { maxItems: 2 }).optional(),
+    home: s
+      .object({
+        coordinates: s.tuple(s.number({ min: -90, max: 90 }), s.number()),
+      })
+      .optional(),
+  });
+
+  describe('validate', () => {
+    it('should return the validated value without unknown keys', () => {
+      const result = validate(profileSchema, { name: 'Ash', role: 'owner', extra: true });
+
+      expect(result.errors).toEqual([]);
+      expect(result.value).toEqual({ name: 'Ash', role: 'owner' });
+    });
+
+    it('should collect every error with its field path', () => {
+      const result = validate(profileSchema, {
+        name: '',
+        age: 1.5,
+        tags: ['a', 2, 'c'],
+        home: { coordinates: [91, 'east'] },
+      });
+
+      expect(result.errors).toEqual([
+        { path: 'name', message: 'must be at least 1 characters' },
+        { path: 'age', message: 'must be an integer' },
+        { path: 'role', message: 'is required' },
+        { path: 'tags', message: 'must have at most 2 items' },
+        { path: 'tags[1]', message: 'must be a string' },
+        { path: 'home.coordinates[0]', message: 'must be <= 90' },
+        { path: 'home.coordinates[1]', message: 'must be a number' },
+      ]);
+    });
+
+    it('should reject a non-object root', () => {
+      expect(validate(profileSchema, 'nope').errors).toEqual([
+        { path: '', message: 'must be an object' },
+      ]);
+    });
+
+    it('should treat null as missing', () => {
+      const result = validate(profileSchema, { name: 'Ash', role: 'viewer', age: null });
+
+      expect(result.errors).toEqual([]);
+      expect(result.value).not.toHaveProperty('age');
+    });
+
+    it('should validate date formats', () => {
+      const dateSchema = s.object({ plantedDate: s.string({ format: 'date' }) });
+
+      expect(validate(dateSchema, { plantedDate: '2020-03-15' }).errors).toEqual([]);
+      expect(validate(dateSchema, { plantedDate: 'last spring' }).errors).toEqual([
+        { path: 'plantedDate', message: 'must be an ISO 8601 date' },
+      ]);
+    });
+
+    it('should coerce strings only when asked', () => {
+      const querySchema = s.object({ limit: s.integer(), detailed: s.boolean() });
+      const query = { limit: '25', detailed: 'true' };
+
+      expect(validate(querySchema, query, { coerce: true })).toEqual({
+        value: { limit: 25, detailed: true },
+        errors: [],
+      });
+      expect(validate(querySchema, query).errors).toHaveLength(2);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should render draft 4 JSON schema', () => {
+      expect(profileSchema.toJsonSchema()).toEqual({
+        type: 'object',
+        required: ['name', 'role'],
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 10 },
+          age: { type: 'integer', minimum: 0 },
+          role: { type: 'string', enum: ['owner', 'viewer'] },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+          home: {
+            type: 'object',
+            required: ['coordinates'],
+            properties: {
+              coordinates: {
+                type: 'array',
+                items: [{ type: 'number', minimum: -90, maximum: 90 }, { type: 'number' }],
+                additionalItems: false,
+                minItems: 2,
+                maxItems: 2,
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it('should describe the create tree request', () => {
+      const schema = createTreeSchema.toJsonSchema();
+
+      expect(schema.required).toEqual(['name', 'species']);
+      expect(schema.properties?.species.required).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, NotFoundError } from './lambda-base';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { CalendarFeedRepository } from '../repositories/calendar-feeds';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { CareCalendar, feedTokenHash } from '../services/care-calendar';
+import { RouteRequest, Router } from '../utils/router';
+
+const FEED_EXTENSION = '.ics';
+
+/**
+ * Serves calendar feeds to calendar apps. These can't sign in, so the secret
+ * token in the URL is the only credential; a revoked or replaced token gets
+ * a 404 like one that never existed. The feed is generated on every fetch.
+ */
+export class CalendarExportHandler extends BaseLambdaHandler {
+  private calendarFeeds: CalendarFeedRepository;
+  private calendar: CareCalendar;
+  private router: Router;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super();
+    this.calendarFeeds = repositories.calendarFeeds;
+    this.calendar = new CareCalendar(
+      repositories.trees,
+      new TreeAccessGuard(repositories.trees, repositories.treeMembers),
+      repositories.recommendations
+    );
+    this.router = new Router().get('/calendar/feeds/:file', (request) => this.exportFeed(request));
+  }
+
+  async processRequest(event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context);
+  }
+
+  /**
+   * GET /calendar/feeds/{token}.ics
+   */
+  private async exportFeed({ params }: RouteRequest<{ file: string }>): Promise<APIGatewayProxyResult> {
+    const token = params.file.endsWith(FEED_EXTENSION) ? params.file.slice(0, -FEED_EXTENSION.length) : params.file;
+    const feed = token && (await this.calendarFeeds.findByTokenHash(feedTokenHash(token)));
+    if (!feed) {
+      throw new NotFoundError('Calendar feed not found');
+    }
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tree-care.ics"',
+        'Cache-Control': 'no-store',
+      },
+      body: await this.calendar.feed(feed.userId),
+    };
+  }
+}
+
+// Export handler
+const calendarExportHandler = new CalendarExportHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => calendarExportHandler.handler(event, context);
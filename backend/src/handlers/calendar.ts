@@ -0,0 +1,119 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  NotFoundError,
+  UnauthorizedError,
+} from './lambda-base';
+import { CalendarFeed, CalendarFeedItem } from '../models/calendar-feed';
+import { CalendarFeedRepository } from '../repositories/calendar-feeds';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { feedTokenHash, newFeedToken } from '../services/care-calendar';
+import { RouteRequest, Router } from '../utils/router';
+
+/**
+ * Manages the caller's calendar feed: the secret URL their care tasks can be
+ * subscribed to at (served by calendar-export). Creating a feed again
+ * replaces the URL, and deleting it revokes the URL.
+ */
+export class CalendarHandler extends BaseLambdaHandler {
+  private calendarFeeds: CalendarFeedRepository;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.calendarFeeds = repositories.calendarFeeds;
+    this.router = new Router()
+      .post('/calendar/feed', (request) => this.createFeed(request))
+      .get('/calendar/feed', (request) => this.getFeed(request))
+      .delete('/calendar/feed', (request) => this.revokeFeed(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /calendar/feed - a new feed URL, revoking the previous one
+   */
+  private async createFeed({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const token = newFeedToken();
+    const item: CalendarFeedItem = {
+      userId,
+      tokenHash: feedTokenHash(token),
+      createdAt: new Date().toISOString(),
+    };
+    await this.calendarFeeds.save(item);
+
+    const response: CalendarFeed = {
+      url: `${this.baseUrl(event)}/calendar/feeds/${token}.ics`,
+      createdAt: item.createdAt,
+    };
+    return this.createSuccessResponse(response, context.awsRequestId, 'Calendar feed created', 201);
+  }
+
+  /**
+   * GET /calendar/feed - whether the caller has a feed; the URL can't be shown again
+   */
+  private async getFeed({ context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const item = await this.loadFeed(this.getUserId(identity));
+
+    const response: CalendarFeed = { createdAt: item.createdAt };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * DELETE /calendar/feed
+   */
+  private async revokeFeed({ context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const item = await this.loadFeed(userId);
+    await this.calendarFeeds.delete(userId);
+
+    const response: CalendarFeed = { createdAt: item.createdAt };
+    return this.createSuccessResponse(response, context.awsRequestId, 'Calendar feed revoked');
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  private async loadFeed(userId: string): Promise<CalendarFeedItem> {
+    const item = await this.calendarFeeds.get(userId);
+    if (!item) {
+      throw new NotFoundError('Calendar feed not found');
+    }
+    return item;
+  }
+
+  /**
+   * API_BASE_URL if set, otherwise the URL this request came in on, up to
+   * the route (API Gateway puts the stage in front of it)
+   */
+  private baseUrl(event: APIGatewayProxyEvent): string {
+    if (process.env.API_BASE_URL) {
+      return process.env.API_BASE_URL.replace(/\/+$/, '');
+    }
+    const protocol = this.headerValue(event, 'X-Forwarded-Proto') ?? 'http';
+    const host = this.headerValue(event, 'Host');
+    const requestPath = event.requestContext?.path ?? event.path;
+    const prefix = requestPath.endsWith(event.path) ? requestPath.slice(0, -event.path.length) : '';
+    return `${protocol}://${host}${prefix}`;
+  }
+}
+
+// Export handler
+const calendarHandler = new CalendarHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => calendarHandler.handler(event, context);
@@ -0,0 +1,217 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './lambda-base';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { CareEvent, CareEventItem, CareEventType, toCareEvent } from '../models/care-event';
+import {
+  createCareEventSchema,
+  listCareEventsQuerySchema,
+  updateCareEventSchema,
+} from '../models/care-event-schemas';
+import { DEFAULT_PAGE_SIZE, Pagination } from '../models/pagination';
+import { TreeItem } from '../models/tree';
+import { CareEventRepository } from '../repositories/care-events';
+import { PhotoRepository } from '../repositories/photos';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { RequestFieldError } from '../utils/errors';
+import { RouteRequest, Router } from '../utils/router';
+
+interface CareEventListResponse {
+  careEvents: CareEvent[];
+  pagination: Pagination;
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+type CareEventRequest = RouteRequest<{ treeId: string; careEventId: string }>;
+
+/**
+ * Care log endpoints: the waterings, feedings, prunings and inspections a
+ * user records against one of their trees. On a shared tree, viewers can
+ * read the log and editors can also change it.
+ */
+export class CareEventsHandler extends BaseLambdaHandler {
+  private careEvents: CareEventRepository;
+  private photos: PhotoRepository;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.careEvents = repositories.careEvents;
+    this.photos = repositories.photos;
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .post('/trees/:treeId/care-events', (request) => this.createCareEvent(request))
+      .get('/trees/:treeId/care-events', (request) => this.listCareEvents(request))
+      .get('/trees/:treeId/care-events/:careEventId', (request) => this.getCareEvent(request))
+      .put('/trees/:treeId/care-events/:careEventId', (request) => this.updateCareEvent(request))
+      .delete('/trees/:treeId/care-events/:careEventId', (request) => this.deleteCareEvent(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /trees/{treeId}/care-events
+   */
+  private async createCareEvent({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, createCareEventSchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'editor');
+    await this.checkDetails(tree, input.type, input);
+
+    const now = new Date().toISOString();
+    const item: CareEventItem = {
+      careEventId: `care_${randomUUID()}`,
+      treeId: params.treeId,
+      userId: tree.userId,
+      type: input.type,
+      date: input.date,
+      notes: input.notes?.trim() || undefined,
+      photoIds: input.photoIds,
+      branchesRemoved: input.branchesRemoved,
+      recordedBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.careEvents.create(item);
+
+    return this.createSuccessResponse(toCareEvent(item), context.awsRequestId, 'Care event recorded', 201);
+  }
+
+  /**
+   * GET /trees/{treeId}/care-events?limit=&cursor=&type= - most recent first
+   */
+  private async listCareEvents({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { limit = DEFAULT_PAGE_SIZE, cursor, type } = this.parseQuery(event, listCareEventsQuerySchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'viewer');
+
+    const page = await this.careEvents.listByTree(params.treeId, tree.userId, type, {
+      limit,
+      cursor,
+      scope: `care-events:${userId}:${params.treeId}:${type ?? ''}`,
+    });
+
+    const response: CareEventListResponse = {
+      careEvents: page.items.map(toCareEvent),
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor,
+      },
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * GET /trees/{treeId}/care-events/{careEventId}
+   */
+  private async getCareEvent({ context, identity, params }: CareEventRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'viewer');
+    const item = await this.loadCareEvent(params.careEventId, tree);
+
+    return this.createSuccessResponse(toCareEvent(item), context.awsRequestId);
+  }
+
+  /**
+   * PUT /trees/{treeId}/care-events/{careEventId}
+   *
+   * Changing the type away from pruning drops the branches removed.
+   */
+  private async updateCareEvent({ event, context, identity, params }: CareEventRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, updateCareEventSchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'editor');
+    const existing = await this.loadCareEvent(params.careEventId, tree);
+    const type = input.type ?? existing.type;
+    await this.checkDetails(tree, type, input);
+
+    const updated: CareEventItem = {
+      ...existing,
+      type,
+      date: input.date ?? existing.date,
+      notes: input.notes !== undefined ? input.notes.trim() || undefined : existing.notes,
+      photoIds: input.photoIds ?? existing.photoIds,
+      branchesRemoved: type === 'pruning' ? input.branchesRemoved ?? existing.branchesRemoved : undefined,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.careEvents.save(updated);
+
+    return this.createSuccessResponse(toCareEvent(updated), context.awsRequestId, 'Care event updated');
+  }
+
+  /**
+   * DELETE /trees/{treeId}/care-events/{careEventId}
+   */
+  private async deleteCareEvent({ context, identity, params }: CareEventRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'editor');
+    const item = await this.loadCareEvent(params.careEventId, tree);
+
+    await this.careEvents.delete(item.careEventId, item.treeId);
+
+    return this.createSuccessResponse(toCareEvent(item), context.awsRequestId, 'Care event deleted');
+  }
+
+  /**
+   * Branches removed only make sense for pruning, and photos must be
+   * uploads of this tree
+   */
+  private async checkDetails(
+    tree: TreeItem,
+    type: CareEventType,
+    { photoIds, branchesRemoved }: { photoIds?: string[]; branchesRemoved?: unknown[] }
+  ): Promise<void> {
+    const errors: RequestFieldError[] = [];
+    if (branchesRemoved?.length && type !== 'pruning') {
+      errors.push({ location: 'body', path: 'branchesRemoved', message: 'is only recorded for pruning' });
+    }
+
+    const photos = await Promise.all((photoIds ?? []).map((photoId) => this.photos.get(photoId, tree.treeId)));
+    photos.forEach((photo, index) => {
+      if (!photo || photo.userId !== tree.userId || photo.status !== 'uploaded') {
+        errors.push({ location: 'body', path: `photoIds[${index}]`, message: 'must be an uploaded photo of this tree' });
+      }
+    });
+
+    if (errors.length) {
+      throw new ValidationError('Request validation failed', errors);
+    }
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  private async loadCareEvent(careEventId: string, tree: TreeItem): Promise<CareEventItem> {
+    const item = await this.careEvents.get(careEventId, tree.treeId);
+    if (!item || item.userId !== tree.userId) {
+      throw new NotFoundError(`Care event ${careEventId} not found`);
+    }
+    return item;
+  }
+}
+
+// Export handler
+const careEventsHandler = new CareEventsHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => careEventsHandler.handler(event, context);
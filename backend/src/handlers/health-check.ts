@@ -1,27 +1,50 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { DynamoDB } from 'aws-sdk';
-import { S3 } from 'aws-sdk';
-import { CognitoIdentityServiceProvider } from 'aws-sdk';
+import { CognitoIdentityServiceProvider, DynamoDB, S3 } from 'aws-sdk';
 import { BaseLambdaHandler } from './lambda-base';
-
-interface ServiceStatus {
-  dynamodb: 'healthy' | 'unhealthy';
-  s3: 'healthy' | 'unhealthy';
-  cognito: 'healthy' | 'unhealthy';
-}
+import { DependencyResult, HealthRegistry, HealthStatus } from '../utils/health-registry';
+import { logger } from '../utils/logger';
+import { RouteRequest, Router } from '../utils/router';
+
+// Critical tables are ones the API cannot serve requests without; the rest only degrade it
+const TABLES: { name: string; table: string; critical: boolean }[] = [
+  { name: 'usersTable', table: 'TreeCareUsers', critical: true },
+  { name: 'treesTable', table: 'TreeCareTrees', critical: true },
+  { name: 'photosTable', table: 'TreeCarePhotos', critical: true },
+  { name: 'subscriptionsTable', table: 'TreeCareSubscriptions', critical: true },
+  { name: 'stripeEventsTable', table: 'TreeCareStripeEvents', critical: false },
+  { name: 'idempotencyTable', table: 'TreeCareIdempotency', critical: false },
+  { name: 'rateLimitsTable', table: 'TreeCareRateLimits', critical: false },
+  { name: 'recommendationsTable', table: 'TreeCareRecommendations', critical: false },
+  { name: 'notificationsTable', table: 'TreeCareNotifications', critical: false },
+  { name: 'careEventsTable', table: 'TreeCareCareEvents', critical: false },
+  { name: 'measurementsTable', table: 'TreeCareMeasurements', critical: false },
+  { name: 'calendarFeedsTable', table: 'TreeCareCalendarFeeds', critical: false },
+  { name: 'treeMembersTable', table: 'TreeCareTreeMembers', critical: false },
+  { name: 'invitationsTable', table: 'TreeCareInvitations', critical: false },
+];
+
+const TABLE_TIMEOUT_MS = 1000;
+const BUCKET_TIMEOUT_MS = 1000;
+const USER_POOL_TIMEOUT_MS = 2000;
+
+// Tables stay usable while their settings are being updated
+const USABLE_TABLE_STATUSES = ['ACTIVE', 'UPDATING'];
+
+type HealthMode = 'live' | 'ready';
 
 interface HealthCheckResponse {
-  status: 'healthy' | 'unhealthy';
+  status: HealthStatus;
+  mode: HealthMode;
   timestamp: string;
   requestId: string;
-  services: ServiceStatus;
+  // Only for readiness checks
+  dependencies?: Record<string, DependencyResult>;
   environment: {
     stage: string;
     region: string;
     nodeVersion: string;
   };
   responseTime: number;
-  errors?: string[];
   detailed?: boolean;
   memoryUsage?: any; // NodeJS.MemoryUsage
   uptime?: number;
@@ -33,14 +56,21 @@ interface HealthCheckResponse {
   };
 }
 
+/**
+ * GET /health/live answers as long as the function runs; GET /health/ready
+ * (and GET /health) also checks every registered dependency and returns 503
+ * when a critical one is unhealthy.
+ */
 class HealthCheckHandler extends BaseLambdaHandler {
-  private dynamoClient: DynamoDB.DocumentClient;
+  private dynamoClient: DynamoDB;
   private s3Client: S3;
   private cognitoClient: CognitoIdentityServiceProvider;
+  private registry: HealthRegistry;
+  private router: Router;
 
   constructor() {
     super();
-    this.dynamoClient = new DynamoDB.DocumentClient({
+    this.dynamoClient = new DynamoDB({
       region: this.region,
     });
     this.s3Client = new S3({
@@ -49,77 +79,74 @@ class HealthCheckHandler extends BaseLambdaHandler {
     this.cognitoClient = new CognitoIdentityServiceProvider({
       region: this.region,
     });
+    this.registry = this.registerDependencies(new HealthRegistry());
+    this.router = new Router()
+      .get('/health', (request) => this.check(request, 'ready'))
+      .get('/health/ready', (request) => this.check(request, 'ready'))
+      .get('/health/live', (request) => this.check(request, 'live'));
   }
 
-  async processRequest(
-    event: APIGatewayProxyEvent,
-    context: Context
-  ): Promise<APIGatewayProxyResult> {
-    const startTime = Date.now();
-    const errors: string[] = [];
-    
-    // Check if detailed mode is requested
-    const detailed = event.queryStringParameters?.detailed === 'true';
-
-    // Check services health
-    const services: ServiceStatus = {
-      dynamodb: 'healthy',
-      s3: 'healthy',
-      cognito: 'healthy',
-    };
-
-    // Check DynamoDB health
-    try {
-      await this.checkDynamoDB();
-      services.dynamodb = 'healthy';
-    } catch (error: any) {
-      services.dynamodb = 'unhealthy';
-      errors.push(`DynamoDB: ${error.message}`);
-    }
-
-    // Check S3 health
-    try {
-      await this.checkS3();
-      services.s3 = 'healthy';
-    } catch (error: any) {
-      services.s3 = 'unhealthy';
-      errors.push(`S3: ${error.message}`);
-    }
+  async processRequest(event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context);
+  }
 
-    // Check Cognito health
-    try {
-      await this.checkCognito();
-      services.cognito = 'healthy';
-    } catch (error: any) {
-      services.cognito = 'unhealthy';
-      errors.push(`Cognito: ${error.message}`);
-    }
+  /**
+   * Every table, the photo bucket and the user pool. New dependencies (e.g.
+   * queues) register their own check here.
+   */
+  private registerDependencies(registry: HealthRegistry): HealthRegistry {
+    TABLES.forEach(({ name, table, critical }) =>
+      registry.register({
+        name,
+        critical,
+        timeoutMs: TABLE_TIMEOUT_MS,
+        check: () => this.checkTable(`${table}-${this.stage}`),
+      })
+    );
+
+    return registry
+      .register({
+        name: 'photoBucket',
+        critical: true,
+        timeoutMs: BUCKET_TIMEOUT_MS,
+        check: () =>
+          this.s3Client.headBucket({
+            Bucket: process.env.PHOTO_BUCKET_NAME || `tree-care-photos-${this.stage}`,
+          }).promise(),
+      })
+      .register({
+        name: 'userPool',
+        critical: true,
+        timeoutMs: USER_POOL_TIMEOUT_MS,
+        check: () => this.checkUserPool(),
+      });
+  }
 
-    // Determine overall health status
-    const isHealthy = Object.values(services).every(status => status === 'healthy');
-    const responseTime = Date.now() - startTime;
+  private async check({ event, context }: RouteRequest, mode: HealthMode): Promise<APIGatewayProxyResult> {
+    const startTime = Date.now();
+    const report = mode === 'ready' ? await this.registry.run() : undefined;
+    const status = report?.status ?? 'healthy';
 
-    // Build response
     const response: HealthCheckResponse = {
-      status: isHealthy ? 'healthy' : 'unhealthy',
+      status,
+      mode,
       timestamp: new Date().toISOString(),
       requestId: context.awsRequestId,
-      services,
+      dependencies: report?.dependencies,
       environment: {
         stage: this.stage,
         region: this.region,
         nodeVersion: process.version,
       },
-      responseTime,
+      responseTime: Date.now() - startTime,
     };
 
-    // Add errors if any
-    if (errors.length > 0) {
-      response.errors = errors;
+    if (status !== 'healthy') {
+      logger.warn('Health check found unhealthy dependencies', { status, dependencies: report?.dependencies });
     }
 
     // Add detailed information if requested
-    if (detailed) {
+    if (event.queryStringParameters?.detailed === 'true') {
       response.detailed = true;
       response.memoryUsage = process.memoryUsage();
       response.uptime = process.uptime();
@@ -131,30 +158,24 @@ class HealthCheckHandler extends BaseLambdaHandler {
       };
     }
 
-    // Return appropriate status code
-    const statusCode = isHealthy ? 200 : 503;
+    // Degraded still serves traffic
+    const statusCode = status === 'unhealthy' ? 503 : 200;
     return this.createResponse(statusCode, response, context.awsRequestId);
   }
 
-  private async checkDynamoDB(): Promise<void> {
-    // Simple scan on a table to check connectivity
-    const tableName = `TreeCareUsers-${this.stage}`;
-    await this.dynamoClient.scan({
-      TableName: tableName,
-      Limit: 1,
-    }).promise();
-  }
-
-  private async checkS3(): Promise<void> {
-    // List buckets to check S3 connectivity
-    await this.s3Client.listBuckets().promise();
+  private async checkTable(tableName: string): Promise<void> {
+    const { Table } = await this.dynamoClient.describeTable({ TableName: tableName }).promise();
+    if (!USABLE_TABLE_STATUSES.includes(Table?.TableStatus ?? '')) {
+      throw new Error(`${tableName} is ${Table?.TableStatus ?? 'missing'}`);
+    }
   }
 
-  private async checkCognito(): Promise<void> {
-    // List user pools to check Cognito connectivity
-    await this.cognitoClient.listUserPools({
-      MaxResults: 1,
-    }).promise();
+  private async checkUserPool(): Promise<void> {
+    const userPoolId = process.env.AWS_COGNITO_USER_POOL_ID;
+    if (!userPoolId) {
+      throw new Error('AWS_COGNITO_USER_POOL_ID is not set');
+    }
+    await this.cognitoClient.describeUserPool({ UserPoolId: userPoolId }).promise();
   }
 }
 
@@ -168,7 +189,7 @@ export const handler = async (
     return await healthCheckHandler.handler(event, context);
   } catch (error) {
     // Fallback error handling
-    console.error('Health check critical error:', error);
+    logger.error('Health check critical error', { error });
     return {
       statusCode: 500,
       headers: {
@@ -1,4 +1,57 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { DynamoDB } from 'aws-sdk';
+import { authenticate, CallerIdentity } from '../middleware/auth';
+import { CORRELATION_ID_HEADER, getCorrelationId } from '../middleware/correlation';
+import {
+  getIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  IdempotencyStore,
+} from '../middleware/idempotency';
+import {
+  DynamoRateLimitStore,
+  getConfiguredRateLimitStore,
+  RATE_LIMIT_HEADERS,
+  rateLimitHeaders,
+  RateLimiter,
+  RateLimitStatus,
+  RateLimitStore,
+} from '../middleware/rate-limit';
+import { effectiveTier } from '../models/subscription';
+import { DynamoSubscriptionRepository, SubscriptionRepository } from '../repositories/subscriptions';
+import { RouteClass } from '../services/entitlements';
+import { RateLimitError, RequestLocation, ValidationError } from '../utils/errors';
+import { ETAG_HEADER, IF_MATCH_HEADER } from '../utils/etag';
+import { logger, runWithLogContext } from '../utils/logger';
+import { Schema, validate } from '../utils/schema';
+
+export {
+  ValidationError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  MethodNotAllowedError,
+  EntitlementError,
+  IdempotencyKeyReusedError,
+  RateLimitError,
+} from '../utils/errors';
+export type { EntitlementErrorDetails, RequestFieldError } from '../utils/errors';
+export type { CallerIdentity } from '../middleware/auth';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    `Content-Type, Authorization, ${CORRELATION_ID_HEADER}, ${IF_MATCH_HEADER}, ${IDEMPOTENCY_KEY_HEADER}`,
+  'Access-Control-Expose-Headers': [
+    CORRELATION_ID_HEADER,
+    ETAG_HEADER,
+    IDEMPOTENT_REPLAYED_HEADER,
+    'Retry-After',
+    ...RATE_LIMIT_HEADERS,
+  ].join(', '),
+};
 
 export interface LambdaResponse extends Omit<APIGatewayProxyResult, 'headers'> {
   headers: {
@@ -26,9 +79,22 @@ export abstract class BaseLambdaHandler {
   protected stage: string;
   protected region: string;
 
-  constructor() {
+  /**
+   * When true, requests must carry a valid Cognito bearer token and the
+   * verified identity is passed to processRequest
+   */
+  protected requiresAuth = false;
+
+  // Created on the first request that carries an Idempotency-Key
+  private idempotencyStore?: IdempotencyStore;
+  private rateLimitStore?: DynamoRateLimitStore;
+  // Sizes the caller's rate limit buckets; handlers without repositories get the DynamoDB table
+  private rateLimitSubscriptions?: SubscriptionRepository;
+
+  constructor(subscriptions?: SubscriptionRepository) {
     this.stage = process.env.STAGE || 'dev';
     this.region = process.env.AWS_REGION || 'us-east-2';
+    this.rateLimitSubscriptions = subscriptions;
   }
 
   /**
@@ -36,7 +102,8 @@ export abstract class BaseLambdaHandler {
    */
   abstract processRequest(
     event: APIGatewayProxyEvent,
-    context: Context
+    context: Context,
+    identity?: CallerIdentity
   ): Promise<APIGatewayProxyResult>;
 
   /**
@@ -46,25 +113,166 @@ export abstract class BaseLambdaHandler {
     event: APIGatewayProxyEvent,
     context: Context
   ): Promise<LambdaResponse> {
-    console.log('Request:', {
-      requestId: context.awsRequestId,
-      method: event.httpMethod,
-      path: event.path,
-      headers: event.headers,
+    const correlationId = getCorrelationId(event, context.awsRequestId);
+    const logFields = { awsRequestId: context.awsRequestId, correlationId };
+
+    return runWithLogContext(logFields, async () => {
+      const startedAt = Date.now();
+      logger.info('Request received', {
+        method: event.httpMethod,
+        path: event.path,
+        headers: event.headers,
+      });
+      if (logger.isLevelEnabled('debug')) {
+        logger.debug('Request body', { body: this.bodyForLog(event) });
+      }
+
+      const response = await this.dispatch(event, context);
+      response.headers[CORRELATION_ID_HEADER] = correlationId;
+
+      logger.info('Request completed', {
+        statusCode: response.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
     });
+  }
 
+  private async dispatch(
+    event: APIGatewayProxyEvent,
+    context: Context
+  ): Promise<LambdaResponse> {
     try {
       // Handle preflight OPTIONS requests
       if (event.httpMethod === 'OPTIONS') {
         return this.createResponse(204, '', context.awsRequestId);
       }
 
+      const identity = this.requiresAuth ? await authenticate(event) : undefined;
+      return await this.respondOnce(event, context, identity);
+    } catch (error) {
+      return this.rejected(error, context);
+    }
+  }
+
+  private async respondOnce(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<LambdaResponse> {
+    // Only requests that run take a rate limit token; replays are free
+    let rateLimit: RateLimitStatus | undefined;
+    const execute = async () => {
+      rateLimit = identity && (await this.takeRateLimitToken(event, identity));
+      return this.respond(event, context, identity);
+    };
+
+    const idempotencyKey = getIdempotencyKey(event);
+    let response: LambdaResponse;
+    if (idempotencyKey) {
+      // A key only replays for the same caller and route
+      const scopedKey = [identity?.userId ?? 'anonymous', event.httpMethod, event.path, idempotencyKey].join(' ');
+      response = await this.getIdempotencyStore().run(scopedKey, event.body, execute);
+    } else {
+      response = await execute();
+    }
+
+    // Added after the response is stored, so replays don't report stale limits
+    return rateLimit ? { ...response, headers: { ...response.headers, ...rateLimitHeaders(rateLimit) } } : response;
+  }
+
+  private async respond(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<LambdaResponse> {
+    try {
       // Process the actual request
-      const result = await this.processRequest(event, context);
+      const result = await this.processRequest(event, context, identity);
       return this.addCorsHeaders(result);
     } catch (error) {
-      console.error('Handler error:', error);
-      return this.createErrorResponse(error, context.awsRequestId);
+      return this.rejected(error, context);
+    }
+  }
+
+  private rejected(error: unknown, context: Context): LambdaResponse {
+    if (error instanceof Error && (error as any).statusCode < 500) {
+      logger.warn('Request rejected', { error });
+    } else {
+      logger.error('Handler error', { error });
+    }
+    return this.createErrorResponse(error, context.awsRequestId);
+  }
+
+  /**
+   * Which rate limit bucket a request draws from; override to put expensive
+   * routes in a class of their own
+   */
+  protected rateLimitClass(event: APIGatewayProxyEvent): RouteClass {
+    return event.httpMethod === 'GET' ? 'read' : 'write';
+  }
+
+  /**
+   * Throws a RateLimitError once the caller's bucket is empty. Buckets are sized
+   * by the caller's stored subscription, as entitlements are. If the store or
+   * the subscription cannot be reached the request is let through rather than failed.
+   */
+  private async takeRateLimitToken(
+    event: APIGatewayProxyEvent,
+    identity: CallerIdentity
+  ): Promise<RateLimitStatus | undefined> {
+    const limiter = new RateLimiter(this.getRateLimitStore());
+    try {
+      const tier = effectiveTier(await this.getRateLimitSubscriptions().get(identity.userId));
+      return await limiter.check(identity.userId, tier, this.rateLimitClass(event));
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      logger.error('Rate limit check failed', { error });
+      return undefined;
+    }
+  }
+
+  private getRateLimitStore(): RateLimitStore {
+    const configured = getConfiguredRateLimitStore();
+    if (configured) {
+      return configured;
+    }
+    this.rateLimitStore ??= new DynamoRateLimitStore(
+      new DynamoDB.DocumentClient({ region: this.region }),
+      `TreeCareRateLimits-${this.stage}`
+    );
+    return this.rateLimitStore;
+  }
+
+  private getRateLimitSubscriptions(): SubscriptionRepository {
+    this.rateLimitSubscriptions ??= new DynamoSubscriptionRepository(
+      new DynamoDB.DocumentClient({ region: this.region }),
+      `TreeCareSubscriptions-${this.stage}`
+    );
+    return this.rateLimitSubscriptions;
+  }
+
+  private getIdempotencyStore(): IdempotencyStore {
+    this.idempotencyStore ??= new IdempotencyStore(
+      new DynamoDB.DocumentClient({ region: this.region }),
+      `TreeCareIdempotency-${this.stage}`
+    );
+    return this.idempotencyStore;
+  }
+
+  /**
+   * Parsed JSON body for debug logging; the logger redacts sensitive fields
+   */
+  private bodyForLog(event: APIGatewayProxyEvent): unknown {
+    if (!event.body) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(event.body);
+    } catch {
+      return '[unparseable body]';
     }
   }
 
@@ -80,9 +288,7 @@ export abstract class BaseLambdaHandler {
       statusCode,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        ...CORS_HEADERS,
       },
       body: typeof body === 'string' ? body : JSON.stringify(body),
     };
@@ -108,11 +314,20 @@ export abstract class BaseLambdaHandler {
       requestId,
     };
 
-    if (process.env.STAGE !== 'prod' && error.stack) {
+    if (error.details) {
+      errorResponse.details = error.details;
+    } else if (process.env.STAGE !== 'prod' && error.stack) {
       errorResponse.details = error.stack;
     }
 
-    return this.createResponse(statusCode, errorResponse, requestId);
+    const response = this.createResponse(statusCode, errorResponse, requestId);
+    if (error.allowedMethods) {
+      response.headers['Allow'] = error.allowedMethods.join(', ');
+    }
+    if (error.headers) {
+      Object.assign(response.headers, error.headers);
+    }
+    return response;
   }
 
   /**
@@ -121,7 +336,8 @@ export abstract class BaseLambdaHandler {
   protected createSuccessResponse<T>(
     data: T,
     requestId: string,
-    message?: string
+    message?: string,
+    statusCode: number = 200
   ): LambdaResponse {
     const response: SuccessResponse<T> = {
       data,
@@ -132,22 +348,59 @@ export abstract class BaseLambdaHandler {
       response.message = message;
     }
 
-    return this.createResponse(200, response, requestId);
+    return this.createResponse(statusCode, response, requestId);
   }
 
   /**
-   * Parse and validate JSON body
+   * Parse the JSON body, validating it against a schema when one is given
    */
-  protected parseBody<T = any>(event: APIGatewayProxyEvent): T {
+  protected parseBody<T = any>(event: APIGatewayProxyEvent, schema?: Schema<T>): T {
     if (!event.body) {
       throw new ValidationError('Request body is required');
     }
 
+    let body: unknown;
     try {
-      return JSON.parse(event.body);
+      body = JSON.parse(event.body);
     } catch (error) {
       throw new ValidationError('Invalid JSON in request body');
     }
+
+    return schema ? this.checkSchema(schema, body, 'body') : (body as T);
+  }
+
+  /**
+   * Validate path parameters against a schema
+   */
+  protected parsePathParameters<T>(event: APIGatewayProxyEvent, schema: Schema<T>): T {
+    return this.checkSchema(schema, event.pathParameters || {}, 'path');
+  }
+
+  /**
+   * Validate query string parameters against a schema
+   */
+  protected parseQuery<T>(event: APIGatewayProxyEvent, schema: Schema<T>): T {
+    return this.checkSchema(schema, event.queryStringParameters || {}, 'query');
+  }
+
+  private checkSchema<T>(schema: Schema<T>, value: unknown, location: RequestLocation): T {
+    // Path and query values always arrive as strings
+    const result = validate(schema, value, { coerce: location !== 'body' });
+    if (result.errors.length > 0) {
+      throw new ValidationError(
+        'Request validation failed',
+        result.errors.map((error) => ({ ...error, location }))
+      );
+    }
+    return result.value;
+  }
+
+  /**
+   * A request header, whatever its case
+   */
+  protected headerValue(event: APIGatewayProxyEvent, name: string): string | undefined {
+    const wanted = name.toLowerCase();
+    return Object.entries(event.headers || {}).find(([header]) => header.toLowerCase() === wanted)?.[1];
   }
 
   /**
@@ -173,64 +426,15 @@ export abstract class BaseLambdaHandler {
     return {
       ...response,
       headers: {
-        ...response.headers,
+        // JSON unless the handler says otherwise
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        ...response.headers,
+        ...CORS_HEADERS,
       },
     };
   }
 }
 
-/**
- * Custom error classes
- */
-export class ValidationError extends Error {
-  statusCode = 400;
-  
-  constructor(message: string) {
-    super(message);
-    this.name = 'ValidationError';
-  }
-}
-
-export class UnauthorizedError extends Error {
-  statusCode = 401;
-  
-  constructor(message: string = 'Unauthorized') {
-    super(message);
-    this.name = 'UnauthorizedError';
-  }
-}
-
-export class ForbiddenError extends Error {
-  statusCode = 403;
-  
-  constructor(message: string = 'Forbidden') {
-    super(message);
-    this.name = 'ForbiddenError';
-  }
-}
-
-export class NotFoundError extends Error {
-  statusCode = 404;
-  
-  constructor(message: string = 'Resource not found') {
-    super(message);
-    this.name = 'NotFoundError';
-  }
-}
-
-export class ConflictError extends Error {
-  statusCode = 409;
-  
-  constructor(message: string) {
-    super(message);
-    this.name = 'ConflictError';
-  }
-}
-
 /**
  * Example implementation for testing
  */
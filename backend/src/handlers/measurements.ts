@@ -0,0 +1,179 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './lambda-base';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { GrowthAssessment } from '../models/growth';
+import { Measurement, measuredMetrics, toMeasurement } from '../models/measurement';
+import { createMeasurementSchema, listMeasurementsQuerySchema } from '../models/measurement-schemas';
+import { DEFAULT_PAGE_SIZE, Pagination } from '../models/pagination';
+import { TreeItem } from '../models/tree';
+import { MeasurementRepository } from '../repositories/measurements';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { TreeRepository } from '../repositories/trees';
+import { GrowthTracker } from '../services/growth-tracker';
+import { RouteRequest, Router } from '../utils/router';
+
+// Tree writes retried when another request changes the tree meanwhile
+const MAX_SAVE_ATTEMPTS = 3;
+
+interface MeasurementListResponse {
+  measurements: Measurement[];
+  pagination: Pagination;
+}
+
+interface GrowthResponse extends GrowthAssessment {
+  treeId: string;
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+
+/**
+ * Measurement history and growth endpoints. Recording a measurement also
+ * brings the tree's currentStatus up to date with it. On a shared tree,
+ * viewers can read the history and editors can also record measurements.
+ */
+export class MeasurementsHandler extends BaseLambdaHandler {
+  private measurements: MeasurementRepository;
+  private trees: TreeRepository;
+  private growth: GrowthTracker;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.measurements = repositories.measurements;
+    this.trees = repositories.trees;
+    this.growth = new GrowthTracker(repositories.measurements);
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .post('/trees/:treeId/measurements', (request) => this.recordMeasurement(request))
+      .get('/trees/:treeId/measurements', (request) => this.listMeasurements(request))
+      .get('/trees/:treeId/growth', (request) => this.getGrowth(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /trees/{treeId}/measurements - record a manual measurement
+   */
+  private async recordMeasurement({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { measuredAt, ...values } = this.parseBody(event, createMeasurementSchema);
+    if (measuredMetrics(values).length === 0) {
+      throw new ValidationError('Request validation failed', [
+        { location: 'body', path: 'height', message: 'or trunkDiameter or canopySpread is required' },
+      ]);
+    }
+    const now = new Date();
+    if (measuredAt && Date.parse(measuredAt) > now.getTime()) {
+      throw new ValidationError('Request validation failed', [
+        { location: 'body', path: 'measuredAt', message: 'must not be in the future' },
+      ]);
+    }
+
+    const { tree } = await this.access.load(params.treeId, userId, 'editor');
+    const measurement = await this.growth.record(tree, {
+      measuredAt: measuredAt ? new Date(measuredAt).toISOString() : now.toISOString(),
+      source: 'manual',
+      ...values,
+    });
+    await this.updateStatus(tree);
+
+    return this.createSuccessResponse(toMeasurement(measurement), context.awsRequestId, 'Measurement recorded', 201);
+  }
+
+  /**
+   * GET /trees/{treeId}/measurements?limit=&cursor= - newest first
+   */
+  private async listMeasurements({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { limit = DEFAULT_PAGE_SIZE, cursor } = this.parseQuery(event, listMeasurementsQuerySchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'viewer');
+
+    const page = await this.measurements.listByTree(params.treeId, tree.userId, {
+      limit,
+      cursor,
+      scope: `measurements:${userId}:${params.treeId}`,
+    });
+
+    const response: MeasurementListResponse = {
+      measurements: page.items.map(toMeasurement),
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor,
+      },
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * GET /trees/{treeId}/growth - annual growth rates against the species' expected rates
+   */
+  private async getGrowth({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'viewer');
+
+    const response: GrowthResponse = {
+      treeId: tree.treeId,
+      ...(await this.growth.assess(tree)),
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * Save the tree's reassessed status, starting over from the stored copy
+   * whenever another request changed it first
+   */
+  private async updateStatus(tree: TreeItem): Promise<void> {
+    let current = tree;
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      const updated: TreeItem = {
+        ...current,
+        currentStatus: await this.growth.reassess(current),
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      if (await this.trees.save(updated, current.version)) {
+        return;
+      }
+      current = await this.loadTree(tree.treeId, tree.userId);
+    }
+    throw new ConflictError(`Tree ${tree.treeId} is changing too often to update`);
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  private async loadTree(treeId: string, userId: string): Promise<TreeItem> {
+    const item = await this.trees.get(treeId, userId);
+    if (!item) {
+      throw new NotFoundError(`Tree ${treeId} not found`);
+    }
+    return item;
+  }
+}
+
+// Export handler
+const measurementsHandler = new MeasurementsHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => measurementsHandler.handler(event, context);
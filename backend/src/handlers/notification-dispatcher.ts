@@ -0,0 +1,74 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { NotificationRepository } from '../repositories/notifications';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { claimAttempt, deliverNotification } from '../services/notification-dispatcher';
+import { getPushProvider } from '../services/push-provider';
+import { logger, runWithLogContext } from '../utils/logger';
+
+// Notifications handled per run; the rest wait for the next run
+const BATCH_SIZE = 100;
+
+export interface DispatchSummary {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Sends due notifications. Runs on a schedule rather than behind API
+ * Gateway, so it does not extend BaseLambdaHandler.
+ */
+export class NotificationDispatcher {
+  private notifications: NotificationRepository;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    this.notifications = repositories.notifications;
+  }
+
+  async dispatchDue(now: Date): Promise<DispatchSummary> {
+    const provider = getPushProvider();
+    const summary: DispatchSummary = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+
+    for (const item of await this.notifications.listDue(now.toISOString(), BATCH_SIZE)) {
+      // Claimed before sending, so a run that overlaps this one can't send it too
+      const claimed = claimAttempt(item, now);
+      if (!(await this.notifications.saveAttempt(claimed, item.attempts))) {
+        logger.warn('Notification already handled by another run', { notificationId: item.notificationId });
+        continue;
+      }
+
+      const delivered = await deliverNotification(item, provider, now);
+      if (!(await this.notifications.saveAttempt(delivered, claimed.attempts))) {
+        logger.warn('Notification claim timed out before its outcome was saved', {
+          notificationId: item.notificationId,
+        });
+        continue;
+      }
+
+      summary.processed++;
+      if (delivered.status === 'sent') {
+        summary.sent++;
+      } else if (delivered.status === 'failed') {
+        summary.failed++;
+        logger.warn('Notification delivery failed', {
+          notificationId: delivered.notificationId,
+          attempts: delivered.attempts,
+          error: delivered.lastError,
+        });
+      } else {
+        summary.retrying++;
+      }
+    }
+
+    logger.info('Notification dispatch finished', { provider: provider.name, ...summary });
+    return summary;
+  }
+}
+
+// Export handler
+const notificationDispatcher = new NotificationDispatcher();
+export const handler = (event: ScheduledEvent, context: Context): Promise<DispatchSummary> =>
+  runWithLogContext({ awsRequestId: context.awsRequestId }, () =>
+    notificationDispatcher.dispatchDue(new Date(event.time || Date.now()))
+  );
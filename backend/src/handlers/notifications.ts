@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, CallerIdentity, UnauthorizedError } from './lambda-base';
+import { EntitlementGuard } from '../middleware/entitlements';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { Notification, NotificationItem, toNotification } from '../models/notification';
+import {
+  listNotificationsQuerySchema,
+  scheduleNotificationSchema,
+} from '../models/notification-schemas';
+import { NotificationRepository } from '../repositories/notifications';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { checkEntitlement } from '../services/entitlements';
+import { RouteRequest, Router } from '../utils/router';
+
+const DEFAULT_LIMIT = 50;
+
+interface NotificationListResponse {
+  notifications: Notification[];
+}
+
+/**
+ * Scheduled notification endpoints. Delivery happens separately, in the
+ * notification dispatcher.
+ */
+export class NotificationsHandler extends BaseLambdaHandler {
+  private notifications: NotificationRepository;
+  private access: TreeAccessGuard;
+  private entitlements: EntitlementGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.notifications = repositories.notifications;
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.entitlements = new EntitlementGuard(repositories.subscriptions);
+    this.router = new Router()
+      .post('/notifications/schedule', (request) => this.scheduleNotification(request))
+      .get('/notifications', (request) => this.listNotifications(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /notifications/schedule
+   */
+  private async scheduleNotification({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, scheduleNotificationSchema);
+
+    if (input.type === 'weather_alert') {
+      checkEntitlement(await this.entitlements.tierOf(userId), { feature: 'weatherAlerts' });
+    }
+    if (input.treeId) {
+      await this.access.load(input.treeId, userId, 'editor');
+    }
+
+    const now = new Date().toISOString();
+    const scheduledTime = new Date(input.scheduledTime).toISOString();
+    const item: NotificationItem = {
+      notificationId: `notif_${randomUUID()}`,
+      userId,
+      ...(input.treeId && { treeId: input.treeId }),
+      type: input.type,
+      title: input.title.trim(),
+      message: input.message.trim(),
+      scheduledTime,
+      channels: input.channels || ['push'],
+      ...(input.metadata && { metadata: input.metadata }),
+      status: 'pending',
+      attempts: 0,
+      dueAt: scheduledTime,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.notifications.create(item);
+
+    return this.createSuccessResponse(toNotification(item), context.awsRequestId, 'Notification scheduled', 201);
+  }
+
+  /**
+   * GET /notifications?status=&limit= - newest scheduled first
+   */
+  private async listNotifications({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { status, limit = DEFAULT_LIMIT } = this.parseQuery(event, listNotificationsQuerySchema);
+
+    const items = await this.notifications.listByUser(userId, { status, limit });
+
+    const response: NotificationListResponse = {
+      notifications: items.map(toNotification),
+    };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+}
+
+// Export handler
+const notificationsHandler = new NotificationsHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => notificationsHandler.handler(event, context);
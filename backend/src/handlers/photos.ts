@@ -0,0 +1,392 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { S3 } from 'aws-sdk';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './lambda-base';
+import { EntitlementGuard } from '../middleware/entitlements';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import {
+  MAX_PHOTO_BYTES,
+  Photo,
+  PhotoItem,
+  photoKey,
+  toPhoto,
+} from '../models/photo';
+import { DEFAULT_PAGE_SIZE, Pagination } from '../models/pagination';
+import { PhotoAnalysis } from '../models/photo-analysis';
+import {
+  analyzePhotoSchema,
+  completePhotoUploadSchema,
+  createPhotoUploadSchema,
+  listPhotosQuerySchema,
+} from '../models/photo-schemas';
+import { SubscriptionTier } from '../models/subscription';
+import { TreeItem } from '../models/tree';
+import { PhotoRepository } from '../repositories/photos';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { TreeRepository } from '../repositories/trees';
+import { RouteClass, TIER_ENTITLEMENTS, checkEntitlement } from '../services/entitlements';
+import { GrowthTracker } from '../services/growth-tracker';
+import { analyzePhoto } from '../services/photo-analysis';
+import { logger } from '../utils/logger';
+import { RouteRequest, Router } from '../utils/router';
+
+const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pending records for uploads that never complete expire after a day
+const PENDING_PHOTO_TTL_SECONDS = 24 * 60 * 60;
+
+interface PhotoUploadResponse {
+  photoId: string;
+  uploadUrl: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+  expiresAt: string;
+  maxBytes: number;
+}
+
+interface PhotoAnalysisResponse {
+  photoId: string;
+  analysis: Omit<PhotoAnalysis, 'overlays'>;
+  overlays: PhotoAnalysis['overlays'];
+}
+
+interface PhotoListResponse {
+  photos: Photo[];
+  pagination: Pagination;
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+type PhotoRequest = RouteRequest<{ treeId: string; photoId: string }>;
+
+const isDateOnly = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Oldest capture time the tier can see, if its photo history is limited
+ */
+const historyStart = (tier: SubscriptionTier): string | undefined => {
+  const days = TIER_ENTITLEMENTS[tier].limits.photoHistoryDays;
+  return days === Infinity ? undefined : new Date(Date.now() - days * DAY_MS).toISOString();
+};
+
+/**
+ * Photo upload, history and analysis endpoints. Clients upload straight to S3
+ * with a presigned PUT URL, then confirm the upload so it is recorded in the
+ * photo repository. Viewers of a shared tree can list its photos; editors can
+ * also add and analyze them.
+ */
+export class PhotosHandler extends BaseLambdaHandler {
+  private photos: PhotoRepository;
+  private trees: TreeRepository;
+  private growth: GrowthTracker;
+  private s3Client: S3;
+  private bucketName: string;
+  private entitlements: EntitlementGuard;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.photos = repositories.photos;
+    this.trees = repositories.trees;
+    this.growth = new GrowthTracker(repositories.measurements);
+    this.s3Client = new S3({
+      region: this.region,
+      signatureVersion: 'v4',
+    });
+    this.bucketName = process.env.PHOTO_BUCKET_NAME || `tree-care-photos-${this.stage}`;
+    this.entitlements = new EntitlementGuard(repositories.subscriptions);
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .post('/trees/:treeId/photos', (request) => this.createUpload(request))
+      .post('/trees/:treeId/photos/:photoId/complete', (request) => this.completeUpload(request))
+      .get('/trees/:treeId/photos', (request) => this.listPhotos(request))
+      .post(
+        '/photos/analyze',
+        this.entitlements.require({ meter: 'monthlyAnalyses' }, (request) => this.analyze(request))
+      );
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  // Analyses run the model, so they get a bucket of their own
+  protected rateLimitClass(event: APIGatewayProxyEvent): RouteClass {
+    return event.path === '/photos/analyze' ? 'analysis' : super.rateLimitClass(event);
+  }
+
+  /**
+   * POST /trees/{treeId}/photos - reserve a photo and issue a presigned upload URL
+   */
+  private async createUpload({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { contentType, contentLength } = this.parseBody(event, createPhotoUploadSchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'editor');
+
+    const now = new Date();
+    const photoId = `photo_${randomUUID()}`;
+    const item: PhotoItem = {
+      photoId,
+      treeId: params.treeId,
+      userId: tree.userId,
+      uploadedBy: userId,
+      s3Key: photoKey(tree.userId, params.treeId, photoId, contentType),
+      contentType,
+      status: 'pending',
+      capturedAt: now.toISOString(),
+      createdAt: now.toISOString(),
+      expiresAt: Math.floor(now.getTime() / 1000) + PENDING_PHOTO_TTL_SECONDS,
+    };
+
+    await this.photos.create(item);
+
+    const uploadUrl = await this.s3Client.getSignedUrlPromise('putObject', {
+      Bucket: this.bucketName,
+      Key: item.s3Key,
+      ContentType: contentType,
+      Expires: UPLOAD_URL_TTL_SECONDS,
+    });
+
+    const response: PhotoUploadResponse = {
+      photoId,
+      uploadUrl,
+      method: 'PUT',
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(contentLength),
+      },
+      expiresAt: new Date(now.getTime() + UPLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+      maxBytes: MAX_PHOTO_BYTES,
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId, 'Upload URL created', 201);
+  }
+
+  /**
+   * POST /trees/{treeId}/photos/{photoId}/complete - record a finished upload
+   */
+  private async completeUpload({ event, context, identity, params }: PhotoRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, completePhotoUploadSchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'editor');
+    const item = await this.loadPhoto(params.photoId, tree);
+
+    if (item.status === 'uploaded') {
+      throw new ConflictError(`Photo ${item.photoId} is already uploaded`);
+    }
+
+    // Presigned PUT URLs cannot enforce a size, so check what actually landed
+    const head = await this.headUpload(item);
+    if ((head.ContentLength ?? 0) > MAX_PHOTO_BYTES || head.ContentType !== item.contentType) {
+      await this.s3Client.deleteObject({ Bucket: this.bucketName, Key: item.s3Key }).promise();
+      logger.warn('Rejected photo upload', {
+        photoId: item.photoId,
+        sizeBytes: head.ContentLength,
+        contentType: head.ContentType,
+      });
+      throw new ValidationError(
+        `Photos must be ${item.contentType} and at most ${MAX_PHOTO_BYTES} bytes`
+      );
+    }
+
+    const uploaded: PhotoItem = {
+      ...item,
+      ...input,
+      capturedAt: input.capturedAt ? new Date(input.capturedAt).toISOString() : item.createdAt,
+      status: 'uploaded',
+      sizeBytes: head.ContentLength,
+      uploadedAt: new Date().toISOString(),
+    };
+    // Completed photos are kept until the user deletes them
+    delete uploaded.expiresAt;
+
+    await this.photos.save(uploaded);
+
+    return this.createSuccessResponse(
+      toPhoto(uploaded, await this.downloadUrl(uploaded)),
+      context.awsRequestId,
+      'Photo uploaded'
+    );
+  }
+
+  /**
+   * GET /trees/{treeId}/photos?limit=&cursor=&startDate=&endDate=
+   *
+   * History goes back as far as the caller's tier allows; without a startDate
+   * the list starts at that depth.
+   */
+  private async listPhotos({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { limit = DEFAULT_PAGE_SIZE, cursor, startDate, endDate } = this.parseQuery(event, listPhotosQuerySchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'viewer');
+
+    const requestedFrom = startDate ? new Date(startDate).toISOString() : undefined;
+    const to = endDate ? this.endOfRange(endDate) : undefined;
+    if (requestedFrom && to && requestedFrom > to) {
+      throw new ValidationError('Request validation failed', [
+        { location: 'query', path: 'startDate', message: 'must not be after endDate' },
+      ]);
+    }
+
+    const tier = await this.entitlements.tierOf(userId);
+    if (requestedFrom) {
+      checkEntitlement(tier, {
+        limit: 'photoHistoryDays',
+        amount: Math.ceil((Date.now() - Date.parse(requestedFrom)) / DAY_MS),
+      });
+    }
+    const from = requestedFrom ?? historyStart(tier);
+
+    const page = await this.photos.listUploaded(params.treeId, tree.userId, { from, to }, {
+      limit,
+      cursor,
+      scope: `photos:${userId}:${params.treeId}:${startDate ?? ''}:${endDate ?? ''}`,
+    });
+
+    const response: PhotoListResponse = {
+      photos: await Promise.all(
+        page.items.map(async (item) => toPhoto(item, await this.downloadUrl(item)))
+      ),
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor,
+      },
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * POST /photos/analyze - analyze an uploaded photo and store the result on it
+   */
+  private async analyze({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { treeId, photoId } = this.parseBody(event, analyzePhotoSchema);
+    const { tree } = await this.access.load(treeId, userId, 'editor');
+    const photo = await this.loadPhoto(photoId, tree);
+
+    if (photo.status !== 'uploaded') {
+      throw new ConflictError(`Photo ${photoId} has not been uploaded yet`);
+    }
+
+    const analysis = await analyzePhoto({
+      photo,
+      tree,
+      loadImage: () => this.loadImage(photo),
+    });
+
+    await this.photos.save({ ...photo, analysis });
+    await this.recordMeasurement(tree, photo, analysis);
+
+    logger.info('Photo analyzed', {
+      photoId,
+      analyzer: analysis.analyzer,
+      healthScore: analysis.health.overallScore,
+    });
+
+    const { overlays, ...findings } = analysis;
+    const response: PhotoAnalysisResponse = {
+      photoId,
+      analysis: findings,
+      overlays,
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * Keep the sizes the analysis estimated as a measurement taken when the
+   * photo was. The tree is only updated if nothing else changed it meanwhile;
+   * the next measurement catches up otherwise.
+   */
+  private async recordMeasurement(tree: TreeItem, photo: PhotoItem, analysis: PhotoAnalysis): Promise<void> {
+    const { estimatedHeight, trunkDiameter, canopySpread } = analysis.structure;
+    await this.growth.record(tree, {
+      measuredAt: photo.capturedAt,
+      source: 'photo_analysis',
+      photoId: photo.photoId,
+      height: estimatedHeight,
+      trunkDiameter,
+      canopySpread,
+    });
+
+    const updated: TreeItem = {
+      ...tree,
+      currentStatus: await this.growth.reassess(tree),
+      version: tree.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    if (!(await this.trees.save(updated, tree.version))) {
+      logger.warn('Tree changed while recording photo measurement', { treeId: tree.treeId, photoId: photo.photoId });
+    }
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  private async loadPhoto(photoId: string, tree: TreeItem): Promise<PhotoItem> {
+    const item = await this.photos.get(photoId, tree.treeId);
+    if (!item || item.userId !== tree.userId) {
+      throw new NotFoundError(`Photo ${photoId} not found`);
+    }
+    return item;
+  }
+
+  private async headUpload(item: PhotoItem): Promise<S3.HeadObjectOutput> {
+    try {
+      return await this.s3Client.headObject({ Bucket: this.bucketName, Key: item.s3Key }).promise();
+    } catch (error: any) {
+      if (error.code === 'NotFound' || error.statusCode === 404) {
+        throw new ConflictError(`Photo ${item.photoId} has not been uploaded yet`);
+      }
+      throw error;
+    }
+  }
+
+  private async loadImage(item: PhotoItem): Promise<Buffer> {
+    const result = await this.s3Client.getObject({ Bucket: this.bucketName, Key: item.s3Key }).promise();
+    return result.Body as Buffer;
+  }
+
+  private downloadUrl(item: PhotoItem): Promise<string> {
+    return this.s3Client.getSignedUrlPromise('getObject', {
+      Bucket: this.bucketName,
+      Key: item.s3Key,
+      Expires: DOWNLOAD_URL_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * A bare date as the end of a range includes the whole day
+   */
+  private endOfRange(endDate: string): string {
+    if (isDateOnly(endDate)) {
+      return new Date(Date.parse(endDate) + DAY_MS - 1).toISOString();
+    }
+    return new Date(endDate).toISOString();
+  }
+}
+
+// Export handler
+const photosHandler = new PhotosHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => photosHandler.handler(event, context);
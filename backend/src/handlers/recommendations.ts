@@ -0,0 +1,209 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from './lambda-base';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import {
+  Recommendation,
+  RecommendationHistoryEntry,
+  RecommendationItem,
+  toHistoryEntry,
+  toRecommendation,
+} from '../models/recommendation';
+import {
+  completeRecommendationSchema,
+  listRecommendationsQuerySchema,
+} from '../models/recommendation-schemas';
+import { roleAllows } from '../models/sharing';
+import { TreeItem } from '../models/tree';
+import { RecommendationRepository } from '../repositories/recommendations';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { generateRecommendations } from '../services/recommendation-engine';
+import { RouteRequest, Router } from '../utils/router';
+
+interface RecommendationListResponse {
+  recommendations: Recommendation[];
+  summary: {
+    totalRecommendations: number;
+    urgentCount: number;
+    highPriorityCount: number;
+    overdue: number;
+  };
+}
+
+interface RecommendationHistoryResponse {
+  history: RecommendationHistoryEntry[];
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+type RecommendationRequest = RouteRequest<{ recommendationId: string }>;
+
+/**
+ * Care recommendation endpoints. Recommendations are generated on request by
+ * the rule engine and recorded the first time they are seen, so they can be
+ * completed by ID and kept as history. On a shared tree, viewers can read
+ * the recommendations and editors can also complete them.
+ */
+export class RecommendationsHandler extends BaseLambdaHandler {
+  private recommendations: RecommendationRepository;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.recommendations = repositories.recommendations;
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .get('/recommendations/:treeId', (request) => this.listRecommendations(request))
+      .put('/recommendations/:recommendationId/complete', (request) => this.completeRecommendation(request))
+      .get('/trees/:treeId/recommendations/history', (request) => this.getHistory(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * GET /recommendations/{treeId}?includeCompleted=&priority=
+   */
+  private async listRecommendations({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { includeCompleted = false, priority } = this.parseQuery(event, listRecommendationsQuerySchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'viewer');
+
+    const now = new Date();
+    const stored = new Map(
+      (await this.recommendations.listByTree(tree.treeId)).map((item) => [item.recommendationId, item])
+    );
+    const current = generateRecommendations(tree, now);
+    await this.recordNew(current.filter((recommendation) => !stored.has(recommendation.id)), tree, now);
+
+    const recommendations = current
+      .map((recommendation) => {
+        const item = stored.get(recommendation.id);
+        // Keep completion details from the stored copy
+        return item?.status === 'completed' ? { ...recommendation, ...toRecommendation(item) } : recommendation;
+      })
+      .filter((recommendation) => includeCompleted || recommendation.status === 'pending')
+      .filter((recommendation) => !priority || recommendation.priority === priority);
+
+    const pending = recommendations.filter((recommendation) => recommendation.status === 'pending');
+    const response: RecommendationListResponse = {
+      recommendations,
+      summary: {
+        totalRecommendations: recommendations.length,
+        urgentCount: pending.filter((recommendation) => recommendation.priority === 'urgent').length,
+        highPriorityCount: pending.filter((recommendation) => recommendation.priority === 'high').length,
+        overdue: pending.filter((recommendation) => Date.parse(recommendation.timing.idealDate) < now.getTime())
+          .length,
+      },
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * PUT /recommendations/{recommendationId}/complete
+   */
+  private async completeRecommendation({
+    event,
+    context,
+    identity,
+    params,
+  }: RecommendationRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const { completedAt, ...completion } = this.parseBody(event, completeRecommendationSchema);
+
+    const item = await this.recommendations.get(params.recommendationId);
+    const access = item && (await this.access.find(item.treeId, userId));
+
+    if (!item || !access || item.userId !== access.tree.userId) {
+      throw new NotFoundError(`Recommendation ${params.recommendationId} not found`);
+    }
+    if (!roleAllows(access.role, 'editor')) {
+      throw new ForbiddenError(`This needs the editor role on tree ${item.treeId}`);
+    }
+    if (item.status === 'completed') {
+      throw new ConflictError(`Recommendation ${params.recommendationId} is already completed`);
+    }
+
+    const now = new Date().toISOString();
+    const completed: RecommendationItem = {
+      ...item,
+      status: 'completed',
+      completedAt: completedAt ? new Date(completedAt).toISOString() : now,
+      completion,
+      updatedAt: now,
+    };
+
+    // Completed by a concurrent request since it was read
+    if (!(await this.recommendations.complete(completed))) {
+      throw new ConflictError(`Recommendation ${params.recommendationId} is already completed`);
+    }
+
+    return this.createSuccessResponse(
+      toRecommendation(completed),
+      context.awsRequestId,
+      'Recommendation completed'
+    );
+  }
+
+  /**
+   * GET /trees/{treeId}/recommendations/history - completed recommendations, newest first
+   */
+  private async getHistory({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'viewer');
+
+    const history = (await this.recommendations.listByTree(tree.treeId))
+      .filter((item) => item.status === 'completed' && item.userId === tree.userId)
+      .sort((a, b) => b.completedAt!.localeCompare(a.completedAt!))
+      .map(toHistoryEntry);
+
+    const response: RecommendationHistoryResponse = { history };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  /**
+   * Store recommendations the first time they are generated, under the tree's owner
+   */
+  private async recordNew(recommendations: Recommendation[], tree: TreeItem, now: Date): Promise<void> {
+    await Promise.all(
+      recommendations.map(async ({ id, ...recommendation }) => {
+        const item: RecommendationItem = {
+          ...recommendation,
+          recommendationId: id,
+          userId: tree.userId,
+          windowStart: recommendation.timing.windowStart,
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+        };
+        // False when a concurrent request recorded it first
+        await this.recommendations.createIfNew(item);
+      })
+    );
+  }
+}
+
+// Export handler
+const recommendationsHandler = new RecommendationsHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => recommendationsHandler.handler(event, context);
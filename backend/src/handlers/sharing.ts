@@ -0,0 +1,354 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './lambda-base';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import {
+  INVITATION_TTL_DAYS,
+  Invitation,
+  InvitationItem,
+  TreeMember,
+  TreeMemberItem,
+  TreeRole,
+  toInvitation,
+  toTreeMember,
+} from '../models/sharing';
+import { createInvitationSchema, updateMemberSchema } from '../models/sharing-schemas';
+import { Tree, TreeItem, toTree } from '../models/tree';
+import { InvitationRepository } from '../repositories/invitations';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { TreeMemberRepository } from '../repositories/tree-members';
+import { TreeRepository } from '../repositories/trees';
+import { UserRepository } from '../repositories/users';
+import { RouteRequest, Router } from '../utils/router';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface InvitationListResponse {
+  invitations: Invitation[];
+}
+
+interface MemberListResponse {
+  members: TreeMember[];
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+type TreeInvitationRequest = RouteRequest<{ treeId: string; invitationId: string }>;
+type InvitationRequest = RouteRequest<{ invitationId: string }>;
+type MemberRequest = RouteRequest<{ treeId: string; userId: string }>;
+
+// Pending invitations stop counting once they expire
+const isOpen = (item: InvitationItem, now: string): boolean => item.status === 'pending' && item.expiresAt > now;
+
+/**
+ * Household sharing endpoints. A tree's owner invites others by email as
+ * editors or viewers; invitees find the invitations addressed to the verified
+ * email address they sign in with, and accepting one makes them a member of
+ * the tree. Members can see who a tree is shared with and leave it; only the
+ * owner can invite, change roles and remove others.
+ */
+export class SharingHandler extends BaseLambdaHandler {
+  private trees: TreeRepository;
+  private treeMembers: TreeMemberRepository;
+  private invitations: InvitationRepository;
+  private users: UserRepository;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.trees = repositories.trees;
+    this.treeMembers = repositories.treeMembers;
+    this.invitations = repositories.invitations;
+    this.users = repositories.users;
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .post('/trees/:treeId/invitations', (request) => this.invite(request))
+      .get('/trees/:treeId/invitations', (request) => this.listTreeInvitations(request))
+      .delete('/trees/:treeId/invitations/:invitationId', (request) => this.revokeInvitation(request))
+      .get('/invitations', (request) => this.listMyInvitations(request))
+      .post('/invitations/:invitationId/accept', (request) => this.acceptInvitation(request))
+      .post('/invitations/:invitationId/decline', (request) => this.declineInvitation(request))
+      .get('/trees/:treeId/members', (request) => this.listMembers(request))
+      .put('/trees/:treeId/members/:userId', (request) => this.updateMember(request))
+      .delete('/trees/:treeId/members/:userId', (request) => this.removeMember(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /trees/{treeId}/invitations
+   */
+  private async invite({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, createInvitationSchema);
+    const { tree } = await this.access.load(params.treeId, userId, 'owner');
+    const email = input.email.trim().toLowerCase();
+
+    // Owners signed in with an access token are caught when accepting instead
+    if (email === this.verifiedEmailOf(identity!)) {
+      throw new ValidationError('Request validation failed', [
+        { location: 'body', path: 'email', message: 'must not be your own address' },
+      ]);
+    }
+    if ((await this.treeMembers.listByTree(tree.treeId)).some((member) => member.email === email)) {
+      throw new ConflictError(`${email} is already a member of tree ${tree.treeId}`);
+    }
+    const now = new Date();
+    const pending = (await this.invitations.listByTree(tree.treeId)).find(
+      (item) => item.email === email && isOpen(item, now.toISOString())
+    );
+    if (pending) {
+      throw new ConflictError(`${email} is already invited to tree ${tree.treeId}`, {
+        current: toInvitation(pending),
+      });
+    }
+
+    const item: InvitationItem = {
+      invitationId: `inv_${randomUUID()}`,
+      treeId: tree.treeId,
+      ownerId: tree.userId,
+      treeName: tree.name,
+      email,
+      role: input.role,
+      status: 'pending',
+      invitedBy: userId,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * DAY_MS).toISOString(),
+    };
+    await this.invitations.create(item);
+
+    return this.createSuccessResponse(toInvitation(item), context.awsRequestId, 'Invitation created', 201);
+  }
+
+  /**
+   * GET /trees/{treeId}/invitations - the tree's open invitations, newest first
+   */
+  private async listTreeInvitations({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'owner');
+    const now = new Date().toISOString();
+
+    const response: InvitationListResponse = {
+      invitations: (await this.invitations.listByTree(tree.treeId))
+        .filter((item) => isOpen(item, now))
+        .map(toInvitation),
+    };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * DELETE /trees/{treeId}/invitations/{invitationId}
+   */
+  private async revokeInvitation({ context, identity, params }: TreeInvitationRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'owner');
+    const item = await this.invitations.get(params.invitationId);
+    if (!item || item.treeId !== tree.treeId) {
+      throw new NotFoundError(`Invitation ${params.invitationId} not found`);
+    }
+
+    const revoked = await this.close(item, 'revoked');
+
+    return this.createSuccessResponse(toInvitation(revoked), context.awsRequestId, 'Invitation revoked');
+  }
+
+  /**
+   * GET /invitations - open invitations to the caller's email address, newest first
+   */
+  private async listMyInvitations({ context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const email = this.requireVerifiedEmail(this.identityOf(identity));
+    const now = new Date().toISOString();
+
+    const response: InvitationListResponse = {
+      invitations: (await this.invitations.listByEmail(email)).filter((item) => isOpen(item, now)).map(toInvitation),
+    };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * POST /invitations/{invitationId}/accept - returns the shared tree
+   */
+  private async acceptInvitation({ context, identity, params }: InvitationRequest): Promise<APIGatewayProxyResult> {
+    const caller = this.identityOf(identity);
+    const item = await this.loadInvitation(params.invitationId, caller);
+    if (item.ownerId === caller.userId) {
+      throw new ConflictError('Trees cannot be shared with their owner');
+    }
+    const tree = await this.trees.get(item.treeId, item.ownerId);
+    if (!tree) {
+      throw new NotFoundError(`Tree ${item.treeId} not found`);
+    }
+
+    const accepted = await this.close(item, 'accepted');
+    const existing = await this.treeMembers.get(tree.treeId, caller.userId);
+    const member: TreeMemberItem = {
+      treeId: tree.treeId,
+      userId: caller.userId,
+      ownerId: tree.userId,
+      email: accepted.email,
+      role: accepted.role,
+      invitationId: accepted.invitationId,
+      createdAt: existing?.createdAt ?? accepted.updatedAt,
+      updatedAt: accepted.updatedAt,
+    };
+    await this.treeMembers.save(member);
+
+    const response: Tree & { role: TreeRole } = { ...toTree(tree), role: member.role };
+    return this.createSuccessResponse(response, context.awsRequestId, 'Invitation accepted');
+  }
+
+  /**
+   * POST /invitations/{invitationId}/decline
+   */
+  private async declineInvitation({ context, identity, params }: InvitationRequest): Promise<APIGatewayProxyResult> {
+    const item = await this.loadInvitation(params.invitationId, this.identityOf(identity));
+
+    const declined = await this.close(item, 'declined');
+
+    return this.createSuccessResponse(toInvitation(declined), context.awsRequestId, 'Invitation declined');
+  }
+
+  /**
+   * GET /trees/{treeId}/members - the owner first, then members in the order they joined
+   */
+  private async listMembers({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'viewer');
+    const owner = await this.users.get(tree.userId);
+
+    const response: MemberListResponse = {
+      members: [
+        { userId: tree.userId, email: owner?.email, role: 'owner' },
+        ...(await this.treeMembers.listByTree(tree.treeId)).map(toTreeMember),
+      ],
+    };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * PUT /trees/{treeId}/members/{userId} - change a member's role
+   */
+  private async updateMember({ event, context, identity, params }: MemberRequest): Promise<APIGatewayProxyResult> {
+    const { role } = this.parseBody(event, updateMemberSchema);
+    const { tree } = await this.access.load(params.treeId, this.getUserId(identity), 'owner');
+    const member = await this.loadMember(tree, params.userId);
+
+    const updated: TreeMemberItem = { ...member, role, updatedAt: new Date().toISOString() };
+    await this.treeMembers.save(updated);
+
+    return this.createSuccessResponse(toTreeMember(updated), context.awsRequestId, 'Member updated');
+  }
+
+  /**
+   * DELETE /trees/{treeId}/members/{userId} - the owner removes a member, or a member leaves
+   */
+  private async removeMember({ context, identity, params }: MemberRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const leaving = params.userId === userId;
+    const { tree } = await this.access.load(params.treeId, userId, leaving ? 'viewer' : 'owner');
+    // The owner is not a member, so cannot leave their own tree
+    const member = await this.loadMember(tree, params.userId);
+
+    await this.treeMembers.delete(member.treeId, member.userId);
+
+    return this.createSuccessResponse(
+      toTreeMember(member),
+      context.awsRequestId,
+      leaving ? 'Left tree' : 'Member removed'
+    );
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    return this.identityOf(identity).userId;
+  }
+
+  private identityOf(identity?: CallerIdentity): CallerIdentity {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity;
+  }
+
+  /**
+   * The caller's address, from an ID token that vouches for it. Access tokens
+   * carry no email, and Cognito leaves email_verified out until it is checked.
+   */
+  private verifiedEmailOf(identity: CallerIdentity): string | undefined {
+    if (identity.tokenUse !== 'id' || identity.claims.email_verified !== true || !identity.email) {
+      return undefined;
+    }
+    return identity.email.trim().toLowerCase();
+  }
+
+  /**
+   * Invitations go to an address, so only a verified one may claim them
+   */
+  private requireVerifiedEmail(identity: CallerIdentity): string {
+    const email = this.verifiedEmailOf(identity);
+    if (!email) {
+      throw new ForbiddenError('An ID token with a verified email address is needed to use invitations');
+    }
+    return email;
+  }
+
+  /**
+   * An open invitation to the caller's address; others' invitations are not found
+   */
+  private async loadInvitation(invitationId: string, identity: CallerIdentity): Promise<InvitationItem> {
+    const email = this.requireVerifiedEmail(identity);
+    const item = await this.invitations.get(invitationId);
+    if (!item || item.email !== email) {
+      throw new NotFoundError(`Invitation ${invitationId} not found`);
+    }
+    return item;
+  }
+
+  private async loadMember(tree: TreeItem, userId: string): Promise<TreeMemberItem> {
+    const member = await this.treeMembers.get(tree.treeId, userId);
+    if (!member) {
+      throw new NotFoundError(`Member ${userId} not found`);
+    }
+    return member;
+  }
+
+  /**
+   * Close an open invitation with the status
+   */
+  private async close(item: InvitationItem, status: 'accepted' | 'declined' | 'revoked'): Promise<InvitationItem> {
+    const now = new Date().toISOString();
+    if (!isOpen(item, now)) {
+      throw new ConflictError(
+        item.status === 'pending'
+          ? `Invitation ${item.invitationId} has expired`
+          : `Invitation ${item.invitationId} is already ${item.status}`
+      );
+    }
+
+    const responded: InvitationItem = { ...item, status, respondedAt: now, updatedAt: now };
+    // Answered or revoked by a concurrent request since it was read
+    if (!(await this.invitations.respond(responded))) {
+      throw new ConflictError(`Invitation ${item.invitationId} was already answered or revoked`);
+    }
+    return responded;
+  }
+}
+
+// Export handler
+const sharingHandler = new SharingHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => sharingHandler.handler(event, context);
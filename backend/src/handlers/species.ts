@@ -0,0 +1,70 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BaseLambdaHandler, CallerIdentity, NotFoundError } from './lambda-base';
+import { SpeciesSummary, toSpeciesSummary } from '../models/species';
+import { searchSpeciesQuerySchema } from '../models/species-schemas';
+import { SubscriptionRepository } from '../repositories/subscriptions';
+import { SpeciesCatalog, speciesCatalog } from '../services/species-catalog';
+import { RouteRequest, Router } from '../utils/router';
+
+const DEFAULT_LIMIT = 20;
+
+interface SpeciesSearchResponse {
+  species: SpeciesSummary[];
+}
+
+/**
+ * Read-only species catalog endpoints
+ */
+export class SpeciesHandler extends BaseLambdaHandler {
+  private catalog: SpeciesCatalog;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(catalog: SpeciesCatalog = speciesCatalog, subscriptions?: SubscriptionRepository) {
+    super(subscriptions);
+    this.catalog = catalog;
+    this.router = new Router()
+      .get('/species/search', (request) => this.searchSpecies(request))
+      .get('/species/:speciesId', (request) => this.getSpecies(request));
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * GET /species/search?q=&limit=
+   */
+  private async searchSpecies({ event, context }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const { q, limit = DEFAULT_LIMIT } = this.parseQuery(event, searchSpeciesQuerySchema);
+
+    const response: SpeciesSearchResponse = {
+      species: this.catalog.search(q, limit).map((match) => toSpeciesSummary(match.species)),
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * GET /species/{speciesId}
+   */
+  private async getSpecies({ context, params }: RouteRequest<{ speciesId: string }>): Promise<APIGatewayProxyResult> {
+    const species = this.catalog.get(params.speciesId);
+    if (!species) {
+      throw new NotFoundError(`Species ${params.speciesId} not found`);
+    }
+
+    return this.createSuccessResponse(species, context.awsRequestId);
+  }
+}
+
+// Export handler
+const speciesHandler = new SpeciesHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => speciesHandler.handler(event, context);
@@ -0,0 +1,147 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import Stripe from 'stripe';
+import {
+  BaseLambdaHandler,
+  NotFoundError,
+  ValidationError,
+} from './lambda-base';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { StripeEventRepository } from '../repositories/stripe-events';
+import { SubscriptionRepository } from '../repositories/subscriptions';
+import { subscriptionChangeFor } from '../services/stripe-events';
+import { logger } from '../utils/logger';
+import { RouteRequest, Router } from '../utils/router';
+
+const SIGNATURE_HEADER = 'Stripe-Signature';
+// Processed event IDs are kept long enough to cover Stripe's retry window
+const PROCESSED_EVENT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface WebhookResponse {
+  received: true;
+  duplicate?: boolean;
+}
+
+/**
+ * Receives Stripe webhook events and syncs them onto the
+ * TreeCareSubscriptions table. Events are verified against the
+ * Stripe-Signature header and recorded by ID, so redeliveries are
+ * acknowledged without being applied twice.
+ */
+export class StripeWebhookHandler extends BaseLambdaHandler {
+  private subscriptions: SubscriptionRepository;
+  private stripeEvents: StripeEventRepository;
+  private stripe: Stripe;
+  private router: Router;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super();
+    this.subscriptions = repositories.subscriptions;
+    this.stripeEvents = repositories.stripeEvents;
+    // Only used to verify signatures, so no API key is needed
+    this.stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', { apiVersion: '2022-11-15' });
+    this.router = new Router().post('/webhooks/stripe', (request) => this.receive(request));
+  }
+
+  async processRequest(event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context);
+  }
+
+  /**
+   * POST /webhooks/stripe
+   */
+  private async receive({ event, context }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const stripeEvent = this.verify(event);
+
+    if (!(await this.claim(stripeEvent))) {
+      logger.info('Stripe event already processed', { eventId: stripeEvent.id, type: stripeEvent.type });
+      const response: WebhookResponse = { received: true, duplicate: true };
+      return this.createSuccessResponse(response, context.awsRequestId);
+    }
+
+    try {
+      await this.apply(stripeEvent);
+    } catch (error) {
+      // Let Stripe's redelivery try again
+      await this.release(stripeEvent);
+      throw error;
+    }
+
+    const response: WebhookResponse = { received: true };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  private verify(event: APIGatewayProxyEvent): Stripe.Event {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+    }
+
+    const signature = this.headerValue(event, SIGNATURE_HEADER);
+    if (!signature || !event.body) {
+      throw new ValidationError('Stripe-Signature header and body are required');
+    }
+
+    // The signature covers the exact bytes Stripe sent
+    const payload = event.isBase64Encoded ? Buffer.from(event.body, 'base64') : event.body;
+    try {
+      return this.stripe.webhooks.constructEvent(payload, signature, secret);
+    } catch (error) {
+      logger.warn('Stripe signature verification failed', { error });
+      throw new ValidationError('Invalid Stripe signature');
+    }
+  }
+
+  private async apply(event: Stripe.Event): Promise<void> {
+    const change = subscriptionChangeFor(event);
+    if (!change) {
+      logger.info('Stripe event ignored', { eventId: event.id, type: event.type });
+      return;
+    }
+
+    const userId = change.userId ?? (await this.userIdForCustomer(change.customerId));
+    const applied = await this.subscriptions.applyStripeUpdate(userId, {
+      ...change.fields,
+      stripeCustomerId: change.customerId,
+      stripeEventCreated: event.created,
+      updatedAt: new Date().toISOString(),
+    });
+    logger.info(applied ? 'Subscription updated from Stripe' : 'Stale Stripe event skipped', {
+      eventId: event.id,
+      type: event.type,
+      userId,
+      ...change.fields,
+    });
+  }
+
+  private async userIdForCustomer(customerId: string): Promise<string> {
+    const item = await this.subscriptions.findByStripeCustomer(customerId);
+    if (!item) {
+      // Usually the checkout event has not arrived yet; Stripe will redeliver
+      throw new NotFoundError(`No subscription for Stripe customer ${customerId}`);
+    }
+    return item.userId;
+  }
+
+  /**
+   * Record the event as processed; false if it already was
+   */
+  private async claim(event: Stripe.Event): Promise<boolean> {
+    return this.stripeEvents.claim({
+      eventId: event.id,
+      type: event.type,
+      receivedAt: new Date().toISOString(),
+      expiresAt: Math.floor(Date.now() / 1000) + PROCESSED_EVENT_TTL_SECONDS,
+    });
+  }
+
+  private async release(event: Stripe.Event): Promise<void> {
+    await this.stripeEvents.release(event.id);
+  }
+}
+
+// Export handler
+const stripeWebhookHandler = new StripeWebhookHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => stripeWebhookHandler.handler(event, context);
@@ -0,0 +1,149 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { S3 } from 'aws-sdk';
+import { photoKeyPrefix } from '../models/photo';
+import { ARCHIVE_RETENTION_DAYS } from '../models/tree';
+import { CareEventRepository } from '../repositories/care-events';
+import { InvitationRepository } from '../repositories/invitations';
+import { MeasurementRepository } from '../repositories/measurements';
+import { NotificationRepository } from '../repositories/notifications';
+import { PhotoRepository } from '../repositories/photos';
+import { RecommendationRepository } from '../repositories/recommendations';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { TreeMemberRepository } from '../repositories/tree-members';
+import { TreeRepository } from '../repositories/trees';
+import { logger, runWithLogContext } from '../utils/logger';
+
+// Trees purged per run; the rest wait for the next run
+const BATCH_SIZE = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeSummary {
+  purged: number;
+  photosDeleted: number;
+  careEventsDeleted: number;
+  measurementsDeleted: number;
+  recommendationsDeleted: number;
+  notificationsDeleted: number;
+  membersDeleted: number;
+  invitationsDeleted: number;
+  objectsDeleted: number;
+  // Restored after being listed, before their purge started
+  skipped: number;
+}
+
+/**
+ * Deletes trees archived more than ARCHIVE_RETENTION_DAYS ago, along with
+ * their photo records, files, care log, measurements, recommendations,
+ * notifications and sharing. Runs on a schedule rather than behind API
+ * Gateway, so it does not extend BaseLambdaHandler.
+ *
+ * Each tree is first marked with purgeStartedAt, which stops it being
+ * restored, so a restore can't leave an active tree with its history gone.
+ * Photos and files go next and the tree last, so a run that fails partway
+ * leaves the tree archived and the next run picks it up again.
+ */
+export class TreePurger {
+  private trees: TreeRepository;
+  private photos: PhotoRepository;
+  private careEvents: CareEventRepository;
+  private measurements: MeasurementRepository;
+  private recommendations: RecommendationRepository;
+  private notifications: NotificationRepository;
+  private treeMembers: TreeMemberRepository;
+  private invitations: InvitationRepository;
+  private s3Client: S3;
+  private bucketName: string;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    const region = process.env.AWS_REGION || 'us-east-2';
+    const stage = process.env.STAGE || 'dev';
+    this.trees = repositories.trees;
+    this.photos = repositories.photos;
+    this.careEvents = repositories.careEvents;
+    this.measurements = repositories.measurements;
+    this.recommendations = repositories.recommendations;
+    this.notifications = repositories.notifications;
+    this.treeMembers = repositories.treeMembers;
+    this.invitations = repositories.invitations;
+    this.s3Client = new S3({ region, signatureVersion: 'v4' });
+    this.bucketName = process.env.PHOTO_BUCKET_NAME || `tree-care-photos-${stage}`;
+  }
+
+  async purgeExpired(now: Date): Promise<PurgeSummary> {
+    const cutoff = new Date(now.getTime() - ARCHIVE_RETENTION_DAYS * DAY_MS).toISOString();
+    const summary: PurgeSummary = {
+      purged: 0,
+      photosDeleted: 0,
+      careEventsDeleted: 0,
+      measurementsDeleted: 0,
+      recommendationsDeleted: 0,
+      notificationsDeleted: 0,
+      membersDeleted: 0,
+      invitationsDeleted: 0,
+      objectsDeleted: 0,
+      skipped: 0,
+    };
+
+    for (const tree of await this.trees.listArchivedBefore(cutoff, BATCH_SIZE)) {
+      if (!(await this.trees.startPurge(tree, cutoff, now.toISOString()))) {
+        logger.warn('Tree restored before it was purged', { treeId: tree.treeId, userId: tree.userId });
+        summary.skipped++;
+        continue;
+      }
+
+      summary.objectsDeleted += await this.deleteObjects(photoKeyPrefix(tree.userId, tree.treeId));
+      summary.photosDeleted += await this.photos.deleteByTree(tree.treeId, tree.userId);
+      summary.careEventsDeleted += await this.careEvents.deleteByTree(tree.treeId, tree.userId);
+      summary.measurementsDeleted += await this.measurements.deleteByTree(tree.treeId, tree.userId);
+      summary.recommendationsDeleted += await this.recommendations.deleteByTree(tree.treeId);
+      summary.notificationsDeleted += await this.notifications.deleteByTree(tree.treeId);
+      summary.membersDeleted += await this.treeMembers.deleteByTree(tree.treeId);
+      summary.invitationsDeleted += await this.invitations.deleteByTree(tree.treeId);
+
+      if (await this.trees.deleteArchived(tree, cutoff)) {
+        summary.purged++;
+      }
+    }
+
+    logger.info('Archived tree purge finished', { cutoff, ...summary });
+    return summary;
+  }
+
+  /**
+   * Every file under the tree's prefix, including uploads never completed
+   */
+  private async deleteObjects(prefix: string): Promise<number> {
+    let deleted = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      const listing = await this.s3Client.listObjectsV2({
+        Bucket: this.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }).promise();
+
+      const objects = (listing.Contents || []).map((object) => ({ Key: object.Key! }));
+      if (objects.length > 0) {
+        const result = await this.s3Client.deleteObjects({
+          Bucket: this.bucketName,
+          Delete: { Objects: objects, Quiet: true },
+        }).promise();
+        if (result.Errors?.length) {
+          throw new Error(`Failed to delete ${result.Errors.length} photo files under ${prefix}`);
+        }
+        deleted += objects.length;
+      }
+      continuationToken = listing.NextContinuationToken;
+    } while (continuationToken);
+
+    return deleted;
+  }
+}
+
+// Export handler
+const treePurger = new TreePurger();
+export const handler = (event: ScheduledEvent, context: Context): Promise<PurgeSummary> =>
+  runWithLogContext({ awsRequestId: context.awsRequestId }, () =>
+    treePurger.purgeExpired(new Date(event.time || Date.now()))
+  );
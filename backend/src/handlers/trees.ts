@@ -0,0 +1,406 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  BaseLambdaHandler,
+  CallerIdentity,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './lambda-base';
+import { EntitlementGuard } from '../middleware/entitlements';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { changedMetricValues, measuredMetrics, metricValues } from '../models/measurement';
+import { DEFAULT_PAGE_SIZE, Pagination } from '../models/pagination';
+import { TreeRole } from '../models/sharing';
+import { toTreeSpecies } from '../models/species';
+import { Tree, TreeItem, TreeSpecies, toTree } from '../models/tree';
+import {
+  createTreeSchema,
+  listTreesQuerySchema,
+  updateTreeSchema,
+} from '../models/tree-schemas';
+import { Repositories, dynamoRepositories } from '../repositories/repositories';
+import { TreeRepository } from '../repositories/trees';
+import { resolveClimate } from '../services/climate';
+import { GrowthTracker } from '../services/growth-tracker';
+import { speciesCatalog } from '../services/species-catalog';
+import { ETAG_HEADER, IF_MATCH_HEADER, etagFor, ifMatchAllows } from '../utils/etag';
+import { RouteRequest, Router } from '../utils/router';
+
+interface TreeListResponse {
+  trees: Tree[];
+  pagination: Pagination;
+}
+
+interface SharedTreeListResponse {
+  trees: (Tree & { role: TreeRole })[];
+}
+
+type TreeRequest = RouteRequest<{ treeId: string }>;
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+const speciesIdFor = (scientificName: string): string =>
+  scientificName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+/**
+ * Fill in a tree's species from the catalog. Species that are not in the
+ * catalog are accepted as given, as long as both names are provided.
+ */
+const resolveSpecies = (input: Partial<TreeSpecies>): TreeSpecies => {
+  const species = input.speciesId
+    ? speciesCatalog.get(input.speciesId)
+    : speciesCatalog.findByScientificName(input.scientificName ?? '');
+  if (species) {
+    return toTreeSpecies(species);
+  }
+
+  if (!input.scientificName || !input.commonName) {
+    throw new ValidationError('Unknown species', [
+      {
+        location: 'body',
+        path: input.speciesId ? 'species.speciesId' : 'species.scientificName',
+        message: input.speciesId ? 'is not in the species catalog' : 'is required',
+      },
+    ]);
+  }
+  return {
+    scientificName: input.scientificName,
+    commonName: input.commonName,
+    speciesId: input.speciesId || speciesIdFor(input.scientificName),
+  };
+};
+
+/**
+ * The tree with the climate at its coordinates, and a warning if its species
+ * is not hardy there
+ */
+const withClimate = (item: TreeItem): TreeItem => {
+  const updated: TreeItem = { ...item };
+  delete updated.climate;
+  delete updated.warnings;
+
+  const climate = resolveClimate(item.location.coordinates);
+  if (climate) {
+    updated.climate = climate;
+  }
+  const warning = climate?.hardinessZone
+    ? speciesCatalog.hardinessWarning(item.species.speciesId, climate.hardinessZone)
+    : undefined;
+  if (warning) {
+    updated.warnings = [warning];
+  }
+  return updated;
+};
+
+/**
+ * Tree CRUD endpoints backed by the tree repository. Heights, trunk
+ * diameters and canopy spreads given in currentStatus are also recorded as
+ * manual measurements, and the climate is resolved again on every write that
+ * could change it. Trees shared with the caller can be read, and changed by
+ * editors; only the owner can archive or restore them.
+ */
+export class TreesHandler extends BaseLambdaHandler {
+  private trees: TreeRepository;
+  private growth: GrowthTracker;
+  private entitlements: EntitlementGuard;
+  private access: TreeAccessGuard;
+  private router: Router;
+  protected requiresAuth = true;
+
+  constructor(repositories: Repositories = dynamoRepositories()) {
+    super(repositories.subscriptions);
+    this.trees = repositories.trees;
+    this.growth = new GrowthTracker(repositories.measurements);
+    this.entitlements = new EntitlementGuard(repositories.subscriptions);
+    this.access = new TreeAccessGuard(repositories.trees, repositories.treeMembers);
+    this.router = new Router()
+      .post(
+        '/trees',
+        this.entitlements.require(
+          { limit: 'maxTrees', amount: async (userId) => (await this.countActiveTrees(userId)) + 1 },
+          (request) => this.createTree(request)
+        )
+      )
+      .get('/trees', (request) => this.listTrees(request))
+      .get('/trees/shared', (request) => this.listSharedTrees(request))
+      .get('/trees/:treeId', (request) => this.getTree(request))
+      .put('/trees/:treeId', (request) => this.updateTree(request))
+      .delete('/trees/:treeId', (request) => this.archiveTree(request))
+      .post(
+        '/trees/:treeId/restore',
+        this.entitlements.require(
+          { limit: 'maxTrees', amount: async (userId) => (await this.countActiveTrees(userId)) + 1 },
+          (request) => this.restoreTree(request)
+        )
+      );
+  }
+
+  async processRequest(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    return this.router.handle(event, context, identity);
+  }
+
+  /**
+   * POST /trees
+   */
+  private async createTree({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const input = this.parseBody(event, createTreeSchema);
+
+    const now = new Date().toISOString();
+    const item: TreeItem = withClimate({
+      treeId: `tree_${randomUUID()}`,
+      userId,
+      name: input.name.trim(),
+      species: resolveSpecies(input.species),
+      plantedDate: input.plantedDate || now.split('T')[0],
+      location: {
+        yardPosition: input.location?.yardPosition || 'backyard',
+        coordinates: input.location?.coordinates || [0, 0],
+        sunExposure: input.location?.sunExposure || 'partial sun',
+        soilType: input.location?.soilType || 'loam',
+      },
+      currentStatus: {
+        height: input.currentStatus?.height ?? 2.0,
+        trunkDiameter: input.currentStatus?.trunkDiameter ?? 0.5,
+        canopySpread: input.currentStatus?.canopySpread ?? 1.5,
+        healthScore: input.currentStatus?.healthScore ?? 100,
+        growthStage: input.currentStatus?.growthStage || 'seedling',
+      },
+      goals: {
+        targetHeight: input.goals?.targetHeight ?? 12,
+        clearanceNeeded: input.goals?.clearanceNeeded ?? 8,
+        aestheticStyle: input.goals?.aestheticStyle || 'natural',
+      },
+      status: 'active',
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await this.trees.create(item);
+    const measured = metricValues(input.currentStatus);
+    if (measuredMetrics(measured).length > 0) {
+      await this.growth.record(item, { measuredAt: now, source: 'manual', ...measured });
+    }
+
+    return this.treeResponse(item, context.awsRequestId, 'Tree created', 201);
+  }
+
+  /**
+   * GET /trees?limit=&cursor=&status= - newest first
+   */
+  private async listTrees({ event, context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const userId = this.getUserId(identity);
+    const {
+      limit = DEFAULT_PAGE_SIZE,
+      cursor,
+      status = 'active',
+    } = this.parseQuery(event, listTreesQuerySchema);
+
+    const page = await this.trees.listByUser(userId, status, { limit, cursor, scope: `trees:${userId}:${status}` });
+
+    const response: TreeListResponse = {
+      trees: page.items.map(toTree),
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor,
+      },
+    };
+
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * GET /trees/shared - active trees other users share with the caller, most
+   * recently joined first, with the caller's role on each
+   */
+  private async listSharedTrees({ context, identity }: RouteRequest): Promise<APIGatewayProxyResult> {
+    const shared = await this.access.listShared(this.getUserId(identity));
+
+    const response: SharedTreeListResponse = {
+      trees: shared.map(({ tree, role }) => ({ ...toTree(tree), role })),
+    };
+    return this.createSuccessResponse(response, context.awsRequestId);
+  }
+
+  /**
+   * GET /trees/{treeId}
+   */
+  private async getTree({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree: item } = await this.access.load(params.treeId, this.getUserId(identity), 'viewer');
+
+    return this.treeResponse(item, context.awsRequestId);
+  }
+
+  /**
+   * PUT /trees/{treeId}
+   *
+   * With If-Match, only applies to the version the client last saw; either
+   * way a 409 carries the current tree when another write got there first.
+   */
+  private async updateTree({ event, context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const input = this.parseBody(event, updateTreeSchema);
+    const { tree: existing } = await this.access.load(params.treeId, this.getUserId(identity), 'editor');
+    // Archived trees are read-only until restored, and may already be being purged
+    if (existing.status !== 'active') {
+      throw new ConflictError(`Tree ${params.treeId} is archived; restore it before changing it`);
+    }
+
+    const ifMatch = this.headerValue(event, IF_MATCH_HEADER);
+    if (ifMatch && !ifMatchAllows(ifMatch, existing.version)) {
+      throw this.conflict(existing);
+    }
+
+    const updated: TreeItem = withClimate({
+      ...existing,
+      name: input.name?.trim() || existing.name,
+      species: input.species ? resolveSpecies(input.species) : existing.species,
+      plantedDate: input.plantedDate || existing.plantedDate,
+      location: { ...existing.location, ...input.location },
+      currentStatus: { ...existing.currentStatus, ...input.currentStatus },
+      goals: { ...existing.goals, ...input.goals },
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    await this.saveTree(updated, existing.version);
+
+    // Recorded only once the update has gone through, so a 409 leaves no measurement behind.
+    // Clients resend the whole status with every edit; unchanged readings are not new measurements.
+    const measured = changedMetricValues(existing.currentStatus, input.currentStatus);
+    if (measuredMetrics(measured).length === 0) {
+      return this.treeResponse(updated, context.awsRequestId, 'Tree updated');
+    }
+    await this.growth.record(updated, { measuredAt: updated.updatedAt, source: 'manual', ...measured });
+    const reassessed = await this.updateStatus(updated);
+
+    return this.treeResponse(reassessed, context.awsRequestId, 'Tree updated');
+  }
+
+  /**
+   * DELETE /trees/{treeId} - archives the tree rather than deleting it. The
+   * tree can be restored until it is purged, ARCHIVE_RETENTION_DAYS later.
+   */
+  private async archiveTree({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree: existing } = await this.access.load(params.treeId, this.getUserId(identity), 'owner');
+    // Archiving again must not push back the purge
+    if (existing.status === 'archived') {
+      return this.treeResponse(existing, context.awsRequestId, 'Tree archived');
+    }
+
+    const now = new Date().toISOString();
+    const archived: TreeItem = {
+      ...existing,
+      status: 'archived',
+      archivedAt: now,
+      version: existing.version + 1,
+      updatedAt: now,
+    };
+    await this.saveTree(archived, existing.version);
+
+    return this.treeResponse(archived, context.awsRequestId, 'Tree archived');
+  }
+
+  /**
+   * POST /trees/{treeId}/restore
+   */
+  private async restoreTree({ context, identity, params }: TreeRequest): Promise<APIGatewayProxyResult> {
+    const { tree: existing } = await this.access.load(params.treeId, this.getUserId(identity), 'owner');
+    if (existing.status !== 'archived') {
+      throw new ConflictError(`Tree ${params.treeId} is not archived`);
+    }
+    if (existing.purgeStartedAt) {
+      throw new ConflictError(`Tree ${params.treeId} is being deleted and can no longer be restored`);
+    }
+
+    const restored: TreeItem = {
+      ...existing,
+      status: 'active',
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    delete restored.archivedAt;
+    await this.saveTree(restored, existing.version);
+
+    return this.treeResponse(restored, context.awsRequestId, 'Tree restored');
+  }
+
+  private treeResponse(
+    item: TreeItem,
+    requestId: string,
+    message?: string,
+    statusCode?: number
+  ): APIGatewayProxyResult {
+    const response = this.createSuccessResponse(toTree(item), requestId, message, statusCode);
+    response.headers[ETAG_HEADER] = etagFor(item.version);
+    return response;
+  }
+
+  private conflict(current: TreeItem): ConflictError {
+    return new ConflictError(`Tree ${current.treeId} was changed by another request`, {
+      current: toTree(current),
+    });
+  }
+
+  private getUserId(identity?: CallerIdentity): string {
+    if (!identity) {
+      throw new UnauthorizedError();
+    }
+    return identity.userId;
+  }
+
+  /**
+   * Write the tree if the stored copy is still at expectedVersion, otherwise
+   * throw a ConflictError with the stored copy
+   */
+  private async saveTree(item: TreeItem, expectedVersion: number): Promise<void> {
+    if (!(await this.trees.save(item, expectedVersion))) {
+      const current = await this.trees.get(item.treeId, item.userId);
+      if (!current) {
+        throw new NotFoundError(`Tree ${item.treeId} not found`);
+      }
+      throw this.conflict(current);
+    }
+  }
+
+  /**
+   * Save the tree's reassessed status, starting over from the stored copy
+   * when another write got there first
+   */
+  private async updateStatus(tree: TreeItem): Promise<TreeItem> {
+    let current = tree;
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      const updated: TreeItem = {
+        ...current,
+        currentStatus: await this.growth.reassess(current),
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      if (await this.trees.save(updated, current.version)) {
+        return updated;
+      }
+      const stored = await this.trees.get(tree.treeId, tree.userId);
+      if (!stored) {
+        throw new NotFoundError(`Tree ${tree.treeId} not found`);
+      }
+      current = stored;
+    }
+    throw new ConflictError(`Tree ${tree.treeId} is changing too often to update`);
+  }
+
+  private async countActiveTrees(userId: string): Promise<number> {
+    return (await this.trees.listAllByUser(userId)).filter((item) => item.status === 'active').length;
+  }
+}
+
+// Export handler
+const treesHandler = new TreesHandler();
+export const handler = (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => treesHandler.handler(event, context);
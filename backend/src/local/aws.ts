@@ -0,0 +1,113 @@
+/**
+ * Points the aws-sdk service clients at the local fakes
+ *
+ * Replaces DynamoDB (with its DocumentClient), S3 and
+ * CognitoIdentityServiceProvider on the aws-sdk module with clients backed by
+ * a LocalAws. Handlers create their clients when their module loads, so
+ * install before loading any handler.
+ */
+import AWS = require('aws-sdk');
+import { LocalUserPool } from './cognito';
+import { LocalDynamoDB } from './dynamodb';
+import { LocalS3 } from './s3';
+
+export interface LocalAws {
+  dynamodb: LocalDynamoDB;
+  s3: LocalS3;
+  userPool: LocalUserPool;
+}
+
+// What the SDK's request objects offer that the handlers use
+const request = <T>(run: () => T) => ({
+  promise: (): Promise<T> => Promise.resolve().then(run),
+});
+
+export const localAwsServices = ({ dynamodb, s3, userPool }: LocalAws) => {
+  class DocumentClient {
+    get(params: Parameters<LocalDynamoDB['get']>[0]) {
+      return request(() => dynamodb.get(params));
+    }
+
+    put(params: Parameters<LocalDynamoDB['put']>[0]) {
+      return request(() => dynamodb.put(params));
+    }
+
+    update(params: Parameters<LocalDynamoDB['update']>[0]) {
+      return request(() => dynamodb.update(params));
+    }
+
+    delete(params: Parameters<LocalDynamoDB['delete']>[0]) {
+      return request(() => dynamodb.delete(params));
+    }
+
+    query(params: Parameters<LocalDynamoDB['query']>[0]) {
+      return request(() => dynamodb.query(params));
+    }
+
+    scan(params: Parameters<LocalDynamoDB['scan']>[0]) {
+      return request(() => dynamodb.scan(params));
+    }
+  }
+
+  class DynamoDB {
+    static DocumentClient = DocumentClient;
+
+    describeTable(params: Parameters<LocalDynamoDB['describeTable']>[0]) {
+      return request(() => dynamodb.describeTable(params));
+    }
+  }
+
+  class S3 {
+    headBucket(params: Parameters<LocalS3['headBucket']>[0]) {
+      return request(() => s3.headBucket(params));
+    }
+
+    putObject(params: Parameters<LocalS3['putObject']>[0]) {
+      return request(() => s3.putObject(params));
+    }
+
+    getObject(params: Parameters<LocalS3['getObject']>[0]) {
+      return request(() => s3.getObject(params));
+    }
+
+    headObject(params: Parameters<LocalS3['headObject']>[0]) {
+      return request(() => s3.headObject(params));
+    }
+
+    deleteObject(params: Parameters<LocalS3['deleteObject']>[0]) {
+      return request(() => s3.deleteObject(params));
+    }
+
+    deleteObjects(params: Parameters<LocalS3['deleteObjects']>[0]) {
+      return request(() => s3.deleteObjects(params));
+    }
+
+    listObjectsV2(params: Parameters<LocalS3['listObjectsV2']>[0]) {
+      return request(() => s3.listObjectsV2(params));
+    }
+
+    getSignedUrlPromise(operation: string, params: Parameters<LocalS3['getSignedUrl']>[1]): Promise<string> {
+      return request(() => s3.getSignedUrl(operation, params)).promise();
+    }
+  }
+
+  class CognitoIdentityServiceProvider {
+    describeUserPool(params: Parameters<LocalUserPool['describeUserPool']>[0]) {
+      return request(() => userPool.describeUserPool(params));
+    }
+
+    signUp(params: Parameters<LocalUserPool['signUp']>[0]) {
+      return request(() => userPool.signUp(params));
+    }
+
+    initiateAuth(params: Parameters<LocalUserPool['initiateAuth']>[0]) {
+      return request(() => userPool.initiateAuth(params));
+    }
+  }
+
+  return { DynamoDB, S3, CognitoIdentityServiceProvider };
+};
+
+export const installLocalAws = (aws: LocalAws): void => {
+  Object.assign(AWS, localAwsServices(aws));
+};
@@ -0,0 +1,165 @@
+/**
+ * In-memory Cognito user pool for the local API server
+ *
+ * Users sign up (confirmed straight away) and sign in with USER_PASSWORD_AUTH
+ * or REFRESH_TOKEN_AUTH, getting ID and access tokens shaped like Cognito's
+ * and signed with a key generated at startup. keyProvider() hands that key to
+ * configureAuth, so the handlers verify local tokens exactly as they verify
+ * real ones.
+ */
+import { generateKeyPairSync, randomBytes, randomUUID } from 'crypto';
+import { CognitoIdentityServiceProvider } from 'aws-sdk';
+import jwt from 'jsonwebtoken';
+import { SigningKeyProvider, StaticKeyProvider } from '../middleware/auth';
+import { SubscriptionTier } from '../models/subscription';
+import { awsError } from './errors';
+
+const SIGNING_KID = 'local';
+const TOKEN_TTL_SECONDS = 60 * 60;
+const MIN_PASSWORD_LENGTH = 8;
+const TIER_ATTRIBUTE = 'custom:subscription_tier';
+
+export interface LocalUser {
+  email: string;
+  password: string;
+  tier?: SubscriptionTier;
+}
+
+interface StoredUser {
+  sub: string;
+  email: string;
+  password: string;
+  attributes: Record<string, string>;
+}
+
+export class LocalUserPool {
+  readonly userPoolId: string;
+  readonly clientId = 'local-client';
+  readonly issuer: string;
+  private keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  // Keyed by lower-cased email, which is the username
+  private users = new Map<string, StoredUser>();
+  private refreshTokens = new Map<string, string>();
+
+  constructor(region: string) {
+    // Same shape as a real pool id, so the issuer derived from it matches
+    this.userPoolId = `${region}_local`;
+    this.issuer = `https://cognito-idp.${region}.amazonaws.com/${this.userPoolId}`;
+  }
+
+  keyProvider(): SigningKeyProvider {
+    return new StaticKeyProvider({ [SIGNING_KID]: this.keyPair.publicKey });
+  }
+
+  /**
+   * Add a confirmed user directly, e.g. to seed the pool at startup
+   */
+  addUser({ email, password, tier = 'free' }: LocalUser): string {
+    return this.signUp({
+      ClientId: this.clientId,
+      Username: email,
+      Password: password,
+      UserAttributes: [{ Name: TIER_ATTRIBUTE, Value: tier }],
+    }).UserSub;
+  }
+
+  describeUserPool({ UserPoolId }: CognitoIdentityServiceProvider.DescribeUserPoolRequest): CognitoIdentityServiceProvider.DescribeUserPoolResponse {
+    if (UserPoolId !== this.userPoolId) {
+      throw awsError('ResourceNotFoundException', `User pool ${UserPoolId} does not exist.`);
+    }
+    return {
+      UserPool: {
+        Id: this.userPoolId,
+        Name: 'TreeCare local',
+        Status: 'Enabled',
+        EstimatedNumberOfUsers: this.users.size,
+      },
+    };
+  }
+
+  signUp({ ClientId, Username, Password, UserAttributes = [] }: CognitoIdentityServiceProvider.SignUpRequest): CognitoIdentityServiceProvider.SignUpResponse {
+    this.checkClient(ClientId);
+    const email = Username.toLowerCase();
+    if (this.users.has(email)) {
+      throw awsError('UsernameExistsException', 'An account with the given email already exists.');
+    }
+    if (Password.length < MIN_PASSWORD_LENGTH) {
+      throw awsError(
+        'InvalidPasswordException',
+        `Password did not conform with policy: Password not long enough (minimum ${MIN_PASSWORD_LENGTH})`
+      );
+    }
+
+    const sub = randomUUID();
+    const attributes = Object.fromEntries(UserAttributes.map(({ Name, Value }) => [Name, Value ?? '']));
+    this.users.set(email, { sub, email, password: Password, attributes: { email, ...attributes } });
+    return { UserConfirmed: true, UserSub: sub };
+  }
+
+  initiateAuth({ AuthFlow, ClientId, AuthParameters = {} }: CognitoIdentityServiceProvider.InitiateAuthRequest): CognitoIdentityServiceProvider.InitiateAuthResponse {
+    this.checkClient(ClientId);
+
+    if (AuthFlow === 'USER_PASSWORD_AUTH') {
+      const user = this.users.get((AuthParameters.USERNAME ?? '').toLowerCase());
+      if (!user || user.password !== AuthParameters.PASSWORD) {
+        throw awsError('NotAuthorizedException', 'Incorrect username or password.');
+      }
+      const refreshToken = randomBytes(32).toString('base64url');
+      this.refreshTokens.set(refreshToken, user.email);
+      return { AuthenticationResult: { ...this.issueTokens(user), RefreshToken: refreshToken } };
+    }
+
+    if (AuthFlow === 'REFRESH_TOKEN_AUTH' || AuthFlow === 'REFRESH_TOKEN') {
+      const email = this.refreshTokens.get(AuthParameters.REFRESH_TOKEN ?? '');
+      const user = email && this.users.get(email);
+      if (!user) {
+        throw awsError('NotAuthorizedException', 'Invalid Refresh Token');
+      }
+      return { AuthenticationResult: this.issueTokens(user) };
+    }
+
+    throw awsError('InvalidParameterException', `The local user pool does not support ${AuthFlow}`);
+  }
+
+  private checkClient(clientId: string): void {
+    if (clientId !== this.clientId) {
+      throw awsError('ResourceNotFoundException', `User pool client ${clientId} does not exist.`);
+    }
+  }
+
+  private issueTokens(user: StoredUser): CognitoIdentityServiceProvider.AuthenticationResultType {
+    const options: jwt.SignOptions = {
+      algorithm: 'RS256',
+      keyid: SIGNING_KID,
+      issuer: this.issuer,
+      expiresIn: TOKEN_TTL_SECONDS,
+    };
+    const idToken = jwt.sign(
+      {
+        ...user.attributes,
+        sub: user.sub,
+        token_use: 'id',
+        aud: this.clientId,
+        'cognito:username': user.email,
+      },
+      this.keyPair.privateKey,
+      options
+    );
+    // Access tokens carry no custom attributes, so the tier travels as a group
+    const tier = user.attributes[TIER_ATTRIBUTE];
+    const accessToken = jwt.sign(
+      {
+        sub: user.sub,
+        token_use: 'access',
+        client_id: this.clientId,
+        username: user.email,
+        scope: 'aws.cognito.signin.user.admin',
+        ...(tier && { 'cognito:groups': [tier] }),
+      },
+      this.keyPair.privateKey,
+      options
+    );
+
+    return { IdToken: idToken, AccessToken: accessToken, ExpiresIn: TOKEN_TTL_SECONDS, TokenType: 'Bearer' };
+  }
+}
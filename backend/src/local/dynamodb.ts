@@ -0,0 +1,275 @@
+/**
+ * In-memory DynamoDB for the local API server
+ *
+ * Implements the DocumentClient operations the handlers use (get, put,
+ * update, delete, query and scan) and describeTable, against tables declared
+ * up front with the same keys and indexes as the deployed ones. Queries and
+ * scans page like DynamoDB: Limit counts items read before the filter, and
+ * LastEvaluatedKey carries the table and index keys of the last item read.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { awsError } from './errors';
+import {
+  applyUpdate,
+  compareValues,
+  compileCondition,
+  compileProjection,
+  ExpressionAttributes,
+  Item,
+  matchesCondition,
+} from './expressions';
+import { KeySchema, TableDefinition } from './tables';
+
+interface Table {
+  definition: TableDefinition;
+  // Keyed by the serialized primary key
+  items: Map<string, Item>;
+}
+
+interface ReadParams {
+  TableName: string;
+  IndexName?: string;
+  FilterExpression?: string;
+  ProjectionExpression?: string;
+  ExpressionAttributeNames?: DynamoDB.DocumentClient.ExpressionAttributeNameMap;
+  ExpressionAttributeValues?: DynamoDB.DocumentClient.ExpressionAttributeValueMap;
+  Limit?: number;
+  ExclusiveStartKey?: DynamoDB.DocumentClient.Key;
+  Select?: string;
+}
+
+const keyAttributes = ({ partitionKey, sortKey }: KeySchema): string[] =>
+  sortKey ? [partitionKey, sortKey] : [partitionKey];
+
+const keySchema = (keys: KeySchema): DynamoDB.KeySchema =>
+  keyAttributes(keys).map((AttributeName, index) => ({ AttributeName, KeyType: index === 0 ? 'HASH' : 'RANGE' }));
+
+const pick = (item: Item, attributes: string[]): Item =>
+  Object.fromEntries(attributes.filter((name) => item[name] !== undefined).map((name) => [name, item[name]]));
+
+const expressionAttributes = (params: {
+  ExpressionAttributeNames?: DynamoDB.DocumentClient.ExpressionAttributeNameMap;
+  ExpressionAttributeValues?: DynamoDB.DocumentClient.ExpressionAttributeValueMap;
+}): ExpressionAttributes => ({ names: params.ExpressionAttributeNames, values: params.ExpressionAttributeValues });
+
+export class LocalDynamoDB {
+  private tables = new Map<string, Table>();
+
+  constructor(definitions: TableDefinition[]) {
+    definitions.forEach((definition) => this.tables.set(definition.name, { definition, items: new Map() }));
+  }
+
+  describeTable({ TableName }: DynamoDB.DescribeTableInput): DynamoDB.DescribeTableOutput {
+    const { definition, items } = this.table(TableName);
+    return {
+      Table: {
+        TableName,
+        TableStatus: 'ACTIVE',
+        ItemCount: items.size,
+        KeySchema: keySchema(definition),
+        GlobalSecondaryIndexes: Object.entries(definition.indexes ?? {}).map(([IndexName, keys]) => ({
+          IndexName,
+          IndexStatus: 'ACTIVE',
+          KeySchema: keySchema(keys),
+        })),
+      },
+    };
+  }
+
+  get(params: DynamoDB.DocumentClient.GetItemInput): DynamoDB.DocumentClient.GetItemOutput {
+    const table = this.table(params.TableName);
+    const item = table.items.get(this.primaryKey(table, params.Key, true));
+    if (!item) {
+      return {};
+    }
+    return {
+      Item: params.ProjectionExpression
+        ? compileProjection(params.ProjectionExpression, expressionAttributes(params))(item)
+        : structuredClone(item),
+    };
+  }
+
+  put(params: DynamoDB.DocumentClient.PutItemInput): DynamoDB.DocumentClient.PutItemOutput {
+    const table = this.table(params.TableName);
+    const key = this.primaryKey(table, params.Item);
+    const existing = table.items.get(key);
+
+    this.checkCondition(params, existing);
+    table.items.set(key, structuredClone(params.Item));
+    return this.returnValues(params.ReturnValues, existing, undefined);
+  }
+
+  update(params: DynamoDB.DocumentClient.UpdateItemInput): DynamoDB.DocumentClient.UpdateItemOutput {
+    const table = this.table(params.TableName);
+    const key = this.primaryKey(table, params.Key, true);
+    const existing = table.items.get(key);
+
+    this.checkCondition(params, existing);
+    if (!params.UpdateExpression) {
+      throw awsError('ValidationException', 'The local DynamoDB only supports updates with an UpdateExpression');
+    }
+    const updated = applyUpdate(
+      params.UpdateExpression,
+      structuredClone(existing ?? params.Key),
+      expressionAttributes(params)
+    );
+    if (this.primaryKey(table, updated) !== key) {
+      throw awsError('ValidationException', 'Cannot update attribute; this attribute is part of the key');
+    }
+
+    table.items.set(key, updated);
+    return this.returnValues(params.ReturnValues, existing, updated);
+  }
+
+  delete(params: DynamoDB.DocumentClient.DeleteItemInput): DynamoDB.DocumentClient.DeleteItemOutput {
+    const table = this.table(params.TableName);
+    const key = this.primaryKey(table, params.Key, true);
+    const existing = table.items.get(key);
+
+    this.checkCondition(params, existing);
+    table.items.delete(key);
+    return this.returnValues(params.ReturnValues, existing, undefined);
+  }
+
+  query(params: DynamoDB.DocumentClient.QueryInput): DynamoDB.DocumentClient.QueryOutput {
+    if (!params.KeyConditionExpression) {
+      throw awsError('ValidationException', 'Either the KeyConditions or KeyConditionExpression parameter must be specified');
+    }
+    const table = this.table(params.TableName);
+    const keyCondition = compileCondition(params.KeyConditionExpression, expressionAttributes(params));
+    const items = this.readableItems(table, params.IndexName).filter(keyCondition);
+
+    return this.page(table, items, params, params.ScanIndexForward !== false);
+  }
+
+  scan(params: DynamoDB.DocumentClient.ScanInput): DynamoDB.DocumentClient.ScanOutput {
+    const table = this.table(params.TableName);
+    return this.page(table, this.readableItems(table, params.IndexName), params, true);
+  }
+
+  private table(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw awsError('ResourceNotFoundException', `Requested resource not found: Table: ${name} not found`);
+    }
+    return table;
+  }
+
+  private indexKeys(table: Table, indexName?: string): KeySchema {
+    if (!indexName) {
+      return table.definition;
+    }
+    const keys = table.definition.indexes?.[indexName];
+    if (!keys) {
+      throw awsError(
+        'ValidationException',
+        `The table does not have the specified index: ${indexName}`
+      );
+    }
+    return keys;
+  }
+
+  /**
+   * Items of the table or index. Indexes are sparse: items without the
+   * index's key attributes are not in them.
+   */
+  private readableItems(table: Table, indexName?: string): Item[] {
+    const attributes = keyAttributes(this.indexKeys(table, indexName));
+    return [...table.items.values()].filter((item) => attributes.every((name) => item[name] !== undefined));
+  }
+
+  /**
+   * The serialized primary key of an item or Key parameter. A Key must name
+   * exactly the key attributes.
+   */
+  private primaryKey(table: Table, item: Item, exact = false): string {
+    const attributes = keyAttributes(table.definition);
+    const values = attributes.map((name) => item[name]);
+
+    if (values.some((value) => typeof value !== 'string' && typeof value !== 'number')) {
+      throw awsError('ValidationException', 'One or more parameter values were invalid: Missing the key attributes');
+    }
+    if (exact && Object.keys(item).length !== attributes.length) {
+      throw awsError('ValidationException', 'The provided key element does not match the schema');
+    }
+    return JSON.stringify(values);
+  }
+
+  private checkCondition(
+    params: {
+      ConditionExpression?: string;
+      ExpressionAttributeNames?: DynamoDB.DocumentClient.ExpressionAttributeNameMap;
+      ExpressionAttributeValues?: DynamoDB.DocumentClient.ExpressionAttributeValueMap;
+    },
+    existing: Item | undefined
+  ): void {
+    if (
+      params.ConditionExpression &&
+      !matchesCondition(params.ConditionExpression, existing ?? {}, expressionAttributes(params))
+    ) {
+      throw awsError('ConditionalCheckFailedException', 'The conditional request failed');
+    }
+  }
+
+  private returnValues(
+    returnValues: string | undefined,
+    before: Item | undefined,
+    after: Item | undefined
+  ): { Attributes?: Item } {
+    switch (returnValues ?? 'NONE') {
+      case 'NONE':
+        return {};
+      case 'ALL_OLD':
+        return before ? { Attributes: structuredClone(before) } : {};
+      case 'ALL_NEW':
+        return after ? { Attributes: structuredClone(after) } : {};
+      default:
+        throw awsError('ValidationException', `ReturnValues ${returnValues} is not supported by the local DynamoDB`);
+    }
+  }
+
+  /**
+   * One page of items in key order, starting after ExclusiveStartKey
+   */
+  private page(
+    table: Table,
+    items: Item[],
+    params: ReadParams,
+    ascending: boolean
+  ): { Items?: Item[]; Count: number; ScannedCount: number; LastEvaluatedKey?: DynamoDB.DocumentClient.Key } {
+    // Index order, then table key order for items with the same index sort key
+    const indexKeys = this.indexKeys(table, params.IndexName);
+    const orderBy = [...new Set([...keyAttributes(indexKeys), ...keyAttributes(table.definition)])];
+    const direction = ascending ? 1 : -1;
+    const order = (a: Item, b: Item): number => {
+      for (const name of orderBy) {
+        const difference = compareValues(a[name], b[name]) ?? 0;
+        if (difference !== 0) {
+          return difference * direction;
+        }
+      }
+      return 0;
+    };
+
+    const sorted = [...items].sort(order);
+    const startKey = params.ExclusiveStartKey;
+    const start = startKey ? sorted.findIndex((item) => order(item, startKey) > 0) : 0;
+    const remaining = start === -1 ? [] : sorted.slice(start);
+    const scanned = params.Limit !== undefined ? remaining.slice(0, params.Limit) : remaining;
+
+    const attributes = expressionAttributes(params);
+    const filter = params.FilterExpression ? compileCondition(params.FilterExpression, attributes) : () => true;
+    const project = params.ProjectionExpression
+      ? compileProjection(params.ProjectionExpression, attributes)
+      : (item: Item) => structuredClone(item);
+    const matched = scanned.filter(filter);
+    const last = scanned[scanned.length - 1];
+
+    return {
+      ...(params.Select !== 'COUNT' && { Items: matched.map(project) }),
+      Count: matched.length,
+      ScannedCount: scanned.length,
+      ...(scanned.length < remaining.length && { LastEvaluatedKey: pick(last, orderBy) }),
+    };
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Errors shaped like the ones AWS SDK calls reject with, so handler code that
+ * checks `error.code` or `error.statusCode` behaves the same locally
+ */
+export interface AwsError extends Error {
+  code: string;
+  statusCode: number;
+}
+
+export const awsError = (code: string, message: string, statusCode = 400): AwsError =>
+  Object.assign(new Error(message), { name: code, code, statusCode });
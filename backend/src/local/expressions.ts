@@ -0,0 +1,597 @@
+/**
+ * DynamoDB expressions for the local DynamoDB
+ *
+ * Condition, filter and key condition expressions support the comparison
+ * operators, BETWEEN, IN, AND/OR/NOT and the attribute_exists,
+ * attribute_not_exists, begins_with, contains and size functions. Update
+ * expressions support SET (with +, -, if_not_exists and list_append), REMOVE
+ * and ADD on numbers. Anything else is a ValidationException, as it would be
+ * for an expression DynamoDB cannot parse.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { awsError } from './errors';
+
+export type Item = DynamoDB.DocumentClient.AttributeMap;
+
+export interface ExpressionAttributes {
+  names?: DynamoDB.DocumentClient.ExpressionAttributeNameMap;
+  values?: DynamoDB.DocumentClient.ExpressionAttributeValueMap;
+}
+
+type Path = (string | number)[];
+
+type Operand =
+  | { kind: 'path'; path: Path }
+  | { kind: 'value'; value: unknown }
+  | { kind: 'size'; path: Path };
+
+type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+type Condition =
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; condition: Condition }
+  | { kind: 'compare'; comparator: Comparator; left: Operand; right: Operand }
+  | { kind: 'between'; operand: Operand; low: Operand; high: Operand }
+  | { kind: 'in'; operand: Operand; options: Operand[] }
+  | { kind: 'function'; name: ConditionFunction; args: Operand[] };
+
+type ConditionFunction = 'attribute_exists' | 'attribute_not_exists' | 'begins_with' | 'contains';
+
+type UpdateValue =
+  | Operand
+  | { kind: 'arithmetic'; operator: '+' | '-'; left: UpdateValue; right: UpdateValue }
+  | { kind: 'if_not_exists'; path: Path; fallback: UpdateValue }
+  | { kind: 'list_append'; left: UpdateValue; right: UpdateValue };
+
+type UpdateAction =
+  | { kind: 'set'; path: Path; value: UpdateValue }
+  | { kind: 'remove'; path: Path }
+  | { kind: 'add'; path: Path; value: unknown };
+
+interface Token {
+  type: 'name' | 'attributeName' | 'attributeValue' | 'number' | 'symbol' | 'end';
+  text: string;
+}
+
+const TOKEN_PATTERN = /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<=|>=|<>|[=<>(),.[\]+-]))/y;
+const COMPARATORS: string[] = ['=', '<>', '<', '<=', '>', '>='];
+const CONDITION_FUNCTIONS: string[] = ['attribute_exists', 'attribute_not_exists', 'begins_with', 'contains'];
+
+const invalid = (message: string) => awsError('ValidationException', message);
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      if (expression.slice(start).trim() === '') {
+        break;
+      }
+      throw invalid(`Invalid expression: unexpected "${expression.slice(start).trim()}"`);
+    }
+    const [, attributeName, attributeValue, name, number, symbol] = match;
+    if (attributeName) tokens.push({ type: 'attributeName', text: attributeName });
+    else if (attributeValue) tokens.push({ type: 'attributeValue', text: attributeValue });
+    else if (name) tokens.push({ type: 'name', text: name });
+    else if (number) tokens.push({ type: 'number', text: number });
+    else tokens.push({ type: 'symbol', text: symbol });
+  }
+
+  tokens.push({ type: 'end', text: '' });
+  return tokens;
+};
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+  private attributes: ExpressionAttributes;
+
+  constructor(expression: string, attributes: ExpressionAttributes) {
+    this.tokens = tokenize(expression);
+    this.attributes = attributes;
+  }
+
+  condition(): Condition {
+    const condition = this.or();
+    this.expectEnd();
+    return condition;
+  }
+
+  update(): UpdateAction[] {
+    const actions: UpdateAction[] = [];
+
+    while (this.peek().type !== 'end') {
+      const clause = this.next();
+      const keyword = clause.type === 'name' ? clause.text.toUpperCase() : '';
+      do {
+        if (keyword === 'SET') {
+          const path = this.path();
+          this.expect('=');
+          actions.push({ kind: 'set', path, value: this.updateValue() });
+        } else if (keyword === 'REMOVE') {
+          actions.push({ kind: 'remove', path: this.path() });
+        } else if (keyword === 'ADD') {
+          actions.push({ kind: 'add', path: this.path(), value: this.attributeValue(this.next()) });
+        } else {
+          throw invalid(`Invalid UpdateExpression: unsupported clause "${clause.text}"`);
+        }
+      } while (this.accept(','));
+    }
+
+    if (actions.length === 0) {
+      throw invalid('Invalid UpdateExpression: the expression is empty');
+    }
+    return actions;
+  }
+
+  projection(): Path[] {
+    const paths = [this.path()];
+    while (this.accept(',')) {
+      paths.push(this.path());
+    }
+    this.expectEnd();
+    return paths;
+  }
+
+  private or(): Condition {
+    let left = this.and();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Condition {
+    let left = this.not();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Condition {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', condition: this.not() };
+    }
+    return this.primary();
+  }
+
+  private primary(): Condition {
+    if (this.accept('(')) {
+      const condition = this.or();
+      this.expect(')');
+      return condition;
+    }
+
+    const token = this.peek();
+    if (token.type === 'name' && CONDITION_FUNCTIONS.includes(token.text)) {
+      this.next();
+      return { kind: 'function', name: token.text as ConditionFunction, args: this.arguments() };
+    }
+
+    const operand = this.operand();
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.operand();
+      this.expectKeyword('AND');
+      return { kind: 'between', operand, low, high: this.operand() };
+    }
+    if (this.acceptKeyword('IN')) {
+      return { kind: 'in', operand, options: this.arguments() };
+    }
+
+    const comparator = this.next();
+    if (comparator.type !== 'symbol' || !COMPARATORS.includes(comparator.text)) {
+      throw invalid(`Invalid expression: expected a comparison, found "${comparator.text}"`);
+    }
+    return { kind: 'compare', comparator: comparator.text as Comparator, left: operand, right: this.operand() };
+  }
+
+  private arguments(): Operand[] {
+    this.expect('(');
+    const args = [this.operand()];
+    while (this.accept(',')) {
+      args.push(this.operand());
+    }
+    this.expect(')');
+    return args;
+  }
+
+  private operand(): Operand {
+    const token = this.peek();
+    if (token.type === 'attributeValue') {
+      this.next();
+      return { kind: 'value', value: this.attributeValue(token) };
+    }
+    if (token.type === 'name' && token.text === 'size') {
+      this.next();
+      this.expect('(');
+      const path = this.path();
+      this.expect(')');
+      return { kind: 'size', path };
+    }
+    return { kind: 'path', path: this.path() };
+  }
+
+  private updateValue(): UpdateValue {
+    const left = this.updateOperand();
+    const operator = this.peek().text;
+    if (operator === '+' || operator === '-') {
+      this.next();
+      return { kind: 'arithmetic', operator, left, right: this.updateOperand() };
+    }
+    return left;
+  }
+
+  private updateOperand(): UpdateValue {
+    const token = this.peek();
+    if (token.type === 'name' && token.text === 'if_not_exists') {
+      this.next();
+      this.expect('(');
+      const path = this.path();
+      this.expect(',');
+      const fallback = this.updateValue();
+      this.expect(')');
+      return { kind: 'if_not_exists', path, fallback };
+    }
+    if (token.type === 'name' && token.text === 'list_append') {
+      this.next();
+      this.expect('(');
+      const left = this.updateValue();
+      this.expect(',');
+      const right = this.updateValue();
+      this.expect(')');
+      return { kind: 'list_append', left, right };
+    }
+    return this.operand();
+  }
+
+  private path(): Path {
+    const path: Path = [this.attributeName(this.next())];
+    for (;;) {
+      if (this.accept('.')) {
+        path.push(this.attributeName(this.next()));
+      } else if (this.accept('[')) {
+        const index = this.next();
+        if (index.type !== 'number') {
+          throw invalid(`Invalid expression: expected a list index, found "${index.text}"`);
+        }
+        path.push(Number(index.text));
+        this.expect(']');
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private attributeName(token: Token): string {
+    if (token.type === 'name') {
+      return token.text;
+    }
+    if (token.type === 'attributeName') {
+      const name = this.attributes.names?.[token.text];
+      if (name === undefined) {
+        throw invalid(`An expression attribute name used in the document path is not defined: ${token.text}`);
+      }
+      return name;
+    }
+    throw invalid(`Invalid expression: expected an attribute name, found "${token.text}"`);
+  }
+
+  private attributeValue(token: Token): unknown {
+    if (token.type !== 'attributeValue') {
+      throw invalid(`Invalid expression: expected an attribute value, found "${token.text}"`);
+    }
+    if (!this.attributes.values || !(token.text in this.attributes.values)) {
+      throw invalid(`An expression attribute value used in expression is not defined: ${token.text}`);
+    }
+    return this.attributes.values[token.text];
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private accept(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.text === symbol) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'name' && token.text.toUpperCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(symbol: string): void {
+    if (!this.accept(symbol)) {
+      throw invalid(`Invalid expression: expected "${symbol}", found "${this.peek().text || 'end of expression'}"`);
+    }
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw invalid(`Invalid expression: expected ${keyword}, found "${this.peek().text || 'end of expression'}"`);
+    }
+  }
+
+  private expectEnd(): void {
+    if (this.peek().type !== 'end') {
+      throw invalid(`Invalid expression: unexpected "${this.peek().text}"`);
+    }
+  }
+}
+
+const resolvePath = (item: unknown, path: Path): unknown =>
+  path.reduce<unknown>((value, element) => {
+    if (typeof element === 'number') {
+      return Array.isArray(value) ? value[element] : undefined;
+    }
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)[element]
+      : undefined;
+  }, item);
+
+const sizeOf = (value: unknown): number | undefined => {
+  if (typeof value === 'string' || Array.isArray(value) || Buffer.isBuffer(value)) {
+    return value.length;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value).length;
+  }
+  return undefined;
+};
+
+const operandValue = (item: Item, operand: Operand): unknown => {
+  switch (operand.kind) {
+    case 'value':
+      return operand.value;
+    case 'path':
+      return resolvePath(item, operand.path);
+    case 'size':
+      return sizeOf(resolvePath(item, operand.path));
+  }
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Ordering between two numbers or two strings; undefined when they cannot be
+ * compared, which makes every ordering comparison false
+ */
+export const compareValues = (a: unknown, b: unknown): number | undefined => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+};
+
+const compare = (comparator: Comparator, a: unknown, b: unknown): boolean => {
+  if (comparator === '=') {
+    return a !== undefined && isEqual(a, b);
+  }
+  if (comparator === '<>') {
+    return !isEqual(a, b);
+  }
+
+  const order = compareValues(a, b);
+  if (order === undefined) {
+    return false;
+  }
+  switch (comparator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+  }
+};
+
+const callFunction = (item: Item, name: ConditionFunction, args: Operand[]): boolean => {
+  const [first, second] = args;
+  const pathArgument = () => {
+    if (first?.kind !== 'path') {
+      throw invalid(`Invalid expression: ${name} takes an attribute path as its first argument`);
+    }
+    return resolvePath(item, first.path);
+  };
+
+  switch (name) {
+    case 'attribute_exists':
+      return pathArgument() !== undefined;
+    case 'attribute_not_exists':
+      return pathArgument() === undefined;
+    case 'begins_with': {
+      const value = pathArgument();
+      const prefix = second && operandValue(item, second);
+      return typeof value === 'string' && typeof prefix === 'string' && value.startsWith(prefix);
+    }
+    case 'contains': {
+      const value = pathArgument();
+      const member = second && operandValue(item, second);
+      if (typeof value === 'string') {
+        return typeof member === 'string' && value.includes(member);
+      }
+      return Array.isArray(value) && value.some((element) => isEqual(element, member));
+    }
+  }
+};
+
+const evaluate = (item: Item, condition: Condition): boolean => {
+  switch (condition.kind) {
+    case 'and':
+      return evaluate(item, condition.left) && evaluate(item, condition.right);
+    case 'or':
+      return evaluate(item, condition.left) || evaluate(item, condition.right);
+    case 'not':
+      return !evaluate(item, condition.condition);
+    case 'compare':
+      return compare(condition.comparator, operandValue(item, condition.left), operandValue(item, condition.right));
+    case 'between': {
+      const value = operandValue(item, condition.operand);
+      return (
+        compare('>=', value, operandValue(item, condition.low)) &&
+        compare('<=', value, operandValue(item, condition.high))
+      );
+    }
+    case 'in': {
+      const value = operandValue(item, condition.operand);
+      return condition.options.some((option) => compare('=', value, operandValue(item, option)));
+    }
+    case 'function':
+      return callFunction(item, condition.name, condition.args);
+  }
+};
+
+const updateValue = (item: Item, value: UpdateValue): unknown => {
+  switch (value.kind) {
+    case 'arithmetic': {
+      const left = updateValue(item, value.left);
+      const right = updateValue(item, value.right);
+      if (typeof left !== 'number' || typeof right !== 'number') {
+        throw invalid('An operand in the update expression has an incorrect data type');
+      }
+      return value.operator === '+' ? left + right : left - right;
+    }
+    case 'if_not_exists': {
+      const existing = resolvePath(item, value.path);
+      return existing === undefined ? updateValue(item, value.fallback) : existing;
+    }
+    case 'list_append': {
+      const left = updateValue(item, value.left);
+      const right = updateValue(item, value.right);
+      if (!Array.isArray(left) || !Array.isArray(right)) {
+        throw invalid('An operand in the update expression has an incorrect data type');
+      }
+      return [...left, ...right];
+    }
+    default:
+      return operandValue(item, value);
+  }
+};
+
+/**
+ * The object or list holding the last element of the path, optionally
+ * creating missing maps on the way (for projections)
+ */
+const parentOf = (item: Item, path: Path, create = false): any => {
+  let parent: any = item;
+  for (const element of path.slice(0, -1)) {
+    if (parent[element] === undefined && create) {
+      parent[element] = {};
+    }
+    parent = parent[element];
+    if (parent === null || typeof parent !== 'object') {
+      throw invalid('The document path provided in the update expression is invalid for update');
+    }
+  }
+  return parent;
+};
+
+const setPath = (item: Item, path: Path, value: unknown): void => {
+  const parent = parentOf(item, path);
+  const last = path[path.length - 1];
+  if (Array.isArray(parent) && typeof last === 'number' && last >= parent.length) {
+    parent.push(value);
+  } else {
+    parent[last] = value;
+  }
+};
+
+const removePath = (item: Item, path: Path): void => {
+  const parent = resolvePath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+  if (Array.isArray(parent) && typeof last === 'number') {
+    parent.splice(last, 1);
+  } else if (parent !== null && typeof parent === 'object') {
+    delete (parent as Record<string, unknown>)[last];
+  }
+};
+
+/**
+ * Parse a condition, filter or key condition expression once, for checking
+ * against many items
+ */
+export const compileCondition = (expression: string, attributes: ExpressionAttributes) => {
+  const condition = new Parser(expression, attributes).condition();
+  return (item: Item): boolean => evaluate(item, condition);
+};
+
+/**
+ * Whether the item satisfies a condition expression. A missing item is
+ * checked as an empty one, so attribute_not_exists holds.
+ */
+export const matchesCondition = (expression: string, item: Item, attributes: ExpressionAttributes): boolean =>
+  compileCondition(expression, attributes)(item);
+
+/**
+ * Apply an update expression to the item in place. Every value is computed
+ * from the item as it was before the update, as DynamoDB does.
+ */
+export const applyUpdate = (expression: string, item: Item, attributes: ExpressionAttributes): Item => {
+  const actions = new Parser(expression, attributes).update();
+  const before = structuredClone(item);
+  const values = actions.map((action) => (action.kind === 'set' ? updateValue(before, action.value) : undefined));
+
+  actions.forEach((action, index) => {
+    switch (action.kind) {
+      case 'set':
+        setPath(item, action.path, values[index]);
+        break;
+      case 'remove':
+        removePath(item, action.path);
+        break;
+      case 'add': {
+        const existing = resolvePath(before, action.path) ?? 0;
+        if (typeof existing !== 'number' || typeof action.value !== 'number') {
+          throw invalid('ADD is only supported for numbers by the local DynamoDB');
+        }
+        setPath(item, action.path, existing + action.value);
+        break;
+      }
+    }
+  });
+
+  return item;
+};
+
+/**
+ * Parse a ProjectionExpression into a function keeping only the attributes it
+ * names
+ */
+export const compileProjection = (expression: string, attributes: ExpressionAttributes) => {
+  const paths = new Parser(expression, attributes).projection();
+  return (item: Item): Item => {
+    const projected: Item = {};
+    for (const path of paths) {
+      const value = resolvePath(item, path);
+      if (value !== undefined) {
+        parentOf(projected, path.map(String), true)[path[path.length - 1]] = value;
+      }
+    }
+    return projected;
+  };
+};
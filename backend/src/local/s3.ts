@@ -0,0 +1,140 @@
+/**
+ * In-memory S3 for the local API server
+ *
+ * Holds objects per bucket and implements the calls the handlers make.
+ * Presigned URLs point back at the local server (under PRESIGNED_PATH), which
+ * serves them with putObject and getObject, so clients upload and download
+ * photos the same way they do against S3.
+ */
+import { createHash } from 'crypto';
+import { S3 } from 'aws-sdk';
+import { awsError } from './errors';
+
+export const PRESIGNED_PATH = '/_s3';
+
+const MAX_KEYS = 1000;
+
+interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  lastModified: Date;
+  etag: string;
+}
+
+const toBuffer = (body: S3.Body | undefined): Buffer => {
+  if (body === undefined) {
+    return Buffer.alloc(0);
+  }
+  if (Buffer.isBuffer(body) || typeof body === 'string') {
+    return Buffer.from(body);
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body);
+  }
+  throw awsError('InvalidParameterType', 'The local S3 only accepts Buffer, Uint8Array or string bodies');
+};
+
+export class LocalS3 {
+  // Base URL presigned URLs point at; the local server sets it once listening
+  endpoint = 'http://localhost:3000';
+  private buckets = new Map<string, Map<string, StoredObject>>();
+
+  createBucket({ Bucket }: S3.CreateBucketRequest): S3.CreateBucketOutput {
+    if (!this.buckets.has(Bucket)) {
+      this.buckets.set(Bucket, new Map());
+    }
+    return { Location: `/${Bucket}` };
+  }
+
+  headBucket({ Bucket }: S3.HeadBucketRequest): object {
+    this.bucket(Bucket, 'NotFound');
+    return {};
+  }
+
+  putObject({ Bucket, Key, Body, ContentType }: S3.PutObjectRequest): S3.PutObjectOutput {
+    const body = toBuffer(Body);
+    const etag = `"${createHash('md5').update(body).digest('hex')}"`;
+    this.bucket(Bucket).set(Key, { body, contentType: ContentType, lastModified: new Date(), etag });
+    return { ETag: etag };
+  }
+
+  getObject({ Bucket, Key }: S3.GetObjectRequest): S3.GetObjectOutput {
+    const object = this.object(Bucket, Key, 'NoSuchKey');
+    return { ...this.metadata(object), Body: Buffer.from(object.body) };
+  }
+
+  headObject({ Bucket, Key }: S3.HeadObjectRequest): S3.HeadObjectOutput {
+    return this.metadata(this.object(Bucket, Key, 'NotFound'));
+  }
+
+  deleteObject({ Bucket, Key }: S3.DeleteObjectRequest): S3.DeleteObjectOutput {
+    this.bucket(Bucket).delete(Key);
+    return {};
+  }
+
+  deleteObjects({ Bucket, Delete }: S3.DeleteObjectsRequest): S3.DeleteObjectsOutput {
+    const objects = this.bucket(Bucket);
+    Delete.Objects.forEach(({ Key }) => objects.delete(Key));
+    return { Deleted: Delete.Quiet ? [] : Delete.Objects.map(({ Key }) => ({ Key })), Errors: [] };
+  }
+
+  listObjectsV2({ Bucket, Prefix = '', ContinuationToken, MaxKeys = MAX_KEYS }: S3.ListObjectsV2Request): S3.ListObjectsV2Output {
+    const keys = [...this.bucket(Bucket).keys()]
+      .filter((key) => key.startsWith(Prefix) && (!ContinuationToken || key > ContinuationToken))
+      .sort();
+    const page = keys.slice(0, Math.min(MaxKeys, MAX_KEYS));
+    const truncated = page.length < keys.length;
+
+    return {
+      Name: Bucket,
+      Prefix,
+      KeyCount: page.length,
+      IsTruncated: truncated,
+      ...(truncated && { NextContinuationToken: page[page.length - 1] }),
+      Contents: page.map((Key) => {
+        const object = this.bucket(Bucket).get(Key)!;
+        return { Key, Size: object.body.length, LastModified: object.lastModified, ETag: object.etag };
+      }),
+    };
+  }
+
+  /**
+   * A URL on the local server for getObject or putObject on the key, valid
+   * for `Expires` seconds
+   */
+  getSignedUrl(operation: string, params: { Bucket: string; Key: string; Expires?: number }): string {
+    if (operation !== 'getObject' && operation !== 'putObject') {
+      throw awsError('InvalidParameterValue', `The local S3 cannot presign ${operation}`);
+    }
+    this.bucket(params.Bucket);
+
+    const expires = Math.floor(Date.now() / 1000) + (params.Expires ?? 900);
+    const key = params.Key.split('/').map(encodeURIComponent).join('/');
+    return `${this.endpoint}${PRESIGNED_PATH}/${params.Bucket}/${key}?Expires=${expires}`;
+  }
+
+  private bucket(name: string, missingCode = 'NoSuchBucket'): Map<string, StoredObject> {
+    const bucket = this.buckets.get(name);
+    if (!bucket) {
+      throw awsError(missingCode, `The specified bucket does not exist: ${name}`, 404);
+    }
+    return bucket;
+  }
+
+  private object(bucket: string, key: string, missingCode: string): StoredObject {
+    const object = this.bucket(bucket).get(key);
+    if (!object) {
+      throw awsError(missingCode, `The specified key does not exist: ${key}`, 404);
+    }
+    return object;
+  }
+
+  private metadata(object: StoredObject): S3.HeadObjectOutput {
+    return {
+      ContentLength: object.body.length,
+      ContentType: object.contentType,
+      LastModified: object.lastModified,
+      ETag: object.etag,
+    };
+  }
+}
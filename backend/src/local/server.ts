@@ -0,0 +1,417 @@
+/**
+ * Local API server
+ *
+ * Serves the Lambda handlers over HTTP with no AWS account: each request
+ * becomes an APIGatewayProxyEvent for the handler that serves its path, and
+ * the handlers talk to in-memory DynamoDB, S3 and Cognito (see aws.ts).
+ * Alongside the API it serves presigned photo URLs under /_s3 and the Cognito
+ * SignUp and InitiateAuth calls under /_cognito, so the mobile app and Detox
+ * tests can sign in, upload photos and call the API against one process.
+ *
+ * Run with `npm run start:local`. Everything lives in memory and is gone when
+ * the process exits.
+ */
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, OutgoingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { configureAuth } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { installLocalAws, LocalAws } from './aws';
+import { LocalUser, LocalUserPool } from './cognito';
+import { LocalDynamoDB } from './dynamodb';
+import { AwsError } from './errors';
+import { LocalS3, PRESIGNED_PATH } from './s3';
+import { localTables } from './tables';
+
+export const COGNITO_PATH = '/_cognito';
+
+const DEFAULT_PORT = 3000;
+const LAMBDA_TIMEOUT_MS = 30 * 1000;
+
+export const DEMO_USER: LocalUser = { email: 'demo@treecare.local', password: 'treecare-demo', tier: 'free' };
+
+type LambdaHandler = (event: APIGatewayProxyEvent, context: Context) => Promise<APIGatewayProxyResult>;
+
+interface LocalRoute {
+  name: string;
+  pattern: RegExp;
+  // Loaded on first use, after the fakes are installed
+  load: () => Promise<{ handler: LambdaHandler }>;
+}
+
+// Which Lambda serves which paths; the first match wins
+const ROUTES: LocalRoute[] = [
+  { name: 'health-check', pattern: /^\/health(\/|$)/, load: () => import('../handlers/health-check') },
+  {
+    name: 'photos',
+    pattern: /^\/(trees\/[^/]+\/photos|photos)(\/|$)/,
+    load: () => import('../handlers/photos'),
+  },
+  {
+    name: 'recommendations',
+    pattern: /^\/(trees\/[^/]+\/recommendations|recommendations)(\/|$)/,
+    load: () => import('../handlers/recommendations'),
+  },
+  {
+    name: 'care-events',
+    pattern: /^\/trees\/[^/]+\/care-events(\/|$)/,
+    load: () => import('../handlers/care-events'),
+  },
+  {
+    name: 'measurements',
+    pattern: /^\/trees\/[^/]+\/(measurements|growth)(\/|$)/,
+    load: () => import('../handlers/measurements'),
+  },
+  {
+    name: 'sharing',
+    pattern: /^\/(trees\/[^/]+\/(members|invitations)|invitations)(\/|$)/,
+    load: () => import('../handlers/sharing'),
+  },
+  { name: 'trees', pattern: /^\/trees(\/|$)/, load: () => import('../handlers/trees') },
+  {
+    name: 'calendar-export',
+    pattern: /^\/calendar\/feeds\//,
+    load: () => import('../handlers/calendar-export'),
+  },
+  { name: 'calendar', pattern: /^\/calendar(\/|$)/, load: () => import('../handlers/calendar') },
+  { name: 'species', pattern: /^\/species(\/|$)/, load: () => import('../handlers/species') },
+  { name: 'notifications', pattern: /^\/notifications(\/|$)/, load: () => import('../handlers/notifications') },
+  { name: 'stripe-webhook', pattern: /^\/webhooks\/stripe$/, load: () => import('../handlers/stripe-webhook') },
+];
+
+const COGNITO_OPERATIONS = new Map<string, (...args: [LocalUserPool, any]) => unknown>([
+  ['SignUp', (userPool, params) => userPool.signUp(params)],
+  ['InitiateAuth', (userPool, params) => userPool.initiateAuth(params)],
+]);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+export interface LocalServerOptions {
+  // 0 picks a free port
+  port?: number;
+  // Interface to listen on; all of them when omitted
+  host?: string;
+  // Base URL clients reach the server at, for presigned URLs (e.g. http://10.0.2.2:3000 from an Android emulator)
+  publicUrl?: string;
+  // Users to create at startup; defaults to DEMO_USER
+  users?: LocalUser[];
+}
+
+export interface LocalServer {
+  url: string;
+  aws: LocalAws;
+  close(): Promise<void>;
+}
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+const isText = (contentType: string | undefined): boolean =>
+  !contentType || /json|text|xml|x-www-form-urlencoded/.test(contentType);
+
+const send = (
+  response: ServerResponse,
+  statusCode: number,
+  headers: OutgoingHttpHeaders,
+  body: Buffer | string = ''
+): void => {
+  response.writeHead(statusCode, headers);
+  response.end(body);
+};
+
+const sendJson = (response: ServerResponse, statusCode: number, body: unknown, contentType = 'application/json'): void =>
+  send(response, statusCode, { ...CORS_HEADERS, 'Content-Type': contentType }, JSON.stringify(body));
+
+/**
+ * The event API Gateway's Lambda proxy integration would send for the request
+ */
+const toEvent = (request: IncomingMessage, url: URL, body: Buffer, requestId: string): APIGatewayProxyEvent => {
+  const headers: Record<string, string> = {};
+  const multiValueHeaders: Record<string, string[]> = {};
+  for (let i = 0; i < request.rawHeaders.length; i += 2) {
+    const [name, value] = [request.rawHeaders[i], request.rawHeaders[i + 1]];
+    headers[name] = value;
+    multiValueHeaders[name] = [...(multiValueHeaders[name] ?? []), value];
+  }
+
+  const query: Record<string, string> = {};
+  const multiValueQuery: Record<string, string[]> = {};
+  url.searchParams.forEach((value, name) => {
+    query[name] = value;
+    multiValueQuery[name] = [...(multiValueQuery[name] ?? []), value];
+  });
+
+  const httpMethod = request.method ?? 'GET';
+  const text = isText(request.headers['content-type']);
+  const now = new Date();
+
+  return {
+    body: body.length === 0 ? null : body.toString(text ? 'utf8' : 'base64'),
+    headers,
+    multiValueHeaders,
+    httpMethod,
+    isBase64Encoded: body.length > 0 && !text,
+    path: url.pathname,
+    pathParameters: null,
+    queryStringParameters: Object.keys(query).length > 0 ? query : null,
+    multiValueQueryStringParameters: Object.keys(multiValueQuery).length > 0 ? multiValueQuery : null,
+    stageVariables: null,
+    requestContext: {
+      accountId: '000000000000',
+      apiId: 'local',
+      authorizer: null,
+      protocol: `HTTP/${request.httpVersion}`,
+      httpMethod,
+      identity: {
+        accessKey: null,
+        accountId: null,
+        apiKey: null,
+        apiKeyId: null,
+        caller: null,
+        clientCert: null,
+        cognitoAuthenticationProvider: null,
+        cognitoAuthenticationType: null,
+        cognitoIdentityId: null,
+        cognitoIdentityPoolId: null,
+        principalOrgId: null,
+        sourceIp: request.socket.remoteAddress ?? '127.0.0.1',
+        user: null,
+        userAgent: request.headers['user-agent'] ?? null,
+        userArn: null,
+      },
+      path: url.pathname,
+      stage: process.env.STAGE ?? 'local',
+      requestId,
+      requestTime: now.toISOString(),
+      requestTimeEpoch: now.getTime(),
+      resourceId: 'local',
+      resourcePath: url.pathname,
+    },
+    resource: url.pathname,
+  };
+};
+
+const resultHeaders = (result: APIGatewayProxyResult): OutgoingHttpHeaders => {
+  const headers: OutgoingHttpHeaders = {};
+  Object.entries(result.multiValueHeaders ?? {}).forEach(([name, values]) => {
+    headers[name] = values.map(String);
+  });
+  Object.entries(result.headers ?? {}).forEach(([name, value]) => {
+    headers[name] = String(value);
+  });
+  return headers;
+};
+
+const lambdaContext = (functionName: string, awsRequestId: string): Context => {
+  const deadline = Date.now() + LAMBDA_TIMEOUT_MS;
+  return {
+    callbackWaitsForEmptyEventLoop: true,
+    functionName,
+    functionVersion: '$LATEST',
+    invokedFunctionArn: `arn:aws:lambda:${process.env.AWS_REGION}:000000000000:function:${functionName}`,
+    memoryLimitInMB: '1024',
+    awsRequestId,
+    logGroupName: `/aws/lambda/${functionName}`,
+    logStreamName: 'local',
+    getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+    done: () => undefined,
+    fail: () => undefined,
+    succeed: () => undefined,
+  };
+};
+
+const sendS3Error = (response: ServerResponse, error: AwsError): void =>
+  send(
+    response,
+    error.statusCode,
+    { ...CORS_HEADERS, 'Content-Type': 'application/xml' },
+    `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${error.code}</Code><Message>${error.message}</Message></Error>`
+  );
+
+/**
+ * GET or PUT on a presigned URL from LocalS3.getSignedUrl
+ */
+const serveObject = (s3: LocalS3, request: IncomingMessage, url: URL, body: Buffer, response: ServerResponse): void => {
+  const [bucket, ...key] = url.pathname.slice(PRESIGNED_PATH.length + 1).split('/');
+  const params = { Bucket: bucket, Key: key.map(decodeURIComponent).join('/') };
+
+  if (Number(url.searchParams.get('Expires')) < Date.now() / 1000) {
+    sendS3Error(response, { name: 'AccessDenied', code: 'AccessDenied', message: 'Request has expired', statusCode: 403 });
+    return;
+  }
+
+  try {
+    if (request.method === 'PUT') {
+      const { ETag } = s3.putObject({ ...params, Body: body, ContentType: request.headers['content-type'] });
+      send(response, 200, { ...CORS_HEADERS, ETag: ETag! });
+    } else if (request.method === 'GET') {
+      const object = s3.getObject(params);
+      send(
+        response,
+        200,
+        {
+          ...CORS_HEADERS,
+          'Content-Type': object.ContentType ?? 'application/octet-stream',
+          'Content-Length': object.ContentLength!,
+          ETag: object.ETag!,
+        },
+        object.Body as Buffer
+      );
+    } else {
+      send(response, 405, { ...CORS_HEADERS, Allow: 'GET, PUT' });
+    }
+  } catch (error: any) {
+    sendS3Error(response, error);
+  }
+};
+
+/**
+ * Cognito's JSON protocol: the operation is named by the X-Amz-Target header
+ */
+const serveCognito = (userPool: LocalUserPool, request: IncomingMessage, body: Buffer, response: ServerResponse): void => {
+  const contentType = 'application/x-amz-json-1.1';
+  const target = String(request.headers['x-amz-target'] ?? '');
+  const operation = COGNITO_OPERATIONS.get(target.split('.')[1]);
+  if (request.method !== 'POST' || !operation) {
+    sendJson(response, 400, { __type: 'UnknownOperationException', message: `Unsupported operation ${target}` }, contentType);
+    return;
+  }
+
+  try {
+    sendJson(response, 200, operation(userPool, JSON.parse(body.toString('utf8') || '{}')), contentType);
+  } catch (error: any) {
+    sendJson(response, error.statusCode ?? 400, { __type: error.code ?? 'SerializationException', message: error.message }, contentType);
+  }
+};
+
+const listen = (server: Server, port: number, host?: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+/**
+ * Install the in-memory AWS services and start serving the API
+ */
+export const startLocalServer = async (options: LocalServerOptions = {}): Promise<LocalServer> => {
+  const stage = (process.env.STAGE ??= 'local');
+  const region = (process.env.AWS_REGION ??= 'us-east-2');
+
+  const aws: LocalAws = {
+    dynamodb: new LocalDynamoDB(localTables(stage)),
+    s3: new LocalS3(),
+    userPool: new LocalUserPool(region),
+  };
+  aws.s3.createBucket({ Bucket: process.env.PHOTO_BUCKET_NAME || `tree-care-photos-${stage}` });
+  (options.users ?? [DEMO_USER]).forEach((user) => aws.userPool.addUser(user));
+
+  // The health check describes the pool named here
+  process.env.AWS_COGNITO_USER_POOL_ID = aws.userPool.userPoolId;
+  process.env.AWS_COGNITO_CLIENT_ID = aws.userPool.clientId;
+  installLocalAws(aws);
+  configureAuth({
+    issuer: aws.userPool.issuer,
+    clientId: aws.userPool.clientId,
+    keyProvider: aws.userPool.keyProvider(),
+  });
+
+  const handlers = new Map<string, Promise<LambdaHandler>>();
+  const loadHandler = (route: LocalRoute): Promise<LambdaHandler> => {
+    if (!handlers.has(route.name)) {
+      handlers.set(route.name, route.load().then((module) => module.handler));
+    }
+    return handlers.get(route.name)!;
+  };
+
+  const serve = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const body = await readBody(request);
+    const isLocalService = [PRESIGNED_PATH, COGNITO_PATH].some(
+      (path) => url.pathname === path || url.pathname.startsWith(`${path}/`)
+    );
+
+    // API preflights go to the handlers, which answer them as in the cloud
+    if (isLocalService && request.method === 'OPTIONS') {
+      send(response, 204, CORS_HEADERS);
+    } else if (url.pathname.startsWith(`${PRESIGNED_PATH}/`)) {
+      serveObject(aws.s3, request, url, body, response);
+    } else if (isLocalService) {
+      serveCognito(aws.userPool, request, body, response);
+    } else {
+      const requestId = randomUUID();
+      const route = ROUTES.find(({ pattern }) => pattern.test(url.pathname));
+      if (!route) {
+        sendJson(response, 404, { error: 'NotFoundError', message: `No route for ${url.pathname}`, requestId });
+        return;
+      }
+
+      const handler = await loadHandler(route);
+      const result = await handler(
+        toEvent(request, url, body, requestId),
+        lambdaContext(`tree-care-${route.name}-${stage}`, requestId)
+      );
+      send(
+        response,
+        result.statusCode,
+        resultHeaders(result),
+        result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body
+      );
+    }
+  };
+
+  const server = createServer((request, response) => {
+    serve(request, response).catch((error) => {
+      logger.error('Local API server failed to handle a request', { error, path: request.url });
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: 'InternalServerError', message: error.message });
+      } else {
+        response.end();
+      }
+    });
+  });
+
+  await listen(server, options.port ?? DEFAULT_PORT, options.host);
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${options.host && options.host !== '0.0.0.0' ? options.host : 'localhost'}:${port}`;
+  aws.s3.endpoint = options.publicUrl ?? url;
+
+  return {
+    url,
+    aws,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+};
+
+if (require.main === module) {
+  startLocalServer({
+    port: Number(process.env.LOCAL_API_PORT) || DEFAULT_PORT,
+    host: process.env.LOCAL_API_HOST,
+    publicUrl: process.env.LOCAL_API_PUBLIC_URL,
+  })
+    .then(({ url, aws }) => {
+      logger.info('Local API server listening', {
+        url,
+        userPoolId: aws.userPool.userPoolId,
+        clientId: aws.userPool.clientId,
+        cognitoEndpoint: `${url}${COGNITO_PATH}`,
+        demoUser: DEMO_USER.email,
+      });
+    })
+    .catch((error) => {
+      logger.error('Local API server failed to start', { error });
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,96 @@
+/**
+ * Keys and indexes of the deployed tables (see infrastructure-stack.ts), for
+ * the local DynamoDB. A table or index added there needs adding here too.
+ */
+
+export interface KeySchema {
+  partitionKey: string;
+  sortKey?: string;
+}
+
+export interface TableDefinition extends KeySchema {
+  name: string;
+  indexes?: Record<string, KeySchema>;
+}
+
+const TABLES: TableDefinition[] = [
+  {
+    name: 'TreeCareUsers',
+    partitionKey: 'userId',
+    indexes: { 'email-index': { partitionKey: 'email' } },
+  },
+  {
+    name: 'TreeCareTrees',
+    partitionKey: 'treeId',
+    sortKey: 'userId',
+    indexes: {
+      'userId-index': { partitionKey: 'userId', sortKey: 'createdAt' },
+      'status-index': { partitionKey: 'status', sortKey: 'archivedAt' },
+    },
+  },
+  {
+    name: 'TreeCarePhotos',
+    partitionKey: 'photoId',
+    sortKey: 'treeId',
+    indexes: { 'treeId-index': { partitionKey: 'treeId', sortKey: 'capturedAt' } },
+  },
+  {
+    name: 'TreeCareCareEvents',
+    partitionKey: 'careEventId',
+    sortKey: 'treeId',
+    indexes: { 'treeId-index': { partitionKey: 'treeId', sortKey: 'date' } },
+  },
+  {
+    name: 'TreeCareMeasurements',
+    partitionKey: 'measurementId',
+    sortKey: 'treeId',
+    indexes: { 'treeId-index': { partitionKey: 'treeId', sortKey: 'measuredAt' } },
+  },
+  {
+    name: 'TreeCareCalendarFeeds',
+    partitionKey: 'userId',
+    indexes: { 'tokenHash-index': { partitionKey: 'tokenHash' } },
+  },
+  {
+    name: 'TreeCareTreeMembers',
+    partitionKey: 'treeId',
+    sortKey: 'userId',
+    indexes: { 'userId-index': { partitionKey: 'userId', sortKey: 'createdAt' } },
+  },
+  {
+    name: 'TreeCareInvitations',
+    partitionKey: 'invitationId',
+    indexes: {
+      'treeId-index': { partitionKey: 'treeId', sortKey: 'createdAt' },
+      'email-index': { partitionKey: 'email', sortKey: 'createdAt' },
+    },
+  },
+  {
+    name: 'TreeCareSubscriptions',
+    partitionKey: 'userId',
+    indexes: { 'stripeCustomerId-index': { partitionKey: 'stripeCustomerId' } },
+  },
+  { name: 'TreeCareStripeEvents', partitionKey: 'eventId' },
+  { name: 'TreeCareIdempotency', partitionKey: 'idempotencyKey' },
+  { name: 'TreeCareRateLimits', partitionKey: 'bucketKey' },
+  {
+    name: 'TreeCareRecommendations',
+    partitionKey: 'recommendationId',
+    indexes: { 'treeId-index': { partitionKey: 'treeId', sortKey: 'windowStart' } },
+  },
+  {
+    name: 'TreeCareNotifications',
+    partitionKey: 'notificationId',
+    indexes: {
+      'userId-index': { partitionKey: 'userId', sortKey: 'scheduledTime' },
+      'status-index': { partitionKey: 'status', sortKey: 'dueAt' },
+      'treeId-index': { partitionKey: 'treeId', sortKey: 'scheduledTime' },
+    },
+  },
+];
+
+/**
+ * Every table, named for the stage as the handlers expect
+ */
+export const localTables = (stage: string): TableDefinition[] =>
+  TABLES.map((table) => ({ ...table, name: `${table.name}-${stage}` }));
@@ -0,0 +1,227 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import axios from 'axios';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { SUBSCRIPTION_TIERS, SubscriptionTier } from '../models/subscription';
+import { UnauthorizedError } from '../utils/errors';
+
+export type { SubscriptionTier } from '../models/subscription';
+
+const TIER_CLAIM = 'custom:subscription_tier';
+
+/**
+ * Verified caller identity handed to processRequest
+ */
+export interface CallerIdentity {
+  userId: string;
+  email?: string;
+  subscriptionTier: SubscriptionTier;
+  tokenUse: 'access' | 'id';
+  claims: JwtPayload;
+}
+
+/**
+ * Source of the public keys used to check token signatures
+ */
+export interface SigningKeyProvider {
+  getSigningKey(kid: string): Promise<KeyObject | string | undefined>;
+}
+
+interface JwksDocument {
+  keys: (JsonWebKey & { kid: string })[];
+}
+
+/**
+ * Fetches a JWKS document and caches the keys for warm invocations.
+ * An unknown kid triggers a refetch (to pick up key rotation), but no more
+ * often than once per minRefreshIntervalMs.
+ */
+export class JwksKeyProvider implements SigningKeyProvider {
+  private jwksUri: string;
+  private cacheTtlMs: number;
+  private minRefreshIntervalMs: number;
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+
+  constructor(
+    jwksUri: string,
+    cacheTtlMs: number = 60 * 60 * 1000,
+    minRefreshIntervalMs: number = 60 * 1000
+  ) {
+    this.jwksUri = jwksUri;
+    this.cacheTtlMs = cacheTtlMs;
+    this.minRefreshIntervalMs = minRefreshIntervalMs;
+  }
+
+  async getSigningKey(kid: string): Promise<KeyObject | undefined> {
+    const age = Date.now() - this.fetchedAt;
+    const stale = age > this.cacheTtlMs;
+    const unknownKid = !this.keys.has(kid) && age >= this.minRefreshIntervalMs;
+
+    if (stale || unknownKid) {
+      await this.refresh();
+    }
+    return this.keys.get(kid);
+  }
+
+  private async refresh(): Promise<void> {
+    const response = await axios.get<JwksDocument>(this.jwksUri, { timeout: 5000 });
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of response.data.keys || []) {
+      if (jwk.kty === 'RSA' && jwk.kid) {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+}
+
+/**
+ * Fixed kid -> key map, used by tests and local development
+ */
+export class StaticKeyProvider implements SigningKeyProvider {
+  private keys: Record<string, KeyObject | string>;
+
+  constructor(keys: Record<string, KeyObject | string>) {
+    this.keys = keys;
+  }
+
+  async getSigningKey(kid: string): Promise<KeyObject | string | undefined> {
+    return this.keys[kid];
+  }
+}
+
+export interface TokenVerifierConfig {
+  issuer: string;
+  clientId: string;
+  keyProvider: SigningKeyProvider;
+  clockToleranceSec?: number;
+}
+
+/**
+ * Verifies Cognito access and ID tokens
+ */
+export class CognitoTokenVerifier {
+  private config: TokenVerifierConfig;
+
+  constructor(config: TokenVerifierConfig) {
+    this.config = config;
+  }
+
+  async verify(token: string): Promise<CallerIdentity> {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new UnauthorizedError('Malformed token');
+    }
+
+    const key = await this.config.keyProvider.getSigningKey(kid);
+    if (!key) {
+      throw new UnauthorizedError('Unknown signing key');
+    }
+
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(token, key, {
+        algorithms: ['RS256'],
+        issuer: this.config.issuer,
+        clockTolerance: this.config.clockToleranceSec ?? 0,
+      }) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError('Token expired');
+      }
+      throw new UnauthorizedError('Invalid token');
+    }
+
+    // ID tokens carry the app client in `aud`, access tokens in `client_id`
+    const tokenUse = claims.token_use;
+    const clientId = tokenUse === 'id' ? claims.aud : tokenUse === 'access' ? claims.client_id : undefined;
+    if (clientId !== this.config.clientId) {
+      throw new UnauthorizedError('Invalid token audience');
+    }
+    if (!claims.sub) {
+      throw new UnauthorizedError('Token has no subject');
+    }
+
+    return {
+      userId: claims.sub,
+      email: claims.email,
+      subscriptionTier: tierFromClaims(claims),
+      tokenUse,
+      claims,
+    };
+  }
+}
+
+const tierFromClaims = (claims: JwtPayload): SubscriptionTier => {
+  const candidates = [claims[TIER_CLAIM], ...(claims['cognito:groups'] || [])];
+  return candidates.find((value) => SUBSCRIPTION_TIERS.includes(value)) || 'free';
+};
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+export const getBearerToken = (event: APIGatewayProxyEvent): string => {
+  const header = Object.entries(event.headers || {}).find(
+    ([name]) => name.toLowerCase() === 'authorization'
+  )?.[1];
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new UnauthorizedError('Missing bearer token');
+  }
+  return match[1];
+};
+
+// Module-level so the JWKS cache survives across warm invocations
+let tokenVerifier: CognitoTokenVerifier | null = null;
+
+/**
+ * Override the verifier configuration, e.g. to install test signing keys.
+ * Anything not supplied falls back to the AWS_COGNITO_* environment.
+ */
+export const configureAuth = (config: Partial<TokenVerifierConfig> = {}): void => {
+  const issuer = config.issuer ?? cognitoIssuer();
+  tokenVerifier = new CognitoTokenVerifier({
+    issuer,
+    clientId: config.clientId ?? requireEnv('AWS_COGNITO_CLIENT_ID'),
+    keyProvider: config.keyProvider ?? new JwksKeyProvider(`${issuer}/.well-known/jwks.json`),
+    clockToleranceSec: config.clockToleranceSec,
+  });
+};
+
+export const resetAuth = (): void => {
+  tokenVerifier = null;
+};
+
+export const getTokenVerifier = (): CognitoTokenVerifier => {
+  if (!tokenVerifier) {
+    configureAuth();
+  }
+  return tokenVerifier!;
+};
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set`);
+  }
+  return value;
+};
+
+const cognitoIssuer = (): string => {
+  const userPoolId = requireEnv('AWS_COGNITO_USER_POOL_ID');
+  const region = userPoolId.split('_')[0];
+  return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+};
+
+/**
+ * Verify the request's bearer token and return the caller identity
+ */
+export const authenticate = async (event: APIGatewayProxyEvent): Promise<CallerIdentity> => {
+  const token = getBearerToken(event);
+  return getTokenVerifier().verify(token);
+};
@@ -0,0 +1,23 @@
+/**
+ * Correlation IDs tie a client request to the server log lines it produced
+ *
+ * Clients send X-Correlation-Id; the value is attached to every log entry for
+ * the request and echoed back in the response. Requests without one (or with
+ * a malformed one) fall back to the Lambda request ID.
+ */
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// Keep client-supplied values safe to log and to echo in a header
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export const getCorrelationId = (event: APIGatewayProxyEvent, fallback: string): string => {
+  const headerName = CORRELATION_ID_HEADER.toLowerCase();
+  const entry = Object.entries(event.headers || {}).find(
+    ([name]) => name.toLowerCase() === headerName
+  );
+  const value = entry?.[1]?.trim();
+
+  return value && CORRELATION_ID_PATTERN.test(value) ? value : fallback;
+};
@@ -0,0 +1,99 @@
+/**
+ * Entitlement enforcement for routed handlers
+ *
+ * Handlers wrap routes with `entitlements.require(declaration, routeHandler)`
+ * to declare what the route needs from the caller's subscription tier:
+ *
+ * - `{ feature }` - the tier must include the feature
+ * - `{ limit, amount }` - `amount(userId, request)` is what the limit would reach if the
+ *   request goes ahead, counted by the handler (e.g. trees after one more)
+ * - `{ meter }` - usage counted per month on the subscription item; a unit is
+ *   reserved before the route runs and released again if it fails
+ */
+import { APIGatewayProxyResult } from 'aws-lambda';
+import {
+  SubscriptionTier,
+  UsageCounterAttribute,
+  effectiveTier,
+  usageCounterAttribute,
+} from '../models/subscription';
+import { SubscriptionRepository } from '../repositories/subscriptions';
+import { FeatureName, LimitName, TIER_ENTITLEMENTS, checkEntitlement } from '../services/entitlements';
+import { UnauthorizedError } from '../utils/errors';
+import { RouteHandler, RouteRequest } from '../utils/router';
+
+// Limits tracked with usage counters rather than counted by the handler
+export type MeteredLimit = Extract<LimitName, 'monthlyAnalyses'>;
+
+export type EntitlementDeclaration<P> =
+  | { feature: FeatureName }
+  | { limit: LimitName; amount: (userId: string, request: RouteRequest<P>) => Promise<number> }
+  | { meter: MeteredLimit };
+
+export class EntitlementGuard {
+  private subscriptions: SubscriptionRepository;
+
+  constructor(subscriptions: SubscriptionRepository) {
+    this.subscriptions = subscriptions;
+  }
+
+  async tierOf(userId: string): Promise<SubscriptionTier> {
+    return effectiveTier(await this.subscriptions.get(userId));
+  }
+
+  /**
+   * Wrap a route so it only runs when the caller is entitled to it
+   */
+  require<P>(declaration: EntitlementDeclaration<P>, handler: RouteHandler<P>): RouteHandler<P> {
+    return async (request) => {
+      if (!request.identity) {
+        throw new UnauthorizedError();
+      }
+      const { userId } = request.identity;
+      const tier = await this.tierOf(userId);
+
+      if ('feature' in declaration) {
+        checkEntitlement(tier, declaration);
+        return handler(request);
+      }
+      if ('limit' in declaration) {
+        checkEntitlement(tier, { limit: declaration.limit, amount: await declaration.amount(userId, request) });
+        return handler(request);
+      }
+      return this.metered(userId, tier, declaration.meter, () => handler(request));
+    };
+  }
+
+  private async metered(
+    userId: string,
+    tier: SubscriptionTier,
+    limit: MeteredLimit,
+    run: () => Promise<APIGatewayProxyResult>
+  ): Promise<APIGatewayProxyResult> {
+    const counter = usageCounterAttribute(limit, new Date());
+    await this.reserve(userId, tier, limit, counter);
+
+    try {
+      return await run();
+    } catch (error) {
+      await this.subscriptions.addUsage(userId, counter, -1);
+      throw error;
+    }
+  }
+
+  /**
+   * Count one unit of usage, failing if the tier's limit is already used up
+   */
+  private async reserve(
+    userId: string,
+    tier: SubscriptionTier,
+    limit: MeteredLimit,
+    counter: UsageCounterAttribute
+  ): Promise<void> {
+    const max = TIER_ENTITLEMENTS[tier].limits[limit];
+    const reserved = await this.subscriptions.addUsage(userId, counter, 1, max === Infinity ? undefined : max);
+    if (!reserved) {
+      checkEntitlement(tier, { limit, amount: max + 1 });
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Idempotency keys make retrying a mutating request safe
+ *
+ * A POST, PUT, PATCH or DELETE sent with an Idempotency-Key header runs once
+ * per caller, route and key. Its response is kept for IDEMPOTENCY_TTL_SECONDS
+ * and replayed, marked with Idempotent-Replayed, to retries with the same
+ * body. Reusing the key with a different body is a 422, and a retry that
+ * arrives while the first attempt is still running is a 409. Server errors
+ * are not kept, so the retry runs the request again.
+ */
+import { createHash } from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { DynamoDB } from 'aws-sdk';
+import { ConflictError, IdempotencyKeyReusedError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Long enough to cover a client's retries after a dropped connection
+export const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// An attempt still marked in progress after this long is taken to have died
+const LOCK_TIMEOUT_SECONDS = 60;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+// UUIDs and similar; also keeps the value safe to log
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{1,255}$/;
+
+export interface StoredResponse {
+  statusCode: number;
+  headers: { [key: string]: string };
+  body: string;
+}
+
+interface IdempotencyItem {
+  idempotencyKey: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  response?: StoredResponse;
+  lockedUntil: number;
+  expiresAt: number;
+}
+
+/**
+ * The request's Idempotency-Key, or undefined for requests without one and
+ * for methods that are safe to repeat anyway
+ */
+export const getIdempotencyKey = (event: APIGatewayProxyEvent): string | undefined => {
+  if (!MUTATING_METHODS.includes(event.httpMethod)) {
+    return undefined;
+  }
+
+  const headerName = IDEMPOTENCY_KEY_HEADER.toLowerCase();
+  const entry = Object.entries(event.headers || {}).find(
+    ([name]) => name.toLowerCase() === headerName
+  );
+  const value = entry?.[1]?.trim();
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(value)) {
+    throw new ValidationError('Request validation failed', [
+      {
+        location: 'header',
+        path: IDEMPOTENCY_KEY_HEADER,
+        message: 'must be 1-255 letters, digits or ._:- characters',
+      },
+    ]);
+  }
+  return value;
+};
+
+export class IdempotencyStore {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  /**
+   * Run the request once for the key and replay its response afterwards.
+   * The key should already be scoped to the caller and route.
+   */
+  async run(
+    idempotencyKey: string,
+    body: string | null,
+    execute: () => Promise<StoredResponse>
+  ): Promise<StoredResponse> {
+    const requestHash = createHash('sha256').update(body ?? '').digest('hex');
+
+    if (!(await this.claim(idempotencyKey, requestHash))) {
+      return this.replay(idempotencyKey, requestHash);
+    }
+
+    let response: StoredResponse;
+    try {
+      response = await execute();
+    } catch (error) {
+      await this.release(idempotencyKey);
+      throw error;
+    }
+
+    if (response.statusCode >= 500) {
+      await this.release(idempotencyKey);
+    } else {
+      await this.complete(idempotencyKey, requestHash, response);
+    }
+    return response;
+  }
+
+  /**
+   * Mark the key in progress; false if another attempt already holds it
+   */
+  private async claim(idempotencyKey: string, requestHash: string): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const item: IdempotencyItem = {
+      idempotencyKey,
+      requestHash,
+      status: 'in_progress',
+      lockedUntil: now + LOCK_TIMEOUT_SECONDS,
+      expiresAt: now + IDEMPOTENCY_TTL_SECONDS,
+    };
+
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression:
+          'attribute_not_exists(idempotencyKey) OR (#status = :inProgress AND lockedUntil < :now)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':inProgress': 'in_progress', ':now': now },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  private async replay(idempotencyKey: string, requestHash: string): Promise<StoredResponse> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { idempotencyKey },
+    }).promise();
+    const item = result.Item as IdempotencyItem | undefined;
+
+    if (item && item.requestHash !== requestHash) {
+      throw new IdempotencyKeyReusedError();
+    }
+    if (!item?.response) {
+      throw new ConflictError('A request with this Idempotency-Key is still being processed');
+    }
+
+    logger.info('Replaying response for Idempotency-Key', { statusCode: item.response.statusCode });
+    return {
+      ...item.response,
+      headers: { ...item.response.headers, [IDEMPOTENT_REPLAYED_HEADER]: 'true' },
+    };
+  }
+
+  private async complete(idempotencyKey: string, requestHash: string, response: StoredResponse): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const item: IdempotencyItem = {
+      idempotencyKey,
+      requestHash,
+      status: 'completed',
+      response: { statusCode: response.statusCode, headers: response.headers, body: response.body },
+      lockedUntil: now,
+      expiresAt: now + IDEMPOTENCY_TTL_SECONDS,
+    };
+
+    try {
+      await this.dynamoClient.put({ TableName: this.tableName, Item: item }).promise();
+    } catch (error) {
+      // The request itself went through; a retry after the lock times out runs it again
+      logger.error('Failed to store response for Idempotency-Key', { error });
+    }
+  }
+
+  private async release(idempotencyKey: string): Promise<void> {
+    await this.dynamoClient.delete({
+      TableName: this.tableName,
+      Key: { idempotencyKey },
+    }).promise();
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Per-user rate limiting
+ *
+ * Each authenticated user gets a token bucket per route class, sized by the
+ * rateLimits of their subscription tier. Every request takes a token; an
+ * empty bucket means a RateLimitError (429) with Retry-After. Responses carry
+ * X-RateLimit-Limit (the burst), X-RateLimit-Remaining and X-RateLimit-Reset
+ * (epoch seconds when the bucket is full again).
+ *
+ * Buckets live in a RateLimitStore: DynamoDB in deployed stages, while tests
+ * and local runs install an InMemoryRateLimitStore with configureRateLimitStore.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { SubscriptionTier } from '../models/subscription';
+import { RateLimit, RouteClass, TIER_ENTITLEMENTS } from '../services/entitlements';
+import { RateLimitError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const RATE_LIMIT_HEADERS = ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'] as const;
+
+// Writes that keep losing to concurrent requests are let through
+const MAX_ATTEMPTS = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface Bucket {
+  tokens: number;
+  // Epoch milliseconds the tokens were counted at
+  updatedAt: number;
+}
+
+/**
+ * Where buckets are kept. save is a compare-and-set: it only writes if the
+ * stored bucket is still `previous`, and returns false otherwise.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<Bucket | undefined>;
+  save(key: string, bucket: Bucket, previous: Bucket | undefined, expiresAt: number): Promise<boolean>;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch seconds
+  resetAt: number;
+  retryAfterSeconds: number;
+}
+
+const refillPerMs = (rateLimit: RateLimit) => rateLimit.perHour / HOUR_MS;
+
+/**
+ * The bucket topped up to `now` with one token taken, if there was one
+ */
+export const takeToken = (
+  bucket: Bucket | undefined,
+  rateLimit: RateLimit,
+  now: number
+): { bucket: Bucket; status: RateLimitStatus } => {
+  const refilled = bucket
+    ? Math.min(rateLimit.burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs(rateLimit))
+    : rateLimit.burst;
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    status: {
+      allowed,
+      limit: rateLimit.burst,
+      remaining: Math.floor(tokens),
+      resetAt: Math.ceil((now + (rateLimit.burst - tokens) / refillPerMs(rateLimit)) / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs(rateLimit) / 1000),
+    },
+  };
+};
+
+export const rateLimitHeaders = (status: RateLimitStatus): Record<string, string> => {
+  const [limit, remaining, reset] = RATE_LIMIT_HEADERS;
+  return {
+    [limit]: String(status.limit),
+    [remaining]: String(status.remaining),
+    [reset]: String(status.resetAt),
+  };
+};
+
+export class RateLimiter {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  /**
+   * Take a token for the request, throwing a RateLimitError if the bucket
+   * is empty
+   */
+  async check(
+    userId: string,
+    tier: SubscriptionTier,
+    routeClass: RouteClass,
+    now: number = Date.now()
+  ): Promise<RateLimitStatus> {
+    const rateLimit = TIER_ENTITLEMENTS[tier].rateLimits[routeClass];
+    const key = `${userId}#${routeClass}`;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const previous = await this.store.get(key);
+      const { bucket, status } = takeToken(previous, rateLimit, now);
+
+      if (!status.allowed) {
+        throw new RateLimitError(status.retryAfterSeconds, {
+          ...rateLimitHeaders(status),
+          'Retry-After': String(status.retryAfterSeconds),
+        });
+      }
+      if (await this.store.save(key, bucket, previous, status.resetAt)) {
+        return status;
+      }
+    }
+
+    logger.warn('Rate limit bucket kept changing; letting the request through', { userId, routeClass });
+    return takeToken(undefined, rateLimit, now).status;
+  }
+}
+
+/**
+ * Buckets in the TreeCareRateLimits table, expiring once they would be full
+ * again anyway
+ */
+export class DynamoRateLimitStore implements RateLimitStore {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(key: string): Promise<Bucket | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { bucketKey: key },
+    }).promise();
+
+    return result.Item ? { tokens: result.Item.tokens, updatedAt: result.Item.updatedAt } : undefined;
+  }
+
+  async save(key: string, bucket: Bucket, previous: Bucket | undefined, expiresAt: number): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: { bucketKey: key, ...bucket, expiresAt },
+        ...(previous
+          ? {
+              ConditionExpression: 'updatedAt = :previous',
+              ExpressionAttributeValues: { ':previous': previous.updatedAt },
+            }
+          : { ConditionExpression: 'attribute_not_exists(bucketKey)' }),
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  async get(key: string): Promise<Bucket | undefined> {
+    return this.buckets.get(key);
+  }
+
+  async save(key: string, bucket: Bucket, previous: Bucket | undefined): Promise<boolean> {
+    if (this.buckets.get(key)?.updatedAt !== previous?.updatedAt) {
+      return false;
+    }
+    this.buckets.set(key, bucket);
+    return true;
+  }
+}
+
+// Module-level so it applies to every handler; null means DynamoDB
+let configuredStore: RateLimitStore | null = null;
+
+/**
+ * Keep buckets somewhere other than DynamoDB, e.g. in memory for tests
+ */
+export const configureRateLimitStore = (store: RateLimitStore | null): void => {
+  configuredStore = store;
+};
+
+export const getConfiguredRateLimitStore = (): RateLimitStore | null => configuredStore;
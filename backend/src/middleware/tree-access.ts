@@ -0,0 +1,72 @@
+/**
+ * Role-based access to trees
+ *
+ * A tree is stored under its owner's userId; other users reach it through a
+ * TreeCareTreeMembers row naming their role. Handlers load every tree
+ * through `access.load(treeId, userId, requiredRole)`:
+ *
+ * - `viewer` - read the tree, its photos, care log, measurements and recommendations
+ * - `editor` - also change the tree and record photos, care, measurements and completions
+ * - `owner` - also archive and restore the tree and manage who it is shared with
+ *
+ * Callers without any role get a 404, as if the tree did not exist, and
+ * callers whose role is too low a 403. Records added to a shared tree are
+ * stored under the owner's userId, so they stay with the tree.
+ */
+import { TreeMemberItem, TreeRole, roleAllows } from '../models/sharing';
+import { TreeItem } from '../models/tree';
+import { TreeMemberRepository } from '../repositories/tree-members';
+import { TreeRepository } from '../repositories/trees';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+export interface TreeAccess {
+  tree: TreeItem;
+  role: TreeRole;
+}
+
+export class TreeAccessGuard {
+  private trees: TreeRepository;
+  private members: TreeMemberRepository;
+
+  constructor(trees: TreeRepository, members: TreeMemberRepository) {
+    this.trees = trees;
+    this.members = members;
+  }
+
+  /**
+   * The tree and the caller's role on it, if the role allows `required`
+   */
+  async load(treeId: string, userId: string, required: TreeRole): Promise<TreeAccess> {
+    const access = await this.find(treeId, userId);
+    if (!access) {
+      throw new NotFoundError(`Tree ${treeId} not found`);
+    }
+    if (!roleAllows(access.role, required)) {
+      throw new ForbiddenError(`This needs the ${required} role on tree ${treeId}`);
+    }
+    return access;
+  }
+
+  async find(treeId: string, userId: string): Promise<TreeAccess | undefined> {
+    const owned = await this.trees.get(treeId, userId);
+    if (owned) {
+      return { tree: owned, role: 'owner' };
+    }
+
+    const member = await this.members.get(treeId, userId);
+    return member && this.memberAccess(member);
+  }
+
+  /**
+   * Active trees other users share with the user, most recently joined first
+   */
+  async listShared(userId: string): Promise<TreeAccess[]> {
+    const shared = await Promise.all((await this.members.listByUser(userId)).map((member) => this.memberAccess(member)));
+    return shared.filter((access): access is TreeAccess => access?.tree.status === 'active');
+  }
+
+  private async memberAccess(member: TreeMemberItem): Promise<TreeAccess | undefined> {
+    const tree = await this.trees.get(member.treeId, member.ownerId);
+    return tree && { tree, role: member.role };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Calendar feed data model. A user's care tasks can be subscribed to from a
+ * phone calendar at a secret URL; the TreeCareCalendarFeeds table keeps one
+ * feed per user, holding a hash of the URL's token rather than the token.
+ */
+
+export interface CalendarFeedItem {
+  userId: string;
+  tokenHash: string; // SHA-256 of the token, hex
+  createdAt: string;
+}
+
+export interface CalendarFeed {
+  // Only returned when the feed is created; the token can't be recovered later
+  url?: string;
+  createdAt: string;
+}
@@ -0,0 +1,39 @@
+/**
+ * Request schemas for the care event endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { CARE_EVENT_TYPES, MAX_CARE_EVENT_PHOTOS, PRUNING_REASONS } from './care-event';
+import { paginationQueryFields } from './pagination';
+
+const removedBranchSchema = s.object({
+  diameter: s.number({ min: 0 }),
+  location: s.string({ maxLength: 200 }).optional(),
+  reason: s.enum(PRUNING_REASONS).optional(),
+});
+
+const photoIdsSchema = s.array(s.string({ minLength: 1, maxLength: 100 }), { maxItems: MAX_CARE_EVENT_PHOTOS });
+const branchesRemovedSchema = s.array(removedBranchSchema, { maxItems: 100 });
+
+export const createCareEventSchema = s.object({
+  type: s.enum(CARE_EVENT_TYPES),
+  date: s.string({ format: 'date' }),
+  notes: s.string({ maxLength: 2000 }).optional(),
+  photoIds: photoIdsSchema.optional(),
+  branchesRemoved: branchesRemovedSchema.optional(),
+});
+
+export const updateCareEventSchema = s.object({
+  type: s.enum(CARE_EVENT_TYPES).optional(),
+  date: s.string({ format: 'date' }).optional(),
+  notes: s.string({ maxLength: 2000 }).optional(),
+  photoIds: photoIdsSchema.optional(),
+  branchesRemoved: branchesRemovedSchema.optional(),
+});
+
+export const listCareEventsQuerySchema = s.object({
+  ...paginationQueryFields,
+  type: s.enum(CARE_EVENT_TYPES).optional(),
+});
+
+export type CreateCareEventInput = Infer<typeof createCareEventSchema>;
+export type UpdateCareEventInput = Infer<typeof updateCareEventSchema>;
@@ -0,0 +1,61 @@
+/**
+ * Care log data model shared by the care event handlers.
+ * Each watering, fertilizing, pruning or inspection the user records is a
+ * row in the TreeCareCareEvents table, and together they make up the tree's
+ * history.
+ */
+
+export const CARE_EVENT_TYPES = ['watering', 'fertilizing', 'pruning', 'inspection'] as const;
+
+export type CareEventType = (typeof CARE_EVENT_TYPES)[number];
+
+export const PRUNING_REASONS = ['dead', 'diseased', 'damaged', 'crossing', 'clearance', 'shaping'] as const;
+
+export type PruningReason = (typeof PRUNING_REASONS)[number];
+
+export const MAX_CARE_EVENT_PHOTOS = 10;
+
+export interface RemovedBranch {
+  diameter: number; // in inches, at the cut
+  location?: string;
+  reason?: PruningReason;
+}
+
+export interface CareEvent {
+  id: string;
+  treeId: string;
+  type: CareEventType;
+  date: string; // YYYY-MM-DD
+  notes?: string;
+  // Uploaded photos of the tree, e.g. before and after
+  photoIds?: string[];
+  // Only recorded for pruning
+  branchesRemoved?: RemovedBranch[];
+  // Who recorded it; missing on events from before trees could be shared
+  recordedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Care event as stored in the TreeCareCareEvents table (keyed by
+ * careEventId + treeId)
+ */
+export interface CareEventItem extends Omit<CareEvent, 'id'> {
+  careEventId: string;
+  // The tree's owner, also for events others record on a shared tree
+  userId: string;
+}
+
+export const toCareEvent = (item: CareEventItem): CareEvent => ({
+  id: item.careEventId,
+  treeId: item.treeId,
+  type: item.type,
+  date: item.date,
+  notes: item.notes,
+  photoIds: item.photoIds,
+  branchesRemoved: item.branchesRemoved,
+  recordedBy: item.recordedBy,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+});
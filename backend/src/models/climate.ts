@@ -0,0 +1,32 @@
+/**
+ * Climate data model. A tree's climate is resolved from its coordinates
+ * against the reference points bundled in data/climate.json and stored on
+ * the tree.
+ */
+
+export type Hemisphere = 'northern' | 'southern';
+
+export interface FrostDates {
+  lastFrost: string; // MM-DD, average last frost of spring
+  firstFrost: string; // MM-DD, average first frost of autumn
+}
+
+export interface Climate {
+  hemisphere: Hemisphere;
+  // USDA-style zone such as '7b'; missing when no reference point is near enough
+  hardinessZone?: string;
+  // Missing where frost is rare, or when no reference point is near enough
+  frostDates?: FrostDates;
+  // The reference point the zone and frost dates were taken from
+  referencePoint?: string;
+}
+
+/**
+ * Entry of the bundled climate dataset
+ */
+export interface ClimateReference {
+  name: string;
+  coordinates: [number, number]; // [latitude, longitude]
+  extremeMinimum: number; // average annual extreme minimum temperature, in °F
+  frostDates?: FrostDates;
+}
@@ -0,0 +1,33 @@
+/**
+ * Growth assessment, as returned by GET /trees/{treeId}/growth. The overall
+ * signal is also kept on the tree's currentStatus, where it feeds the
+ * health score.
+ */
+import { MeasurementMetric } from './measurement';
+
+export type GrowthSignal = 'slower_than_expected' | 'as_expected' | 'unknown';
+
+export type MetricGrowthStatus = 'slower_than_expected' | 'as_expected' | 'faster_than_expected' | 'unknown';
+
+export interface MetricGrowth {
+  // Per year, in the metric's unit; null without enough history
+  annualRate: number | null;
+  // Per year for the species at this stage; null if there is no expectation
+  expectedRate: [number, number] | null;
+  status: MetricGrowthStatus;
+  observations: number;
+}
+
+export interface GrowthAssessment {
+  signal: GrowthSignal;
+  metrics: Record<MeasurementMetric, MetricGrowth>;
+  assessedAt: string;
+}
+
+/**
+ * The part of an assessment stored on the tree
+ */
+export interface TreeGrowth {
+  signal: GrowthSignal;
+  assessedAt: string;
+}
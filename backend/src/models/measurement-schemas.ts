@@ -0,0 +1,19 @@
+/**
+ * Request schemas for the measurement endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { paginationQueryFields } from './pagination';
+
+export const createMeasurementSchema = s.object({
+  // Defaults to now; a bare date means the start of that day (UTC)
+  measuredAt: s.string({ format: 'date-time' }).optional(),
+  height: s.number({ min: 0 }).optional(),
+  trunkDiameter: s.number({ min: 0 }).optional(),
+  canopySpread: s.number({ min: 0 }).optional(),
+});
+
+export const listMeasurementsQuerySchema = s.object({
+  ...paginationQueryFields,
+});
+
+export type CreateMeasurementInput = Infer<typeof createMeasurementSchema>;
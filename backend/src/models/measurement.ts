@@ -0,0 +1,79 @@
+/**
+ * Measurement data model. Every height, trunk diameter or canopy spread
+ * reading is kept as a dated observation in the TreeCareMeasurements table,
+ * so a tree's growth can be followed over time; the tree's currentStatus
+ * only holds the latest of each.
+ */
+
+export const MEASUREMENT_METRICS = ['height', 'trunkDiameter', 'canopySpread'] as const;
+
+export type MeasurementMetric = (typeof MEASUREMENT_METRICS)[number];
+
+export const MEASUREMENT_SOURCES = ['manual', 'photo_analysis'] as const;
+
+export type MeasurementSource = (typeof MEASUREMENT_SOURCES)[number];
+
+export interface Measurement {
+  id: string;
+  treeId: string;
+  measuredAt: string;
+  source: MeasurementSource;
+  // Only what was measured; at least one of the three
+  height?: number; // in feet
+  trunkDiameter?: number; // in inches
+  canopySpread?: number; // in feet
+  // The analyzed photo, for photo_analysis measurements
+  photoId?: string;
+  createdAt: string;
+}
+
+/**
+ * Measurement as stored in the TreeCareMeasurements table (keyed by
+ * measurementId + treeId)
+ */
+export interface MeasurementItem extends Omit<Measurement, 'id'> {
+  measurementId: string;
+  userId: string;
+}
+
+export type Observation = Pick<Measurement, 'measuredAt' | 'source' | 'photoId' | MeasurementMetric>;
+
+export const toMeasurement = (item: MeasurementItem): Measurement => ({
+  id: item.measurementId,
+  treeId: item.treeId,
+  measuredAt: item.measuredAt,
+  source: item.source,
+  height: item.height,
+  trunkDiameter: item.trunkDiameter,
+  canopySpread: item.canopySpread,
+  photoId: item.photoId,
+  createdAt: item.createdAt,
+});
+
+/**
+ * The metrics an observation has values for
+ */
+export const measuredMetrics = (observation: Partial<Record<MeasurementMetric, number>>): MeasurementMetric[] =>
+  MEASUREMENT_METRICS.filter((metric) => observation[metric] !== undefined);
+
+/**
+ * Just the metric values, e.g. of a tree status
+ */
+export const metricValues = (
+  values: Partial<Record<MeasurementMetric, number>> = {}
+): Partial<Record<MeasurementMetric, number>> =>
+  Object.fromEntries(measuredMetrics(values).map((metric) => [metric, values[metric]]));
+
+/**
+ * The metric values that differ from `previous`, e.g. of an edit that resends
+ * the whole tree status
+ */
+export const changedMetricValues = (
+  previous: Partial<Record<MeasurementMetric, number>>,
+  values: Partial<Record<MeasurementMetric, number>> = {}
+): Partial<Record<MeasurementMetric, number>> =>
+  Object.fromEntries(
+    measuredMetrics(values)
+      .filter((metric) => values[metric] !== previous[metric])
+      .map((metric) => [metric, values[metric]])
+  );
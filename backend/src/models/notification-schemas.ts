@@ -0,0 +1,30 @@
+/**
+ * Request schemas for the notification endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_STATUSES, NOTIFICATION_TYPES } from './notification';
+import { RECOMMENDATION_PRIORITIES } from './recommendation';
+
+export const MAX_NOTIFICATIONS_PAGE_SIZE = 100;
+
+export const scheduleNotificationSchema = s.object({
+  treeId: s.string({ minLength: 1 }).optional(),
+  type: s.enum(NOTIFICATION_TYPES),
+  title: s.string({ minLength: 1, maxLength: 100, pattern: /\S/ }),
+  message: s.string({ minLength: 1, maxLength: 500, pattern: /\S/ }),
+  scheduledTime: s.string({ format: 'date-time' }),
+  channels: s.array(s.enum(NOTIFICATION_CHANNELS), { minItems: 1 }).optional(),
+  metadata: s
+    .object({
+      recommendationId: s.string({ minLength: 1 }).optional(),
+      priority: s.enum(RECOMMENDATION_PRIORITIES).optional(),
+    })
+    .optional(),
+});
+
+export const listNotificationsQuerySchema = s.object({
+  status: s.enum(NOTIFICATION_STATUSES).optional(),
+  limit: s.integer({ min: 1, max: MAX_NOTIFICATIONS_PAGE_SIZE }).optional(),
+});
+
+export type ScheduleNotificationInput = Infer<typeof scheduleNotificationSchema>;
@@ -0,0 +1,67 @@
+/**
+ * Scheduled notification data model shared by the notification handlers and
+ * the dispatcher. Notifications are stored in the TreeCareNotifications table.
+ */
+import { RecommendationPriority } from './recommendation';
+
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[number];
+
+export const NOTIFICATION_TYPES = ['care_reminder', 'recommendation', 'weather_alert', 'general'] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Only push delivery exists today
+export const NOTIFICATION_CHANNELS = ['push'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export interface NotificationMetadata {
+  recommendationId?: string;
+  priority?: RecommendationPriority;
+}
+
+export interface Notification {
+  notificationId: string;
+  treeId?: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  scheduledTime: string;
+  channels: NotificationChannel[];
+  metadata?: NotificationMetadata;
+  status: NotificationStatus;
+  attempts: number;
+  sentAt?: string;
+  failedAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Notification as stored in the TreeCareNotifications table. dueAt starts at
+ * scheduledTime and moves forward when a failed delivery is retried; it is
+ * the sort key of the status-index GSI the dispatcher reads.
+ */
+export interface NotificationItem extends Notification {
+  userId: string;
+  dueAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const toNotification = (item: NotificationItem): Notification => ({
+  notificationId: item.notificationId,
+  treeId: item.treeId,
+  type: item.type,
+  title: item.title,
+  message: item.message,
+  scheduledTime: item.scheduledTime,
+  channels: item.channels,
+  metadata: item.metadata,
+  status: item.status,
+  attempts: item.attempts,
+  sentAt: item.sentAt,
+  failedAt: item.failedAt,
+  lastError: item.lastError,
+});
@@ -0,0 +1,19 @@
+/**
+ * Shared paging for list endpoints. Lists return at most `limit` items and a
+ * `nextCursor` to pass back for the following page (null on the last page).
+ */
+import { s } from '../utils/schema';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  limit: number;
+  nextCursor: string | null;
+}
+
+// Query parameters accepted by every paginated endpoint
+export const paginationQueryFields = {
+  limit: s.integer({ min: 1, max: MAX_PAGE_SIZE }).optional(),
+  cursor: s.string({ minLength: 1, maxLength: 2048 }).optional(),
+};
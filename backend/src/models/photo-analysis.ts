@@ -0,0 +1,74 @@
+/**
+ * Photo analysis results, as returned by POST /photos/analyze and stored on
+ * the analyzed photo's record
+ */
+
+export interface SpeciesPrediction {
+  predicted: string; // scientific name
+  confidence: number; // 0-1
+  alternatives: { species: string; confidence: number }[];
+}
+
+export interface StructureFindings {
+  trunkDiameter: number; // in inches
+  estimatedHeight: number; // in feet
+  canopySpread: number; // in feet
+  branchCount: {
+    primary: number;
+    secondary: number;
+  };
+  leaderDominance: number; // 0-1, how clearly one central leader dominates
+}
+
+export type IndicatorRating = 'healthy' | 'fair' | 'poor';
+
+export interface HealthFindings {
+  overallScore: number; // 0-100
+  indicators: {
+    leafColor: IndicatorRating;
+    leafDensity: 'good' | 'moderate' | 'sparse';
+    barkCondition: 'normal' | 'damaged';
+    structuralIssues: string[];
+  };
+  diseases: string[];
+  pests: string[];
+}
+
+export type OverlayPriority = 'low' | 'medium' | 'high';
+
+export type PruningTechnique = 'thinning_cut' | 'reduction_cut' | 'crown_raising' | 'deadwood_removal';
+
+/**
+ * A marker on the photo. Coordinates are relative to the image, [x, y] in 0-1.
+ */
+export interface AnalysisOverlay {
+  type: 'pruning_cut' | 'health_concern';
+  coordinates: [number, number];
+  description: string;
+  priority: OverlayPriority;
+  technique?: PruningTechnique;
+}
+
+export interface PhotoAnalysis {
+  analyzer: string; // which PhotoAnalyzer produced the result
+  analyzedAt: string;
+  species: SpeciesPrediction;
+  structure: StructureFindings;
+  health: HealthFindings;
+  overlays: AnalysisOverlay[];
+}
+
+/**
+ * The headline numbers shown in photo history
+ */
+export interface PhotoAnalysisSummary {
+  healthScore: number;
+  estimatedHeight: number;
+  speciesConfidence: number;
+}
+
+export const summarizeAnalysis = (analysis: PhotoAnalysis): PhotoAnalysisSummary => ({
+  healthScore: analysis.health.overallScore,
+  estimatedHeight: analysis.structure.estimatedHeight,
+  speciesConfidence: analysis.species.confidence,
+});
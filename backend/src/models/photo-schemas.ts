@@ -0,0 +1,38 @@
+/**
+ * Request schemas for the photo endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { paginationQueryFields } from './pagination';
+import { CAMERA_ANGLES, MAX_PHOTO_BYTES, PHOTO_CONTENT_TYPES } from './photo';
+
+export const createPhotoUploadSchema = s.object({
+  contentType: s.enum(PHOTO_CONTENT_TYPES),
+  contentLength: s.integer({ min: 1, max: MAX_PHOTO_BYTES }),
+});
+
+export const completePhotoUploadSchema = s.object({
+  capturedAt: s.string({ format: 'date-time' }).optional(),
+  cameraAngle: s.enum(CAMERA_ANGLES).optional(),
+  gpsLocation: s.tuple(s.number({ min: -90, max: 90 }), s.number({ min: -180, max: 180 })).optional(),
+  weather: s
+    .object({
+      temperature: s.number().optional(),
+      conditions: s.string({ maxLength: 100 }).optional(),
+    })
+    .optional(),
+  notes: s.string({ maxLength: 1000 }).optional(),
+});
+
+export const listPhotosQuerySchema = s.object({
+  ...paginationQueryFields,
+  startDate: s.string({ format: 'date-time' }).optional(),
+  endDate: s.string({ format: 'date-time' }).optional(),
+});
+
+export const analyzePhotoSchema = s.object({
+  treeId: s.string({ minLength: 1 }),
+  photoId: s.string({ minLength: 1 }),
+});
+
+export type CreatePhotoUploadInput = Infer<typeof createPhotoUploadSchema>;
+export type CompletePhotoUploadInput = Infer<typeof completePhotoUploadSchema>;
@@ -0,0 +1,97 @@
+/**
+ * Photo data model shared by the photo handlers.
+ * Photo files live in the photo bucket under users/{userId}/trees/{treeId}/;
+ * the TreeCarePhotos table records each upload and its capture metadata.
+ */
+import { PhotoAnalysis, PhotoAnalysisSummary, summarizeAnalysis } from './photo-analysis';
+
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp'] as const;
+
+export type PhotoContentType = (typeof PHOTO_CONTENT_TYPES)[number];
+
+export const PHOTO_EXTENSIONS: Record<PhotoContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'image/webp': 'webp',
+};
+
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+export const CAMERA_ANGLES = ['front', 'side', 'back', 'top', 'detail'] as const;
+
+export type CameraAngle = (typeof CAMERA_ANGLES)[number];
+
+// `pending` until the client confirms the S3 upload finished
+export type PhotoUploadStatus = 'pending' | 'uploaded';
+
+export interface PhotoWeather {
+  temperature?: number;
+  conditions?: string;
+}
+
+export interface PhotoCaptureMetadata {
+  cameraAngle?: CameraAngle;
+  gpsLocation?: [number, number]; // [latitude, longitude]
+  weather?: PhotoWeather;
+  notes?: string;
+}
+
+/**
+ * Photo as stored in the TreeCarePhotos table (keyed by photoId + treeId)
+ */
+export interface PhotoItem extends PhotoCaptureMetadata {
+  photoId: string;
+  treeId: string;
+  // The tree's owner, also for photos others add to a shared tree
+  userId: string;
+  // Who added the photo; missing on photos from before trees could be shared
+  uploadedBy?: string;
+  s3Key: string;
+  contentType: PhotoContentType;
+  status: PhotoUploadStatus;
+  sizeBytes?: number;
+  // When the photo was taken; sort key of the treeId-index GSI
+  capturedAt: string;
+  createdAt: string;
+  uploadedAt?: string;
+  analysis?: PhotoAnalysis;
+  // DynamoDB TTL (epoch seconds) so abandoned uploads clean themselves up
+  expiresAt?: number;
+}
+
+export interface Photo extends PhotoCaptureMetadata {
+  photoId: string;
+  treeId: string;
+  timestamp: string;
+  contentType: PhotoContentType;
+  sizeBytes?: number;
+  originalUrl: string;
+  uploadedBy?: string;
+  analysis?: PhotoAnalysisSummary;
+}
+
+export const photoKeyPrefix = (userId: string, treeId: string): string =>
+  `users/${userId}/trees/${treeId}/`;
+
+export const photoKey = (
+  userId: string,
+  treeId: string,
+  photoId: string,
+  contentType: PhotoContentType
+): string => `${photoKeyPrefix(userId, treeId)}${photoId}.${PHOTO_EXTENSIONS[contentType]}`;
+
+export const toPhoto = (item: PhotoItem, originalUrl: string): Photo => ({
+  photoId: item.photoId,
+  treeId: item.treeId,
+  timestamp: item.capturedAt,
+  contentType: item.contentType,
+  sizeBytes: item.sizeBytes,
+  cameraAngle: item.cameraAngle,
+  gpsLocation: item.gpsLocation,
+  weather: item.weather,
+  notes: item.notes,
+  originalUrl,
+  uploadedBy: item.uploadedBy,
+  analysis: item.analysis && summarizeAnalysis(item.analysis),
+});
@@ -0,0 +1,26 @@
+/**
+ * Request schemas for the recommendation endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { RECOMMENDATION_PRIORITIES } from './recommendation';
+
+export const listRecommendationsQuerySchema = s.object({
+  includeCompleted: s.boolean().optional(),
+  priority: s.enum(RECOMMENDATION_PRIORITIES).optional(),
+});
+
+export const completeRecommendationSchema = s.object({
+  completedAt: s.string({ format: 'date-time' }).optional(),
+  notes: s.string({ maxLength: 2000 }).optional(),
+  beforePhotoId: s.string({ minLength: 1 }).optional(),
+  afterPhotoId: s.string({ minLength: 1 }).optional(),
+  results: s
+    .object({
+      timeSpent: s.integer({ min: 0 }).optional(),
+      difficultyExperienced: s.enum(['beginner', 'intermediate', 'advanced'] as const).optional(),
+      satisfaction: s.integer({ min: 1, max: 5 }).optional(),
+    })
+    .optional(),
+});
+
+export type CompleteRecommendationInput = Infer<typeof completeRecommendationSchema>;
@@ -0,0 +1,116 @@
+/**
+ * Care recommendation data model shared by the recommendation handlers.
+ * Recommendations are generated from rules (see services/recommendation-engine)
+ * and recorded in the TreeCareRecommendations table so they can be completed
+ * and show up in a tree's history.
+ */
+
+export const RECOMMENDATION_PRIORITIES = ['urgent', 'high', 'medium', 'low'] as const;
+
+export type RecommendationPriority = (typeof RECOMMENDATION_PRIORITIES)[number];
+
+export type RecommendationType = 'pruning' | 'watering' | 'mulching' | 'inspection';
+
+export type RecommendationStatus = 'pending' | 'completed';
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export type SeasonalFactor =
+  | 'dormant'
+  | 'late_winter_dormant'
+  | 'spring_growth'
+  | 'summer_active'
+  | 'fall_hardening'
+  | 'immediate';
+
+export interface RecommendationTiming {
+  idealDate: string;
+  windowStart: string;
+  windowEnd: string;
+  seasonalFactor: SeasonalFactor;
+}
+
+export interface RecommendationCompletion {
+  notes?: string;
+  beforePhotoId?: string;
+  afterPhotoId?: string;
+  results?: {
+    timeSpent?: number; // in minutes
+    difficultyExperienced?: Difficulty;
+    satisfaction?: number; // 1-5
+  };
+}
+
+export interface Recommendation {
+  id: string;
+  treeId: string;
+  ruleId: string;
+  type: RecommendationType;
+  priority: RecommendationPriority;
+  title: string;
+  description: string;
+  detailedInstructions?: string;
+  estimatedTime?: number; // in minutes
+  difficulty?: Difficulty;
+  tools?: string[];
+  safety?: string[];
+  timing: RecommendationTiming;
+  status: RecommendationStatus;
+  completedAt?: string;
+  completion?: RecommendationCompletion;
+}
+
+/**
+ * Recommendation as stored in the TreeCareRecommendations table. windowStart
+ * is copied out of timing as the sort key of the treeId-index GSI.
+ */
+export interface RecommendationItem extends Omit<Recommendation, 'id'> {
+  recommendationId: string;
+  userId: string;
+  windowStart: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecommendationHistoryEntry {
+  id: string;
+  type: RecommendationType;
+  title: string;
+  recommendedDate: string;
+  completedAt: string;
+  status: 'completed';
+  userNotes?: string;
+  beforeAfterPhotos: string[];
+}
+
+export const toRecommendation = (item: RecommendationItem): Recommendation => ({
+  id: item.recommendationId,
+  treeId: item.treeId,
+  ruleId: item.ruleId,
+  type: item.type,
+  priority: item.priority,
+  title: item.title,
+  description: item.description,
+  detailedInstructions: item.detailedInstructions,
+  estimatedTime: item.estimatedTime,
+  difficulty: item.difficulty,
+  tools: item.tools,
+  safety: item.safety,
+  timing: item.timing,
+  status: item.status,
+  completedAt: item.completedAt,
+  completion: item.completion,
+});
+
+export const toHistoryEntry = (item: RecommendationItem): RecommendationHistoryEntry => ({
+  id: item.recommendationId,
+  type: item.type,
+  title: item.title,
+  recommendedDate: item.timing.idealDate,
+  completedAt: item.completedAt!,
+  status: 'completed',
+  userNotes: item.completion?.notes,
+  beforeAfterPhotos: [item.completion?.beforePhotoId, item.completion?.afterPhotoId].filter(
+    (photoId): photoId is string => Boolean(photoId)
+  ),
+});
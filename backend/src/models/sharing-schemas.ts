@@ -0,0 +1,16 @@
+/**
+ * Request schemas for the sharing endpoints
+ */
+import { Infer, s } from '../utils/schema';
+import { MEMBER_ROLES } from './sharing';
+
+export const createInvitationSchema = s.object({
+  email: s.string({ maxLength: 254, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ }),
+  role: s.enum(MEMBER_ROLES),
+});
+
+export const updateMemberSchema = s.object({
+  role: s.enum(MEMBER_ROLES),
+});
+
+export type CreateInvitationInput = Infer<typeof createInvitationSchema>;
@@ -0,0 +1,93 @@
+/**
+ * Household sharing data model. A tree's owner is the user it is stored
+ * under; they can invite others by email to be editors or viewers. Accepted
+ * invitations become rows in the TreeCareTreeMembers table, and the
+ * invitations themselves are kept in TreeCareInvitations.
+ */
+
+// Most to least privileged
+export const TREE_ROLES = ['owner', 'editor', 'viewer'] as const;
+
+export type TreeRole = (typeof TREE_ROLES)[number];
+
+// Roles an invitation can grant; every tree has exactly one owner
+export const MEMBER_ROLES = ['editor', 'viewer'] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export const INVITATION_TTL_DAYS = 14;
+
+/**
+ * Whether the role includes everything the required role may do
+ */
+export const roleAllows = (role: TreeRole, required: TreeRole): boolean =>
+  TREE_ROLES.indexOf(role) <= TREE_ROLES.indexOf(required);
+
+export interface TreeMember {
+  userId: string;
+  email?: string;
+  role: TreeRole;
+  // When the invitation was accepted; missing for the owner
+  joinedAt?: string;
+}
+
+/**
+ * Row in the TreeCareTreeMembers table (keyed by treeId + userId), listed
+ * per user through the userId-index for "shared with me"
+ */
+export interface TreeMemberItem {
+  treeId: string;
+  userId: string;
+  // The tree is stored under its owner's userId
+  ownerId: string;
+  email: string;
+  role: MemberRole;
+  invitationId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Invitation {
+  id: string;
+  treeId: string;
+  treeName: string;
+  email: string;
+  role: MemberRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  respondedAt?: string;
+}
+
+/**
+ * Row in the TreeCareInvitations table (keyed by invitationId), listed
+ * through the treeId-index for the owner and the email-index for invitees
+ */
+export interface InvitationItem extends Omit<Invitation, 'id'> {
+  invitationId: string;
+  ownerId: string;
+  updatedAt: string;
+}
+
+export const toTreeMember = (item: TreeMemberItem): TreeMember => ({
+  userId: item.userId,
+  email: item.email,
+  role: item.role,
+  joinedAt: item.createdAt,
+});
+
+export const toInvitation = (item: InvitationItem): Invitation => ({
+  id: item.invitationId,
+  treeId: item.treeId,
+  treeName: item.treeName,
+  email: item.email,
+  role: item.role,
+  status: item.status,
+  invitedBy: item.invitedBy,
+  createdAt: item.createdAt,
+  expiresAt: item.expiresAt,
+  respondedAt: item.respondedAt,
+});
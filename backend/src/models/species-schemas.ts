@@ -0,0 +1,11 @@
+/**
+ * Request schemas for the species endpoints
+ */
+import { s } from '../utils/schema';
+
+export const MAX_SPECIES_RESULTS = 50;
+
+export const searchSpeciesQuerySchema = s.object({
+  q: s.string({ minLength: 1, maxLength: 100, pattern: /\S/ }),
+  limit: s.integer({ min: 1, max: MAX_SPECIES_RESULTS }).optional(),
+});
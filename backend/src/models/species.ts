@@ -0,0 +1,85 @@
+/**
+ * Species catalog data model. The catalog itself is bundled with the backend
+ * (see data/species.json) and served by the species handler.
+ */
+import { TreeSpecies } from './tree';
+
+export type GrowthRate = 'slow' | 'moderate' | 'fast';
+
+export type Tolerance = 'low' | 'moderate' | 'high';
+
+export type Suitability = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface SpeciesCharacteristics {
+  matureHeight: [number, number]; // in feet, min-max
+  matureSpread: [number, number]; // in feet, min-max
+  growthRate: GrowthRate;
+  hardinessZones: number[]; // USDA zones
+  lifespan?: number; // in years
+  sunRequirements: string;
+  soilPreferences: string[];
+  droughtTolerance?: Tolerance;
+}
+
+export interface PruningWindows {
+  bestSeason: string[];
+  avoidSeason: string[];
+  restrictions: string[];
+  techniques: string[];
+}
+
+export interface ShapeCompatibility {
+  goalId: string;
+  suitability: Suitability;
+  timeline: string;
+  notes?: string;
+}
+
+export interface Species {
+  speciesId: string;
+  scientificName: string;
+  commonNames: string[];
+  family: string;
+  characteristics: SpeciesCharacteristics;
+  pruning: PruningWindows;
+  shapeCompatibility: ShapeCompatibility[];
+}
+
+/**
+ * Search result shape; full pruning details come from GET /species/{speciesId}
+ */
+export interface SpeciesSummary {
+  speciesId: string;
+  scientificName: string;
+  commonNames: string[];
+  family: string;
+  characteristics: Pick<
+    SpeciesCharacteristics,
+    'matureHeight' | 'matureSpread' | 'growthRate' | 'hardinessZones' | 'sunRequirements'
+  >;
+  shapeCompatibility: string[];
+}
+
+export const toSpeciesSummary = (species: Species): SpeciesSummary => ({
+  speciesId: species.speciesId,
+  scientificName: species.scientificName,
+  commonNames: species.commonNames,
+  family: species.family,
+  characteristics: {
+    matureHeight: species.characteristics.matureHeight,
+    matureSpread: species.characteristics.matureSpread,
+    growthRate: species.characteristics.growthRate,
+    hardinessZones: species.characteristics.hardinessZones,
+    sunRequirements: species.characteristics.sunRequirements,
+  },
+  shapeCompatibility: species.shapeCompatibility.map((shape) => shape.goalId),
+});
+
+/**
+ * The species reference stored on a tree
+ */
+export const toTreeSpecies = (species: Species): TreeSpecies => ({
+  speciesId: species.speciesId,
+  scientificName: species.scientificName,
+  commonName: species.commonNames[0],
+});
@@ -0,0 +1,65 @@
+/**
+ * Subscription data model. Tiers match User.subscription in the mobile app;
+ * each user's tier is stored in the TreeCareSubscriptions table.
+ */
+export const SUBSCRIPTION_TIERS = ['free', 'hobbyist', 'arborist', 'professional'] as const;
+
+export type SubscriptionTier = (typeof SUBSCRIPTION_TIERS)[number];
+
+export const SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due', 'incomplete', 'canceled'] as const;
+
+export type SubscriptionStatus = (typeof SUBSCRIPTION_STATUSES)[number];
+
+// Past-due subscriptions keep their tier while the payment is retried
+const ENTITLED_STATUSES: ReadonlySet<SubscriptionStatus> = new Set(['active', 'trialing', 'past_due']);
+
+/**
+ * Metered usage is counted per calendar month (UTC) in attributes named
+ * `usage:<limit>:<yyyy-mm>` on the subscription item
+ */
+export type UsageCounterAttribute = `usage:${string}:${string}`;
+
+export const usageCounterAttribute = (limit: string, at: Date): UsageCounterAttribute =>
+  `usage:${limit}:${at.toISOString().slice(0, 7)}`;
+
+/**
+ * Row in the TreeCareSubscriptions table, kept in sync with Stripe by the
+ * Stripe webhook. Users without a row, or whose row only holds usage
+ * counters, are on the free tier.
+ */
+export interface SubscriptionItem {
+  userId: string;
+  subscriptionTier?: SubscriptionTier;
+  status?: SubscriptionStatus;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  currentPeriodStart?: string;
+  currentPeriodEnd?: string;
+  cancelAtPeriodEnd?: boolean;
+  // Creation time (epoch seconds) of the last Stripe event applied, so
+  // events delivered out of order cannot undo newer ones
+  stripeEventCreated?: number;
+  updatedAt?: string;
+  [counter: UsageCounterAttribute]: number;
+}
+
+/**
+ * The tier a subscription currently grants; canceled and unpaid
+ * subscriptions fall back to free
+ */
+export const effectiveTier = (item?: SubscriptionItem): SubscriptionTier =>
+  item?.subscriptionTier && (!item.status || ENTITLED_STATUSES.has(item.status))
+    ? item.subscriptionTier
+    : 'free';
+
+/**
+ * A Stripe event recorded in the TreeCareStripeEvents table once it is being
+ * processed, so redeliveries are not applied twice
+ */
+export interface StripeEventItem {
+  eventId: string;
+  type: string;
+  receivedAt: string;
+  // DynamoDB TTL (epoch seconds), past Stripe's retry window
+  expiresAt: number;
+}
@@ -0,0 +1,66 @@
+/**
+ * Request schemas for the tree endpoints
+ * Also used by the infrastructure stack to generate API Gateway models.
+ */
+import { Infer, s } from '../utils/schema';
+import { paginationQueryFields } from './pagination';
+
+const LIFECYCLE_STATUSES = ['active', 'archived'] as const;
+const GROWTH_STAGES = ['seedling', 'juvenile', 'young_adult', 'mature'] as const;
+const AESTHETIC_STYLES = ['natural', 'formal', 'pollarded'] as const;
+
+const treeName = s.string({ minLength: 1, maxLength: 100, pattern: /\S/ });
+
+// Names may be left out when speciesId refers to a catalog species
+const speciesSchema = s.object({
+  scientificName: s.string({ minLength: 1, maxLength: 200 }).optional(),
+  commonName: s.string({ minLength: 1, maxLength: 200 }).optional(),
+  speciesId: s.string({ minLength: 1, maxLength: 100 }).optional(),
+});
+
+const locationSchema = s.object({
+  yardPosition: s.string({ maxLength: 200 }).optional(),
+  coordinates: s.tuple(s.number({ min: -90, max: 90 }), s.number({ min: -180, max: 180 })).optional(),
+  sunExposure: s.string({ maxLength: 100 }).optional(),
+  soilType: s.string({ maxLength: 100 }).optional(),
+});
+
+const statusSchema = s.object({
+  height: s.number({ min: 0 }).optional(),
+  trunkDiameter: s.number({ min: 0 }).optional(),
+  canopySpread: s.number({ min: 0 }).optional(),
+  healthScore: s.number({ min: 0, max: 100 }).optional(),
+  growthStage: s.enum(GROWTH_STAGES).optional(),
+});
+
+const goalsSchema = s.object({
+  targetHeight: s.number({ min: 0 }).optional(),
+  clearanceNeeded: s.number({ min: 0 }).optional(),
+  aestheticStyle: s.enum(AESTHETIC_STYLES).optional(),
+});
+
+export const createTreeSchema = s.object({
+  name: treeName,
+  species: speciesSchema,
+  plantedDate: s.string({ format: 'date' }).optional(),
+  location: locationSchema.optional(),
+  currentStatus: statusSchema.optional(),
+  goals: goalsSchema.optional(),
+});
+
+export const updateTreeSchema = s.object({
+  name: treeName.optional(),
+  species: speciesSchema.optional(),
+  plantedDate: s.string({ format: 'date' }).optional(),
+  location: locationSchema.optional(),
+  currentStatus: statusSchema.optional(),
+  goals: goalsSchema.optional(),
+});
+
+export const listTreesQuerySchema = s.object({
+  ...paginationQueryFields,
+  status: s.enum(LIFECYCLE_STATUSES).optional(),
+});
+
+export type CreateTreeInput = Infer<typeof createTreeSchema>;
+export type UpdateTreeInput = Infer<typeof updateTreeSchema>;
@@ -0,0 +1,85 @@
+/**
+ * Tree data model shared by the tree handlers.
+ * Mirrors the `Tree` shape used by the mobile app's trees slice.
+ */
+import { Climate } from './climate';
+import { TreeGrowth } from './growth';
+
+export interface TreeSpecies {
+  scientificName: string;
+  commonName: string;
+  speciesId: string;
+}
+
+export interface TreeLocation {
+  yardPosition: string;
+  coordinates: [number, number]; // [latitude, longitude]
+  sunExposure: string;
+  soilType: string;
+}
+
+export type GrowthStage = 'seedling' | 'juvenile' | 'young_adult' | 'mature';
+
+export interface TreeStatus {
+  height: number; // in feet
+  trunkDiameter: number; // in inches
+  canopySpread: number; // in feet
+  healthScore: number; // 0-100, less GROWTH_HEALTH_PENALTY while growth is slower than expected
+  growthStage: GrowthStage;
+  // Latest growth assessment, once there are measurements
+  growth?: TreeGrowth;
+}
+
+export interface TreeGoals {
+  targetHeight: number;
+  clearanceNeeded: number;
+  aestheticStyle: 'natural' | 'formal' | 'pollarded';
+}
+
+export type TreeLifecycleStatus = 'active' | 'archived';
+
+export type TreeWarningCode = 'outside_hardiness_zone';
+
+export interface TreeWarning {
+  code: TreeWarningCode;
+  message: string;
+}
+
+// Archived trees, with their photos, are purged this long after archiving
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+export interface Tree {
+  id: string;
+  userId: string;
+  name: string;
+  species: TreeSpecies;
+  plantedDate: string;
+  location: TreeLocation;
+  // Resolved from location.coordinates, once they are set
+  climate?: Climate;
+  currentStatus: TreeStatus;
+  goals: TreeGoals;
+  // Problems with the tree's setup, such as a species planted outside its hardiness zones
+  warnings?: TreeWarning[];
+  status: TreeLifecycleStatus;
+  // Set while archived; sort key of the status-index GSI
+  archivedAt?: string;
+  // Set once the archived tree is being purged; it can no longer be restored
+  purgeStartedAt?: string;
+  // Incremented by every write; the tree's ETag
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Tree as stored in the TreeCareTrees table (keyed by treeId + userId)
+ */
+export interface TreeItem extends Omit<Tree, 'id'> {
+  treeId: string;
+}
+
+export const toTree = ({ treeId, ...rest }: TreeItem): Tree => ({
+  id: treeId,
+  ...rest,
+});
@@ -0,0 +1,16 @@
+/**
+ * User data model. Mirrors the `User` shape used by the mobile app's auth
+ * slice; the subscription tier lives in the TreeCareSubscriptions table.
+ */
+
+/**
+ * Row in the TreeCareUsers table (keyed by userId, the Cognito subject)
+ */
+export interface UserItem {
+  userId: string;
+  // Key of the email-index GSI
+  email: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
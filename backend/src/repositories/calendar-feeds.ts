@@ -0,0 +1,80 @@
+/**
+ * Calendar feeds, stored in the TreeCareCalendarFeeds table keyed by userId
+ * and looked up by token through the tokenHash-index
+ */
+import { DynamoDB } from 'aws-sdk';
+import { CalendarFeedItem } from '../models/calendar-feed';
+
+export interface CalendarFeedRepository {
+  get(userId: string): Promise<CalendarFeedItem | undefined>;
+  findByTokenHash(tokenHash: string): Promise<CalendarFeedItem | undefined>;
+  // Replaces the user's feed, so the previous token stops working
+  save(item: CalendarFeedItem): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export class DynamoCalendarFeedRepository implements CalendarFeedRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(userId: string): Promise<CalendarFeedItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { userId },
+    }).promise();
+
+    return result.Item as CalendarFeedItem | undefined;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeedItem | undefined> {
+    const result = await this.dynamoClient.query({
+      TableName: this.tableName,
+      IndexName: 'tokenHash-index',
+      KeyConditionExpression: 'tokenHash = :tokenHash',
+      ExpressionAttributeValues: { ':tokenHash': tokenHash },
+    }).promise();
+
+    return result.Items?.[0] as CalendarFeedItem | undefined;
+  }
+
+  async save(item: CalendarFeedItem): Promise<void> {
+    await this.dynamoClient.put({
+      TableName: this.tableName,
+      Item: item,
+    }).promise();
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.dynamoClient.delete({
+      TableName: this.tableName,
+      Key: { userId },
+    }).promise();
+  }
+}
+
+export class InMemoryCalendarFeedRepository implements CalendarFeedRepository {
+  private items = new Map<string, CalendarFeedItem>();
+
+  async get(userId: string): Promise<CalendarFeedItem | undefined> {
+    const item = this.items.get(userId);
+    return item && structuredClone(item);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeedItem | undefined> {
+    const item = [...this.items.values()].find((stored) => stored.tokenHash === tokenHash);
+    return item && structuredClone(item);
+  }
+
+  async save(item: CalendarFeedItem): Promise<void> {
+    this.items.set(item.userId, structuredClone(item));
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.items.delete(userId);
+  }
+}
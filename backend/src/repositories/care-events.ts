@@ -0,0 +1,176 @@
+/**
+ * Care events, stored in the TreeCareCareEvents table keyed by
+ * careEventId + treeId and listed through the treeId-index by date
+ */
+import { DynamoDB } from 'aws-sdk';
+import { CareEventItem, CareEventType } from '../models/care-event';
+import { ConflictError } from '../utils/errors';
+import { PageOptions, QueryPage, pageOfItems, queryPage } from '../utils/pagination';
+
+export interface CareEventRepository {
+  get(careEventId: string, treeId: string): Promise<CareEventItem | undefined>;
+  // Throws a ConflictError if the care event already exists
+  create(item: CareEventItem): Promise<void>;
+  save(item: CareEventItem): Promise<void>;
+  delete(careEventId: string, treeId: string): Promise<void>;
+  // The user's care events for a tree, optionally of one type, most recent first
+  listByTree(
+    treeId: string,
+    userId: string,
+    type: CareEventType | undefined,
+    page: PageOptions
+  ): Promise<QueryPage<CareEventItem>>;
+  // Deletes all of the user's care events for a tree and returns how many
+  deleteByTree(treeId: string, userId: string): Promise<number>;
+}
+
+export class DynamoCareEventRepository implements CareEventRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(careEventId: string, treeId: string): Promise<CareEventItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { careEventId, treeId },
+    }).promise();
+
+    return result.Item as CareEventItem | undefined;
+  }
+
+  async create(item: CareEventItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(careEventId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Care event ${item.careEventId} already exists`);
+    }
+  }
+
+  async save(item: CareEventItem): Promise<void> {
+    await this.dynamoClient.put({
+      TableName: this.tableName,
+      Item: item,
+    }).promise();
+  }
+
+  async delete(careEventId: string, treeId: string): Promise<void> {
+    await this.dynamoClient.delete({
+      TableName: this.tableName,
+      Key: { careEventId, treeId },
+    }).promise();
+  }
+
+  async listByTree(
+    treeId: string,
+    userId: string,
+    type: CareEventType | undefined,
+    page: PageOptions
+  ): Promise<QueryPage<CareEventItem>> {
+    return queryPage<CareEventItem>(
+      this.dynamoClient,
+      {
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        FilterExpression: type ? 'userId = :userId AND #type = :type' : 'userId = :userId',
+        ...(type && { ExpressionAttributeNames: { '#type': 'type' } }),
+        ExpressionAttributeValues: { ':treeId': treeId, ':userId': userId, ...(type && { ':type': type }) },
+        ScanIndexForward: false,
+      },
+      page
+    );
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    let deleted = 0;
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        ExpressionAttributeValues: { ':treeId': treeId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      const events = ((result.Items || []) as CareEventItem[]).filter((event) => event.userId === userId);
+      for (const event of events) {
+        await this.delete(event.careEventId, event.treeId);
+      }
+      deleted += events.length;
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return deleted;
+  }
+}
+
+// Most recent first, as the treeId-index lists them
+const mostRecentFirst = (a: CareEventItem, b: CareEventItem): number =>
+  b.date.localeCompare(a.date) || b.careEventId.localeCompare(a.careEventId);
+
+export class InMemoryCareEventRepository implements CareEventRepository {
+  private items = new Map<string, CareEventItem>();
+
+  async get(careEventId: string, treeId: string): Promise<CareEventItem | undefined> {
+    const item = this.items.get(`${careEventId}#${treeId}`);
+    return item && structuredClone(item);
+  }
+
+  async create(item: CareEventItem): Promise<void> {
+    if (this.items.has(`${item.careEventId}#${item.treeId}`)) {
+      throw new ConflictError(`Care event ${item.careEventId} already exists`);
+    }
+    await this.save(item);
+  }
+
+  async save(item: CareEventItem): Promise<void> {
+    this.items.set(`${item.careEventId}#${item.treeId}`, structuredClone(item));
+  }
+
+  async delete(careEventId: string, treeId: string): Promise<void> {
+    this.items.delete(`${careEventId}#${treeId}`);
+  }
+
+  async listByTree(
+    treeId: string,
+    userId: string,
+    type: CareEventType | undefined,
+    page: PageOptions
+  ): Promise<QueryPage<CareEventItem>> {
+    const events = this.byTree(treeId, userId)
+      .filter((item) => !type || item.type === type)
+      .sort(mostRecentFirst);
+
+    return pageOfItems(
+      events,
+      ({ careEventId, treeId: tree, date }) => ({ careEventId, treeId: tree, date }),
+      mostRecentFirst,
+      page
+    );
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    const events = this.byTree(treeId, userId);
+    events.forEach((event) => this.items.delete(`${event.careEventId}#${event.treeId}`));
+    return events.length;
+  }
+
+  private byTree(treeId: string, userId: string): CareEventItem[] {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId && item.userId === userId)
+      .map((item) => structuredClone(item));
+  }
+}
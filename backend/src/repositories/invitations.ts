@@ -0,0 +1,173 @@
+/**
+ * Invitations to share a tree, stored in the TreeCareInvitations table keyed
+ * by invitationId and listed through the treeId-index and email-index
+ */
+import { DynamoDB } from 'aws-sdk';
+import { InvitationItem } from '../models/sharing';
+import { ConflictError } from '../utils/errors';
+
+export interface InvitationRepository {
+  get(invitationId: string): Promise<InvitationItem | undefined>;
+  // Throws a ConflictError if the invitation already exists
+  create(item: InvitationItem): Promise<void>;
+  // Writes the response unless the invitation is no longer pending, i.e. a
+  // concurrent request answered or revoked it; false if so
+  respond(item: InvitationItem): Promise<boolean>;
+  // Every invitation to a tree, newest first
+  listByTree(treeId: string): Promise<InvitationItem[]>;
+  // Every invitation sent to the address, newest first
+  listByEmail(email: string): Promise<InvitationItem[]>;
+  // Deletes every invitation to a tree and returns how many
+  deleteByTree(treeId: string): Promise<number>;
+}
+
+// Addresses are matched case-insensitively, so they are stored lowercased
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class DynamoInvitationRepository implements InvitationRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(invitationId: string): Promise<InvitationItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { invitationId },
+    }).promise();
+
+    return result.Item as InvitationItem | undefined;
+  }
+
+  async create(item: InvitationItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: { ...item, email: normalizeEmail(item.email) },
+        ConditionExpression: 'attribute_not_exists(invitationId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Invitation ${item.invitationId} already exists`);
+    }
+  }
+
+  async respond(item: InvitationItem): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: { ...item, email: normalizeEmail(item.email) },
+        ConditionExpression: '#status = :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': 'pending' },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async listByTree(treeId: string): Promise<InvitationItem[]> {
+    return this.queryAll({
+      TableName: this.tableName,
+      IndexName: 'treeId-index',
+      KeyConditionExpression: 'treeId = :treeId',
+      ExpressionAttributeValues: { ':treeId': treeId },
+      ScanIndexForward: false,
+    });
+  }
+
+  async listByEmail(email: string): Promise<InvitationItem[]> {
+    return this.queryAll({
+      TableName: this.tableName,
+      IndexName: 'email-index',
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: { ':email': normalizeEmail(email) },
+      ScanIndexForward: false,
+    });
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const invitations = await this.listByTree(treeId);
+    for (const invitation of invitations) {
+      await this.dynamoClient.delete({
+        TableName: this.tableName,
+        Key: { invitationId: invitation.invitationId },
+      }).promise();
+    }
+    return invitations.length;
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<InvitationItem[]> {
+    const items: InvitationItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({ ...params, ExclusiveStartKey: exclusiveStartKey }).promise();
+
+      items.push(...((result.Items || []) as InvitationItem[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+}
+
+// Newest first, as the indexes list them
+const newestFirst = (a: InvitationItem, b: InvitationItem): number => b.createdAt.localeCompare(a.createdAt);
+
+export class InMemoryInvitationRepository implements InvitationRepository {
+  private items = new Map<string, InvitationItem>();
+
+  async get(invitationId: string): Promise<InvitationItem | undefined> {
+    const item = this.items.get(invitationId);
+    return item && structuredClone(item);
+  }
+
+  async create(item: InvitationItem): Promise<void> {
+    if (this.items.has(item.invitationId)) {
+      throw new ConflictError(`Invitation ${item.invitationId} already exists`);
+    }
+    this.put(item);
+  }
+
+  async respond(item: InvitationItem): Promise<boolean> {
+    if (this.items.get(item.invitationId)?.status !== 'pending') {
+      return false;
+    }
+    this.put(item);
+    return true;
+  }
+
+  async listByTree(treeId: string): Promise<InvitationItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId)
+      .sort(newestFirst)
+      .map((item) => structuredClone(item));
+  }
+
+  async listByEmail(email: string): Promise<InvitationItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.email === normalizeEmail(email))
+      .sort(newestFirst)
+      .map((item) => structuredClone(item));
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const invitations = await this.listByTree(treeId);
+    invitations.forEach((item) => this.items.delete(item.invitationId));
+    return invitations.length;
+  }
+
+  private put(item: InvitationItem): void {
+    this.items.set(item.invitationId, { ...structuredClone(item), email: normalizeEmail(item.email) });
+  }
+}
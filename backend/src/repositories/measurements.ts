@@ -0,0 +1,129 @@
+/**
+ * Measurements, stored in the TreeCareMeasurements table keyed by
+ * measurementId + treeId and listed through the treeId-index by measuredAt
+ */
+import { DynamoDB } from 'aws-sdk';
+import { MeasurementItem } from '../models/measurement';
+import { ConflictError } from '../utils/errors';
+import { PageOptions, QueryPage, pageOfItems, queryPage } from '../utils/pagination';
+
+export interface MeasurementRepository {
+  // Throws a ConflictError if the measurement already exists
+  create(item: MeasurementItem): Promise<void>;
+  // The user's measurements of a tree, newest first
+  listByTree(treeId: string, userId: string, page: PageOptions): Promise<QueryPage<MeasurementItem>>;
+  // All of the user's measurements of a tree, oldest first
+  listAllByTree(treeId: string, userId: string): Promise<MeasurementItem[]>;
+  // Deletes all of the user's measurements of a tree and returns how many
+  deleteByTree(treeId: string, userId: string): Promise<number>;
+}
+
+export class DynamoMeasurementRepository implements MeasurementRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async create(item: MeasurementItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(measurementId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Measurement ${item.measurementId} already exists`);
+    }
+  }
+
+  async listByTree(treeId: string, userId: string, page: PageOptions): Promise<QueryPage<MeasurementItem>> {
+    return queryPage<MeasurementItem>(
+      this.dynamoClient,
+      {
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        FilterExpression: 'userId = :userId',
+        ExpressionAttributeValues: { ':treeId': treeId, ':userId': userId },
+        ScanIndexForward: false,
+      },
+      page
+    );
+  }
+
+  async listAllByTree(treeId: string, userId: string): Promise<MeasurementItem[]> {
+    const items: MeasurementItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        FilterExpression: 'userId = :userId',
+        ExpressionAttributeValues: { ':treeId': treeId, ':userId': userId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      items.push(...((result.Items || []) as MeasurementItem[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    const measurements = await this.listAllByTree(treeId, userId);
+    for (const measurement of measurements) {
+      await this.dynamoClient.delete({
+        TableName: this.tableName,
+        Key: { measurementId: measurement.measurementId, treeId: measurement.treeId },
+      }).promise();
+    }
+    return measurements.length;
+  }
+}
+
+// Newest first, as the treeId-index lists them
+const newestFirst = (a: MeasurementItem, b: MeasurementItem): number =>
+  b.measuredAt.localeCompare(a.measuredAt) || b.measurementId.localeCompare(a.measurementId);
+
+export class InMemoryMeasurementRepository implements MeasurementRepository {
+  private items = new Map<string, MeasurementItem>();
+
+  async create(item: MeasurementItem): Promise<void> {
+    const key = `${item.measurementId}#${item.treeId}`;
+    if (this.items.has(key)) {
+      throw new ConflictError(`Measurement ${item.measurementId} already exists`);
+    }
+    this.items.set(key, structuredClone(item));
+  }
+
+  async listByTree(treeId: string, userId: string, page: PageOptions): Promise<QueryPage<MeasurementItem>> {
+    return pageOfItems(
+      (await this.listAllByTree(treeId, userId)).sort(newestFirst),
+      ({ measurementId, treeId: tree, measuredAt }) => ({ measurementId, treeId: tree, measuredAt }),
+      newestFirst,
+      page
+    );
+  }
+
+  async listAllByTree(treeId: string, userId: string): Promise<MeasurementItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId && item.userId === userId)
+      .sort((a, b) => newestFirst(b, a))
+      .map((item) => structuredClone(item));
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    const measurements = await this.listAllByTree(treeId, userId);
+    measurements.forEach((item) => this.items.delete(`${item.measurementId}#${item.treeId}`));
+    return measurements.length;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Scheduled notifications, stored in the TreeCareNotifications table keyed by
+ * notificationId. Users list theirs through the userId-index; the dispatcher
+ * finds due ones through the status-index, and purges those about a tree
+ * through the treeId-index.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { NotificationItem, NotificationStatus } from '../models/notification';
+import { ConflictError } from '../utils/errors';
+
+export interface NotificationListOptions {
+  status?: NotificationStatus;
+  limit: number;
+}
+
+export interface NotificationRepository {
+  get(notificationId: string): Promise<NotificationItem | undefined>;
+  // Throws a ConflictError if the notification already exists
+  create(item: NotificationItem): Promise<void>;
+  // The user's notifications, latest scheduled first
+  listByUser(userId: string, options: NotificationListOptions): Promise<NotificationItem[]>;
+  // Pending notifications due by `now`, earliest first
+  listDue(now: string, limit: number): Promise<NotificationItem[]>;
+  // Writes the outcome of a delivery attempt unless the notification is no
+  // longer pending at previousAttempts, i.e. another run handled it; false if so
+  saveAttempt(item: NotificationItem, previousAttempts: number): Promise<boolean>;
+  // Deletes every notification about a tree, whoever scheduled it, and returns how many
+  deleteByTree(treeId: string): Promise<number>;
+}
+
+export class DynamoNotificationRepository implements NotificationRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(notificationId: string): Promise<NotificationItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { notificationId },
+    }).promise();
+
+    return result.Item as NotificationItem | undefined;
+  }
+
+  async create(item: NotificationItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(notificationId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Notification ${item.notificationId} already exists`);
+    }
+  }
+
+  async listByUser(userId: string, { status, limit }: NotificationListOptions): Promise<NotificationItem[]> {
+    return this.queryUpTo(limit, {
+      TableName: this.tableName,
+      IndexName: 'userId-index',
+      KeyConditionExpression: 'userId = :userId',
+      ...(status && { FilterExpression: '#status = :status' }),
+      ExpressionAttributeNames: status ? { '#status': 'status' } : undefined,
+      ExpressionAttributeValues: { ':userId': userId, ...(status && { ':status': status }) },
+      ScanIndexForward: false,
+    });
+  }
+
+  async listDue(now: string, limit: number): Promise<NotificationItem[]> {
+    return this.queryUpTo(limit, {
+      TableName: this.tableName,
+      IndexName: 'status-index',
+      KeyConditionExpression: '#status = :pending AND dueAt <= :now',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':pending': 'pending', ':now': now },
+    });
+  }
+
+  async saveAttempt(item: NotificationItem, previousAttempts: number): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: '#status = :pending AND attempts = :attempts',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': 'pending', ':attempts': previousAttempts },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    let deleted = 0;
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        ExpressionAttributeValues: { ':treeId': treeId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      const notifications = (result.Items || []) as NotificationItem[];
+      for (const notification of notifications) {
+        await this.dynamoClient.delete({
+          TableName: this.tableName,
+          Key: { notificationId: notification.notificationId },
+        }).promise();
+      }
+      deleted += notifications.length;
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return deleted;
+  }
+
+  /**
+   * Query pages until `limit` items are in; a filtered page may come back short
+   */
+  private async queryUpTo(limit: number, params: DynamoDB.DocumentClient.QueryInput): Promise<NotificationItem[]> {
+    const items: NotificationItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        ...params,
+        Limit: limit - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      items.push(...((result.Items || []) as NotificationItem[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey && items.length < limit);
+
+    return items;
+  }
+}
+
+export class InMemoryNotificationRepository implements NotificationRepository {
+  private items = new Map<string, NotificationItem>();
+
+  async get(notificationId: string): Promise<NotificationItem | undefined> {
+    const item = this.items.get(notificationId);
+    return item && structuredClone(item);
+  }
+
+  async create(item: NotificationItem): Promise<void> {
+    if (this.items.has(item.notificationId)) {
+      throw new ConflictError(`Notification ${item.notificationId} already exists`);
+    }
+    this.items.set(item.notificationId, structuredClone(item));
+  }
+
+  async listByUser(userId: string, { status, limit }: NotificationListOptions): Promise<NotificationItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.userId === userId && (!status || item.status === status))
+      .sort((a, b) => b.scheduledTime.localeCompare(a.scheduledTime))
+      .slice(0, limit)
+      .map((item) => structuredClone(item));
+  }
+
+  async listDue(now: string, limit: number): Promise<NotificationItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.status === 'pending' && item.dueAt <= now)
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+      .slice(0, limit)
+      .map((item) => structuredClone(item));
+  }
+
+  async saveAttempt(item: NotificationItem, previousAttempts: number): Promise<boolean> {
+    const stored = this.items.get(item.notificationId);
+    if (stored?.status !== 'pending' || stored.attempts !== previousAttempts) {
+      return false;
+    }
+    this.items.set(item.notificationId, structuredClone(item));
+    return true;
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const notifications = [...this.items.values()].filter((item) => item.treeId === treeId);
+    notifications.forEach((item) => this.items.delete(item.notificationId));
+    return notifications.length;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Photo records, stored in the TreeCarePhotos table keyed by photoId + treeId.
+ * The files themselves live in the photo bucket and are not handled here.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { PhotoItem } from '../models/photo';
+import { ConflictError } from '../utils/errors';
+import { PageOptions, QueryPage, pageOfItems, queryPage } from '../utils/pagination';
+
+// Bounds on capture time, both inclusive ISO timestamps
+export interface CaptureRange {
+  from?: string;
+  to?: string;
+}
+
+export interface PhotoRepository {
+  get(photoId: string, treeId: string): Promise<PhotoItem | undefined>;
+  // Throws a ConflictError if the photo already exists
+  create(item: PhotoItem): Promise<void>;
+  save(item: PhotoItem): Promise<void>;
+  // The user's uploaded photos of a tree captured within the range, newest first
+  listUploaded(treeId: string, userId: string, range: CaptureRange, page: PageOptions): Promise<QueryPage<PhotoItem>>;
+  // Deletes every record of the user's photos of a tree, pending or not, and returns how many
+  deleteByTree(treeId: string, userId: string): Promise<number>;
+}
+
+export class DynamoPhotoRepository implements PhotoRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(photoId: string, treeId: string): Promise<PhotoItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { photoId, treeId },
+    }).promise();
+
+    return result.Item as PhotoItem | undefined;
+  }
+
+  async create(item: PhotoItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(photoId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Photo ${item.photoId} already exists`);
+    }
+  }
+
+  async save(item: PhotoItem): Promise<void> {
+    await this.dynamoClient.put({
+      TableName: this.tableName,
+      Item: item,
+    }).promise();
+  }
+
+  async listUploaded(
+    treeId: string,
+    userId: string,
+    { from, to }: CaptureRange,
+    page: PageOptions
+  ): Promise<QueryPage<PhotoItem>> {
+    // DynamoDB rejects a BETWEEN whose bounds are the wrong way round
+    if (from && to && from > to) {
+      return { items: [], nextCursor: null };
+    }
+
+    const values: DynamoDB.DocumentClient.ExpressionAttributeValueMap = {
+      ':treeId': treeId,
+      ':userId': userId,
+      ':uploaded': 'uploaded',
+    };
+    let keyCondition = 'treeId = :treeId';
+    if (from && to) {
+      keyCondition += ' AND capturedAt BETWEEN :from AND :to';
+      values[':from'] = from;
+      values[':to'] = to;
+    } else if (from) {
+      keyCondition += ' AND capturedAt >= :from';
+      values[':from'] = from;
+    } else if (to) {
+      keyCondition += ' AND capturedAt <= :to';
+      values[':to'] = to;
+    }
+
+    return queryPage<PhotoItem>(
+      this.dynamoClient,
+      {
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: keyCondition,
+        FilterExpression: 'userId = :userId AND #status = :uploaded',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: values,
+        ScanIndexForward: false,
+      },
+      page
+    );
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    let deleted = 0;
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        ExpressionAttributeValues: { ':treeId': treeId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      const photos = ((result.Items || []) as PhotoItem[]).filter((photo) => photo.userId === userId);
+      for (const photo of photos) {
+        await this.dynamoClient.delete({
+          TableName: this.tableName,
+          Key: { photoId: photo.photoId, treeId: photo.treeId },
+        }).promise();
+      }
+      deleted += photos.length;
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return deleted;
+  }
+}
+
+// Newest first, as the treeId-index lists them
+const newestFirst = (a: PhotoItem, b: PhotoItem): number =>
+  b.capturedAt.localeCompare(a.capturedAt) || b.photoId.localeCompare(a.photoId);
+
+export class InMemoryPhotoRepository implements PhotoRepository {
+  private items = new Map<string, PhotoItem>();
+
+  async get(photoId: string, treeId: string): Promise<PhotoItem | undefined> {
+    const item = this.items.get(`${photoId}#${treeId}`);
+    return item && structuredClone(item);
+  }
+
+  async create(item: PhotoItem): Promise<void> {
+    if (this.items.has(`${item.photoId}#${item.treeId}`)) {
+      throw new ConflictError(`Photo ${item.photoId} already exists`);
+    }
+    await this.save(item);
+  }
+
+  async save(item: PhotoItem): Promise<void> {
+    this.items.set(`${item.photoId}#${item.treeId}`, structuredClone(item));
+  }
+
+  async listUploaded(
+    treeId: string,
+    userId: string,
+    { from, to }: CaptureRange,
+    page: PageOptions
+  ): Promise<QueryPage<PhotoItem>> {
+    const photos = this.byTree(treeId, userId)
+      .filter((item) => item.status === 'uploaded')
+      .filter((item) => (!from || item.capturedAt >= from) && (!to || item.capturedAt <= to))
+      .sort(newestFirst);
+
+    return pageOfItems(
+      photos,
+      ({ photoId, treeId: tree, capturedAt }) => ({ photoId, treeId: tree, capturedAt }),
+      newestFirst,
+      page
+    );
+  }
+
+  async deleteByTree(treeId: string, userId: string): Promise<number> {
+    const photos = this.byTree(treeId, userId);
+    photos.forEach((photo) => this.items.delete(`${photo.photoId}#${photo.treeId}`));
+    return photos.length;
+  }
+
+  private byTree(treeId: string, userId: string): PhotoItem[] {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId && item.userId === userId)
+      .map((item) => structuredClone(item));
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Recommendations, stored in the TreeCareRecommendations table keyed by
+ * recommendationId and listed through the treeId-index by windowStart
+ */
+import { DynamoDB } from 'aws-sdk';
+import { RecommendationItem } from '../models/recommendation';
+
+export interface RecommendationRepository {
+  get(recommendationId: string): Promise<RecommendationItem | undefined>;
+  // Stores the recommendation unless it was recorded before; false if it was
+  createIfNew(item: RecommendationItem): Promise<boolean>;
+  // Stores the completed recommendation while the stored one is still pending; false otherwise
+  complete(item: RecommendationItem): Promise<boolean>;
+  // Every recommendation recorded for a tree, pending and completed
+  listByTree(treeId: string): Promise<RecommendationItem[]>;
+  // Deletes every recommendation for a tree and returns how many
+  deleteByTree(treeId: string): Promise<number>;
+}
+
+export class DynamoRecommendationRepository implements RecommendationRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(recommendationId: string): Promise<RecommendationItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { recommendationId },
+    }).promise();
+
+    return result.Item as RecommendationItem | undefined;
+  }
+
+  async createIfNew(item: RecommendationItem): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(recommendationId)',
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async complete(item: RecommendationItem): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: '#status = :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': 'pending' },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async listByTree(treeId: string): Promise<RecommendationItem[]> {
+    const items: RecommendationItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'treeId-index',
+        KeyConditionExpression: 'treeId = :treeId',
+        ExpressionAttributeValues: { ':treeId': treeId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      items.push(...((result.Items || []) as RecommendationItem[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const recommendations = await this.listByTree(treeId);
+    for (const recommendation of recommendations) {
+      await this.dynamoClient.delete({
+        TableName: this.tableName,
+        Key: { recommendationId: recommendation.recommendationId },
+      }).promise();
+    }
+    return recommendations.length;
+  }
+}
+
+export class InMemoryRecommendationRepository implements RecommendationRepository {
+  private items = new Map<string, RecommendationItem>();
+
+  async get(recommendationId: string): Promise<RecommendationItem | undefined> {
+    const item = this.items.get(recommendationId);
+    return item && structuredClone(item);
+  }
+
+  async createIfNew(item: RecommendationItem): Promise<boolean> {
+    if (this.items.has(item.recommendationId)) {
+      return false;
+    }
+    this.items.set(item.recommendationId, structuredClone(item));
+    return true;
+  }
+
+  async complete(item: RecommendationItem): Promise<boolean> {
+    if (this.items.get(item.recommendationId)?.status !== 'pending') {
+      return false;
+    }
+    this.items.set(item.recommendationId, structuredClone(item));
+    return true;
+  }
+
+  async listByTree(treeId: string): Promise<RecommendationItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId)
+      .sort((a, b) => a.windowStart.localeCompare(b.windowStart))
+      .map((item) => structuredClone(item));
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const recommendations = await this.listByTree(treeId);
+    recommendations.forEach((item) => this.items.delete(item.recommendationId));
+    return recommendations.length;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * The repositories handlers receive through their constructors: DynamoDB in
+ * the deployed functions, in memory wherever a table is not needed
+ */
+import { DynamoDB } from 'aws-sdk';
+import { CareEventRepository, DynamoCareEventRepository, InMemoryCareEventRepository } from './care-events';
+import {
+  CalendarFeedRepository,
+  DynamoCalendarFeedRepository,
+  InMemoryCalendarFeedRepository,
+} from './calendar-feeds';
+import { DynamoInvitationRepository, InMemoryInvitationRepository, InvitationRepository } from './invitations';
+import { DynamoMeasurementRepository, InMemoryMeasurementRepository, MeasurementRepository } from './measurements';
+import { DynamoNotificationRepository, InMemoryNotificationRepository, NotificationRepository } from './notifications';
+import { DynamoPhotoRepository, InMemoryPhotoRepository, PhotoRepository } from './photos';
+import {
+  DynamoRecommendationRepository,
+  InMemoryRecommendationRepository,
+  RecommendationRepository,
+} from './recommendations';
+import { DynamoStripeEventRepository, InMemoryStripeEventRepository, StripeEventRepository } from './stripe-events';
+import {
+  DynamoSubscriptionRepository,
+  InMemorySubscriptionRepository,
+  SubscriptionRepository,
+} from './subscriptions';
+import { DynamoTreeMemberRepository, InMemoryTreeMemberRepository, TreeMemberRepository } from './tree-members';
+import { DynamoTreeRepository, InMemoryTreeRepository, TreeRepository } from './trees';
+import { DynamoUserRepository, InMemoryUserRepository, UserRepository } from './users';
+
+export interface Repositories {
+  users: UserRepository;
+  trees: TreeRepository;
+  photos: PhotoRepository;
+  subscriptions: SubscriptionRepository;
+  careEvents: CareEventRepository;
+  measurements: MeasurementRepository;
+  recommendations: RecommendationRepository;
+  calendarFeeds: CalendarFeedRepository;
+  treeMembers: TreeMemberRepository;
+  invitations: InvitationRepository;
+  notifications: NotificationRepository;
+  stripeEvents: StripeEventRepository;
+}
+
+/**
+ * Repositories over the stage's tables, sharing one DocumentClient
+ */
+export const dynamoRepositories = (
+  dynamoClient: DynamoDB.DocumentClient = new DynamoDB.DocumentClient({
+    region: process.env.AWS_REGION || 'us-east-2',
+  }),
+  stage: string = process.env.STAGE || 'dev'
+): Repositories => ({
+  users: new DynamoUserRepository(dynamoClient, `TreeCareUsers-${stage}`),
+  trees: new DynamoTreeRepository(dynamoClient, `TreeCareTrees-${stage}`),
+  photos: new DynamoPhotoRepository(dynamoClient, `TreeCarePhotos-${stage}`),
+  subscriptions: new DynamoSubscriptionRepository(dynamoClient, `TreeCareSubscriptions-${stage}`),
+  careEvents: new DynamoCareEventRepository(dynamoClient, `TreeCareCareEvents-${stage}`),
+  measurements: new DynamoMeasurementRepository(dynamoClient, `TreeCareMeasurements-${stage}`),
+  recommendations: new DynamoRecommendationRepository(dynamoClient, `TreeCareRecommendations-${stage}`),
+  calendarFeeds: new DynamoCalendarFeedRepository(dynamoClient, `TreeCareCalendarFeeds-${stage}`),
+  treeMembers: new DynamoTreeMemberRepository(dynamoClient, `TreeCareTreeMembers-${stage}`),
+  invitations: new DynamoInvitationRepository(dynamoClient, `TreeCareInvitations-${stage}`),
+  notifications: new DynamoNotificationRepository(dynamoClient, `TreeCareNotifications-${stage}`),
+  stripeEvents: new DynamoStripeEventRepository(dynamoClient, `TreeCareStripeEvents-${stage}`),
+});
+
+export const inMemoryRepositories = (): Repositories => ({
+  users: new InMemoryUserRepository(),
+  trees: new InMemoryTreeRepository(),
+  photos: new InMemoryPhotoRepository(),
+  subscriptions: new InMemorySubscriptionRepository(),
+  careEvents: new InMemoryCareEventRepository(),
+  measurements: new InMemoryMeasurementRepository(),
+  recommendations: new InMemoryRecommendationRepository(),
+  calendarFeeds: new InMemoryCalendarFeedRepository(),
+  treeMembers: new InMemoryTreeMemberRepository(),
+  invitations: new InMemoryInvitationRepository(),
+  notifications: new InMemoryNotificationRepository(),
+  stripeEvents: new InMemoryStripeEventRepository(),
+});
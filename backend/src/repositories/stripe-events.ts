@@ -0,0 +1,62 @@
+/**
+ * Stripe events being or already processed, stored in the TreeCareStripeEvents
+ * table keyed by eventId and expired by DynamoDB TTL
+ */
+import { DynamoDB } from 'aws-sdk';
+import { StripeEventItem } from '../models/subscription';
+
+export interface StripeEventRepository {
+  // Records the event; false if it already was
+  claim(item: StripeEventItem): Promise<boolean>;
+  // Forgets the event, so a redelivery is processed again
+  release(eventId: string): Promise<void>;
+}
+
+export class DynamoStripeEventRepository implements StripeEventRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async claim(item: StripeEventItem): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(eventId)',
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async release(eventId: string): Promise<void> {
+    await this.dynamoClient.delete({
+      TableName: this.tableName,
+      Key: { eventId },
+    }).promise();
+  }
+}
+
+export class InMemoryStripeEventRepository implements StripeEventRepository {
+  private items = new Map<string, StripeEventItem>();
+
+  async claim(item: StripeEventItem): Promise<boolean> {
+    if (this.items.has(item.eventId)) {
+      return false;
+    }
+    this.items.set(item.eventId, structuredClone(item));
+    return true;
+  }
+
+  async release(eventId: string): Promise<void> {
+    this.items.delete(eventId);
+  }
+}
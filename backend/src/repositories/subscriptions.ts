@@ -0,0 +1,132 @@
+/**
+ * Subscriptions, stored in the TreeCareSubscriptions table keyed by userId.
+ * Rows are written by the Stripe webhook and carry the monthly usage counters.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { SubscriptionItem, UsageCounterAttribute } from '../models/subscription';
+
+// What a Stripe event sets on the row; stripeEventCreated orders the events
+export type SubscriptionUpdate = Omit<Partial<SubscriptionItem>, 'userId'> & { stripeEventCreated: number };
+
+export interface SubscriptionRepository {
+  get(userId: string): Promise<SubscriptionItem | undefined>;
+  findByStripeCustomer(customerId: string): Promise<SubscriptionItem | undefined>;
+  // Sets the fields unless an event newer than update.stripeEventCreated was applied; false if one was
+  applyStripeUpdate(userId: string, update: SubscriptionUpdate): Promise<boolean>;
+  // Adds to the counter; with a limit, only while the counter is below it, returning false otherwise
+  addUsage(userId: string, counter: UsageCounterAttribute, amount: number, limit?: number): Promise<boolean>;
+}
+
+export class DynamoSubscriptionRepository implements SubscriptionRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(userId: string): Promise<SubscriptionItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { userId },
+    }).promise();
+
+    return result.Item as SubscriptionItem | undefined;
+  }
+
+  async findByStripeCustomer(customerId: string): Promise<SubscriptionItem | undefined> {
+    const result = await this.dynamoClient.query({
+      TableName: this.tableName,
+      IndexName: 'stripeCustomerId-index',
+      KeyConditionExpression: 'stripeCustomerId = :customerId',
+      ExpressionAttributeValues: { ':customerId': customerId },
+    }).promise();
+
+    return result.Items?.[0] as SubscriptionItem | undefined;
+  }
+
+  async applyStripeUpdate(userId: string, update: SubscriptionUpdate): Promise<boolean> {
+    const fields: Record<string, unknown> = update;
+    const names = Object.keys(fields);
+
+    try {
+      await this.dynamoClient.update({
+        TableName: this.tableName,
+        Key: { userId },
+        UpdateExpression: `SET ${names.map((_, i) => `#f${i} = :f${i}`).join(', ')}`,
+        ConditionExpression: 'attribute_not_exists(#created) OR #created <= :created',
+        ExpressionAttributeNames: {
+          '#created': 'stripeEventCreated',
+          ...Object.fromEntries(names.map((name, i) => [`#f${i}`, name])),
+        },
+        ExpressionAttributeValues: {
+          ':created': update.stripeEventCreated,
+          ...Object.fromEntries(names.map((name, i) => [`:f${i}`, fields[name]])),
+        },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async addUsage(userId: string, counter: UsageCounterAttribute, amount: number, limit?: number): Promise<boolean> {
+    try {
+      await this.dynamoClient.update({
+        TableName: this.tableName,
+        Key: { userId },
+        UpdateExpression: 'ADD #counter :amount',
+        ExpressionAttributeNames: { '#counter': counter },
+        ...(limit === undefined
+          ? { ExpressionAttributeValues: { ':amount': amount } }
+          : {
+              ConditionExpression: 'attribute_not_exists(#counter) OR #counter < :limit',
+              ExpressionAttributeValues: { ':amount': amount, ':limit': limit },
+            }),
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+}
+
+export class InMemorySubscriptionRepository implements SubscriptionRepository {
+  private items = new Map<string, SubscriptionItem>();
+
+  async get(userId: string): Promise<SubscriptionItem | undefined> {
+    const item = this.items.get(userId);
+    return item && structuredClone(item);
+  }
+
+  async findByStripeCustomer(customerId: string): Promise<SubscriptionItem | undefined> {
+    const item = [...this.items.values()].find((stored) => stored.stripeCustomerId === customerId);
+    return item && structuredClone(item);
+  }
+
+  async applyStripeUpdate(userId: string, update: SubscriptionUpdate): Promise<boolean> {
+    const stored = this.items.get(userId);
+    if (stored?.stripeEventCreated !== undefined && stored.stripeEventCreated > update.stripeEventCreated) {
+      return false;
+    }
+    this.items.set(userId, { ...stored, ...structuredClone(update), userId });
+    return true;
+  }
+
+  async addUsage(userId: string, counter: UsageCounterAttribute, amount: number, limit?: number): Promise<boolean> {
+    const stored: SubscriptionItem = this.items.get(userId) ?? { userId };
+    const current = stored[counter] ?? 0;
+    if (limit !== undefined && stored[counter] !== undefined && current >= limit) {
+      return false;
+    }
+    this.items.set(userId, { ...stored, [counter]: current + amount });
+    return true;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Tree members, stored in the TreeCareTreeMembers table keyed by
+ * treeId + userId and listed per user through the userId-index
+ */
+import { DynamoDB } from 'aws-sdk';
+import { TreeMemberItem } from '../models/sharing';
+
+export interface TreeMemberRepository {
+  get(treeId: string, userId: string): Promise<TreeMemberItem | undefined>;
+  save(item: TreeMemberItem): Promise<void>;
+  delete(treeId: string, userId: string): Promise<void>;
+  // Members of a tree, in the order they joined
+  listByTree(treeId: string): Promise<TreeMemberItem[]>;
+  // Trees shared with the user, most recently joined first
+  listByUser(userId: string): Promise<TreeMemberItem[]>;
+  // Deletes every member of a tree and returns how many
+  deleteByTree(treeId: string): Promise<number>;
+}
+
+export class DynamoTreeMemberRepository implements TreeMemberRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(treeId: string, userId: string): Promise<TreeMemberItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { treeId, userId },
+    }).promise();
+
+    return result.Item as TreeMemberItem | undefined;
+  }
+
+  async save(item: TreeMemberItem): Promise<void> {
+    await this.dynamoClient.put({
+      TableName: this.tableName,
+      Item: item,
+    }).promise();
+  }
+
+  async delete(treeId: string, userId: string): Promise<void> {
+    await this.dynamoClient.delete({
+      TableName: this.tableName,
+      Key: { treeId, userId },
+    }).promise();
+  }
+
+  async listByTree(treeId: string): Promise<TreeMemberItem[]> {
+    const items = await this.queryAll({
+      TableName: this.tableName,
+      KeyConditionExpression: 'treeId = :treeId',
+      ExpressionAttributeValues: { ':treeId': treeId },
+    });
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async listByUser(userId: string): Promise<TreeMemberItem[]> {
+    return this.queryAll({
+      TableName: this.tableName,
+      IndexName: 'userId-index',
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: { ':userId': userId },
+      ScanIndexForward: false,
+    });
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const members = await this.listByTree(treeId);
+    for (const member of members) {
+      await this.delete(member.treeId, member.userId);
+    }
+    return members.length;
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<TreeMemberItem[]> {
+    const items: TreeMemberItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({ ...params, ExclusiveStartKey: exclusiveStartKey }).promise();
+
+      items.push(...((result.Items || []) as TreeMemberItem[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+}
+
+export class InMemoryTreeMemberRepository implements TreeMemberRepository {
+  private items = new Map<string, TreeMemberItem>();
+
+  async get(treeId: string, userId: string): Promise<TreeMemberItem | undefined> {
+    const item = this.items.get(`${treeId}#${userId}`);
+    return item && structuredClone(item);
+  }
+
+  async save(item: TreeMemberItem): Promise<void> {
+    this.items.set(`${item.treeId}#${item.userId}`, structuredClone(item));
+  }
+
+  async delete(treeId: string, userId: string): Promise<void> {
+    this.items.delete(`${treeId}#${userId}`);
+  }
+
+  async listByTree(treeId: string): Promise<TreeMemberItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.treeId === treeId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((item) => structuredClone(item));
+  }
+
+  async listByUser(userId: string): Promise<TreeMemberItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((item) => structuredClone(item));
+  }
+
+  async deleteByTree(treeId: string): Promise<number> {
+    const members = await this.listByTree(treeId);
+    members.forEach((item) => this.items.delete(`${item.treeId}#${item.userId}`));
+    return members.length;
+  }
+}
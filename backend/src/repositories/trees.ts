@@ -0,0 +1,275 @@
+/**
+ * Trees, stored in the TreeCareTrees table keyed by treeId + userId. Every
+ * lookup is scoped to the owner, so another user's tree reads as missing.
+ */
+import { DynamoDB } from 'aws-sdk';
+import { TreeItem, TreeLifecycleStatus } from '../models/tree';
+import { ConflictError } from '../utils/errors';
+import { PageOptions, QueryPage, pageOfItems, queryPage } from '../utils/pagination';
+
+export interface TreeRepository {
+  // Trees written before versioning come back as version 0
+  get(treeId: string, userId: string): Promise<TreeItem | undefined>;
+  // Throws a ConflictError if the tree already exists
+  create(item: TreeItem): Promise<void>;
+  // Replaces the tree if the stored copy is still at expectedVersion; false if it is not
+  save(item: TreeItem, expectedVersion: number): Promise<boolean>;
+  // The user's trees with the status, newest first
+  listByUser(userId: string, status: TreeLifecycleStatus, page: PageOptions): Promise<QueryPage<TreeItem>>;
+  // Every one of the user's trees, whatever the status
+  listAllByUser(userId: string): Promise<TreeItem[]>;
+  // Up to `limit` trees archived at or before the cutoff
+  listArchivedBefore(cutoff: string, limit: number): Promise<TreeItem[]>;
+  // Marks the tree as being purged if it is still archived at or before the cutoff, bumping
+  // its version so a restore that read it earlier fails; false if it was restored
+  startPurge(tree: TreeItem, cutoff: string, startedAt: string): Promise<boolean>;
+  // Deletes the tree if it is still archived at or before the cutoff; false if it was restored
+  deleteArchived(tree: TreeItem, cutoff: string): Promise<boolean>;
+}
+
+const withVersion = (item: TreeItem): TreeItem => ({ ...item, version: item.version ?? 0 });
+
+export class DynamoTreeRepository implements TreeRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(treeId: string, userId: string): Promise<TreeItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { treeId, userId },
+    }).promise();
+
+    return result.Item && withVersion(result.Item as TreeItem);
+  }
+
+  async create(item: TreeItem): Promise<void> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(treeId)',
+      }).promise();
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      throw new ConflictError(`Tree ${item.treeId} already exists`);
+    }
+  }
+
+  async save(item: TreeItem, expectedVersion: number): Promise<boolean> {
+    try {
+      await this.dynamoClient.put({
+        TableName: this.tableName,
+        Item: item,
+        ...(expectedVersion === 0
+          ? {
+              ConditionExpression: 'attribute_exists(treeId) AND attribute_not_exists(#version)',
+              ExpressionAttributeNames: { '#version': 'version' },
+            }
+          : {
+              ConditionExpression: '#version = :expected',
+              ExpressionAttributeNames: { '#version': 'version' },
+              ExpressionAttributeValues: { ':expected': expectedVersion },
+            }),
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async listByUser(userId: string, status: TreeLifecycleStatus, page: PageOptions): Promise<QueryPage<TreeItem>> {
+    const result = await queryPage<TreeItem>(
+      this.dynamoClient,
+      {
+        TableName: this.tableName,
+        IndexName: 'userId-index',
+        KeyConditionExpression: 'userId = :userId',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':userId': userId, ':status': status },
+        ScanIndexForward: false,
+      },
+      page
+    );
+
+    return { ...result, items: result.items.map(withVersion) };
+  }
+
+  async listAllByUser(userId: string): Promise<TreeItem[]> {
+    const items: TreeItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'userId-index',
+        KeyConditionExpression: 'userId = :userId',
+        ExpressionAttributeValues: { ':userId': userId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      items.push(...((result.Items || []) as TreeItem[]).map(withVersion));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  async listArchivedBefore(cutoff: string, limit: number): Promise<TreeItem[]> {
+    const items: TreeItem[] = [];
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+
+    do {
+      const result = await this.dynamoClient.query({
+        TableName: this.tableName,
+        IndexName: 'status-index',
+        KeyConditionExpression: '#status = :archived AND archivedAt <= :cutoff',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':archived': 'archived', ':cutoff': cutoff },
+        Limit: limit - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      }).promise();
+
+      items.push(...((result.Items || []) as TreeItem[]).map(withVersion));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey && items.length < limit);
+
+    return items;
+  }
+
+  async startPurge(tree: TreeItem, cutoff: string, startedAt: string): Promise<boolean> {
+    try {
+      await this.dynamoClient.update({
+        TableName: this.tableName,
+        Key: { treeId: tree.treeId, userId: tree.userId },
+        // A run that failed partway already set purgeStartedAt; keep the first
+        UpdateExpression: [
+          'SET purgeStartedAt = if_not_exists(purgeStartedAt, :startedAt),',
+          '#version = if_not_exists(#version, :zero) + :one',
+        ].join(' '),
+        ConditionExpression: '#status = :archived AND archivedAt <= :cutoff',
+        ExpressionAttributeNames: { '#status': 'status', '#version': 'version' },
+        ExpressionAttributeValues: {
+          ':archived': 'archived',
+          ':cutoff': cutoff,
+          ':startedAt': startedAt,
+          ':zero': 0,
+          ':one': 1,
+        },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  async deleteArchived(tree: TreeItem, cutoff: string): Promise<boolean> {
+    try {
+      await this.dynamoClient.delete({
+        TableName: this.tableName,
+        Key: { treeId: tree.treeId, userId: tree.userId },
+        ConditionExpression: '#status = :archived AND archivedAt <= :cutoff',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':archived': 'archived', ':cutoff': cutoff },
+      }).promise();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+}
+
+// Newest first, as the userId-index lists them
+const newestFirst = (a: TreeItem, b: TreeItem): number =>
+  b.createdAt.localeCompare(a.createdAt) || b.treeId.localeCompare(a.treeId);
+
+export class InMemoryTreeRepository implements TreeRepository {
+  private items = new Map<string, TreeItem>();
+
+  async get(treeId: string, userId: string): Promise<TreeItem | undefined> {
+    const item = this.items.get(`${treeId}#${userId}`);
+    return item && withVersion(structuredClone(item));
+  }
+
+  async create(item: TreeItem): Promise<void> {
+    if (this.items.has(`${item.treeId}#${item.userId}`)) {
+      throw new ConflictError(`Tree ${item.treeId} already exists`);
+    }
+    this.put(item);
+  }
+
+  async save(item: TreeItem, expectedVersion: number): Promise<boolean> {
+    const stored = this.items.get(`${item.treeId}#${item.userId}`);
+    if (!stored || (stored.version ?? 0) !== expectedVersion) {
+      return false;
+    }
+    this.put(item);
+    return true;
+  }
+
+  async listByUser(userId: string, status: TreeLifecycleStatus, page: PageOptions): Promise<QueryPage<TreeItem>> {
+    const trees = (await this.listAllByUser(userId)).filter((item) => item.status === status);
+    return pageOfItems(
+      trees,
+      ({ treeId, userId: owner, createdAt }) => ({ treeId, userId: owner, createdAt }),
+      newestFirst,
+      page
+    );
+  }
+
+  async listAllByUser(userId: string): Promise<TreeItem[]> {
+    return this.all()
+      .filter((item) => item.userId === userId)
+      .sort(newestFirst);
+  }
+
+  async listArchivedBefore(cutoff: string, limit: number): Promise<TreeItem[]> {
+    return this.all()
+      .filter((item) => item.status === 'archived' && item.archivedAt && item.archivedAt <= cutoff)
+      .sort((a, b) => a.archivedAt!.localeCompare(b.archivedAt!))
+      .slice(0, limit);
+  }
+
+  async startPurge(tree: TreeItem, cutoff: string, startedAt: string): Promise<boolean> {
+    const stored = this.items.get(`${tree.treeId}#${tree.userId}`);
+    if (stored?.status !== 'archived' || !stored.archivedAt || stored.archivedAt > cutoff) {
+      return false;
+    }
+    this.put({ ...stored, purgeStartedAt: stored.purgeStartedAt ?? startedAt, version: (stored.version ?? 0) + 1 });
+    return true;
+  }
+
+  async deleteArchived(tree: TreeItem, cutoff: string): Promise<boolean> {
+    const key = `${tree.treeId}#${tree.userId}`;
+    const stored = this.items.get(key);
+    if (stored?.status !== 'archived' || !stored.archivedAt || stored.archivedAt > cutoff) {
+      return false;
+    }
+    this.items.delete(key);
+    return true;
+  }
+
+  private put(item: TreeItem): void {
+    this.items.set(`${item.treeId}#${item.userId}`, structuredClone(item));
+  }
+
+  private all(): TreeItem[] {
+    return [...this.items.values()].map((item) => withVersion(structuredClone(item)));
+  }
+}
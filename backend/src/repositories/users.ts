@@ -0,0 +1,70 @@
+/**
+ * User profiles, stored in the TreeCareUsers table keyed by userId and
+ * indexed by email
+ */
+import { DynamoDB } from 'aws-sdk';
+import { UserItem } from '../models/user';
+
+export interface UserRepository {
+  get(userId: string): Promise<UserItem | undefined>;
+  findByEmail(email: string): Promise<UserItem | undefined>;
+  save(item: UserItem): Promise<void>;
+}
+
+// Addresses are matched case-insensitively, so they are stored lowercased
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class DynamoUserRepository implements UserRepository {
+  private dynamoClient: DynamoDB.DocumentClient;
+  private tableName: string;
+
+  constructor(dynamoClient: DynamoDB.DocumentClient, tableName: string) {
+    this.dynamoClient = dynamoClient;
+    this.tableName = tableName;
+  }
+
+  async get(userId: string): Promise<UserItem | undefined> {
+    const result = await this.dynamoClient.get({
+      TableName: this.tableName,
+      Key: { userId },
+    }).promise();
+
+    return result.Item as UserItem | undefined;
+  }
+
+  async findByEmail(email: string): Promise<UserItem | undefined> {
+    const result = await this.dynamoClient.query({
+      TableName: this.tableName,
+      IndexName: 'email-index',
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: { ':email': normalizeEmail(email) },
+    }).promise();
+
+    return result.Items?.[0] as UserItem | undefined;
+  }
+
+  async save(item: UserItem): Promise<void> {
+    await this.dynamoClient.put({
+      TableName: this.tableName,
+      Item: { ...item, email: normalizeEmail(item.email) },
+    }).promise();
+  }
+}
+
+export class InMemoryUserRepository implements UserRepository {
+  private items = new Map<string, UserItem>();
+
+  async get(userId: string): Promise<UserItem | undefined> {
+    const item = this.items.get(userId);
+    return item && structuredClone(item);
+  }
+
+  async findByEmail(email: string): Promise<UserItem | undefined> {
+    const item = [...this.items.values()].find((stored) => stored.email === normalizeEmail(email));
+    return item && structuredClone(item);
+  }
+
+  async save(item: UserItem): Promise<void> {
+    this.items.set(item.userId, { ...structuredClone(item), email: normalizeEmail(item.email) });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * A user's upcoming care tasks as an iCalendar feed
+ *
+ * The feed is generated from the rule engine every time it is fetched, so it
+ * always reflects the trees and completions as they are now; calendar apps
+ * are asked to fetch it again every REFRESH_INTERVAL. Each pending task is
+ * an all-day event on its ideal date, or today once that has passed, for as
+ * long as its due window is open.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { TreeAccessGuard } from '../middleware/tree-access';
+import { Recommendation, RecommendationPriority } from '../models/recommendation';
+import { TreeItem } from '../models/tree';
+import { RecommendationRepository } from '../repositories/recommendations';
+import { TreeRepository } from '../repositories/trees';
+import { hasCoordinates } from './climate';
+import { CalendarEvent, formatCalendar } from './icalendar';
+import { generateRecommendations } from './recommendation-engine';
+
+export const CALENDAR_NAME = 'Tree Care';
+
+export const REFRESH_INTERVAL = 'PT1H';
+
+const EVENT_PRIORITIES: Record<RecommendationPriority, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+export interface CareTask {
+  tree: TreeItem;
+  recommendation: Recommendation;
+}
+
+const day = (timestamp: string): string => timestamp.slice(0, 10);
+
+const toEvent = ({ tree, recommendation }: CareTask, now: Date): CalendarEvent => {
+  const { timing } = recommendation;
+  const event: CalendarEvent = {
+    uid: `${recommendation.id}@treecare`,
+    date: timing.idealDate < now.toISOString() ? day(now.toISOString()) : day(timing.idealDate),
+    summary: `${recommendation.title} – ${tree.name}`,
+    description: [
+      recommendation.description,
+      `Due between ${day(timing.windowStart)} and ${day(timing.windowEnd)}.`,
+    ].join('\n\n'),
+    location: tree.location.yardPosition ? `${tree.name}, ${tree.location.yardPosition}` : tree.name,
+    priority: EVENT_PRIORITIES[recommendation.priority],
+    categories: [recommendation.type],
+  };
+  if (hasCoordinates(tree.location.coordinates)) {
+    event.geo = tree.location.coordinates;
+  }
+  return event;
+};
+
+export class CareCalendar {
+  private trees: TreeRepository;
+  private access: TreeAccessGuard;
+  private recommendations: RecommendationRepository;
+
+  constructor(trees: TreeRepository, access: TreeAccessGuard, recommendations: RecommendationRepository) {
+    this.trees = trees;
+    this.access = access;
+    this.recommendations = recommendations;
+  }
+
+  /**
+   * Pending tasks for the user's active trees, and the active trees shared
+   * with them, whose due window is still open, soonest first
+   */
+  async upcomingTasks(userId: string, now: Date = new Date()): Promise<CareTask[]> {
+    const owned = (await this.trees.listAllByUser(userId)).filter((tree) => tree.status !== 'archived');
+    const shared = (await this.access.listShared(userId)).map(({ tree }) => tree);
+    const trees = [...owned, ...shared];
+
+    const tasks = await Promise.all(
+      trees.map(async (tree) => {
+        const completed = new Set(
+          (await this.recommendations.listByTree(tree.treeId))
+            .filter((item) => item.status === 'completed')
+            .map((item) => item.recommendationId)
+        );
+        return generateRecommendations(tree, now)
+          .filter((recommendation) => !completed.has(recommendation.id))
+          .filter((recommendation) => recommendation.timing.windowEnd >= now.toISOString())
+          .map((recommendation) => ({ tree, recommendation }));
+      })
+    );
+
+    return tasks
+      .flat()
+      .sort((a, b) => a.recommendation.timing.idealDate.localeCompare(b.recommendation.timing.idealDate));
+  }
+
+  async feed(userId: string, now: Date = new Date()): Promise<string> {
+    const tasks = await this.upcomingTasks(userId, now);
+    return formatCalendar(
+      {
+        name: CALENDAR_NAME,
+        refreshInterval: REFRESH_INTERVAL,
+        events: tasks.map((task) => toEvent(task, now)),
+      },
+      now
+    );
+  }
+}
+
+/**
+ * A new secret for a feed URL; only its hash is stored
+ */
+export const newFeedToken = (): string => randomBytes(32).toString('base64url');
+
+export const feedTokenHash = (token: string): string => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,89 @@
+/**
+ * Climate from coordinates, offline
+ *
+ * The hardiness zone and frost dates come from the nearest reference point in
+ * the bundled dataset (data/climate.json), as long as it is within
+ * MAX_REFERENCE_DISTANCE_KM. That is approximate: elevation and local
+ * microclimates can shift the zone by one or more half zones. The hemisphere
+ * only needs the latitude.
+ */
+import climateData from '../data/climate.json';
+import { Climate, ClimateReference, Hemisphere } from '../models/climate';
+
+export const MAX_REFERENCE_DISTANCE_KM = 500;
+
+const EARTH_RADIUS_KM = 6371;
+
+// USDA zone 1a starts at -60°F; every zone spans 10°F, every half zone 5°F
+const ZONE_1_MINIMUM = -60;
+const MIN_ZONE = 1;
+const MAX_ZONE = 13;
+
+const CLIMATE_REFERENCES = climateData as ClimateReference[];
+
+/**
+ * Trees are created at [0, 0] when no coordinates are given
+ */
+export const hasCoordinates = ([latitude, longitude]: [number, number]): boolean =>
+  latitude !== 0 || longitude !== 0;
+
+export const hemisphereOf = ([latitude]: [number, number]): Hemisphere => (latitude < 0 ? 'southern' : 'northern');
+
+export const hardinessZoneFor = (extremeMinimum: number): string => {
+  const halfZones = Math.floor((extremeMinimum - ZONE_1_MINIMUM) / 5);
+  const zone = Math.floor(halfZones / 2) + 1;
+  if (zone < MIN_ZONE) {
+    return `${MIN_ZONE}a`;
+  }
+  if (zone > MAX_ZONE) {
+    return `${MAX_ZONE}b`;
+  }
+  return `${zone}${halfZones % 2 === 0 ? 'a' : 'b'}`;
+};
+
+/**
+ * The whole zone of '7b', as species list their zones
+ */
+export const zoneNumber = (hardinessZone: string): number => parseInt(hardinessZone, 10);
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance
+ */
+export const distanceKm = ([lat1, lon1]: [number, number], [lat2, lon2]: [number, number]): number => {
+  const a =
+    Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lon2 - lon1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * The climate at the coordinates, or undefined if they were never set
+ */
+export const resolveClimate = (
+  coordinates: [number, number],
+  references: ClimateReference[] = CLIMATE_REFERENCES
+): Climate | undefined => {
+  if (!hasCoordinates(coordinates)) {
+    return undefined;
+  }
+
+  const climate: Climate = { hemisphere: hemisphereOf(coordinates) };
+  const nearest = references
+    .map((reference) => ({ reference, distance: distanceKm(coordinates, reference.coordinates) }))
+    .reduce<{ reference: ClimateReference; distance: number } | undefined>(
+      (found, candidate) => (!found || candidate.distance < found.distance ? candidate : found),
+      undefined
+    );
+  if (!nearest || nearest.distance > MAX_REFERENCE_DISTANCE_KM) {
+    return climate;
+  }
+
+  climate.hardinessZone = hardinessZoneFor(nearest.reference.extremeMinimum);
+  if (nearest.reference.frostDates) {
+    climate.frostDates = { ...nearest.reference.frostDates };
+  }
+  climate.referencePoint = nearest.reference.name;
+  return climate;
+};
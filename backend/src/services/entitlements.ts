@@ -0,0 +1,122 @@
+/**
+ * Subscription entitlements
+ *
+ * What each tier includes is declared in TIER_ENTITLEMENTS: numeric limits
+ * (Infinity for unlimited), feature flags and request rate limits. Requests
+ * are checked against the caller's tier and violations raise an
+ * EntitlementError naming the cheapest tier that would allow them; rate
+ * limits are enforced separately, by middleware/rate-limit.
+ */
+import { SUBSCRIPTION_TIERS, SubscriptionTier } from '../models/subscription';
+import { EntitlementError } from '../utils/errors';
+
+export const LIMITS = ['maxTrees', 'monthlyAnalyses', 'photoHistoryDays'] as const;
+
+export type LimitName = (typeof LIMITS)[number];
+
+export const FEATURES = ['weatherAlerts'] as const;
+
+export type FeatureName = (typeof FEATURES)[number];
+
+// Routes are rate limited per class, so a burst of reads cannot use up writes
+export const ROUTE_CLASSES = ['read', 'write', 'analysis'] as const;
+
+export type RouteClass = (typeof ROUTE_CLASSES)[number];
+
+/**
+ * Token bucket: up to `burst` requests at once, refilled at `perHour`
+ */
+export interface RateLimit {
+  burst: number;
+  perHour: number;
+}
+
+export interface TierEntitlements {
+  limits: Record<LimitName, number>;
+  features: Record<FeatureName, boolean>;
+  rateLimits: Record<RouteClass, RateLimit>;
+}
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+  free: {
+    limits: { maxTrees: 3, monthlyAnalyses: 10, photoHistoryDays: 90 },
+    features: { weatherAlerts: false },
+    rateLimits: {
+      read: { burst: 60, perHour: 600 },
+      write: { burst: 20, perHour: 120 },
+      analysis: { burst: 3, perHour: 10 },
+    },
+  },
+  hobbyist: {
+    limits: { maxTrees: 10, monthlyAnalyses: 100, photoHistoryDays: 365 },
+    features: { weatherAlerts: false },
+    rateLimits: {
+      read: { burst: 120, perHour: 3000 },
+      write: { burst: 40, perHour: 600 },
+      analysis: { burst: 10, perHour: 60 },
+    },
+  },
+  arborist: {
+    limits: { maxTrees: Infinity, monthlyAnalyses: Infinity, photoHistoryDays: Infinity },
+    features: { weatherAlerts: true },
+    rateLimits: {
+      read: { burst: 300, perHour: 10000 },
+      write: { burst: 100, perHour: 2000 },
+      analysis: { burst: 30, perHour: 300 },
+    },
+  },
+  professional: {
+    limits: { maxTrees: Infinity, monthlyAnalyses: Infinity, photoHistoryDays: Infinity },
+    features: { weatherAlerts: true },
+    rateLimits: {
+      read: { burst: 600, perHour: 20000 },
+      write: { burst: 200, perHour: 5000 },
+      analysis: { burst: 60, perHour: 600 },
+    },
+  },
+};
+
+/**
+ * A feature the tier must include, or the amount of a limit the request
+ * would reach (e.g. the tree count after creating one more)
+ */
+export type EntitlementRequirement = { feature: FeatureName } | { limit: LimitName; amount: number };
+
+const isAllowed = (tier: SubscriptionTier, requirement: EntitlementRequirement): boolean => {
+  const entitlements = TIER_ENTITLEMENTS[tier];
+  return 'feature' in requirement
+    ? entitlements.features[requirement.feature]
+    : requirement.amount <= entitlements.limits[requirement.limit];
+};
+
+/**
+ * The cheapest tier that allows the requirement, if any
+ */
+export const requiredTierFor = (requirement: EntitlementRequirement): SubscriptionTier | undefined =>
+  SUBSCRIPTION_TIERS.find((tier) => isAllowed(tier, requirement));
+
+/**
+ * Throws an EntitlementError unless the tier allows the requirement
+ */
+export const checkEntitlement = (tier: SubscriptionTier, requirement: EntitlementRequirement): void => {
+  if (isAllowed(tier, requirement)) {
+    return;
+  }
+
+  const requiredTier = requiredTierFor(requirement);
+  if ('feature' in requirement) {
+    throw new EntitlementError(`The ${tier} plan does not include ${requirement.feature}`, {
+      entitlement: requirement.feature,
+      tier,
+      requiredTier,
+    });
+  }
+
+  const limit = TIER_ENTITLEMENTS[tier].limits[requirement.limit];
+  throw new EntitlementError(`The ${tier} plan is limited to ${limit} for ${requirement.limit}`, {
+    entitlement: requirement.limit,
+    tier,
+    limit,
+    requiredTier,
+  });
+};
@@ -0,0 +1,52 @@
+/**
+ * Records measurements and keeps the tree's growth assessment up to date
+ * with them. Callers save the tree with the status reassess returns.
+ */
+import { randomUUID } from 'crypto';
+import { GrowthAssessment } from '../models/growth';
+import { MeasurementItem, Observation } from '../models/measurement';
+import { TreeItem, TreeStatus } from '../models/tree';
+import { MeasurementRepository } from '../repositories/measurements';
+import { applyGrowth, assessGrowth } from './growth';
+import { speciesCatalog } from './species-catalog';
+
+export class GrowthTracker {
+  private measurements: MeasurementRepository;
+
+  constructor(measurements: MeasurementRepository) {
+    this.measurements = measurements;
+  }
+
+  async record(tree: TreeItem, observation: Observation, now: Date = new Date()): Promise<MeasurementItem> {
+    const measurement: MeasurementItem = {
+      measurementId: `meas_${randomUUID()}`,
+      treeId: tree.treeId,
+      userId: tree.userId,
+      ...observation,
+      createdAt: now.toISOString(),
+    };
+    await this.measurements.create(measurement);
+    return measurement;
+  }
+
+  async assess(tree: TreeItem, now: Date = new Date()): Promise<GrowthAssessment> {
+    return this.assessObservations(tree, await this.measurements.listAllByTree(tree.treeId, tree.userId), now);
+  }
+
+  /**
+   * The tree's status brought up to date with all its measurements
+   */
+  async reassess(tree: TreeItem, now: Date = new Date()): Promise<TreeStatus> {
+    const observations = await this.measurements.listAllByTree(tree.treeId, tree.userId);
+    return applyGrowth(tree.currentStatus, observations, this.assessObservations(tree, observations, now));
+  }
+
+  private assessObservations(tree: TreeItem, observations: Observation[], now: Date): GrowthAssessment {
+    return assessGrowth({
+      observations,
+      growthRate: speciesCatalog.get(tree.species.speciesId)?.characteristics.growthRate,
+      growthStage: tree.currentStatus.growthStage,
+      now,
+    });
+  }
+}
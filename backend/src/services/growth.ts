@@ -0,0 +1,154 @@
+/**
+ * Growth rates from a tree's measurement history
+ *
+ * Annual rates are the least-squares slope of each metric over the last
+ * GROWTH_WINDOW_DAYS of its observations, so a single noisy reading (photo
+ * estimates especially) moves the rate only a little. They are compared
+ * with what the species' growth rate class leads us to expect; growth
+ * slower than that costs the tree GROWTH_HEALTH_PENALTY health points for as
+ * long as it lasts.
+ */
+import { GrowthAssessment, GrowthSignal, MetricGrowth, TreeGrowth } from '../models/growth';
+import { MEASUREMENT_METRICS, MeasurementMetric, Observation } from '../models/measurement';
+import { GrowthRate } from '../models/species';
+import { GrowthStage, TreeStatus } from '../models/tree';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+// Only recent growth counts towards the rate
+export const GROWTH_WINDOW_DAYS = 3 * 365;
+// Less than most of a year says more about the season than the rate
+export const MIN_SPAN_DAYS = 300;
+
+export const GROWTH_HEALTH_PENALTY = 10;
+
+/**
+ * Expected growth per year, [min, max], for each growth rate class: height
+ * and canopy spread in feet, trunk diameter in inches
+ */
+export const EXPECTED_ANNUAL_GROWTH: Record<GrowthRate, Record<MeasurementMetric, [number, number]>> = {
+  slow: { height: [0.5, 1], trunkDiameter: [0.1, 0.25], canopySpread: [0.25, 0.75] },
+  moderate: { height: [1, 2], trunkDiameter: [0.25, 0.5], canopySpread: [0.75, 1.5] },
+  fast: { height: [2, 4], trunkDiameter: [0.5, 1], canopySpread: [1.5, 3] },
+};
+
+// Mature trees put on girth but hardly any height or spread
+const MATURE_METRICS: MeasurementMetric[] = ['trunkDiameter'];
+
+export interface GrowthInput {
+  observations: Observation[];
+  // The species' growth rate class, if the species is in the catalog
+  growthRate?: GrowthRate;
+  growthStage: GrowthStage;
+  now: Date;
+}
+
+interface Point {
+  time: number;
+  value: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Change per year over the window ending at the latest point, or null if the
+ * points in it span too short a time
+ */
+export const annualRate = (points: Point[]): number | null => {
+  if (points.length < 2) {
+    return null;
+  }
+  const latest = Math.max(...points.map((point) => point.time));
+  const recent = points.filter((point) => point.time >= latest - GROWTH_WINDOW_DAYS * DAY_MS);
+  const earliest = Math.min(...recent.map((point) => point.time));
+  if (latest - earliest < MIN_SPAN_DAYS * DAY_MS) {
+    return null;
+  }
+
+  const years = recent.map((point) => (point.time - earliest) / YEAR_MS);
+  const meanYears = years.reduce((sum, value) => sum + value, 0) / recent.length;
+  const meanValue = recent.reduce((sum, point) => sum + point.value, 0) / recent.length;
+  let covariance = 0;
+  let variance = 0;
+  recent.forEach((point, index) => {
+    covariance += (years[index] - meanYears) * (point.value - meanValue);
+    variance += (years[index] - meanYears) ** 2;
+  });
+  return round(covariance / variance);
+};
+
+const statusOf = (rate: number | null, expected: [number, number] | null): MetricGrowth['status'] => {
+  if (rate === null || expected === null) {
+    return 'unknown';
+  }
+  if (rate < expected[0]) {
+    return 'slower_than_expected';
+  }
+  return rate > expected[1] ? 'faster_than_expected' : 'as_expected';
+};
+
+const signalOf = (metrics: MetricGrowth[]): GrowthSignal => {
+  if (metrics.some((metric) => metric.status === 'slower_than_expected')) {
+    return 'slower_than_expected';
+  }
+  return metrics.some((metric) => metric.status !== 'unknown') ? 'as_expected' : 'unknown';
+};
+
+export const assessGrowth = ({ observations, growthRate, growthStage, now }: GrowthInput): GrowthAssessment => {
+  const metrics = {} as Record<MeasurementMetric, MetricGrowth>;
+  for (const metric of MEASUREMENT_METRICS) {
+    const points = observations
+      .filter((observation) => observation[metric] !== undefined)
+      .map((observation) => ({ time: Date.parse(observation.measuredAt), value: observation[metric]! }));
+    const compared = growthRate && (growthStage !== 'mature' || MATURE_METRICS.includes(metric));
+    const expectedRate = compared ? EXPECTED_ANNUAL_GROWTH[growthRate][metric] : null;
+    const rate = annualRate(points);
+
+    metrics[metric] = {
+      annualRate: rate,
+      expectedRate,
+      status: statusOf(rate, expectedRate),
+      observations: points.length,
+    };
+  }
+
+  return {
+    signal: signalOf(Object.values(metrics)),
+    metrics,
+    assessedAt: now.toISOString(),
+  };
+};
+
+const penaltyOf = (growth?: TreeGrowth): number =>
+  growth?.signal === 'slower_than_expected' ? GROWTH_HEALTH_PENALTY : 0;
+
+/**
+ * The tree's status with the latest value of each metric and the new growth
+ * signal. The health score gives back the previous signal's penalty before
+ * taking the new one, so reassessing never compounds it.
+ */
+export const applyGrowth = (
+  status: TreeStatus,
+  observations: Observation[],
+  assessment: GrowthAssessment
+): TreeStatus => {
+  const updated: TreeStatus = { ...status };
+  for (const metric of MEASUREMENT_METRICS) {
+    const latest = observations
+      .filter((observation) => observation[metric] !== undefined)
+      .reduce<Observation | undefined>(
+        (found, observation) => (!found || observation.measuredAt >= found.measuredAt ? observation : found),
+        undefined
+      );
+    if (latest) {
+      updated[metric] = latest[metric]!;
+    }
+  }
+
+  const growth: TreeGrowth = { signal: assessment.signal, assessedAt: assessment.assessedAt };
+  const healthScore = status.healthScore + penaltyOf(status.growth) - penaltyOf(growth);
+  updated.healthScore = Math.min(100, Math.max(0, healthScore));
+  updated.growth = growth;
+  return updated;
+};
@@ -0,0 +1,133 @@
+/**
+ * iCalendar (RFC 5545) output
+ *
+ * Only what the care calendar needs: a published VCALENDAR of all-day
+ * VEVENTs. Lines end in CRLF and are folded at 75 octets without splitting
+ * a UTF-8 character; TEXT values are escaped as section 3.3.11 requires.
+ */
+
+export const PRODUCT_ID = '-//Tree Care App//Care Calendar//EN';
+
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD, the day of the all-day event
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: [number, number]; // [latitude, longitude]
+  priority?: number; // 1 (highest) to 9 (lowest)
+  categories?: string[];
+}
+
+export interface Calendar {
+  name: string;
+  // How often subscribed calendars should fetch the feed again, as an ISO 8601 duration
+  refreshInterval: string;
+  events: CalendarEvent[];
+}
+
+/**
+ * Escapes a TEXT value
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Splits a content line into lines of at most 75 octets, continuing each
+ * with a single space
+ */
+export const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const character of line) {
+    const size = Buffer.byteLength(character, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+/**
+ * A UTC DATE-TIME, such as 20250115T120000Z
+ */
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * A DATE, such as 20250115
+ */
+export const formatDate = (date: string): string => date.replace(/-/g, '');
+
+const nextDay = (date: string): string => {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+const eventLines = (event: CalendarEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.geo) {
+    lines.push(`GEO:${event.geo[0]};${event.geo[1]}`);
+  }
+  if (event.priority !== undefined) {
+    lines.push(`PRIORITY:${event.priority}`);
+  }
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  // All-day tasks shouldn't block time in the user's calendar
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * The calendar as an iCalendar object, stamped with the time it was generated
+ */
+export const formatCalendar = (calendar: Calendar, now: Date = new Date()): string => {
+  const stamp = formatDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(calendar.name)}`,
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${calendar.refreshInterval}`,
+    `X-PUBLISHED-TTL:${calendar.refreshInterval}`,
+    ...calendar.events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
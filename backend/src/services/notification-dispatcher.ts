@@ -0,0 +1,81 @@
+/**
+ * Delivery of scheduled notifications
+ *
+ * Each due notification gets one send attempt per dispatcher run. The run
+ * claims the attempt before sending, so overlapping runs never send the same
+ * notification twice. Failures the provider reports as retryable are tried
+ * again after a growing delay; anything else, or running out of attempts,
+ * marks the notification failed.
+ */
+import { NotificationItem } from '../models/notification';
+import { PushMessage, PushProvider, PushResult } from './push-provider';
+
+// Delay before each retry, in order
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000];
+
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// A claimed attempt whose run died without recording the outcome is due again
+// after this, Lambda's longest run, so a live run never loses its claim
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const toPushMessage = (item: NotificationItem): PushMessage => ({
+  notificationId: item.notificationId,
+  userId: item.userId,
+  title: item.title,
+  body: item.message,
+  data: {
+    type: item.type,
+    ...(item.treeId && { treeId: item.treeId }),
+    ...(item.metadata?.recommendationId && { recommendationId: item.metadata.recommendationId }),
+  },
+});
+
+/**
+ * The notification with its next attempt under way: the attempt is counted
+ * and the notification is not due again until the claim times out
+ */
+export const claimAttempt = (item: NotificationItem, now: Date = new Date()): NotificationItem => ({
+  ...item,
+  attempts: item.attempts + 1,
+  dueAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS).toISOString(),
+  updatedAt: now.toISOString(),
+});
+
+/**
+ * Attempt delivery and return the notification with its new status
+ */
+export const deliverNotification = async (
+  item: NotificationItem,
+  provider: PushProvider,
+  now: Date = new Date()
+): Promise<NotificationItem> => {
+  let result: PushResult;
+  try {
+    result = await provider.send(toPushMessage(item));
+  } catch (error) {
+    // Errors thrown by the provider are treated as transient
+    result = { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+  }
+
+  const attempts = item.attempts + 1;
+  const timestamp = now.toISOString();
+
+  if (result.ok) {
+    const sent: NotificationItem = { ...item, status: 'sent', attempts, sentAt: timestamp, updatedAt: timestamp };
+    delete sent.lastError;
+    return sent;
+  }
+
+  if (result.retryable && attempts < MAX_DELIVERY_ATTEMPTS) {
+    return {
+      ...item,
+      attempts,
+      lastError: result.error,
+      dueAt: new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString(),
+      updatedAt: timestamp,
+    };
+  }
+
+  return { ...item, status: 'failed', attempts, lastError: result.error, failedAt: timestamp, updatedAt: timestamp };
+};
@@ -0,0 +1,234 @@
+/**
+ * Photo analysis pipeline
+ *
+ * Analyzers take a stored photo plus the tree it belongs to and return
+ * species, structure, health and suggested-cut findings. The analyzer in use
+ * is chosen by PHOTO_ANALYZER (default `local`); model-backed adapters are
+ * added by registering another factory under a new name.
+ */
+import { createHash } from 'crypto';
+import { PhotoItem } from '../models/photo';
+import {
+  AnalysisOverlay,
+  HealthFindings,
+  PhotoAnalysis,
+  SpeciesPrediction,
+  StructureFindings,
+} from '../models/photo-analysis';
+import { TreeItem } from '../models/tree';
+
+export interface PhotoAnalysisInput {
+  photo: PhotoItem;
+  tree: TreeItem;
+  // Fetches the image bytes; only analyzers that inspect pixels call it
+  loadImage: () => Promise<Buffer>;
+}
+
+export type PhotoAnalysisResult = Omit<PhotoAnalysis, 'analyzer' | 'analyzedAt'>;
+
+export interface PhotoAnalyzer {
+  readonly name: string;
+  analyze(input: PhotoAnalysisInput): Promise<PhotoAnalysisResult>;
+}
+
+// Scales a value by a random factor within +/- spread
+type Jitter = (value: number, spread: number) => number;
+
+/**
+ * Repeatable pseudo-random numbers in [0, 1) from a string seed
+ */
+const seededRandom = (seed: string): (() => number) => {
+  const digest = createHash('sha256').update(seed).digest();
+  let state = digest.readUInt32BE(0) || 1;
+  return () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+};
+
+const round = (value: number, places = 1): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Offline analyzer that derives plausible findings from the tree's recorded
+ * measurements. The same photo and tree always produce the same result, so
+ * the full upload-and-analyze flow can be exercised without a model.
+ */
+export class LocalPhotoAnalyzer implements PhotoAnalyzer {
+  readonly name = 'local';
+
+  async analyze({ photo, tree }: PhotoAnalysisInput): Promise<PhotoAnalysisResult> {
+    const random = seededRandom(`${photo.photoId}:${photo.s3Key}`);
+    // e.g. jitter(10, 0.05) is 9.5-10.5
+    const jitter: Jitter = (value, spread) => value * (1 + (random() * 2 - 1) * spread);
+
+    const structure = this.structure(tree, jitter, random);
+    const health = this.health(tree, jitter, random);
+
+    return {
+      species: this.species(tree, random),
+      structure,
+      health,
+      overlays: [...this.suggestedCuts(tree, structure, random), ...this.healthConcerns(health, random)],
+    };
+  }
+
+  private species(tree: TreeItem, random: () => number): SpeciesPrediction {
+    const confidence = round(0.8 + random() * 0.17, 2);
+    const genus = tree.species.scientificName.split(' ')[0];
+    return {
+      predicted: tree.species.scientificName,
+      confidence,
+      alternatives: [{ species: `${genus} sp.`, confidence: round(1 - confidence, 2) }],
+    };
+  }
+
+  private structure(
+    tree: TreeItem,
+    jitter: Jitter,
+    random: () => number
+  ): StructureFindings {
+    const { height, trunkDiameter, canopySpread } = tree.currentStatus;
+    const primary = Math.max(1, Math.round(height / 4 + random() * 2));
+    return {
+      trunkDiameter: round(jitter(trunkDiameter, 0.05)),
+      estimatedHeight: round(jitter(height, 0.05)),
+      canopySpread: round(jitter(canopySpread, 0.08)),
+      branchCount: {
+        primary,
+        secondary: primary * 3 + Math.floor(random() * 4),
+      },
+      leaderDominance: round(0.5 + random() * 0.45, 2),
+    };
+  }
+
+  private health(
+    tree: TreeItem,
+    jitter: Jitter,
+    random: () => number
+  ): HealthFindings {
+    const overallScore = Math.round(clamp(jitter(tree.currentStatus.healthScore, 0.05), 0, 100));
+    const structuralIssues = overallScore < 70 && random() < 0.5 ? ['included bark at main union'] : [];
+    return {
+      overallScore,
+      indicators: {
+        leafColor: overallScore >= 80 ? 'healthy' : overallScore >= 60 ? 'fair' : 'poor',
+        leafDensity: overallScore >= 80 ? 'good' : overallScore >= 60 ? 'moderate' : 'sparse',
+        barkCondition: overallScore >= 60 ? 'normal' : 'damaged',
+        structuralIssues,
+      },
+      diseases: overallScore < 50 ? ['leaf spot'] : [],
+      pests: overallScore < 60 ? ['scale insects'] : [],
+    };
+  }
+
+  private suggestedCuts(
+    tree: TreeItem,
+    structure: StructureFindings,
+    random: () => number
+  ): AnalysisOverlay[] {
+    const position = (): [number, number] => [round(0.2 + random() * 0.6, 2), round(0.2 + random() * 0.5, 2)];
+    const cuts: AnalysisOverlay[] = [];
+
+    // Young trees are trained for a single dominant leader
+    if (structure.leaderDominance < 0.7 && tree.currentStatus.growthStage !== 'mature') {
+      cuts.push({
+        type: 'pruning_cut',
+        coordinates: position(),
+        description: 'Shorten competing leader',
+        priority: 'high',
+        technique: 'reduction_cut',
+      });
+    }
+    if (structure.branchCount.secondary > 12) {
+      cuts.push({
+        type: 'pruning_cut',
+        coordinates: position(),
+        description: 'Remove crossing branch',
+        priority: 'medium',
+        technique: 'thinning_cut',
+      });
+    }
+    if (structure.estimatedHeight > tree.goals.clearanceNeeded * 1.5) {
+      cuts.push({
+        type: 'pruning_cut',
+        coordinates: [round(0.3 + random() * 0.4, 2), round(0.75 + random() * 0.15, 2)],
+        description: `Raise lowest limb toward ${tree.goals.clearanceNeeded} ft clearance`,
+        priority: 'low',
+        technique: 'crown_raising',
+      });
+    }
+    return cuts;
+  }
+
+  private healthConcerns(health: HealthFindings, random: () => number): AnalysisOverlay[] {
+    return health.pests.map((pest) => ({
+      type: 'health_concern',
+      coordinates: [round(0.2 + random() * 0.6, 2), round(0.2 + random() * 0.6, 2)],
+      description: `Monitor for ${pest}`,
+      priority: health.overallScore < 50 ? 'high' : 'low',
+    }));
+  }
+}
+
+const analyzerFactories: Record<string, () => PhotoAnalyzer> = {
+  local: () => new LocalPhotoAnalyzer(),
+};
+
+let photoAnalyzer: PhotoAnalyzer | null = null;
+
+/**
+ * Make an analyzer available under a name PHOTO_ANALYZER can select
+ */
+export const registerPhotoAnalyzer = (name: string, factory: () => PhotoAnalyzer): void => {
+  analyzerFactories[name] = factory;
+};
+
+/**
+ * Use a specific analyzer, or the one named by PHOTO_ANALYZER when omitted
+ */
+export const configurePhotoAnalyzer = (analyzer?: PhotoAnalyzer): void => {
+  if (analyzer) {
+    photoAnalyzer = analyzer;
+    return;
+  }
+
+  const name = process.env.PHOTO_ANALYZER || 'local';
+  const factory = analyzerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown photo analyzer: ${name}`);
+  }
+  photoAnalyzer = factory();
+};
+
+export const resetPhotoAnalyzer = (): void => {
+  photoAnalyzer = null;
+};
+
+export const getPhotoAnalyzer = (): PhotoAnalyzer => {
+  if (!photoAnalyzer) {
+    configurePhotoAnalyzer();
+  }
+  return photoAnalyzer!;
+};
+
+/**
+ * Run the configured analyzer and stamp the result with its provenance
+ */
+export const analyzePhoto = async (input: PhotoAnalysisInput): Promise<PhotoAnalysis> => {
+  const analyzer = getPhotoAnalyzer();
+  const result = await analyzer.analyze(input);
+  return {
+    analyzer: analyzer.name,
+    analyzedAt: new Date().toISOString(),
+    ...result,
+  };
+};
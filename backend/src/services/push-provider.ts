@@ -0,0 +1,105 @@
+/**
+ * Push delivery
+ *
+ * The dispatcher hands each due notification to a PushProvider. The provider
+ * in use is chosen by PUSH_PROVIDER, which deployed stages must set; local
+ * runs and tests default to `local`. The local provider only records what it
+ * was asked to send, so dispatching can be exercised without Expo's push
+ * service. Real providers are added by registering another factory under a
+ * new name.
+ */
+import { logger } from '../utils/logger';
+import { isLocalRun } from '../utils/runtime';
+
+export interface PushMessage {
+  notificationId: string;
+  userId: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export type PushResult =
+  | { ok: true; providerMessageId?: string }
+  // retryable is false when sending again cannot succeed, e.g. the device is unregistered
+  | { ok: false; error: string; retryable: boolean };
+
+export interface PushProvider {
+  readonly name: string;
+  send(message: PushMessage): Promise<PushResult>;
+}
+
+export type PushFailure = Extract<PushResult, { ok: false }>;
+
+/**
+ * Records messages instead of delivering them. Failures can be queued up to
+ * simulate an unreliable push service.
+ */
+export class LocalPushProvider implements PushProvider {
+  readonly name = 'local';
+  readonly sent: PushMessage[] = [];
+  private failures: PushFailure[] = [];
+
+  /**
+   * Make the next sends fail, one queued failure per send
+   */
+  failNext(...failures: Array<Omit<PushFailure, 'ok'>>): void {
+    this.failures.push(...failures.map((failure) => ({ ok: false as const, ...failure })));
+  }
+
+  async send(message: PushMessage): Promise<PushResult> {
+    const failure = this.failures.shift();
+    if (failure) {
+      return failure;
+    }
+
+    this.sent.push(message);
+    logger.debug('Local push notification', { notificationId: message.notificationId, userId: message.userId });
+    return { ok: true, providerMessageId: `local_${this.sent.length}` };
+  }
+}
+
+const providerFactories: Record<string, () => PushProvider> = {
+  local: () => new LocalPushProvider(),
+};
+
+let pushProvider: PushProvider | null = null;
+
+/**
+ * Make a provider available under a name PUSH_PROVIDER can select
+ */
+export const registerPushProvider = (name: string, factory: () => PushProvider): void => {
+  providerFactories[name] = factory;
+};
+
+/**
+ * Use a specific provider, or the one named by PUSH_PROVIDER when omitted
+ */
+export const configurePushProvider = (provider?: PushProvider): void => {
+  if (provider) {
+    pushProvider = provider;
+    return;
+  }
+
+  // Defaulting to the local provider in a deployed stage would mark notifications sent without sending them
+  const name = process.env.PUSH_PROVIDER || (isLocalRun() ? 'local' : undefined);
+  if (!name) {
+    throw new Error('PUSH_PROVIDER must be set');
+  }
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown push provider: ${name}`);
+  }
+  pushProvider = factory();
+};
+
+export const resetPushProvider = (): void => {
+  pushProvider = null;
+};
+
+export const getPushProvider = (): PushProvider => {
+  if (!pushProvider) {
+    configurePushProvider();
+  }
+  return pushProvider!;
+};
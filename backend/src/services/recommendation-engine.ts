@@ -0,0 +1,432 @@
+/**
+ * Rule-based care recommendations
+ *
+ * Each rule looks at a tree's species, growth stage, goals and the current
+ * date and may produce one recommendation with a due window. Seasonal windows
+ * are written for the northern-hemisphere calendar, move six months for trees
+ * in the southern hemisphere and are computed in UTC.
+ * Recommendation IDs are derived from the tree, rule and window, so the same
+ * recommendation keeps its ID across requests until its window moves on.
+ */
+import { createHash } from 'crypto';
+import { Hemisphere } from '../models/climate';
+import {
+  Recommendation,
+  RECOMMENDATION_PRIORITIES,
+  RecommendationPriority,
+  SeasonalFactor,
+} from '../models/recommendation';
+import { GrowthStage, TreeItem } from '../models/tree';
+import { hemisphereOf } from './climate';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DueWindow {
+  start: Date;
+  end: Date; // exclusive
+  ideal: Date;
+  seasonalFactor: SeasonalFactor;
+}
+
+export interface RuleContext {
+  tree: TreeItem;
+  now: Date;
+  genus: string;
+  yearsSincePlanting: number;
+  hemisphere: Hemisphere;
+}
+
+export type RecommendationDraft = Omit<Recommendation, 'id' | 'treeId' | 'ruleId' | 'timing' | 'status'> & {
+  window: DueWindow;
+};
+
+export interface RecommendationRule {
+  id: string;
+  evaluate(context: RuleContext): RecommendationDraft | null;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * The month of the hemisphere's calendar that corresponds to a (zero-based)
+ * northern-hemisphere month
+ */
+const localMonth = (month: number, hemisphere: Hemisphere): number =>
+  hemisphere === 'southern' ? (month + 6) % 12 : month;
+
+/**
+ * A yearly window from (startMonth, startDay) to (endMonth, endDay), months
+ * zero-based and northern-hemisphere. Returns the occurrence that is open
+ * now or the next one.
+ */
+const seasonalWindow = (
+  now: Date,
+  hemisphere: Hemisphere,
+  [northernStartMonth, startDay]: [number, number],
+  [northernEndMonth, endDay]: [number, number],
+  idealOf: (start: Date, end: Date) => Date,
+  seasonalFactor: SeasonalFactor
+): DueWindow => {
+  const startMonth = localMonth(northernStartMonth, hemisphere);
+  const endMonth = localMonth(northernEndMonth, hemisphere);
+  const wraps = endMonth < startMonth;
+  for (let year = now.getUTCFullYear() - 1; ; year++) {
+    const start = new Date(Date.UTC(year, startMonth, startDay));
+    const end = new Date(Date.UTC(wraps ? year + 1 : year, endMonth, endDay));
+    if (end > now) {
+      // Once the window is open, the ideal date is never in the past
+      const ideal = idealOf(start, end);
+      return { start, end, ideal: ideal < now && start <= now ? startOfDay(now) : ideal, seasonalFactor };
+    }
+  }
+};
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Windows for things that should happen soon. They start on the Monday of the
+ * current week so the recommendation is stable for the whole week.
+ */
+const immediateWindow = (now: Date, days: number): DueWindow => {
+  const today = startOfDay(now);
+  const start = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+  return {
+    start,
+    end: new Date(start.getTime() + days * DAY_MS),
+    ideal: today,
+    seasonalFactor: 'immediate',
+  };
+};
+
+// Dormancy runs December through February (June through August down south);
+// late winter is best for structural cuts
+const dormantWindow = (now: Date, hemisphere: Hemisphere): DueWindow =>
+  seasonalWindow(
+    now,
+    hemisphere,
+    [11, 1],
+    [2, 1],
+    (start) => new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 2, 1)),
+    'late_winter_dormant'
+  );
+
+const springWindow = (now: Date, hemisphere: Hemisphere): DueWindow =>
+  seasonalWindow(
+    now,
+    hemisphere,
+    [2, 15],
+    [4, 15],
+    (start) => new Date(start.getTime() + 14 * DAY_MS),
+    'spring_growth'
+  );
+
+const summerWindow = (now: Date, hemisphere: Hemisphere): DueWindow =>
+  seasonalWindow(now, hemisphere, [5, 1], [8, 1], (start) => start, 'summer_active');
+
+// Once leaves are fully out, for formal trims and species that bleed sap in late winter
+const earlySummerWindow = (now: Date, hemisphere: Hemisphere): DueWindow =>
+  seasonalWindow(
+    now,
+    hemisphere,
+    [5, 15],
+    [7, 1],
+    (start) => new Date(start.getTime() + 14 * DAY_MS),
+    'summer_active'
+  );
+
+// Genera that bleed heavily when pruned in late winter
+const SAP_BLEEDING_GENERA = ['Acer', 'Betula', 'Juglans'];
+
+const STAGE_ORDER: GrowthStage[] = ['seedling', 'juvenile', 'young_adult', 'mature'];
+
+const atLeast = (stage: GrowthStage, minimum: GrowthStage): boolean =>
+  STAGE_ORDER.indexOf(stage) >= STAGE_ORDER.indexOf(minimum);
+
+/**
+ * Seasonal work gets one step more pressing once its window has opened
+ */
+const escalateWhenOpen = (
+  priority: RecommendationPriority,
+  window: DueWindow,
+  now: Date
+): RecommendationPriority => {
+  if (window.start > now || priority === 'urgent' || priority === 'high') {
+    return priority;
+  }
+  return RECOMMENDATION_PRIORITIES[RECOMMENDATION_PRIORITIES.indexOf(priority) - 1];
+};
+
+const structuralPruningWindow = ({ genus, now, hemisphere }: RuleContext): DueWindow =>
+  SAP_BLEEDING_GENERA.includes(genus) ? earlySummerWindow(now, hemisphere) : dormantWindow(now, hemisphere);
+
+// Oak wilt beetles are most active April through July (October through January down south)
+const oakWiltWarning = (hemisphere: Hemisphere): string => {
+  const [from, to] = [3, 6].map((month) => MONTH_NAMES[localMonth(month, hemisphere)]);
+  return `Do not prune oaks from ${from} through ${to} to avoid spreading oak wilt`;
+};
+
+const pruningSafety = ({ genus, hemisphere }: RuleContext): string[] => [
+  'Wear safety glasses',
+  'Never prune near power lines',
+  ...(genus === 'Quercus' ? [oakWiltWarning(hemisphere)] : []),
+];
+
+export const RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'health-inspection',
+    evaluate: ({ tree, now }) => {
+      const { healthScore } = tree.currentStatus;
+      if (healthScore >= 70) {
+        return null;
+      }
+      const urgent = healthScore < 50;
+      return {
+        type: 'inspection',
+        priority: urgent ? 'urgent' : 'high',
+        title: 'Inspect for Disease and Pests',
+        description: `Health score is ${healthScore}. Check leaves, bark and the root flare for signs of disease, pests or stress.`,
+        detailedInstructions:
+          '1. Look for discolored, spotted or wilting leaves\n2. Check bark for cracks, oozing or holes\n3. Inspect the root flare for girdling roots or damage\n4. Photograph anything unusual for comparison',
+        estimatedTime: 20,
+        difficulty: 'beginner',
+        tools: ['hand lens', 'camera'],
+        window: immediateWindow(now, urgent ? 7 : 14),
+      };
+    },
+  },
+  {
+    id: 'central-leader-training',
+    evaluate: (context) => {
+      const { tree, now } = context;
+      if (atLeast(tree.currentStatus.growthStage, 'young_adult') || tree.goals.aestheticStyle === 'pollarded') {
+        return null;
+      }
+      const window = structuralPruningWindow(context);
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('medium', window, now),
+        title: 'Train a Single Central Leader',
+        description: 'Select the strongest vertical shoot as the leader and shorten any competing leaders.',
+        detailedInstructions:
+          '1. Identify the straightest, strongest vertical stem\n2. Shorten competing leaders by about a third with reduction cuts\n3. Leave small side branches to feed the trunk',
+        estimatedTime: 15,
+        difficulty: 'beginner',
+        tools: ['hand pruners'],
+        safety: pruningSafety(context),
+        window,
+      };
+    },
+  },
+  {
+    id: 'structural-pruning',
+    evaluate: (context) => {
+      const { tree, now, genus } = context;
+      if (!atLeast(tree.currentStatus.growthStage, 'juvenile') || tree.goals.aestheticStyle === 'pollarded') {
+        return null;
+      }
+      const window = structuralPruningWindow(context);
+      const season = SAP_BLEEDING_GENERA.includes(genus) ? 'in early summer' : 'during dormancy';
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('medium', window, now),
+        title: 'Remove Crossing Branches',
+        description: `Remove crossing or rubbing branches ${season} to prevent wounds and improve air circulation.`,
+        detailedInstructions:
+          '1. Identify crossing branches in the lower canopy\n2. Select the better-positioned branch to keep\n3. Make clean cuts just outside the branch collar',
+        estimatedTime: 45,
+        difficulty: 'intermediate',
+        tools: ['pruning saw', 'loppers'],
+        safety: pruningSafety(context),
+        window,
+      };
+    },
+  },
+  {
+    id: 'crown-raising',
+    evaluate: (context) => {
+      const { tree, now } = context;
+      const { height, growthStage } = tree.currentStatus;
+      const { clearanceNeeded } = tree.goals;
+      if (clearanceNeeded <= 0 || height < clearanceNeeded * 1.5 || !atLeast(growthStage, 'juvenile')) {
+        return null;
+      }
+      const window = structuralPruningWindow(context);
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('low', window, now),
+        title: 'Raise the Crown',
+        description: `Gradually remove the lowest limbs toward ${clearanceNeeded} ft of clearance, taking no more than a quarter of the canopy in one year.`,
+        estimatedTime: 40,
+        difficulty: 'intermediate',
+        tools: ['pruning saw', 'pole pruner'],
+        safety: pruningSafety(context),
+        window,
+      };
+    },
+  },
+  {
+    id: 'height-reduction',
+    evaluate: (context) => {
+      const { tree, now } = context;
+      const { targetHeight, aestheticStyle } = tree.goals;
+      if (targetHeight <= 0 || tree.currentStatus.height < targetHeight || aestheticStyle === 'pollarded') {
+        return null;
+      }
+      const window = structuralPruningWindow(context);
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('medium', window, now),
+        title: 'Maintain Target Height',
+        description: `The tree has reached its ${targetHeight} ft target. Use reduction cuts to lateral branches to hold it there; never top the tree.`,
+        estimatedTime: 60,
+        difficulty: 'advanced',
+        tools: ['pruning saw', 'pole pruner', 'ladder'],
+        safety: [...pruningSafety(context), 'Use proper ladder technique'],
+        window,
+      };
+    },
+  },
+  {
+    id: 'pollard-cycle',
+    evaluate: (context) => {
+      const { tree, now } = context;
+      if (tree.goals.aestheticStyle !== 'pollarded' || !atLeast(tree.currentStatus.growthStage, 'juvenile')) {
+        return null;
+      }
+      const window = dormantWindow(now, context.hemisphere);
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('medium', window, now),
+        title: 'Cut Back Pollard Heads',
+        description: "Remove the past seasons' shoots back to the pollard knuckles while the tree is dormant.",
+        estimatedTime: 60,
+        difficulty: 'intermediate',
+        tools: ['loppers', 'pruning saw'],
+        safety: pruningSafety(context),
+        window,
+      };
+    },
+  },
+  {
+    id: 'formal-shaping',
+    evaluate: ({ tree, now, hemisphere }) => {
+      if (tree.goals.aestheticStyle !== 'formal') {
+        return null;
+      }
+      const window = earlySummerWindow(now, hemisphere);
+      return {
+        type: 'pruning',
+        priority: escalateWhenOpen('low', window, now),
+        title: 'Trim to Maintain Formal Shape',
+        description: "Lightly trim this season's growth back to the outline once the spring flush has hardened.",
+        estimatedTime: 30,
+        difficulty: 'beginner',
+        tools: ['hedge shears', 'hand pruners'],
+        window,
+      };
+    },
+  },
+  {
+    id: 'establishment-watering',
+    evaluate: ({ tree, now, yearsSincePlanting, hemisphere }) => {
+      if (atLeast(tree.currentStatus.growthStage, 'young_adult') && yearsSincePlanting >= 3) {
+        return null;
+      }
+      const window = summerWindow(now, hemisphere);
+      return {
+        type: 'watering',
+        priority: escalateWhenOpen(yearsSincePlanting < 2 ? 'medium' : 'low', window, now),
+        title: 'Deep Summer Watering',
+        description: 'Water slowly at the drip line once a week during dry spells until the tree is established.',
+        estimatedTime: 15,
+        difficulty: 'beginner',
+        tools: ['soaker hose'],
+        window,
+      };
+    },
+  },
+  {
+    id: 'spring-mulch',
+    evaluate: ({ now, hemisphere }) => {
+      const window = springWindow(now, hemisphere);
+      return {
+        type: 'mulching',
+        priority: 'low',
+        title: 'Refresh the Mulch Ring',
+        description: 'Spread 2-3 inches of mulch out to the drip line, keeping it a hand-width away from the trunk.',
+        estimatedTime: 20,
+        difficulty: 'beginner',
+        tools: ['wheelbarrow', 'rake'],
+        window,
+      };
+    },
+  },
+];
+
+export const recommendationId = (treeId: string, ruleId: string, windowStart: string): string =>
+  `rec_${createHash('sha256').update(`${treeId}:${ruleId}:${windowStart}`).digest('hex').slice(0, 20)}`;
+
+const priorityRank = (priority: RecommendationPriority): number =>
+  RECOMMENDATION_PRIORITIES.indexOf(priority);
+
+/**
+ * Pending recommendations for a tree, most pressing first
+ */
+export const generateRecommendations = (
+  tree: TreeItem,
+  now: Date = new Date(),
+  rules: RecommendationRule[] = RECOMMENDATION_RULES
+): Recommendation[] => {
+  const planted = Date.parse(tree.plantedDate);
+  const context: RuleContext = {
+    tree,
+    now,
+    genus: tree.species.scientificName.trim().split(/\s+/)[0],
+    yearsSincePlanting: isNaN(planted) ? 0 : (now.getTime() - planted) / (365.25 * DAY_MS),
+    // Trees saved before climates were resolved only have their coordinates
+    hemisphere: tree.climate?.hemisphere ?? hemisphereOf(tree.location.coordinates),
+  };
+
+  return rules
+    .flatMap((rule) => {
+      const draft = rule.evaluate(context);
+      if (!draft) {
+        return [];
+      }
+      const { window, ...fields } = draft;
+      const windowStart = window.start.toISOString();
+      const recommendation: Recommendation = {
+        id: recommendationId(tree.treeId, rule.id, windowStart),
+        treeId: tree.treeId,
+        ruleId: rule.id,
+        ...fields,
+        timing: {
+          idealDate: window.ideal.toISOString(),
+          windowStart,
+          windowEnd: window.end.toISOString(),
+          seasonalFactor: window.seasonalFactor,
+        },
+        status: 'pending',
+      };
+      return [recommendation];
+    })
+    .sort(
+      (a, b) =>
+        priorityRank(a.priority) - priorityRank(b.priority) ||
+        a.timing.idealDate.localeCompare(b.timing.idealDate)
+    );
+};
@@ -0,0 +1,155 @@
+/**
+ * Species catalog
+ *
+ * Seeded from the bundled dataset in data/species.json. Search matches
+ * common and scientific names word by word and tolerates typos, so
+ * "mapel" finds the maples and "quercus rub" finds red oak.
+ */
+import catalogData from '../data/species.json';
+import { Species } from '../models/species';
+import { TreeWarning } from '../models/tree';
+import { zoneNumber } from './climate';
+
+export interface SpeciesMatch {
+  species: Species;
+  score: number; // 0-1, 1 for an exact name match
+}
+
+// Word matches scoring below this are not considered matches at all
+const MIN_WORD_SCORE = 0.5;
+
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const wordsOf = (text: string): string[] => normalize(text).split(' ').filter(Boolean);
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters (optimal string alignment)
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Short words must match exactly; longer ones may have one or two typos
+const allowedTypos = (length: number): number => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * How well a query word matches a name word. Prefixes count as matches so
+ * results show up while the user is still typing.
+ */
+const scoreWord = (queryWord: string, nameWord: string): number => {
+  if (nameWord === queryWord) {
+    return 1;
+  }
+  if (nameWord.startsWith(queryWord)) {
+    return 0.9;
+  }
+
+  const typos = allowedTypos(queryWord.length);
+  const distance = Math.min(
+    editDistance(queryWord, nameWord),
+    editDistance(queryWord, nameWord.slice(0, queryWord.length))
+  );
+  return distance <= typos ? 0.8 - (0.3 * distance) / typos : 0;
+};
+
+/**
+ * Every query word has to match some word of the name
+ */
+const scoreName = (queryWords: string[], query: string, name: string): number => {
+  const normalized = normalize(name);
+  if (normalized === query) {
+    return 1;
+  }
+
+  const nameWords = normalized.split(' ');
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(...nameWords.map((nameWord) => scoreWord(queryWord, nameWord)));
+    if (best < MIN_WORD_SCORE) {
+      return 0;
+    }
+    total += best;
+  }
+  // Keep exact matches ahead of anything fuzzy
+  return Math.min((total / queryWords.length) * 0.95, 0.95);
+};
+
+export class SpeciesCatalog {
+  private readonly species: Map<string, Species>;
+
+  constructor(species: Species[]) {
+    this.species = new Map(species.map((entry) => [entry.speciesId, entry]));
+  }
+
+  get(speciesId: string): Species | undefined {
+    return this.species.get(speciesId);
+  }
+
+  findByScientificName(scientificName: string): Species | undefined {
+    const wanted = normalize(scientificName);
+    return [...this.species.values()].find((entry) => normalize(entry.scientificName) === wanted);
+  }
+
+  /**
+   * A warning if the species is not hardy in the zone, e.g. '9b'. Species
+   * outside the catalog are not checked.
+   */
+  hardinessWarning(speciesId: string, hardinessZone: string): TreeWarning | undefined {
+    const species = this.species.get(speciesId);
+    const zones = species?.characteristics.hardinessZones ?? [];
+    if (!species || zones.length === 0 || zones.includes(zoneNumber(hardinessZone))) {
+      return undefined;
+    }
+    return {
+      code: 'outside_hardiness_zone',
+      message: `${species.commonNames[0]} is hardy in zones ${Math.min(...zones)}-${Math.max(...zones)}; this tree is in zone ${hardinessZone}.`,
+    };
+  }
+
+  /**
+   * Species whose common or scientific names match the query, best first
+   */
+  search(query: string, limit = 20): SpeciesMatch[] {
+    const normalized = normalize(query);
+    const queryWords = wordsOf(query);
+    if (queryWords.length === 0) {
+      return [];
+    }
+
+    return [...this.species.values()]
+      .map((species) => ({
+        species,
+        score: Math.max(
+          ...[species.scientificName, ...species.commonNames].map((name) => scoreName(queryWords, normalized, name))
+        ),
+      }))
+      .filter((match) => match.score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.species.commonNames[0].localeCompare(b.species.commonNames[0])
+      )
+      .slice(0, limit);
+  }
+}
+
+export const speciesCatalog = new SpeciesCatalog(catalogData as Species[]);
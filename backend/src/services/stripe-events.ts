@@ -0,0 +1,143 @@
+/**
+ * Maps Stripe webhook events onto TreeCareSubscriptions rows
+ *
+ * Checkout links a Stripe customer to the user; subscription events carry the
+ * tier (from the price's `tier` metadata), status and billing period; invoice
+ * events record renewals and failed payments. The user is named by the
+ * checkout's client_reference_id or the subscription's `userId` metadata, and
+ * otherwise found through the Stripe customer already linked to them.
+ */
+import Stripe from 'stripe';
+import {
+  SUBSCRIPTION_TIERS,
+  SubscriptionItem,
+  SubscriptionStatus,
+  SubscriptionTier,
+} from '../models/subscription';
+import { logger } from '../utils/logger';
+
+export type SubscriptionFields = Partial<
+  Pick<
+    SubscriptionItem,
+    | 'subscriptionTier'
+    | 'status'
+    | 'stripeSubscriptionId'
+    | 'currentPeriodStart'
+    | 'currentPeriodEnd'
+    | 'cancelAtPeriodEnd'
+  >
+>;
+
+export interface SubscriptionChange {
+  userId?: string;
+  customerId: string;
+  fields: SubscriptionFields;
+}
+
+const STATUS_BY_STRIPE_STATUS: Record<Stripe.Subscription.Status, SubscriptionStatus> = {
+  active: 'active',
+  trialing: 'trialing',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  incomplete: 'incomplete',
+  incomplete_expired: 'canceled',
+  // No access while paused
+  paused: 'canceled',
+  canceled: 'canceled',
+};
+
+const isoFromEpoch = (seconds: number): string => new Date(seconds * 1000).toISOString();
+
+const idOf = (value: string | { id: string } | null): string | undefined =>
+  typeof value === 'string' ? value : value?.id;
+
+const tierOf = (value: string | undefined): SubscriptionTier | undefined =>
+  SUBSCRIPTION_TIERS.find((tier) => tier === value);
+
+const checkoutChange = (session: Stripe.Checkout.Session): SubscriptionChange | undefined => {
+  const customerId = idOf(session.customer);
+  if (session.mode !== 'subscription' || !customerId) {
+    return undefined;
+  }
+
+  const tier = tierOf(session.metadata?.tier);
+  return {
+    userId: session.client_reference_id || session.metadata?.userId,
+    customerId,
+    fields: {
+      status: 'active',
+      stripeSubscriptionId: idOf(session.subscription),
+      ...(tier && { subscriptionTier: tier }),
+    },
+  };
+};
+
+const subscriptionChange = (subscription: Stripe.Subscription): SubscriptionChange => {
+  const price = subscription.items.data[0]?.price;
+  const tier = tierOf(price?.metadata.tier);
+  if (!tier) {
+    logger.warn('Stripe price has no known tier', { priceId: price?.id, subscriptionId: subscription.id });
+  }
+
+  return {
+    userId: subscription.metadata.userId,
+    customerId: idOf(subscription.customer)!,
+    fields: {
+      status: STATUS_BY_STRIPE_STATUS[subscription.status],
+      stripeSubscriptionId: subscription.id,
+      currentPeriodStart: isoFromEpoch(subscription.current_period_start),
+      currentPeriodEnd: isoFromEpoch(subscription.current_period_end),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      ...(tier && { subscriptionTier: tier }),
+    },
+  };
+};
+
+const invoiceChange = (invoice: Stripe.Invoice, status: SubscriptionStatus): SubscriptionChange | undefined => {
+  const customerId = idOf(invoice.customer);
+  const subscriptionId = idOf(invoice.subscription);
+  if (!customerId || !subscriptionId) {
+    return undefined;
+  }
+
+  const period = invoice.lines.data.find((line) => idOf(line.subscription) === subscriptionId)?.period;
+  return {
+    customerId,
+    fields: {
+      status,
+      stripeSubscriptionId: subscriptionId,
+      ...(status === 'active' &&
+        period && {
+          currentPeriodStart: isoFromEpoch(period.start),
+          currentPeriodEnd: isoFromEpoch(period.end),
+        }),
+    },
+  };
+};
+
+/**
+ * The subscription change an event calls for, or undefined for events that
+ * do not affect subscriptions
+ */
+export const subscriptionChangeFor = (event: Stripe.Event): SubscriptionChange | undefined => {
+  const object = event.data.object;
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return checkoutChange(object as Stripe.Checkout.Session);
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return subscriptionChange(object as Stripe.Subscription);
+    case 'customer.subscription.deleted':
+      return {
+        ...subscriptionChange(object as Stripe.Subscription),
+        fields: { status: 'canceled', subscriptionTier: 'free', cancelAtPeriodEnd: false },
+      };
+    case 'invoice.paid':
+      return invoiceChange(object as Stripe.Invoice, 'active');
+    case 'invoice.payment_failed':
+      return invoiceChange(object as Stripe.Invoice, 'past_due');
+    default:
+      return undefined;
+  }
+};
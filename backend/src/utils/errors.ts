@@ -0,0 +1,124 @@
+import { FieldError } from './schema';
+
+export type RequestLocation = 'body' | 'query' | 'path' | 'header';
+
+export interface RequestFieldError extends FieldError {
+  location: RequestLocation;
+}
+
+/**
+ * Custom error classes
+ */
+export class ValidationError extends Error {
+  statusCode = 400;
+  details?: RequestFieldError[];
+  
+  constructor(message: string, details?: RequestFieldError[]) {
+    super(message);
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+export class UnauthorizedError extends Error {
+  statusCode = 401;
+  
+  constructor(message: string = 'Unauthorized') {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  statusCode = 403;
+  
+  constructor(message: string = 'Forbidden') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends Error {
+  statusCode = 404;
+  
+  constructor(message: string = 'Resource not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends Error {
+  statusCode = 409;
+  // e.g. the current server copy when a conditional write lost
+  details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = 'ConflictError';
+    this.details = details;
+  }
+}
+
+/**
+ * An Idempotency-Key was sent again with a different request body
+ */
+export class IdempotencyKeyReusedError extends Error {
+  statusCode = 422;
+
+  constructor(message: string = 'Idempotency-Key was already used for a different request') {
+    super(message);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+/**
+ * The caller has used up the requests their tier allows for now; headers
+ * says when to retry
+ */
+export class RateLimitError extends Error {
+  statusCode = 429;
+  retryAfterSeconds: number;
+  headers: Record<string, string>;
+
+  constructor(retryAfterSeconds: number, headers: Record<string, string>) {
+    super(`Rate limit exceeded; retry in ${retryAfterSeconds} seconds`);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.headers = headers;
+  }
+}
+
+export class MethodNotAllowedError extends Error {
+  statusCode = 405;
+  allowedMethods: string[];
+
+  constructor(method: string, allowedMethods: string[]) {
+    super(`Method ${method} not allowed`);
+    this.name = 'MethodNotAllowedError';
+    this.allowedMethods = allowedMethods;
+  }
+}
+
+export interface EntitlementErrorDetails {
+  entitlement: string;
+  tier: string;
+  limit?: number;
+  requiredTier?: string;
+}
+
+/**
+ * The caller's subscription tier does not include the feature or has used up
+ * the limit. 402 when a higher tier would allow the request, so clients can
+ * offer an upgrade; 403 when no tier does.
+ */
+export class EntitlementError extends Error {
+  statusCode: 402 | 403;
+  details: EntitlementErrorDetails;
+
+  constructor(message: string, details: EntitlementErrorDetails) {
+    super(message);
+    this.name = 'EntitlementError';
+    this.statusCode = details.requiredTier ? 402 : 403;
+    this.details = details;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Entity tags for optimistic concurrency
+ *
+ * Versioned items carry a number that every write increments; their ETag is
+ * that number, quoted. Clients send it back in If-Match so a write only
+ * applies to the version they last saw.
+ */
+
+export const ETAG_HEADER = 'ETag';
+export const IF_MATCH_HEADER = 'If-Match';
+
+export const etagFor = (version: number): string => `"${version}"`;
+
+/**
+ * Whether an If-Match header allows a write to the given version. `*`
+ * matches any version; weak tags never match, as If-Match compares strongly.
+ */
+export const ifMatchAllows = (header: string, version: number): boolean => {
+  const current = etagFor(version);
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === current);
+};
@@ -0,0 +1,87 @@
+/**
+ * Registry of the dependencies the API needs, for readiness checks
+ *
+ * Each dependency registers its own check and timeout, and all checks run in
+ * parallel. A failing critical dependency makes the service unhealthy; a
+ * failing non-critical one only degrades it.
+ */
+
+export type DependencyStatus = 'healthy' | 'unhealthy';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface DependencyCheck {
+  name: string;
+  // Whether the API can serve requests at all without this dependency
+  critical: boolean;
+  timeoutMs: number;
+  // Resolves if the dependency is usable, rejects otherwise
+  check: () => Promise<unknown>;
+}
+
+export interface DependencyResult {
+  status: DependencyStatus;
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  dependencies: Record<string, DependencyResult>;
+}
+
+const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export class HealthRegistry {
+  private checks: DependencyCheck[] = [];
+
+  register(check: DependencyCheck): this {
+    if (this.checks.some((existing) => existing.name === check.name)) {
+      throw new Error(`Health check ${check.name} is already registered`);
+    }
+    this.checks.push(check);
+    return this;
+  }
+
+  async run(): Promise<HealthReport> {
+    const results = await Promise.all(
+      this.checks.map(async (dependency): Promise<[string, DependencyResult]> => {
+        const startedAt = Date.now();
+        try {
+          await withTimeout(dependency.check(), dependency.timeoutMs);
+          return [dependency.name, { status: 'healthy', critical: dependency.critical, latencyMs: Date.now() - startedAt }];
+        } catch (error: any) {
+          return [
+            dependency.name,
+            {
+              status: 'unhealthy',
+              critical: dependency.critical,
+              latencyMs: Date.now() - startedAt,
+              error: error?.message || String(error),
+            },
+          ];
+        }
+      })
+    );
+
+    const failed = results.filter(([, result]) => result.status === 'unhealthy');
+    const status: HealthStatus = failed.some(([, result]) => result.critical)
+      ? 'unhealthy'
+      : failed.length > 0
+        ? 'degraded'
+        : 'healthy';
+
+    return { status, dependencies: Object.fromEntries(results) };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Structured JSON logger
+ *
+ * Every entry is written as a single JSON line so CloudWatch Logs Insights can
+ * query it. Request-scoped fields (awsRequestId, correlation ID) are attached
+ * with runWithLogContext and picked up by every log call made while the
+ * request is being handled, including from services the handler calls.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type LogSink = (line: string, level: LogLevel) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  // Keys whose values are replaced wherever they appear in a log entry
+  redactKeys?: string[];
+  sink?: LogSink;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Always redacted: credentials carried in headers plus common secret body fields
+ */
+export const DEFAULT_REDACT_KEYS = [
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-amz-security-token',
+  'password',
+  'newPassword',
+  'accessToken',
+  'refreshToken',
+  'idToken',
+];
+
+const MAX_DEPTH = 8;
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in LEVEL_ORDER;
+
+const defaultSink: LogSink = (line, level) => {
+  if (level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run fn with fields attached to every log entry written inside it
+ */
+export const runWithLogContext = <T>(fields: LogFields, fn: () => T): T =>
+  logContext.run({ ...logContext.getStore(), ...fields }, fn);
+
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: error.message,
+  ...((error as any).statusCode !== undefined && { statusCode: (error as any).statusCode }),
+  stack: error.stack,
+});
+
+export class Logger {
+  private level: LogLevel;
+  private redactKeys: Set<string>;
+  private sink: LogSink;
+  private bindings: LogFields;
+
+  constructor(options: LoggerOptions = {}, bindings: LogFields = {}) {
+    this.level = options.level ?? 'info';
+    this.redactKeys = new Set(
+      [...DEFAULT_REDACT_KEYS, ...(options.redactKeys ?? [])].map((key) => key.toLowerCase())
+    );
+    this.sink = options.sink ?? defaultSink;
+    this.bindings = bindings;
+  }
+
+  /**
+   * Logger that adds fields to every entry it writes
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger(
+      { level: this.level, redactKeys: [...this.redactKeys], sink: this.sink },
+      { ...this.bindings, ...bindings }
+    );
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Copy of value with sensitive keys masked, matched case-insensitively at
+   * any depth
+   */
+  redact(value: unknown, depth = 0): unknown {
+    if (value instanceof Error) {
+      return this.redact(serializeError(value), depth);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, depth + 1));
+    }
+
+    const result: LogFields = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = this.redactKeys.has(key.toLowerCase()) ? REDACTED : this.redact(item, depth + 1);
+    }
+    return result;
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(this.redact({ ...logContext.getStore(), ...this.bindings, ...fields }) as LogFields),
+    };
+    this.sink(JSON.stringify(entry), level);
+  }
+}
+
+/**
+ * Logger configured from LOG_LEVEL and LOG_REDACT_FIELDS (comma separated)
+ */
+export const createLogger = (options: LoggerOptions = {}): Logger =>
+  new Logger({
+    ...options,
+    level: options.level ?? (isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : undefined),
+    redactKeys: [
+      ...(process.env.LOG_REDACT_FIELDS || '').split(',').map((key) => key.trim()).filter(Boolean),
+      ...(options.redactKeys ?? []),
+    ],
+  });
+
+export const logger = createLogger();
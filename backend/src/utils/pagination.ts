@@ -0,0 +1,124 @@
+/**
+ * Cursor pagination over DynamoDB queries
+ *
+ * Cursors are opaque tokens wrapping the query's LastEvaluatedKey. They are
+ * signed with CURSOR_SECRET and bound to the listing they came from (its
+ * scope), so a client can neither edit a cursor nor replay it against another
+ * user's or another filter's listing. Deployed stages take the secret from
+ * the stack's cursor secret; only local runs and tests fall back to a
+ * well-known one.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { DynamoDB } from 'aws-sdk';
+import { ValidationError } from './errors';
+import { isLocalRun } from './runtime';
+
+export interface PageOptions {
+  limit: number;
+  cursor?: string;
+  // Identifies the listing, e.g. `trees:<userId>:active`
+  scope: string;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+const LOCAL_CURSOR_SECRET = 'local-development-cursor-secret';
+
+const cursorSecret = (): string => {
+  const secret = process.env.CURSOR_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (isLocalRun()) {
+    return LOCAL_CURSOR_SECRET;
+  }
+  throw new Error('CURSOR_SECRET must be set');
+};
+
+const sign = (payload: string, scope: string): Buffer =>
+  createHmac('sha256', cursorSecret()).update(`${scope}.${payload}`).digest();
+
+export const encodeCursor = (key: DynamoDB.DocumentClient.Key, scope: string): string => {
+  const payload = Buffer.from(JSON.stringify(key)).toString('base64url');
+  return `${payload}.${sign(payload, scope).toString('base64url')}`;
+};
+
+/**
+ * The key a cursor wraps; throws a ValidationError for cursors that were
+ * altered or issued for a different listing
+ */
+export const decodeCursor = (cursor: string, scope: string): DynamoDB.DocumentClient.Key => {
+  const invalid = new ValidationError('Request validation failed', [
+    { location: 'query', path: 'cursor', message: 'is not a valid cursor for this list' },
+  ]);
+
+  const [payload, signature, ...rest] = cursor.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw invalid;
+  }
+  const expected = sign(payload, scope);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalid;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid;
+  }
+};
+
+/**
+ * Run a query until it has `limit` items or runs out. DynamoDB applies Limit
+ * before FilterExpression, so each call asks only for what is still missing;
+ * that way the last evaluated key never skips past unreturned matches.
+ */
+export const queryPage = async <T>(
+  client: DynamoDB.DocumentClient,
+  params: DynamoDB.DocumentClient.QueryInput,
+  { limit, cursor, scope }: PageOptions
+): Promise<QueryPage<T>> => {
+  const items: T[] = [];
+  let exclusiveStartKey = cursor ? decodeCursor(cursor, scope) : undefined;
+
+  do {
+    const result = await client.query({
+      ...params,
+      Limit: limit - items.length,
+      ExclusiveStartKey: exclusiveStartKey,
+    }).promise();
+
+    items.push(...((result.Items || []) as T[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey && items.length < limit);
+
+  return {
+    items,
+    nextCursor: exclusiveStartKey ? encodeCursor(exclusiveStartKey, scope) : null,
+  };
+};
+
+/**
+ * The in-memory counterpart of queryPage: `items` must already be in listing
+ * order, and `keyOf` picks the attributes `compare` orders by, which is what
+ * the cursor wraps
+ */
+export const pageOfItems = <T>(
+  items: T[],
+  keyOf: (item: T) => DynamoDB.DocumentClient.Key,
+  compare: (a: T, b: T) => number,
+  { limit, cursor, scope }: PageOptions
+): QueryPage<T> => {
+  const after = cursor ? (decodeCursor(cursor, scope) as T) : undefined;
+  const remaining = after ? items.filter((item) => compare(item, after) > 0) : items;
+  const page = remaining.slice(0, limit);
+
+  return {
+    items: page,
+    nextCursor: remaining.length > limit ? encodeCursor(keyOf(page[page.length - 1]), scope) : null,
+  };
+};
@@ -0,0 +1,132 @@
+/**
+ * Method/path router for Lambdas that serve several endpoints
+ *
+ * Routes are registered with Express-style paths (`/trees/:treeId/photos`);
+ * the `:name` segments are extracted and typed from the path literal.
+ */
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { CallerIdentity } from '../middleware/auth';
+import { MethodNotAllowedError, NotFoundError } from './errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * `{ treeId: string; photoId: string }` for `/trees/:treeId/photos/:photoId`
+ */
+export type PathParams<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & PathParams<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<string, never>;
+
+export interface RouteRequest<P = Record<string, string>> {
+  event: APIGatewayProxyEvent;
+  context: Context;
+  identity?: CallerIdentity;
+  params: P;
+}
+
+export type RouteHandler<P = Record<string, string>> = (
+  request: RouteRequest<P>
+) => Promise<APIGatewayProxyResult>;
+
+interface Route {
+  method: HttpMethod;
+  path: string;
+  segments: string[];
+  handler: RouteHandler<any>;
+}
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+export class Router {
+  private routes: Route[] = [];
+
+  get<P extends string>(path: P, handler: RouteHandler<PathParams<P>>): this {
+    return this.add('GET', path, handler);
+  }
+
+  post<P extends string>(path: P, handler: RouteHandler<PathParams<P>>): this {
+    return this.add('POST', path, handler);
+  }
+
+  put<P extends string>(path: P, handler: RouteHandler<PathParams<P>>): this {
+    return this.add('PUT', path, handler);
+  }
+
+  patch<P extends string>(path: P, handler: RouteHandler<PathParams<P>>): this {
+    return this.add('PATCH', path, handler);
+  }
+
+  delete<P extends string>(path: P, handler: RouteHandler<PathParams<P>>): this {
+    return this.add('DELETE', path, handler);
+  }
+
+  add<P extends string>(method: HttpMethod, path: P, handler: RouteHandler<PathParams<P>>): this {
+    this.routes.push({ method, path, segments: splitPath(path), handler });
+    return this;
+  }
+
+  /**
+   * Dispatch the event to the matching route
+   */
+  async handle(
+    event: APIGatewayProxyEvent,
+    context: Context,
+    identity?: CallerIdentity
+  ): Promise<APIGatewayProxyResult> {
+    const { route, params } = this.match(event.httpMethod, event.path);
+    return route.handler({ event, context, identity, params });
+  }
+
+  /**
+   * Find the route for a method and path. Static segments win over
+   * parameters, so `/trees/archived` beats `/trees/:treeId`.
+   */
+  match(method: string, path: string): { route: Route; params: Record<string, string> } {
+    const requestSegments = splitPath(path);
+    const candidates = this.routes
+      .map((route) => ({ route, params: matchSegments(route.segments, requestSegments) }))
+      .filter((candidate): candidate is { route: Route; params: Record<string, string> } =>
+        candidate.params !== null
+      );
+
+    if (candidates.length === 0) {
+      throw new NotFoundError(`No route for ${method} ${path}`);
+    }
+
+    const forMethod = candidates
+      .filter(({ route }) => route.method === method.toUpperCase())
+      .sort((a, b) => staticCount(b.route) - staticCount(a.route));
+
+    if (forMethod.length === 0) {
+      const allowed = [...new Set(candidates.map(({ route }) => route.method))];
+      throw new MethodNotAllowedError(method, allowed);
+    }
+    return forMethod[0];
+  }
+}
+
+const staticCount = (route: Route): number =>
+  route.segments.filter((segment) => !segment.startsWith(':')).length;
+
+const matchSegments = (
+  routeSegments: string[],
+  requestSegments: string[]
+): Record<string, string> | null => {
+  if (routeSegments.length !== requestSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const routeSegment = routeSegments[i];
+    if (routeSegment.startsWith(':')) {
+      params[routeSegment.slice(1)] = decodeURIComponent(requestSegments[i]);
+    } else if (routeSegment !== requestSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+};
@@ -0,0 +1,5 @@
+/**
+ * Local API server runs and tests may fall back to development defaults that
+ * deployed stages must never use, such as a well-known signing secret
+ */
+export const isLocalRun = (): boolean => process.env.STAGE === 'local' || process.env.NODE_ENV === 'test';
@@ -0,0 +1,366 @@
+/**
+ * Declarative request schemas
+ *
+ * Schemas validate untrusted input, infer the TypeScript type of the validated
+ * value and render themselves as JSON Schema (draft 4, the dialect API Gateway
+ * models use). This module has no runtime dependencies so the infrastructure
+ * package can import it to generate request models.
+ */
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface JsonSchema {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema | JsonSchema[];
+  additionalItems?: boolean;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  format?: string;
+}
+
+export interface CheckOptions {
+  // Parse numbers and booleans out of strings (query strings, path parameters)
+  coerce: boolean;
+}
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export abstract class Schema<T> {
+  declare readonly _type: T;
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * Returns the validated value, pushing any problems onto errors
+   */
+  abstract check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): T;
+
+  abstract toJsonSchema(): JsonSchema;
+
+  isOptional(): boolean {
+    return false;
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  private inner: Schema<T>;
+
+  constructor(inner: Schema<T>) {
+    super();
+    this.inner = inner;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): T | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return this.inner.check(value, path, errors, options);
+  }
+
+  toJsonSchema(): JsonSchema {
+    return this.inner.toJsonSchema();
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+}
+
+export interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: 'date' | 'date-time';
+}
+
+export class StringSchema extends Schema<string> {
+  private options: StringOptions;
+
+  constructor(options: StringOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[]): string {
+    const { minLength, maxLength, pattern, format } = this.options;
+
+    if (typeof value !== 'string') {
+      errors.push({ path, message: 'must be a string' });
+    } else if (minLength !== undefined && value.length < minLength) {
+      errors.push({ path, message: `must be at least ${minLength} characters` });
+    } else if (maxLength !== undefined && value.length > maxLength) {
+      errors.push({ path, message: `must be at most ${maxLength} characters` });
+    } else if (pattern && !pattern.test(value)) {
+      errors.push({ path, message: `must match ${pattern.source}` });
+    } else if (format && isNaN(Date.parse(value))) {
+      errors.push({ path, message: `must be an ISO 8601 ${format}` });
+    }
+    return value as string;
+  }
+
+  toJsonSchema(): JsonSchema {
+    const { minLength, maxLength, pattern, format } = this.options;
+    return {
+      type: 'string',
+      ...(minLength !== undefined && { minLength }),
+      ...(maxLength !== undefined && { maxLength }),
+      ...(pattern && { pattern: pattern.source }),
+      ...(format && { format }),
+    };
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  private values: readonly T[];
+
+  constructor(values: readonly T[]) {
+    super();
+    this.values = values;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[]): T {
+    if (!this.values.includes(value as T)) {
+      errors.push({ path, message: `must be one of: ${this.values.join(', ')}` });
+    }
+    return value as T;
+  }
+
+  toJsonSchema(): JsonSchema {
+    return { type: 'string', enum: [...this.values] };
+  }
+}
+
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export class NumberSchema extends Schema<number> {
+  private options: NumberOptions;
+
+  constructor(options: NumberOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): number {
+    const { min, max, integer } = this.options;
+    const parsed =
+      options.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      errors.push({ path, message: integer ? 'must be an integer' : 'must be a number' });
+    } else if (integer && !Number.isInteger(parsed)) {
+      errors.push({ path, message: 'must be an integer' });
+    } else if (min !== undefined && parsed < min) {
+      errors.push({ path, message: `must be >= ${min}` });
+    } else if (max !== undefined && parsed > max) {
+      errors.push({ path, message: `must be <= ${max}` });
+    }
+    return parsed as number;
+  }
+
+  toJsonSchema(): JsonSchema {
+    const { min, max, integer } = this.options;
+    return {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    };
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): boolean {
+    if (options.coerce && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    if (typeof value !== 'boolean') {
+      errors.push({ path, message: 'must be a boolean' });
+    }
+    return value as boolean;
+  }
+
+  toJsonSchema(): JsonSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  private items: Schema<T>;
+  private options: ArrayOptions;
+
+  constructor(items: Schema<T>, options: ArrayOptions = {}) {
+    super();
+    this.items = items;
+    this.options = options;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): T[] {
+    const { minItems, maxItems } = this.options;
+
+    if (!Array.isArray(value)) {
+      errors.push({ path, message: 'must be an array' });
+      return value as T[];
+    }
+    if (minItems !== undefined && value.length < minItems) {
+      errors.push({ path, message: `must have at least ${minItems} items` });
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      errors.push({ path, message: `must have at most ${maxItems} items` });
+    }
+    return value.map((item, index) => this.items.check(item, joinPath(path, index), errors, options));
+  }
+
+  toJsonSchema(): JsonSchema {
+    const { minItems, maxItems } = this.options;
+    return {
+      type: 'array',
+      items: this.items.toJsonSchema(),
+      ...(minItems !== undefined && { minItems }),
+      ...(maxItems !== undefined && { maxItems }),
+    };
+  }
+}
+
+export type TupleType<S extends readonly Schema<any>[]> = { [K in keyof S]: Infer<S[K]> };
+
+export class TupleSchema<S extends readonly Schema<any>[]> extends Schema<TupleType<S>> {
+  private elements: S;
+
+  constructor(elements: S) {
+    super();
+    this.elements = elements;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): TupleType<S> {
+    if (!Array.isArray(value) || value.length !== this.elements.length) {
+      errors.push({ path, message: `must be an array of ${this.elements.length} items` });
+      return value as TupleType<S>;
+    }
+    return this.elements.map((element, index) =>
+      element.check(value[index], joinPath(path, index), errors, options)
+    ) as unknown as TupleType<S>;
+  }
+
+  toJsonSchema(): JsonSchema {
+    return {
+      type: 'array',
+      items: this.elements.map((element) => element.toJsonSchema()),
+      additionalItems: false,
+      minItems: this.elements.length,
+      maxItems: this.elements.length,
+    };
+  }
+}
+
+export type Shape = Record<string, Schema<any>>;
+export type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+export type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+export type ObjectType<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Object schema. Keys not in the shape are dropped from the validated value.
+ */
+export class ObjectSchema<S extends Shape> extends Schema<ObjectType<S>> {
+  readonly shape: S;
+
+  constructor(shape: S) {
+    super();
+    this.shape = shape;
+  }
+
+  check(value: unknown, path: string, errors: FieldError[], options: CheckOptions): ObjectType<S> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ path, message: 'must be an object' });
+      return value as ObjectType<S>;
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const fieldPath = joinPath(path, key);
+      if ((input[key] === undefined || input[key] === null) && !schema.isOptional()) {
+        errors.push({ path: fieldPath, message: 'is required' });
+        continue;
+      }
+      const checked = schema.check(input[key], fieldPath, errors, options);
+      if (checked !== undefined) {
+        result[key] = checked;
+      }
+    }
+    return result as ObjectType<S>;
+  }
+
+  toJsonSchema(): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(this.shape)) {
+      properties[key] = schema.toJsonSchema();
+      if (!schema.isOptional()) {
+        required.push(key);
+      }
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    };
+  }
+}
+
+export const s = {
+  string: (options?: StringOptions) => new StringSchema(options),
+  number: (options?: NumberOptions) => new NumberSchema(options),
+  integer: (options?: Omit<NumberOptions, 'integer'>) => new NumberSchema({ ...options, integer: true }),
+  boolean: () => new BooleanSchema(),
+  enum: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  array: <T>(items: Schema<T>, options?: ArrayOptions) => new ArraySchema(items, options),
+  tuple: <S extends readonly Schema<any>[]>(...elements: S) => new TupleSchema(elements),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+};
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: FieldError[];
+}
+
+/**
+ * Validate a value against a schema, collecting every error rather than
+ * stopping at the first
+ */
+export const validate = <T>(
+  schema: Schema<T>,
+  value: unknown,
+  options: { coerce?: boolean } = {}
+): ValidationResult<T> => {
+  const errors: FieldError[] = [];
+  const checked = schema.check(value, '', errors, { coerce: options.coerce ?? false });
+  return { value: checked, errors };
+};
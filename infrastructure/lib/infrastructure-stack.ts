@@ -5,8 +5,10 @@ import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { RemovalPolicy } from 'aws-cdk-lib';
+import { createTreeSchema, updateTreeSchema } from '../../backend/src/models/tree-schemas';
 
 export class InfrastructureStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -43,6 +45,21 @@ export class InfrastructureStack extends cdk.Stack {
       pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
     });
 
+    // Add GSI for listing a user's trees
+    treesTable.addGlobalSecondaryIndex({
+      indexName: 'userId-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Add GSI for the purge job to find trees archived past the retention window;
+    // only archived trees carry archivedAt, so active trees stay out of it
+    treesTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'archivedAt', type: dynamodb.AttributeType.STRING },
+    });
+
     const photosTable = new dynamodb.Table(this, 'PhotosTable', {
       tableName: `TreeCarePhotos-${environment}`,
       partitionKey: { name: 'photoId', type: dynamodb.AttributeType.STRING },
@@ -50,6 +67,15 @@ export class InfrastructureStack extends cdk.Stack {
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
       pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+      // Unfinished uploads are removed automatically
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Add GSI for listing a tree's photos by capture time
+    photosTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'capturedAt', type: dynamodb.AttributeType.STRING },
     });
 
     const subscriptionsTable = new dynamodb.Table(this, 'SubscriptionsTable', {
@@ -60,6 +86,181 @@ export class InfrastructureStack extends cdk.Stack {
       pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
     });
 
+    // Add GSI for finding a user by Stripe customer in webhook events
+    subscriptionsTable.addGlobalSecondaryIndex({
+      indexName: 'stripeCustomerId-index',
+      partitionKey: { name: 'stripeCustomerId', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Stripe webhook events already processed, so redeliveries are not applied twice
+    const stripeEventsTable = new dynamodb.Table(this, 'StripeEventsTable', {
+      tableName: `TreeCareStripeEvents-${environment}`,
+      partitionKey: { name: 'eventId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Responses to requests sent with an Idempotency-Key, replayed for retries
+    const idempotencyTable = new dynamodb.Table(this, 'IdempotencyTable', {
+      tableName: `TreeCareIdempotency-${environment}`,
+      partitionKey: { name: 'idempotencyKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Per-user token buckets for API rate limiting; idle buckets expire once full again
+    const rateLimitsTable = new dynamodb.Table(this, 'RateLimitsTable', {
+      tableName: `TreeCareRateLimits-${environment}`,
+      partitionKey: { name: 'bucketKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    const recommendationsTable = new dynamodb.Table(this, 'RecommendationsTable', {
+      tableName: `TreeCareRecommendations-${environment}`,
+      partitionKey: { name: 'recommendationId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for listing a tree's recommendations by due window
+    recommendationsTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'windowStart', type: dynamodb.AttributeType.STRING },
+    });
+
+    const notificationsTable = new dynamodb.Table(this, 'NotificationsTable', {
+      tableName: `TreeCareNotifications-${environment}`,
+      partitionKey: { name: 'notificationId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for listing a user's notifications by scheduled time
+    notificationsTable.addGlobalSecondaryIndex({
+      indexName: 'userId-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'scheduledTime', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Add GSI for the dispatcher to find pending notifications that are due
+    notificationsTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'dueAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Add GSI for purging the notifications about a tree
+    notificationsTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'scheduledTime', type: dynamodb.AttributeType.STRING },
+    });
+
+    // The care log: waterings, feedings, prunings and inspections
+    const careEventsTable = new dynamodb.Table(this, 'CareEventsTable', {
+      tableName: `TreeCareCareEvents-${environment}`,
+      partitionKey: { name: 'careEventId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for listing a tree's care events by date
+    careEventsTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'date', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Dated height, trunk diameter and canopy spread readings
+    const measurementsTable = new dynamodb.Table(this, 'MeasurementsTable', {
+      tableName: `TreeCareMeasurements-${environment}`,
+      partitionKey: { name: 'measurementId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for listing a tree's measurements by when they were taken
+    measurementsTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'measuredAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // One calendar feed per user, holding the hash of its secret URL token
+    const calendarFeedsTable = new dynamodb.Table(this, 'CalendarFeedsTable', {
+      tableName: `TreeCareCalendarFeeds-${environment}`,
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for finding the feed a URL token belongs to
+    calendarFeedsTable.addGlobalSecondaryIndex({
+      indexName: 'tokenHash-index',
+      partitionKey: { name: 'tokenHash', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Who else a tree is shared with, and in which role
+    const treeMembersTable = new dynamodb.Table(this, 'TreeMembersTable', {
+      tableName: `TreeCareTreeMembers-${environment}`,
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSI for listing the trees shared with a user
+    treeMembersTable.addGlobalSecondaryIndex({
+      indexName: 'userId-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Invitations to share a tree, addressed by email
+    const invitationsTable = new dynamodb.Table(this, 'InvitationsTable', {
+      tableName: `TreeCareInvitations-${environment}`,
+      partitionKey: { name: 'invitationId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+      pointInTimeRecoverySpecification: isProd ? { pointInTimeRecoveryEnabled: true } : undefined,
+    });
+
+    // Add GSIs for listing a tree's invitations and those sent to an address
+    invitationsTable.addGlobalSecondaryIndex({
+      indexName: 'treeId-index',
+      partitionKey: { name: 'treeId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+    invitationsTable.addGlobalSecondaryIndex({
+      indexName: 'email-index',
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Signs API pagination cursors; the functions take it as CURSOR_SECRET
+    const cursorSecret = new secretsmanager.Secret(this, 'CursorSecret', {
+      secretName: `TreeCareCursorSecret-${environment}`,
+      description: 'Signing secret for API pagination cursors',
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+      removalPolicy: isProd ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+    });
+
     // S3 Bucket for photo storage
     const photoBucket = new s3.Bucket(this, 'PhotoBucket', {
       bucketName: `tree-care-photos-${environment}-${this.account}`,
@@ -138,7 +339,19 @@ export class InfrastructureStack extends cdk.Stack {
 
     // Enable contributor insights for production tables
     if (isProd) {
-      const tables = [usersTable, treesTable, photosTable, subscriptionsTable];
+      const tables = [
+        usersTable,
+        treesTable,
+        photosTable,
+        subscriptionsTable,
+        recommendationsTable,
+        notificationsTable,
+        careEventsTable,
+        measurementsTable,
+        calendarFeedsTable,
+        treeMembersTable,
+        invitationsTable,
+      ];
       tables.forEach((table) => {
         const cfnTable = table.node.defaultChild as dynamodb.CfnTable;
         cfnTable.contributorInsightsSpecification = {
@@ -178,15 +391,35 @@ export class InfrastructureStack extends cdk.Stack {
         'dynamodb:Scan',
         'dynamodb:BatchGetItem',
         'dynamodb:BatchWriteItem',
+        // Readiness checks
+        'dynamodb:DescribeTable',
       ],
       resources: [
         usersTable.tableArn,
         treesTable.tableArn,
         photosTable.tableArn,
         subscriptionsTable.tableArn,
+        stripeEventsTable.tableArn,
+        idempotencyTable.tableArn,
+        rateLimitsTable.tableArn,
+        recommendationsTable.tableArn,
+        notificationsTable.tableArn,
+        careEventsTable.tableArn,
+        measurementsTable.tableArn,
+        calendarFeedsTable.tableArn,
+        treeMembersTable.tableArn,
+        invitationsTable.tableArn,
         `${usersTable.tableArn}/index/*`,
         `${treesTable.tableArn}/index/*`,
         `${photosTable.tableArn}/index/*`,
+        `${subscriptionsTable.tableArn}/index/*`,
+        `${recommendationsTable.tableArn}/index/*`,
+        `${notificationsTable.tableArn}/index/*`,
+        `${careEventsTable.tableArn}/index/*`,
+        `${measurementsTable.tableArn}/index/*`,
+        `${calendarFeedsTable.tableArn}/index/*`,
+        `${treeMembersTable.tableArn}/index/*`,
+        `${invitationsTable.tableArn}/index/*`,
       ],
     }));
 
@@ -220,10 +453,14 @@ export class InfrastructureStack extends cdk.Stack {
         'cognito-idp:AdminUpdateUserAttributes',
         'cognito-idp:AdminConfirmSignUp',
         'cognito-idp:AdminSetUserPassword',
+        'cognito-idp:DescribeUserPool',
       ],
       resources: [userPool.userPoolArn],
     }));
 
+    // Secrets Manager permissions
+    cursorSecret.grantRead(lambdaExecutionRole);
+
     // S3 Bucket Policy - Enforce SSL/TLS
     photoBucket.addToResourcePolicy(new iam.PolicyStatement({
       sid: 'DenyInsecureConnections',
@@ -264,7 +501,18 @@ export class InfrastructureStack extends cdk.Stack {
       defaultCorsPreflightOptions: {
         allowOrigins: apigateway.Cors.ALL_ORIGINS,
         allowMethods: apigateway.Cors.ALL_METHODS,
-        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key', 'X-Amz-Security-Token'],
+        allowHeaders: [
+          'Content-Type',
+          'X-Amz-Date',
+          'Authorization',
+          'X-Api-Key',
+          'X-Amz-Security-Token',
+          'X-Correlation-Id',
+          // Versioned updates and deletes
+          'If-Match',
+          // Retry-safe creates
+          'Idempotency-Key',
+        ],
         maxAge: cdk.Duration.days(1),
       },
       policy: new iam.PolicyDocument({
@@ -287,26 +535,20 @@ export class InfrastructureStack extends cdk.Stack {
       validateRequestParameters: true,
     });
 
-    // Models for request validation
-    new apigateway.Model(this, 'TreeModel', {
+    // Models for request validation, generated from the backend request schemas.
+    // The schema module emits draft 4 JSON Schema, whose type names match JsonSchemaType.
+    new apigateway.Model(this, 'CreateTreeModel', {
       restApi: api,
-      modelName: 'TreeModel',
+      modelName: 'CreateTreeModel',
       contentType: 'application/json',
-      schema: {
-        type: apigateway.JsonSchemaType.OBJECT,
-        required: ['treeId'],
-        properties: {
-          treeId: { type: apigateway.JsonSchemaType.STRING },
-          species: { type: apigateway.JsonSchemaType.STRING },
-          location: {
-            type: apigateway.JsonSchemaType.OBJECT,
-            properties: {
-              lat: { type: apigateway.JsonSchemaType.NUMBER },
-              lng: { type: apigateway.JsonSchemaType.NUMBER },
-            },
-          },
-        },
-      },
+      schema: createTreeSchema.toJsonSchema() as apigateway.JsonSchema,
+    });
+
+    new apigateway.Model(this, 'UpdateTreeModel', {
+      restApi: api,
+      modelName: 'UpdateTreeModel',
+      contentType: 'application/json',
+      schema: updateTreeSchema.toJsonSchema() as apigateway.JsonSchema,
     });
 
     // Custom Gateway Responses
@@ -417,6 +659,11 @@ export class InfrastructureStack extends cdk.Stack {
       exportName: `TreeCareUserPoolClientId-${environment}`,
     });
 
+    new cdk.CfnOutput(this, 'CursorSecretName', {
+      value: cursorSecret.secretName,
+      exportName: `TreeCareCursorSecret-${environment}`,
+    });
+
     new cdk.CfnOutput(this, 'PhotoBucketName', {
       value: photoBucket.bucketName,
       exportName: `TreeCarePhotoBucket-${environment}`,
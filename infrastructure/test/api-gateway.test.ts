@@ -53,7 +53,7 @@ describe('API Gateway Configuration', () => {
             {
               StatusCode: '200',
               ResponseParameters: {
-                'method.response.header.Access-Control-Allow-Headers': "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'",
+                'method.response.header.Access-Control-Allow-Headers': "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Correlation-Id,If-Match,Idempotency-Key'",
                 'method.response.header.Access-Control-Allow-Methods': "'GET,POST,PUT,DELETE,OPTIONS'",
                 'method.response.header.Access-Control-Allow-Origin': "'*'",
               },
@@ -63,6 +63,21 @@ describe('API Gateway Configuration', () => {
       });
     });
 
+    it('should let preflight requests send the headers the handlers read', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: 'OPTIONS',
+        Integration: Match.objectLike({
+          IntegrationResponses: [
+            Match.objectLike({
+              ResponseParameters: Match.objectLike({
+                'method.response.header.Access-Control-Allow-Headers': Match.stringLikeRegexp(',If-Match,Idempotency-Key'),
+              }),
+            }),
+          ],
+        }),
+      });
+    });
+
     it('should have CORS headers in method responses', () => {
       template.hasResourceProperties('AWS::ApiGateway::Method', {
         MethodResponses: Match.arrayWith([
@@ -189,16 +204,32 @@ describe('API Gateway Configuration', () => {
 
     it('should have models for request validation', () => {
       template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'CreateTreeModel',
         ContentType: 'application/json',
         Schema: Match.objectLike({
           type: 'object',
-          required: Match.arrayWith(['treeId']),
+          required: ['name', 'species'],
           properties: Match.objectLike({
-            treeId: { type: 'string' },
+            name: Match.objectLike({ type: 'string' }),
+            // Names are filled in from the species catalog when only speciesId is sent
+            species: Match.objectLike({
+              type: 'object',
+              required: Match.absent(),
+            }),
           }),
         }),
       });
     });
+
+    it('should generate the update model with every field optional', () => {
+      template.hasResourceProperties('AWS::ApiGateway::Model', {
+        Name: 'UpdateTreeModel',
+        Schema: Match.objectLike({
+          type: 'object',
+          required: Match.absent(),
+        }),
+      });
+    });
   });
 
   describe('API Gateway Responses', () => {
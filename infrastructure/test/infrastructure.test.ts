@@ -51,6 +51,34 @@ describe('TreeCareInfrastructureStack', () => {
             AttributeName: 'userId',
             KeyType: 'RANGE'
           })
+        ]),
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'userId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'userId',
+                KeyType: 'HASH'
+              }),
+              Match.objectLike({
+                AttributeName: 'createdAt',
+                KeyType: 'RANGE'
+              })
+            ])
+          }),
+          Match.objectLike({
+            IndexName: 'status-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'status',
+                KeyType: 'HASH'
+              }),
+              Match.objectLike({
+                AttributeName: 'archivedAt',
+                KeyType: 'RANGE'
+              })
+            ])
+          })
         ])
       });
     });
@@ -68,6 +96,25 @@ describe('TreeCareInfrastructureStack', () => {
             AttributeName: 'treeId',
             KeyType: 'RANGE'
           })
+        ]),
+        TimeToLiveSpecification: {
+          AttributeName: 'expiresAt',
+          Enabled: true
+        },
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'treeId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'treeId',
+                KeyType: 'HASH'
+              }),
+              Match.objectLike({
+                AttributeName: 'capturedAt',
+                KeyType: 'RANGE'
+              })
+            ])
+          })
         ])
       });
     });
@@ -81,6 +128,275 @@ describe('TreeCareInfrastructureStack', () => {
             AttributeName: 'userId',
             KeyType: 'HASH'
           })
+        ]),
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'stripeCustomerId-index',
+            KeySchema: [
+              {
+                AttributeName: 'stripeCustomerId',
+                KeyType: 'HASH'
+              }
+            ]
+          })
+        ])
+      });
+    });
+
+    test('creates Stripe events table that expires processed events', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareStripeEvents'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'eventId',
+            KeyType: 'HASH'
+          }
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'expiresAt',
+          Enabled: true
+        }
+      });
+    });
+
+    test('creates idempotency table that expires stored responses', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareIdempotency'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'idempotencyKey',
+            KeyType: 'HASH'
+          }
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'expiresAt',
+          Enabled: true
+        }
+      });
+    });
+
+    test('creates rate limits table that expires idle buckets', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareRateLimits'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'bucketKey',
+            KeyType: 'HASH'
+          }
+        ],
+        TimeToLiveSpecification: {
+          AttributeName: 'expiresAt',
+          Enabled: true
+        }
+      });
+    });
+
+    test('creates recommendations table with correct configuration', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareRecommendations'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'recommendationId',
+            KeyType: 'HASH'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'treeId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'treeId',
+                KeyType: 'HASH'
+              }),
+              Match.objectLike({
+                AttributeName: 'windowStart',
+                KeyType: 'RANGE'
+              })
+            ])
+          })
+        ])
+      });
+    });
+
+    test('creates notifications table with user, dispatch and tree indexes', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareNotifications'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'notificationId',
+            KeyType: 'HASH'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'userId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'scheduledTime',
+                KeyType: 'RANGE'
+              })
+            ])
+          }),
+          Match.objectLike({
+            IndexName: 'status-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'status',
+                KeyType: 'HASH'
+              }),
+              Match.objectLike({
+                AttributeName: 'dueAt',
+                KeyType: 'RANGE'
+              })
+            ])
+          }),
+          Match.objectLike({
+            IndexName: 'treeId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'treeId',
+                KeyType: 'HASH'
+              })
+            ])
+          })
+        ])
+      });
+    });
+
+    test('creates care events table with a tree index by date', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareCareEvents'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'careEventId',
+            KeyType: 'HASH'
+          },
+          {
+            AttributeName: 'treeId',
+            KeyType: 'RANGE'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'treeId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'date',
+                KeyType: 'RANGE'
+              })
+            ])
+          })
+        ])
+      });
+    });
+
+    test('creates measurements table with a tree index by measurement date', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareMeasurements'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'measurementId',
+            KeyType: 'HASH'
+          },
+          {
+            AttributeName: 'treeId',
+            KeyType: 'RANGE'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'treeId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'measuredAt',
+                KeyType: 'RANGE'
+              })
+            ])
+          })
+        ])
+      });
+    });
+
+    test('creates calendar feeds table keyed by user with a token index', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareCalendarFeeds'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'userId',
+            KeyType: 'HASH'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'tokenHash-index',
+            KeySchema: [
+              {
+                AttributeName: 'tokenHash',
+                KeyType: 'HASH'
+              }
+            ]
+          })
+        ])
+      });
+    });
+
+    test('creates tree members table with a user index', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareTreeMembers'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'treeId',
+            KeyType: 'HASH'
+          },
+          {
+            AttributeName: 'userId',
+            KeyType: 'RANGE'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({
+            IndexName: 'userId-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'userId',
+                KeyType: 'HASH'
+              })
+            ])
+          })
+        ])
+      });
+    });
+
+    test('creates invitations table with tree and email indexes', () => {
+      template.hasResourceProperties('AWS::DynamoDB::Table', {
+        TableName: Match.stringLikeRegexp('TreeCareInvitations'),
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          {
+            AttributeName: 'invitationId',
+            KeyType: 'HASH'
+          }
+        ],
+        GlobalSecondaryIndexes: Match.arrayWith([
+          Match.objectLike({ IndexName: 'treeId-index' }),
+          Match.objectLike({
+            IndexName: 'email-index',
+            KeySchema: Match.arrayWith([
+              Match.objectLike({
+                AttributeName: 'email',
+                KeyType: 'HASH'
+              })
+            ])
+          })
         ])
       });
     });
@@ -271,6 +587,18 @@ describe('TreeCareInfrastructureStack', () => {
     });
   });
 
+  describe('Secrets', () => {
+    test('generates the cursor signing secret per stage', () => {
+      template.hasResourceProperties('AWS::SecretsManager::Secret', {
+        Name: 'TreeCareCursorSecret-dev',
+        GenerateSecretString: Match.objectLike({ PasswordLength: 64 })
+      });
+      template.hasOutput('CursorSecretName', {
+        Export: { Name: 'TreeCareCursorSecret-dev' }
+      });
+    });
+  });
+
   describe('IAM Roles and Policies', () => {
     test('creates Lambda execution role', () => {
       template.hasResourceProperties('AWS::IAM::Role', {
@@ -342,6 +670,20 @@ describe('TreeCareInfrastructureStack', () => {
       });
     });
 
+    test('Lambda role can read the cursor secret', () => {
+      template.hasResourceProperties('AWS::IAM::Policy', {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Effect: 'Allow',
+              Action: Match.arrayWith(['secretsmanager:GetSecretValue']),
+              Resource: { Ref: Match.stringLikeRegexp('^CursorSecret') }
+            })
+          ])
+        }
+      });
+    });
+
     test('S3 bucket has secure bucket policy', () => {
       template.hasResourceProperties('AWS::S3::BucketPolicy', {
         PolicyDocument: {
@@ -36,7 +36,7 @@ const createMockStore = (authState: Partial<AuthState> = {}) => {
     },
     preloadedState: {
       auth: defaultAuthState,
-      trees: { trees: [], selectedTreeId: null, isLoading: false, error: null },
+      trees: { trees: [], selectedTreeId: null, isLoading: false, error: null, nextCursor: null, isLoadingMore: false, statusFilter: 'active', conflict: null },
     },
   });
 };
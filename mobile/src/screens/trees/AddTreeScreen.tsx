@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,15 +10,25 @@ import {
   Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { useDispatch } from 'react-redux';
+import { useDispatch, useSelector } from 'react-redux';
 import * as ImagePicker from 'expo-image-picker';
 import { Button, TextInput } from '../../components';
-import { addTree } from '../../store/slices/treesSlice';
+import { RootState } from '../../store';
+import { addTree, TreeSpecies } from '../../store/slices/treesSlice';
+import {
+  POPULAR_SPECIES,
+  searchSpecies,
+  SpeciesSummary,
+  toTreeSpecies,
+} from '../../services/species';
+
+// Wait for the user to pause typing before searching
+const SPECIES_SEARCH_DELAY_MS = 300;
 
 interface TreeFormData {
   photo: string | null;
   name: string;
-  species: string;
+  species: TreeSpecies | null;
   plantedDate: string;
   location: string;
   sunExposure: string;
@@ -28,6 +38,7 @@ interface TreeFormData {
 const AddTreeScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const dispatch = useDispatch<any>();
+  const accessToken = useSelector((state: RootState) => state.auth.tokens?.accessToken);
 
   const [currentStep, setCurrentStep] = useState(1);
   const [loading, setLoading] = useState(false);
@@ -38,22 +49,45 @@ const AddTreeScreen: React.FC = () => {
   const [formData, setFormData] = useState<TreeFormData>({
     photo: null,
     name: '',
-    species: '',
+    species: null,
     plantedDate: new Date().toISOString().split('T')[0],
     location: '',
     sunExposure: 'partial',
     targetHeight: '',
   });
 
-  const [errors, setErrors] = useState<Partial<TreeFormData>>({});
+  const [errors, setErrors] = useState<Partial<Record<keyof TreeFormData, string>>>({});
 
-  const popularSpecies = [
-    { id: 'oak', name: 'Oak', scientific: 'Quercus' },
-    { id: 'maple', name: 'Maple', scientific: 'Acer' },
-    { id: 'pine', name: 'Pine', scientific: 'Pinus' },
-    { id: 'birch', name: 'Birch', scientific: 'Betula' },
-    { id: 'apple', name: 'Apple', scientific: 'Malus domestica' },
-  ];
+  const [speciesQuery, setSpeciesQuery] = useState('');
+  const [speciesResults, setSpeciesResults] = useState<SpeciesSummary[]>([]);
+  const [searchingSpecies, setSearchingSpecies] = useState(false);
+
+  useEffect(() => {
+    const query = speciesQuery.trim();
+    if (!query) {
+      setSpeciesResults([]);
+      setSearchingSpecies(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearchingSpecies(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchSpecies(query, accessToken);
+        if (!cancelled) setSpeciesResults(results);
+      } catch (error) {
+        if (!cancelled) setSpeciesResults([]);
+      } finally {
+        if (!cancelled) setSearchingSpecies(false);
+      }
+    }, SPECIES_SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [speciesQuery, accessToken]);
 
   const locations = [
     'Front Yard',
@@ -104,7 +138,7 @@ const AddTreeScreen: React.FC = () => {
   };
 
   const validateStep = (step: number): boolean => {
-    const newErrors: Partial<TreeFormData> = {};
+    const newErrors: Partial<Record<keyof TreeFormData, string>> = {};
 
     switch (step) {
       case 1:
@@ -151,8 +185,15 @@ const AddTreeScreen: React.FC = () => {
     navigation.goBack();
   };
 
+  const selectSpecies = (species: TreeSpecies) => {
+    setFormData({ ...formData, species });
+    setShowSpeciesModal(false);
+    setSpeciesQuery('');
+    if (errors.species) setErrors({ ...errors, species: undefined });
+  };
+
   const handleSave = async () => {
-    if (!validateStep(currentStep)) return;
+    if (!validateStep(currentStep) || !formData.species) return;
 
     setLoading(true);
     try {
@@ -169,8 +210,12 @@ const AddTreeScreen: React.FC = () => {
         },
       }));
 
-      if (result.type === 'trees/addTree/fulfilled') {
+      if (addTree.fulfilled.match(result)) {
         navigation.navigate('TreeDetail', { treeId: result.payload.id });
+      } else if (result.payload?.entitlement) {
+        Alert.alert('Upgrade needed', result.payload.message);
+      } else {
+        Alert.alert('Error', result.payload?.message || 'Failed to save tree');
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to save tree');
@@ -262,7 +307,7 @@ const AddTreeScreen: React.FC = () => {
           styles.selectorValue,
           !formData.species && styles.selectorPlaceholder
         ]}>
-          {formData.species || 'Select species'}
+          {formData.species?.commonName || 'Select species'}
         </Text>
       </TouchableOpacity>
       {errors.species && <Text style={styles.errorText}>{errors.species}</Text>}
@@ -343,28 +388,29 @@ const AddTreeScreen: React.FC = () => {
           
           <TextInput
             placeholder="Search species..."
-            value=""
-            onChangeText={() => {}}
+            value={speciesQuery}
+            onChangeText={setSpeciesQuery}
             testID="species-search-input"
           />
           
-          <Text style={styles.modalSubtitle}>Popular Species</Text>
+          <Text style={styles.modalSubtitle}>
+            {speciesQuery.trim() ? 'Search Results' : 'Popular Species'}
+          </Text>
           
           <ScrollView style={styles.speciesList}>
-            {popularSpecies.map((species) => (
+            {(speciesQuery.trim() ? speciesResults.map(toTreeSpecies) : POPULAR_SPECIES).map((species) => (
               <TouchableOpacity
-                key={species.id}
+                key={species.speciesId}
                 style={styles.speciesItem}
-                onPress={() => {
-                  setFormData({ ...formData, species: species.name });
-                  setShowSpeciesModal(false);
-                  if (errors.species) setErrors({ ...errors, species: undefined });
-                }}
+                onPress={() => selectSpecies(species)}
               >
-                <Text style={styles.speciesName}>{species.name}</Text>
-                <Text style={styles.speciesScientific}>{species.scientific}</Text>
+                <Text style={styles.speciesName}>{species.commonName}</Text>
+                <Text style={styles.speciesScientific}>{species.scientificName}</Text>
               </TouchableOpacity>
             ))}
+            {speciesQuery.trim() !== '' && !searchingSpecies && speciesResults.length === 0 && (
+              <Text style={styles.speciesScientific}>No matching species</Text>
+            )}
           </ScrollView>
           
           <Button
@@ -14,10 +14,19 @@ import { useDispatch, useSelector } from 'react-redux';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Button, Card } from '../../components';
 import { RootState } from '../../store';
-import { setSelectedTree, deleteTree } from '../../store/slices/treesSlice';
+import { setSelectedTree, archiveTree, restoreTree } from '../../store/slices/treesSlice';
+import { CareEvent, CareEventType, fetchCareEvents } from '../../store/slices/careEventsSlice';
+import { ARCHIVE_RETENTION_DAYS } from '../../services/trees';
 
 type Tab = 'overview' | 'health' | 'history' | 'actions';
 
+const CARE_EVENT_DISPLAY: Record<CareEventType, { label: string; icon: keyof typeof MaterialIcons.glyphMap }> = {
+  watering: { label: 'Watering', icon: 'opacity' },
+  fertilizing: { label: 'Fertilizing', icon: 'eco' },
+  pruning: { label: 'Pruning', icon: 'content-cut' },
+  inspection: { label: 'Inspection', icon: 'search' },
+};
+
 const TreeDetailScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const route = useRoute<any>();
@@ -25,11 +34,12 @@ const TreeDetailScreen: React.FC = () => {
   
   const { treeId } = route.params;
   const [activeTab, setActiveTab] = useState<Tab>('overview');
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [deleteLoading, setDeleteLoading] = useState(false);
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
+  const [archiveLoading, setArchiveLoading] = useState(false);
   
   const { trees, isLoading } = useSelector((state: RootState) => state.trees);
   const tree = trees.find(t => t.id === treeId);
+  const careLog = useSelector((state: RootState) => state.careEvents.byTreeId[treeId]);
   
   useEffect(() => {
     if (tree) {
@@ -37,21 +47,41 @@ const TreeDetailScreen: React.FC = () => {
     }
   }, [tree, dispatch]);
 
-  const handleDelete = async () => {
-    setDeleteLoading(true);
+  // Refresh the care log whenever the history is opened
+  useEffect(() => {
+    if (activeTab === 'history') {
+      dispatch(fetchCareEvents(treeId));
+    }
+  }, [activeTab, treeId, dispatch]);
+
+  const handleArchive = async () => {
+    setArchiveLoading(true);
     try {
-      const result = await dispatch(deleteTree(tree!.id));
-      if (result.type === 'trees/deleteTree/fulfilled') {
+      const result = await dispatch(archiveTree(tree!.id));
+      if (result.type === 'trees/archiveTree/fulfilled') {
         navigation.goBack();
+      } else {
+        Alert.alert('Error', result.payload || 'Failed to archive tree');
       }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to delete tree');
     } finally {
-      setDeleteLoading(false);
-      setShowDeleteDialog(false);
+      setArchiveLoading(false);
+      setShowArchiveDialog(false);
     }
   };
 
+  const handleRestore = async () => {
+    const result = await dispatch(restoreTree(tree!.id));
+    if (result.type === 'trees/restoreTree/fulfilled') {
+      navigation.goBack();
+    } else {
+      Alert.alert('Error', result.payload || 'Failed to restore tree');
+    }
+  };
+
+  // When the backend deletes an archived tree for good
+  const purgeDate = (archivedAt: string) =>
+    new Date(new Date(archivedAt).getTime() + ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
@@ -73,6 +103,19 @@ const TreeDetailScreen: React.FC = () => {
     return 'Poor Health';
   };
 
+  const describeCareEvent = (event: CareEvent) => {
+    const details: string[] = [];
+    if (event.branchesRemoved?.length) {
+      const count = event.branchesRemoved.length;
+      details.push(`${count} ${count === 1 ? 'branch' : 'branches'} removed`);
+    }
+    if (event.photoIds?.length) {
+      const count = event.photoIds.length;
+      details.push(`${count} ${count === 1 ? 'photo' : 'photos'}`);
+    }
+    return details.join(' · ');
+  };
+
   const formatGrowthStage = (stage: string) => {
     return stage.split('_').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
@@ -262,22 +305,50 @@ const TreeDetailScreen: React.FC = () => {
     </ScrollView>
   );
 
+  const renderCareEvent = (event: CareEvent, index: number, events: CareEvent[]) => (
+    <View key={event.id} style={styles.timelineItem} testID={`care-event-${event.id}`}>
+      <View style={styles.timelineMarker}>
+        <View style={styles.timelineIcon}>
+          <MaterialIcons name={CARE_EVENT_DISPLAY[event.type].icon} size={18} color="#2D5016" />
+        </View>
+        {index < events.length - 1 && <View style={styles.timelineLine} />}
+      </View>
+      <View style={styles.timelineBody}>
+        <Text style={styles.timelineTitle}>{CARE_EVENT_DISPLAY[event.type].label}</Text>
+        {/* Bare dates are the user's own day, not UTC midnight */}
+        <Text style={styles.timelineDate}>{formatDate(`${event.date}T00:00:00`)}</Text>
+        {!!event.notes && <Text style={styles.timelineNotes}>{event.notes}</Text>}
+        {!!describeCareEvent(event) && (
+          <Text style={styles.timelineDetails}>{describeCareEvent(event)}</Text>
+        )}
+      </View>
+    </View>
+  );
+
   const renderHistoryTab = () => (
     <ScrollView style={styles.tabContent} testID="history-tab-content">
-      <View style={styles.emptyState}>
-        <MaterialIcons name="photo-library" size={64} color="#D1D5DB" />
-        <Text style={styles.emptyStateTitle}>No history recorded yet</Text>
-        <Text style={styles.emptyStateSubtitle}>
-          Take a photo to start tracking progress
-        </Text>
-        <Button
-          title="Add Photo"
-          onPress={() => navigation.navigate('Camera', { treeId: tree.id })}
-          variant="primary"
-          size="medium"
-          testID="add-photo-button"
-        />
-      </View>
+      {careLog?.events.length ? (
+        <View style={styles.cardWrapper} testID="care-timeline">
+          <Card title="Care Log">
+            {careLog.events.map(renderCareEvent)}
+          </Card>
+        </View>
+      ) : (
+        <View style={styles.emptyState}>
+          <MaterialIcons name="photo-library" size={64} color="#D1D5DB" />
+          <Text style={styles.emptyStateTitle}>No history recorded yet</Text>
+          <Text style={styles.emptyStateSubtitle}>
+            Take a photo to start tracking progress
+          </Text>
+          <Button
+            title="Add Photo"
+            onPress={() => navigation.navigate('Camera', { treeId: tree.id })}
+            variant="primary"
+            size="medium"
+            testID="add-photo-button"
+          />
+        </View>
+      )}
     </ScrollView>
   );
 
@@ -313,41 +384,60 @@ const TreeDetailScreen: React.FC = () => {
         <View style={styles.actionSpacer} />
         <View style={styles.actionSpacer} />
         
-        <Button
-          title="Delete Tree"
-          onPress={() => setShowDeleteDialog(true)}
-          variant="outline"
-          size="large"
-        />
+        {tree.status === 'archived' ? (
+          <>
+            {tree.archivedAt && (
+              <Text style={styles.archivedNote}>
+                Archived. Deleted for good on {formatDate(purgeDate(tree.archivedAt))}.
+              </Text>
+            )}
+            <Button
+              title="Restore Tree"
+              onPress={handleRestore}
+              variant="outline"
+              size="large"
+            />
+          </>
+        ) : (
+          <Button
+            title="Archive Tree"
+            onPress={() => setShowArchiveDialog(true)}
+            variant="outline"
+            size="large"
+          />
+        )}
         </Card>
       </View>
     </ScrollView>
   );
 
-  const renderDeleteDialog = () => (
+  const renderArchiveDialog = () => (
     <Modal
-      visible={showDeleteDialog}
+      visible={showArchiveDialog}
       animationType="fade"
       transparent={true}
-      onRequestClose={() => setShowDeleteDialog(false)}
+      onRequestClose={() => setShowArchiveDialog(false)}
     >
       <View style={styles.dialogOverlay}>
         <View style={styles.dialogContent}>
-          <Text style={styles.dialogTitle}>Delete Tree?</Text>
-          <Text style={styles.dialogMessage}>This action cannot be undone.</Text>
+          <Text style={styles.dialogTitle}>Archive Tree?</Text>
+          <Text style={styles.dialogMessage}>
+            You can restore it from Archived for {ARCHIVE_RETENTION_DAYS} days. After that it is deleted
+            along with its photos.
+          </Text>
           
           <View style={styles.dialogButtons}>
             <Button
               title="Cancel"
               variant="secondary"
-              onPress={() => setShowDeleteDialog(false)}
-              disabled={deleteLoading}
+              onPress={() => setShowArchiveDialog(false)}
+              disabled={archiveLoading}
             />
             <Button
-              title="Yes, Delete"
+              title="Yes, Archive"
               variant="primary"
-              onPress={handleDelete}
-              loading={deleteLoading}
+              onPress={handleArchive}
+              loading={archiveLoading}
             />
           </View>
         </View>
@@ -365,7 +455,7 @@ const TreeDetailScreen: React.FC = () => {
       {activeTab === 'history' && renderHistoryTab()}
       {activeTab === 'actions' && renderActionsTab()}
       
-      {renderDeleteDialog()}
+      {renderArchiveDialog()}
     </View>
   );
 };
@@ -535,9 +625,59 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginBottom: 24,
   },
+  timelineItem: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  timelineIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 4,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  timelineDate: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  timelineNotes: {
+    fontSize: 14,
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  timelineDetails: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   actionSpacer: {
     height: 12,
   },
+  archivedNote: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
   dialogOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -13,7 +13,14 @@ import { useNavigation } from '@react-navigation/native';
 import { useDispatch, useSelector } from 'react-redux';
 import { Card, Button } from '../../components';
 import { RootState } from '../../store';
-import { fetchTrees, Tree as TreeType } from '../../store/slices/treesSlice';
+import { ARCHIVE_RETENTION_DAYS } from '../../services/trees';
+import {
+  fetchMoreTrees,
+  fetchTrees,
+  setStatusFilter,
+  Tree as TreeType,
+  TreeLifecycleStatus,
+} from '../../store/slices/treesSlice';
 
 // Simplified tree interface for display
 interface TreeDisplay {
@@ -31,21 +38,37 @@ const TreeListScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const dispatch = useDispatch<any>();
   
-  const { trees, isLoading: loading, error } = useSelector((state: RootState) => state.trees);
+  const { trees, isLoading: loading, isLoadingMore, error, statusFilter } = useSelector(
+    (state: RootState) => state.trees
+  );
+  // State persisted before the filter existed has none
+  const currentFilter: TreeLifecycleStatus = statusFilter ?? 'active';
+  const showingArchived = currentFilter === 'archived';
   const [refreshing, setRefreshing] = React.useState(false);
 
   useEffect(() => {
-    dispatch(fetchTrees('user-123')); // TODO: Get from auth state
+    dispatch(fetchTrees());
   }, [dispatch]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await dispatch(fetchTrees('user-123')); // TODO: Get from auth state
+    await dispatch(fetchTrees());
     setRefreshing(false);
   }, [dispatch]);
 
+  // The thunk skips this once the last page is in
+  const handleEndReached = useCallback(() => {
+    dispatch(fetchMoreTrees());
+  }, [dispatch]);
+
   const handleRetry = () => {
-    dispatch(fetchTrees('user-123')); // TODO: Get from auth state
+    dispatch(fetchTrees());
+  };
+
+  const handleFilterChange = (filter: TreeLifecycleStatus) => {
+    if (filter === currentFilter) return;
+    dispatch(setStatusFilter(filter));
+    dispatch(fetchTrees());
   };
 
   const handleAddTree = () => {
@@ -85,8 +108,28 @@ const TreeListScreen: React.FC = () => {
     return 'critical';
   };
 
+  const renderFilter = () => (
+    <View style={styles.filterContainer}>
+      {(['active', 'archived'] as TreeLifecycleStatus[]).map((filter) => {
+        const selected = filter === currentFilter;
+        return (
+          <TouchableOpacity
+            key={filter}
+            style={[styles.filterButton, selected && styles.filterButtonSelected]}
+            onPress={() => handleFilterChange(filter)}
+            testID={`filter-${filter}`}
+          >
+            <Text style={[styles.filterText, selected && styles.filterTextSelected]}>
+              {filter === 'active' ? 'Active' : 'Archived'}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   const renderHeader = () => {
-    if (trees.length === 0) return null;
+    if (trees.length === 0 || showingArchived) return null;
     
     return (
       <TouchableOpacity
@@ -99,6 +142,14 @@ const TreeListScreen: React.FC = () => {
     );
   };
 
+  const renderFooter = () => {
+    if (!isLoadingMore) return null;
+
+    return (
+      <ActivityIndicator style={styles.footerLoader} color="#2D5016" testID="loading-more-indicator" />
+    );
+  };
+
   if (loading && trees.length === 0) {
     return (
       <View style={styles.centerContainer}>
@@ -123,24 +174,37 @@ const TreeListScreen: React.FC = () => {
 
   if (trees.length === 0) {
     return (
-      <View style={styles.emptyContainer} testID="empty-state">
-        <Image
-          source={{ uri: 'https://via.placeholder.com/200x200/E5F3DC/2D5016?text=🌳' }}
-          style={styles.emptyImage}
-        />
-        <Text style={styles.emptyTitle}>No Trees Yet</Text>
-        <Text style={styles.emptySubtitle}>Start caring for your first tree!</Text>
-        <Button
-          title="Add Your First Tree"
-          onPress={handleAddTree}
-          size="large"
-        />
+      <View style={styles.container}>
+        {renderFilter()}
+        {showingArchived ? (
+          <View style={styles.emptyContainer} testID="empty-archived-state">
+            <Text style={styles.emptyTitle}>No Archived Trees</Text>
+            <Text style={styles.emptySubtitle}>
+              Archived trees stay here for {ARCHIVE_RETENTION_DAYS} days before they are deleted.
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.emptyContainer} testID="empty-state">
+            <Image
+              source={{ uri: 'https://via.placeholder.com/200x200/E5F3DC/2D5016?text=🌳' }}
+              style={styles.emptyImage}
+            />
+            <Text style={styles.emptyTitle}>No Trees Yet</Text>
+            <Text style={styles.emptySubtitle}>Start caring for your first tree!</Text>
+            <Button
+              title="Add Your First Tree"
+              onPress={handleAddTree}
+              size="large"
+            />
+          </View>
+        )}
       </View>
     );
   }
 
   return (
     <View style={styles.container}>
+      {renderFilter()}
       {renderHeader()}
       <FlatList
         data={trees}
@@ -148,6 +212,9 @@ const TreeListScreen: React.FC = () => {
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         ItemSeparatorComponent={() => <View style={styles.separator} />}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={renderFooter}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -205,6 +272,32 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     textAlign: 'center',
   },
+  filterContainer: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    backgroundColor: '#E5E7EB',
+    padding: 4,
+  },
+  filterButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  filterButtonSelected: {
+    backgroundColor: '#FFFFFF',
+  },
+  filterText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  filterTextSelected: {
+    color: '#2D5016',
+    fontWeight: '600',
+  },
   headerButton: {
     backgroundColor: '#2D5016',
     paddingVertical: 12,
@@ -225,6 +318,9 @@ const styles = StyleSheet.create({
   separator: {
     height: 12,
   },
+  footerLoader: {
+    paddingVertical: 16,
+  },
 });
 
 export default TreeListScreen;
\ No newline at end of file
@@ -234,6 +234,48 @@ describe('AddTreeScreen', () => {
         expect(getByText('Popular Species')).toBeTruthy();
       });
     });
+
+    it('searches the species catalog and selects a result', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: {
+            species: [
+              {
+                speciesId: 'acer_saccharum',
+                scientificName: 'Acer saccharum',
+                commonNames: ['Sugar Maple', 'Rock Maple'],
+              },
+            ],
+          },
+        }),
+      });
+      global.fetch = fetchMock as any;
+
+      const { getByTestId, getByText } = renderWithProviders(<AddTreeScreen />);
+      
+      fireEvent.press(getByTestId('camera-button'));
+      
+      await waitFor(() => {
+        expect(getByTestId('selected-photo')).toBeTruthy();
+      });
+      
+      fireEvent.press(getByText('Next'));
+      fireEvent.press(getByTestId('species-selector'));
+      fireEvent.changeText(getByTestId('species-search-input'), 'suger mapel');
+      
+      await waitFor(() => {
+        expect(getByText('Search Results')).toBeTruthy();
+        expect(getByText('Sugar Maple')).toBeTruthy();
+      });
+      expect(fetchMock.mock.calls[0][0]).toContain('/species/search?q=suger%20mapel');
+      
+      fireEvent.press(getByText('Sugar Maple'));
+      
+      await waitFor(() => {
+        expect(getByTestId('species-selector')).toHaveTextContent('SpeciesSugar Maple');
+      });
+    });
   });
 
   describe('Step 3: Location & Goals', () => {
@@ -268,7 +310,7 @@ describe('AddTreeScreen', () => {
         expect(getByText('Popular Species')).toBeTruthy();
       });
       
-      fireEvent.press(getByText('Oak'));
+      fireEvent.press(getByText('White Oak'));
       fireEvent.press(getByText('Next'));
       
       await waitFor(() => {
@@ -309,7 +351,7 @@ describe('AddTreeScreen', () => {
         expect(getByText('Popular Species')).toBeTruthy();
       });
       
-      fireEvent.press(getByText('Oak'));
+      fireEvent.press(getByText('White Oak'));
       fireEvent.press(getByText('Next'));
       
       await waitFor(() => {
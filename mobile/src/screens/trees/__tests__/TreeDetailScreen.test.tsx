@@ -24,11 +24,15 @@ jest.mock('@react-navigation/native', () => ({
 // Mock Redux hooks
 const mockDispatch = jest.fn();
 const mockTreesSelector = jest.fn();
+const mockCareEventsSelector = jest.fn();
 
 jest.mock('react-redux', () => ({
   ...jest.requireActual('react-redux'),
   useDispatch: () => mockDispatch,
   useSelector: (selector: any) => {
+    if (selector.toString().includes('careEvents')) {
+      return mockCareEventsSelector();
+    }
     if (selector.toString().includes('trees')) {
       return mockTreesSelector();
     }
@@ -74,6 +78,7 @@ const mockTree = {
     clearanceNeeded: 10,
     aestheticStyle: 'natural',
   },
+  status: 'active',
   createdAt: '2023-05-15T00:00:00Z',
   updatedAt: '2024-01-15T00:00:00Z',
 };
@@ -90,6 +95,7 @@ describe('TreeDetailScreen', () => {
       isLoading: false,
       error: null,
     });
+    mockCareEventsSelector.mockReturnValue(undefined);
   });
 
   describe('Loading State', () => {
@@ -268,6 +274,55 @@ describe('TreeDetailScreen', () => {
       
       expect(mockNavigate).toHaveBeenCalledWith('Camera', { treeId: 'tree-123' });
     });
+
+    it('fetches the care log when opened', () => {
+      const { getByText } = renderWithProviders(<TreeDetailScreen />);
+      mockDispatch.mockClear();
+
+      fireEvent.press(getByText('History'));
+
+      expect(mockDispatch).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('shows care events as a timeline', () => {
+      mockCareEventsSelector.mockReturnValue({
+        events: [
+          {
+            id: 'care-2',
+            treeId: 'tree-123',
+            type: 'pruning',
+            date: '2024-03-10',
+            notes: 'Removed crossing limbs',
+            branchesRemoved: [{ diameter: 1.5 }, { diameter: 0.5 }],
+            photoIds: ['photo-1'],
+            createdAt: '2024-03-10T15:00:00Z',
+            updatedAt: '2024-03-10T15:00:00Z',
+          },
+          {
+            id: 'care-1',
+            treeId: 'tree-123',
+            type: 'watering',
+            date: '2024-03-01',
+            createdAt: '2024-03-01T15:00:00Z',
+            updatedAt: '2024-03-01T15:00:00Z',
+          },
+        ],
+        nextCursor: null,
+      });
+
+      const { getByText, getByTestId, queryByText } = renderWithProviders(<TreeDetailScreen />);
+
+      fireEvent.press(getByText('History'));
+
+      expect(getByTestId('care-timeline')).toBeTruthy();
+      expect(getByTestId('care-event-care-2')).toBeTruthy();
+      expect(getByText('Pruning')).toBeTruthy();
+      expect(getByText('March 10, 2024')).toBeTruthy();
+      expect(getByText('Removed crossing limbs')).toBeTruthy();
+      expect(getByText('2 branches removed · 1 photo')).toBeTruthy();
+      expect(getByText('Watering')).toBeTruthy();
+      expect(queryByText('No history recorded yet')).toBeNull();
+    });
   });
 
   describe('Actions Tab', () => {
@@ -279,7 +334,7 @@ describe('TreeDetailScreen', () => {
       expect(getByText('Take Photo')).toBeTruthy();
       expect(getByText('Edit Tree Info')).toBeTruthy();
       expect(getByText('Set Reminder')).toBeTruthy();
-      expect(getByText('Delete Tree')).toBeTruthy();
+      expect(getByText('Archive Tree')).toBeTruthy();
     });
 
     it('navigates to camera when take photo is pressed', () => {
@@ -300,32 +355,55 @@ describe('TreeDetailScreen', () => {
       expect(mockNavigate).toHaveBeenCalledWith('EditTree', { treeId: 'tree-123' });
     });
 
-    it('shows delete confirmation dialog', () => {
+    it('shows archive confirmation dialog', () => {
       const { getByText } = renderWithProviders(<TreeDetailScreen />);
       
       fireEvent.press(getByText('Actions'));
-      fireEvent.press(getByText('Delete Tree'));
+      fireEvent.press(getByText('Archive Tree'));
       
-      expect(getByText('Delete Tree?')).toBeTruthy();
-      expect(getByText('This action cannot be undone.')).toBeTruthy();
+      expect(getByText('Archive Tree?')).toBeTruthy();
+      expect(getByText(/restore it from Archived for 30 days/)).toBeTruthy();
     });
 
-    it('deletes tree and navigates back on confirm', async () => {
+    it('archives tree and navigates back on confirm', async () => {
       mockDispatch.mockImplementation(() => Promise.resolve({
-        type: 'trees/deleteTree/fulfilled',
+        type: 'trees/archiveTree/fulfilled',
       }));
       
       const { getByText } = renderWithProviders(<TreeDetailScreen />);
       
       fireEvent.press(getByText('Actions'));
-      fireEvent.press(getByText('Delete Tree'));
-      fireEvent.press(getByText('Yes, Delete'));
+      fireEvent.press(getByText('Archive Tree'));
+      fireEvent.press(getByText('Yes, Archive'));
       
       await waitFor(() => {
         expect(mockDispatch).toHaveBeenCalled();
         expect(mockGoBack).toHaveBeenCalled();
       });
     });
+
+    it('restores an archived tree instead of offering to archive it', async () => {
+      mockTreesSelector.mockReturnValue({
+        trees: [{ ...mockTree, status: 'archived', archivedAt: '2024-03-01T12:00:00Z' }],
+        selectedTreeId: 'tree-123',
+        isLoading: false,
+        error: null,
+      });
+      mockDispatch.mockImplementation(() => Promise.resolve({
+        type: 'trees/restoreTree/fulfilled',
+      }));
+
+      const { getByText, queryByText } = renderWithProviders(<TreeDetailScreen />);
+
+      fireEvent.press(getByText('Actions'));
+      expect(queryByText('Archive Tree')).toBeNull();
+      expect(getByText('Archived. Deleted for good on March 31, 2024.')).toBeTruthy();
+      fireEvent.press(getByText('Restore Tree'));
+
+      await waitFor(() => {
+        expect(mockGoBack).toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Header Actions', () => {
@@ -183,6 +183,66 @@ describe('TreeListScreen', () => {
     });
   });
 
+  describe('Archived Filter', () => {
+    it('switches to the archived trees', () => {
+      const { getByTestId } = renderWithProviders(<TreeListScreen />);
+      mockDispatch.mockClear();
+
+      fireEvent.press(getByTestId('filter-archived'));
+
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'trees/setStatusFilter', payload: 'archived' });
+      expect(mockDispatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not reload when the current filter is pressed', () => {
+      const { getByTestId } = renderWithProviders(<TreeListScreen />);
+      mockDispatch.mockClear();
+
+      fireEvent.press(getByTestId('filter-active'));
+
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+
+    it('renders the archived empty state without the add button', () => {
+      mockTreesSelector.mockReturnValue({ trees: [], isLoading: false, error: null, statusFilter: 'archived' });
+
+      const { getByTestId, getByText, queryByText } = renderWithProviders(<TreeListScreen />);
+
+      expect(getByTestId('empty-archived-state')).toBeTruthy();
+      expect(getByText('No Archived Trees')).toBeTruthy();
+      expect(queryByText('Add Your First Tree')).toBeNull();
+    });
+  });
+
+  describe('Incremental Loading', () => {
+    const loadedTree = {
+      id: '1',
+      name: 'Front Yard Oak',
+      species: { speciesId: 'quercus_alba', scientificName: 'Quercus alba', commonName: 'White Oak' },
+      location: { yardPosition: 'front yard' },
+      currentStatus: { healthScore: 90 },
+    };
+
+    it('loads the next page when the end of the list is reached', () => {
+      mockTreesSelector.mockReturnValue({ trees: [loadedTree], isLoading: false, error: null });
+
+      const { getByTestId } = renderWithProviders(<TreeListScreen />);
+      mockDispatch.mockClear();
+
+      getByTestId('tree-list').props.onEndReached();
+
+      expect(mockDispatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows a footer indicator while the next page loads', () => {
+      mockTreesSelector.mockReturnValue({ trees: [loadedTree], isLoading: false, isLoadingMore: true, error: null });
+
+      const { getByTestId } = renderWithProviders(<TreeListScreen />);
+
+      expect(getByTestId('loading-more-indicator')).toBeTruthy();
+    });
+  });
+
   describe('Pull to Refresh', () => {
     it('supports pull to refresh', async () => {
       mockTreesSelector.mockReturnValue({ trees: [{ id: '1' }], isLoading: false, error: null });
@@ -0,0 +1,35 @@
+import { ApiError, apiRequest, entitlementDetails } from '../api';
+
+const respond = (status: number, body: unknown) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+describe('api client', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exposes plan limit details for an upgrade prompt', async () => {
+    const details = { entitlement: 'maxTrees', tier: 'free', limit: 3, requiredTier: 'hobbyist' };
+    global.fetch = respond(402, {
+      error: 'EntitlementError',
+      message: 'The free plan is limited to 3 for maxTrees',
+      requestId: 'req-1',
+      details,
+    }) as any;
+
+    const error = (await apiRequest('/trees', { method: 'POST', body: {} }).catch((caught) => caught)) as ApiError;
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(402);
+    expect(entitlementDetails(error)).toEqual(details);
+  });
+
+  it('returns no plan limit details for other errors', () => {
+    expect(entitlementDetails(new ApiError('Not found', 404, 'NotFoundError'))).toBeUndefined();
+    expect(entitlementDetails(new Error('offline'))).toBeUndefined();
+  });
+});
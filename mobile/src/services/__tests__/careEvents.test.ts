@@ -0,0 +1,56 @@
+import { API_BASE_URL } from '../api';
+import { createCareEvent, deleteCareEvent, listCareEvents, updateCareEvent } from '../careEvents';
+
+const respond = (status: number, body: unknown) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+describe('care events service', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("lists a tree's care log, optionally by type", async () => {
+    const page = { careEvents: [], pagination: { limit: 20, nextCursor: null } };
+    const fetchMock = respond(200, { data: page, requestId: 'req-1' });
+    global.fetch = fetchMock as any;
+
+    await expect(listCareEvents('tree_1', {}, 'access-token-123')).resolves.toEqual(page);
+    await listCareEvents('tree_1', { type: 'pruning', cursor: 'abc.def' });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${API_BASE_URL}/trees/tree_1/care-events`,
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer access-token-123' }),
+      })
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      `${API_BASE_URL}/trees/tree_1/care-events?cursor=abc.def&type=pruning`,
+      expect.anything()
+    );
+  });
+
+  it('records, updates and deletes care events', async () => {
+    const fetchMock = respond(200, { data: { id: 'care_1', treeId: 'tree_1' } });
+    global.fetch = fetchMock as any;
+
+    await createCareEvent('tree_1', { type: 'watering', date: '2024-03-01' }, 'access-token-123');
+    await updateCareEvent('tree_1', 'care_1', { notes: 'Deep soak' }, 'access-token-123');
+    await deleteCareEvent('tree_1', 'care_1', 'access-token-123');
+
+    const [[createUrl, create], [updateUrl, update], [deleteUrl, remove]] = fetchMock.mock.calls;
+    expect(createUrl).toBe(`${API_BASE_URL}/trees/tree_1/care-events`);
+    expect(create.method).toBe('POST');
+    expect(JSON.parse(create.body)).toEqual({ type: 'watering', date: '2024-03-01' });
+    expect(updateUrl).toBe(`${API_BASE_URL}/trees/tree_1/care-events/care_1`);
+    expect(update.method).toBe('PUT');
+    expect(JSON.parse(update.body)).toEqual({ notes: 'Deep soak' });
+    expect(deleteUrl).toBe(`${API_BASE_URL}/trees/tree_1/care-events/care_1`);
+    expect(remove.method).toBe('DELETE');
+  });
+});
@@ -0,0 +1,63 @@
+import { ApiError, API_BASE_URL } from '../api';
+import { searchSpecies, toTreeSpecies } from '../species';
+
+const redOak = {
+  speciesId: 'quercus_rubra',
+  scientificName: 'Quercus rubra',
+  commonNames: ['Red Oak', 'Northern Red Oak'],
+  family: 'Fagaceae',
+  characteristics: {
+    matureHeight: [50, 75] as [number, number],
+    matureSpread: [50, 65] as [number, number],
+    growthRate: 'moderate' as const,
+    hardinessZones: [3, 4, 5, 6, 7, 8],
+    sunRequirements: 'full sun to partial shade',
+  },
+  shapeCompatibility: ['high_canopy', 'natural_form'],
+};
+
+const respond = (status: number, body: unknown) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+describe('species service', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('searches the catalog with the access token', async () => {
+    const fetchMock = respond(200, { data: { species: [redOak] }, requestId: 'req-1' });
+    global.fetch = fetchMock as any;
+
+    const results = await searchSpecies('red oak', 'access-token-123', 5);
+
+    expect(results).toEqual([redOak]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${API_BASE_URL}/species/search?q=red%20oak&limit=5`,
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer access-token-123' }),
+      })
+    );
+  });
+
+  it('throws an ApiError with the server message', async () => {
+    global.fetch = respond(400, { error: 'ValidationError', message: 'Invalid query parameters' }) as any;
+
+    await expect(searchSpecies(' ')).rejects.toEqual(
+      expect.objectContaining({ status: 400, code: 'ValidationError', message: 'Invalid query parameters' })
+    );
+    await expect(searchSpecies(' ')).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('maps a catalog entry to the species stored on a tree', () => {
+    expect(toTreeSpecies(redOak)).toEqual({
+      speciesId: 'quercus_rubra',
+      scientificName: 'Quercus rubra',
+      commonName: 'Red Oak',
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { API_BASE_URL, ApiError } from '../api';
+import { archiveTree, conflictingTree, createTree, listTrees, restoreTree, updateTree } from '../trees';
+
+const respond = (status: number, body: unknown) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+describe('trees service', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('requests the first page without a cursor', async () => {
+    const page = { trees: [], pagination: { limit: 20, nextCursor: 'cursor-1' } };
+    const fetchMock = respond(200, { data: page, requestId: 'req-1' });
+    global.fetch = fetchMock as any;
+
+    await expect(listTrees({}, 'access-token-123')).resolves.toEqual(page);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${API_BASE_URL}/trees`,
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer access-token-123' }),
+      })
+    );
+  });
+
+  it('continues from the cursor of the previous page', async () => {
+    const fetchMock = respond(200, { data: { trees: [], pagination: { limit: 10, nextCursor: null } } });
+    global.fetch = fetchMock as any;
+
+    await listTrees({ cursor: 'abc.def', limit: 10 });
+
+    expect(fetchMock).toHaveBeenCalledWith(`${API_BASE_URL}/trees?limit=10&cursor=abc.def`, expect.anything());
+  });
+
+  it('creates a tree', async () => {
+    const fetchMock = respond(201, { data: { id: 'tree_1', name: 'New Oak', version: 1 } });
+    global.fetch = fetchMock as any;
+    const species = { scientificName: 'Quercus alba', commonName: 'White Oak', speciesId: 'quercus_alba' };
+
+    await expect(createTree({ name: 'New Oak', species }, 'access-token-123')).resolves.toMatchObject({ id: 'tree_1' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${API_BASE_URL}/trees`);
+    expect(init.method).toBe('POST');
+    expect(init.headers.Authorization).toBe('Bearer access-token-123');
+    expect(JSON.parse(init.body)).toEqual({ name: 'New Oak', species });
+  });
+
+  it('archives and restores a tree', async () => {
+    const fetchMock = respond(200, { data: { id: 'tree_1', status: 'archived' } });
+    global.fetch = fetchMock as any;
+
+    await archiveTree('tree_1', 'access-token-123');
+    await restoreTree('tree_1', 'access-token-123');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${API_BASE_URL}/trees/tree_1`,
+      expect.objectContaining({ method: 'DELETE' })
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      `${API_BASE_URL}/trees/tree_1/restore`,
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('updates a tree only at the version it was loaded at', async () => {
+    const fetchMock = respond(200, { data: { id: 'tree_1', version: 3 } });
+    global.fetch = fetchMock as any;
+
+    await updateTree({ id: 'tree_1', name: 'Renamed', version: 2 } as any, 'access-token-123');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${API_BASE_URL}/trees/tree_1`);
+    expect(init.method).toBe('PUT');
+    expect(init.headers['If-Match']).toBe('"2"');
+    expect(JSON.parse(init.body)).toMatchObject({ name: 'Renamed' });
+  });
+
+  it('reads the server copy from a conflict', async () => {
+    const current = { id: 'tree_1', name: 'Renamed elsewhere', version: 3 };
+    global.fetch = respond(409, {
+      error: 'ConflictError',
+      message: 'Tree tree_1 was changed by another request',
+      details: { current },
+    }) as any;
+
+    const error = await updateTree({ id: 'tree_1', version: 2 } as any).catch((caught) => caught);
+
+    expect(conflictingTree(error)).toEqual(current);
+    expect(conflictingTree(new ApiError('Not found', 404, 'NotFoundError'))).toBeUndefined();
+  });
+});
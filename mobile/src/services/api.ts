@@ -0,0 +1,81 @@
+/**
+ * Minimal client for the Tree Care API. Successful responses are unwrapped
+ * from the `{ data, requestId }` envelope; failures throw an ApiError.
+ */
+
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api-dev.treecare.app/v1';
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details?: unknown;
+
+  constructor(message: string, status: number, code?: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * What a plan limit error says about the limit that was hit
+ */
+export interface EntitlementDetails {
+  entitlement: string;
+  tier: string;
+  limit?: number;
+  requiredTier?: string;
+}
+
+/**
+ * Details of a request the caller's plan does not allow, for showing an
+ * upgrade prompt; undefined for any other error
+ */
+export const entitlementDetails = (error: unknown): EntitlementDetails | undefined =>
+  error instanceof ApiError && error.code === 'EntitlementError'
+    ? (error.details as EntitlementDetails)
+    : undefined;
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  token?: string | null;
+  headers?: Record<string, string>;
+}
+
+const buildUrl = (path: string, query: ApiRequestOptions['query'] = {}): string => {
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${API_BASE_URL}${path}${params ? `?${params}` : ''}`;
+};
+
+export const apiRequest = async <T>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+  const { method = 'GET', query, body, token, headers } = options;
+
+  const response = await fetch(buildUrl(path, query), {
+    method,
+    headers: {
+      Accept: 'application/json',
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(
+      payload?.message || `Request failed with status ${response.status}`,
+      response.status,
+      payload?.error,
+      payload?.details
+    );
+  }
+  return payload.data as T;
+};
@@ -0,0 +1,51 @@
+import { apiRequest } from './api';
+import { Pagination } from './trees';
+import { CareEvent, CareEventData, CareEventType } from '../store/slices/careEventsSlice';
+
+export interface CareEventPage {
+  careEvents: CareEvent[];
+  pagination: Pagination;
+}
+
+export interface ListCareEventsOptions {
+  cursor?: string | null;
+  limit?: number;
+  type?: CareEventType;
+}
+
+const careEventsPath = (treeId: string) => `/trees/${encodeURIComponent(treeId)}/care-events`;
+
+/**
+ * One page of a tree's care log, most recent first
+ */
+export const listCareEvents = (
+  treeId: string,
+  { cursor, limit, type }: ListCareEventsOptions = {},
+  token?: string | null
+): Promise<CareEventPage> =>
+  apiRequest<CareEventPage>(careEventsPath(treeId), {
+    query: { limit, cursor: cursor ?? undefined, type },
+    token,
+  });
+
+export const createCareEvent = (treeId: string, data: CareEventData, token?: string | null): Promise<CareEvent> =>
+  apiRequest<CareEvent>(careEventsPath(treeId), { method: 'POST', body: data, token });
+
+// Only the fields given change
+export const updateCareEvent = (
+  treeId: string,
+  careEventId: string,
+  changes: Partial<CareEventData>,
+  token?: string | null
+): Promise<CareEvent> =>
+  apiRequest<CareEvent>(`${careEventsPath(treeId)}/${encodeURIComponent(careEventId)}`, {
+    method: 'PUT',
+    body: changes,
+    token,
+  });
+
+export const deleteCareEvent = (treeId: string, careEventId: string, token?: string | null): Promise<CareEvent> =>
+  apiRequest<CareEvent>(`${careEventsPath(treeId)}/${encodeURIComponent(careEventId)}`, {
+    method: 'DELETE',
+    token,
+  });
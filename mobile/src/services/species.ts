@@ -0,0 +1,47 @@
+import { apiRequest } from './api';
+import { TreeSpecies } from '../store/slices/treesSlice';
+
+export interface SpeciesSummary {
+  speciesId: string;
+  scientificName: string;
+  commonNames: string[];
+  family: string;
+  characteristics: {
+    matureHeight: [number, number];
+    matureSpread: [number, number];
+    growthRate: 'slow' | 'moderate' | 'fast';
+    hardinessZones: number[];
+    sunRequirements: string;
+  };
+  shapeCompatibility: string[];
+}
+
+// Shown before the user searches; IDs refer to the backend species catalog
+export const POPULAR_SPECIES: TreeSpecies[] = [
+  { speciesId: 'quercus_alba', scientificName: 'Quercus alba', commonName: 'White Oak' },
+  { speciesId: 'acer_rubrum', scientificName: 'Acer rubrum', commonName: 'Red Maple' },
+  { speciesId: 'pinus_strobus', scientificName: 'Pinus strobus', commonName: 'Eastern White Pine' },
+  { speciesId: 'betula_nigra', scientificName: 'Betula nigra', commonName: 'River Birch' },
+  { speciesId: 'malus_domestica', scientificName: 'Malus domestica', commonName: 'Apple' },
+];
+
+export const searchSpecies = async (
+  query: string,
+  token?: string | null,
+  limit = 20
+): Promise<SpeciesSummary[]> => {
+  const { species } = await apiRequest<{ species: SpeciesSummary[] }>('/species/search', {
+    query: { q: query, limit },
+    token,
+  });
+  return species;
+};
+
+/**
+ * The species reference stored on a tree
+ */
+export const toTreeSpecies = (species: SpeciesSummary): TreeSpecies => ({
+  speciesId: species.speciesId,
+  scientificName: species.scientificName,
+  commonName: species.commonNames[0],
+});
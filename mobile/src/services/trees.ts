@@ -0,0 +1,75 @@
+import { ApiError, apiRequest } from './api';
+import { CreateTreeData, Tree, TreeLifecycleStatus } from '../store/slices/treesSlice';
+
+// Archived trees are deleted for good this long after archiving
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+export interface Pagination {
+  limit: number;
+  nextCursor: string | null;
+}
+
+export interface TreePage {
+  trees: Tree[];
+  pagination: Pagination;
+}
+
+export interface ListTreesOptions {
+  cursor?: string | null;
+  limit?: number;
+  status?: TreeLifecycleStatus;
+}
+
+/**
+ * One page of the caller's trees; pass the previous page's nextCursor to
+ * continue where it left off
+ */
+export const listTrees = async (
+  { cursor, limit, status }: ListTreesOptions = {},
+  token?: string | null
+): Promise<TreePage> =>
+  apiRequest<TreePage>('/trees', {
+    query: { limit, cursor: cursor ?? undefined, status },
+    token,
+  });
+
+/**
+ * Create a tree for the caller; fails with an EntitlementError once the plan
+ * has as many active trees as it allows
+ */
+export const createTree = (tree: CreateTreeData, token?: string | null): Promise<Tree> =>
+  apiRequest<Tree>('/trees', { method: 'POST', body: tree, token });
+
+export const archiveTree = (treeId: string, token?: string | null): Promise<Tree> =>
+  apiRequest<Tree>(`/trees/${encodeURIComponent(treeId)}`, { method: 'DELETE', token });
+
+export const restoreTree = (treeId: string, token?: string | null): Promise<Tree> =>
+  apiRequest<Tree>(`/trees/${encodeURIComponent(treeId)}/restore`, { method: 'POST', token });
+
+/**
+ * Save the tree's editable fields, provided nobody has changed it since the
+ * version it was loaded at; otherwise fails with a ConflictError
+ */
+export const updateTree = (tree: Tree, token?: string | null): Promise<Tree> =>
+  apiRequest<Tree>(`/trees/${encodeURIComponent(tree.id)}`, {
+    method: 'PUT',
+    body: {
+      name: tree.name,
+      species: tree.species,
+      plantedDate: tree.plantedDate,
+      location: tree.location,
+      currentStatus: tree.currentStatus,
+      goals: tree.goals,
+    },
+    headers: { 'If-Match': `"${tree.version}"` },
+    token,
+  });
+
+/**
+ * The server's copy of a tree when an update lost to another write;
+ * undefined for any other error
+ */
+export const conflictingTree = (error: unknown): Tree | undefined =>
+  error instanceof ApiError && error.code === 'ConflictError'
+    ? (error.details as { current?: Tree } | undefined)?.current
+    : undefined;
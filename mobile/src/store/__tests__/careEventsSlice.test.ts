@@ -0,0 +1,136 @@
+import { configureStore } from '@reduxjs/toolkit';
+import careEventsReducer, {
+  addCareEvent,
+  clearCareEventsError,
+  deleteCareEvent,
+  fetchCareEvents,
+  updateCareEvent,
+} from '../slices/careEventsSlice';
+
+type TestStore = ReturnType<typeof configureStore<{ careEvents: ReturnType<typeof careEventsReducer> }>>;
+
+const watering = {
+  id: 'care-1',
+  treeId: 'tree-123',
+  type: 'watering' as const,
+  date: '2024-03-01',
+  createdAt: '2024-03-01T15:00:00Z',
+  updatedAt: '2024-03-01T15:00:00Z',
+};
+
+const pruning = {
+  id: 'care-2',
+  treeId: 'tree-123',
+  type: 'pruning' as const,
+  date: '2024-03-10',
+  notes: 'Removed crossing limbs',
+  branchesRemoved: [{ diameter: 1.5, reason: 'crossing' as const }],
+  createdAt: '2024-03-10T15:00:00Z',
+  updatedAt: '2024-03-10T15:00:00Z',
+};
+
+describe('careEventsSlice', () => {
+  let store: TestStore;
+
+  beforeEach(() => {
+    store = configureStore({
+      reducer: { careEvents: careEventsReducer },
+    });
+  });
+
+  it('should have correct initial state', () => {
+    expect(store.getState().careEvents).toEqual({
+      byTreeId: {},
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  describe('fetchCareEvents action', () => {
+    it('should store the care log by tree', () => {
+      store.dispatch(fetchCareEvents.pending('request-id', 'tree-123'));
+      expect(store.getState().careEvents.isLoading).toBe(true);
+
+      store.dispatch(fetchCareEvents.fulfilled(
+        { treeId: 'tree-123', events: [pruning, watering], nextCursor: 'cursor-1' },
+        'request-id',
+        'tree-123'
+      ));
+      const state = store.getState().careEvents;
+
+      expect(state.isLoading).toBe(false);
+      expect(state.byTreeId['tree-123']).toEqual({ events: [pruning, watering], nextCursor: 'cursor-1' });
+    });
+
+    it('should keep the loaded log when a refresh fails', () => {
+      store.dispatch(fetchCareEvents.fulfilled(
+        { treeId: 'tree-123', events: [watering], nextCursor: null },
+        'request-id',
+        'tree-123'
+      ));
+      store.dispatch(fetchCareEvents.rejected(new Error('Network error'), 'request-id', 'tree-123', 'Network error'));
+      const state = store.getState().careEvents;
+
+      expect(state.error).toBe('Network error');
+      expect(state.byTreeId['tree-123'].events).toEqual([watering]);
+    });
+  });
+
+  describe('changing the care log', () => {
+    beforeEach(() => {
+      store.dispatch(fetchCareEvents.fulfilled(
+        { treeId: 'tree-123', events: [watering], nextCursor: null },
+        'request-id',
+        'tree-123'
+      ));
+    });
+
+    it('should add a care event in date order', () => {
+      store.dispatch(addCareEvent.fulfilled(pruning, 'request-id', { treeId: 'tree-123', data: pruning }));
+
+      expect(store.getState().careEvents.byTreeId['tree-123'].events.map(event => event.id)).toEqual([
+        'care-2',
+        'care-1',
+      ]);
+    });
+
+    it('should add the first care event of a tree not yet loaded', () => {
+      const other = { ...watering, id: 'care-3', treeId: 'tree-456' };
+      store.dispatch(addCareEvent.fulfilled(other, 'request-id', { treeId: 'tree-456', data: other }));
+
+      expect(store.getState().careEvents.byTreeId['tree-456'].events).toEqual([other]);
+    });
+
+    it('should replace an updated care event and re-sort by date', () => {
+      store.dispatch(addCareEvent.fulfilled(pruning, 'request-id', { treeId: 'tree-123', data: pruning }));
+      const moved = { ...watering, date: '2024-04-01' };
+
+      store.dispatch(updateCareEvent.fulfilled(moved, 'request-id', {
+        treeId: 'tree-123',
+        careEventId: 'care-1',
+        changes: { date: '2024-04-01' },
+      }));
+
+      expect(store.getState().careEvents.byTreeId['tree-123'].events).toEqual([moved, pruning]);
+    });
+
+    it('should remove a deleted care event', () => {
+      store.dispatch(deleteCareEvent.fulfilled(watering, 'request-id', { treeId: 'tree-123', careEventId: 'care-1' }));
+
+      expect(store.getState().careEvents.byTreeId['tree-123'].events).toEqual([]);
+    });
+
+    it('should record and clear errors', () => {
+      store.dispatch(deleteCareEvent.rejected(
+        new Error('Not found'),
+        'request-id',
+        { treeId: 'tree-123', careEventId: 'care-9' },
+        'Care event care-9 not found'
+      ));
+      expect(store.getState().careEvents.error).toBe('Care event care-9 not found');
+
+      store.dispatch(clearCareEventsError());
+      expect(store.getState().careEvents.error).toBeNull();
+    });
+  });
+});
@@ -14,7 +14,34 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   multiRemove: jest.fn(() => Promise.resolve()),
 }));
 
+// The API answers with the `{ data, requestId }` envelope
+const respond = (status: number, data: unknown) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => ({ data, requestId: 'req-1' }),
+  });
+
+const serverTree = (id: string, name: string) => ({
+  id,
+  userId: 'user-123',
+  name,
+  species: { speciesId: 'quercus_alba', scientificName: 'Quercus alba', commonName: 'White Oak' },
+  plantedDate: '2023-01-15',
+  location: { yardPosition: 'front yard', coordinates: [40.7, -74], sunExposure: 'full sun', soilType: 'loam' },
+  currentStatus: { height: 8, trunkDiameter: 2, canopySpread: 5, healthScore: 85, growthStage: 'juvenile' },
+  goals: { targetHeight: 30, clearanceNeeded: 8, aestheticStyle: 'natural' },
+  status: 'active',
+  version: 1,
+  createdAt: '2023-01-15T10:30:00Z',
+  updatedAt: '2023-01-15T10:30:00Z',
+});
+
 describe('Redux Store Configuration', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   it('should have correct initial state structure', () => {
     const state = store.getState();
     
@@ -36,6 +63,17 @@ describe('Redux Store Configuration', () => {
       selectedTreeId: null,
       isLoading: false,
       error: null,
+      nextCursor: null,
+      isLoadingMore: false,
+      statusFilter: 'active',
+      conflict: null,
+    });
+
+    // Check care events initial state
+    expect(state.careEvents).toEqual({
+      byTreeId: {},
+      isLoading: false,
+      error: null,
     });
   });
 
@@ -60,7 +98,11 @@ describe('Redux Store Configuration', () => {
   });
 
   it('should handle trees actions', async () => {
-    const fetchPromise = store.dispatch(fetchTrees('user-123'));
+    global.fetch = respond(200, {
+      trees: [serverTree('tree_1', 'Front Yard Oak')],
+      pagination: { limit: 20, nextCursor: null },
+    }) as any;
+    const fetchPromise = store.dispatch(fetchTrees());
     
     // Check pending state
     let state = store.getState();
@@ -83,9 +125,11 @@ describe('Redux Store Configuration', () => {
     }));
     
     // Add a tree
+    const fetchMock = respond(201, serverTree('tree_2', 'Test Tree'));
+    global.fetch = fetchMock as any;
     await store.dispatch(addTree({
       name: 'Test Tree',
-      species: 'oak',
+      species: { speciesId: 'quercus_alba', scientificName: 'Quercus alba', commonName: 'White Oak' },
     }));
     
     const state = store.getState();
@@ -98,6 +142,10 @@ describe('Redux Store Configuration', () => {
     const testTree = state.trees.trees.find((tree: any) => tree.name === 'Test Tree');
     expect(testTree).toBeTruthy();
     expect(testTree?.name).toBe('Test Tree');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: `Bearer ${state.auth.tokens?.accessToken}` }),
+    });
   });
 
   it('should maintain state isolation between slices', () => {
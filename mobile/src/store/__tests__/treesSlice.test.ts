@@ -2,12 +2,16 @@ import { configureStore } from '@reduxjs/toolkit';
 import treesReducer, {
   addTree,
   updateTree,
-  deleteTree,
+  archiveTree,
+  restoreTree,
+  fetchMoreTrees,
   fetchTrees,
   setSelectedTree,
   clearSelectedTree,
   setError,
   setLoading,
+  setStatusFilter,
+  keepServerVersion,
 } from '../slices/treesSlice';
 
 // Define the test store type
@@ -42,6 +46,8 @@ const mockTree = {
     clearanceNeeded: 8,
     aestheticStyle: 'natural' as const,
   },
+  status: 'active' as const,
+  version: 3,
   createdAt: '2023-01-15T10:30:00Z',
   updatedAt: '2023-07-02T14:20:00Z',
 };
@@ -74,13 +80,17 @@ describe('treesSlice', () => {
         selectedTreeId: null,
         isLoading: false,
         error: null,
+        nextCursor: null,
+        isLoadingMore: false,
+        statusFilter: 'active',
+        conflict: null,
       });
     });
   });
 
   describe('fetchTrees action', () => {
     it('should handle fetchTrees.pending', () => {
-      store.dispatch(fetchTrees.pending('request-id', 'user-123'));
+      store.dispatch(fetchTrees.pending('request-id'));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(true);
@@ -89,17 +99,18 @@ describe('treesSlice', () => {
 
     it('should handle fetchTrees.fulfilled', () => {
       const trees = [mockTree, mockTree2];
-      store.dispatch(fetchTrees.fulfilled(trees, 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.fulfilled({ trees, nextCursor: 'cursor-1' }, 'request-id'));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(false);
       expect(state.trees).toEqual(trees);
+      expect(state.nextCursor).toBe('cursor-1');
       expect(state.error).toBe(null);
     });
 
     it('should handle fetchTrees.rejected', () => {
       const error = new Error('Failed to fetch trees');
-      store.dispatch(fetchTrees.rejected(error, 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.rejected(error, 'request-id'));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(false);
@@ -108,9 +119,42 @@ describe('treesSlice', () => {
     });
   });
 
+  describe('fetchMoreTrees action', () => {
+    beforeEach(() => {
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree], nextCursor: 'cursor-1' }, 'request-id'));
+    });
+
+    it('should handle fetchMoreTrees.pending', () => {
+      store.dispatch(fetchMoreTrees.pending('request-id'));
+      const state = store.getState().trees;
+
+      expect(state.isLoadingMore).toBe(true);
+      expect(state.trees).toEqual([mockTree]);
+    });
+
+    it('should append the next page and advance the cursor', () => {
+      store.dispatch(fetchMoreTrees.fulfilled({ trees: [mockTree, mockTree2], nextCursor: null }, 'request-id'));
+      const state = store.getState().trees;
+
+      expect(state.isLoadingMore).toBe(false);
+      expect(state.trees).toEqual([mockTree, mockTree2]);
+      expect(state.nextCursor).toBe(null);
+    });
+
+    it('should keep the loaded trees when fetchMoreTrees is rejected', () => {
+      store.dispatch(fetchMoreTrees.rejected(new Error('Network error'), 'request-id'));
+      const state = store.getState().trees;
+
+      expect(state.isLoadingMore).toBe(false);
+      expect(state.trees).toEqual([mockTree]);
+      expect(state.nextCursor).toBe('cursor-1');
+      expect(state.error).toBe(null);
+    });
+  });
+
   describe('addTree action', () => {
     it('should handle addTree.pending', () => {
-      const treeData = { name: 'New Tree', species: 'oak' };
+      const treeData = { name: 'New Tree', species: mockTree.species };
       store.dispatch(addTree.pending('request-id', treeData));
       const state = store.getState().trees;
       
@@ -119,7 +163,7 @@ describe('treesSlice', () => {
     });
 
     it('should handle addTree.fulfilled', () => {
-      const treeData = { name: 'New Tree', species: 'oak' };
+      const treeData = { name: 'New Tree', species: mockTree.species };
       store.dispatch(addTree.fulfilled(mockTree, 'request-id', treeData));
       const state = store.getState().trees;
       
@@ -130,19 +174,30 @@ describe('treesSlice', () => {
 
     it('should handle addTree.rejected', () => {
       const error = new Error('Failed to add tree');
-      const treeData = { name: 'New Tree', species: 'oak' };
+      const treeData = { name: 'New Tree', species: mockTree.species };
       store.dispatch(addTree.rejected(error, 'request-id', treeData));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(false);
       expect(state.error).toBe('Failed to add tree');
     });
+
+    it('should keep the message of a plan limit rejection', () => {
+      const treeData = { name: 'New Tree', species: mockTree.species };
+      const rejection = {
+        message: 'Your free plan allows 3 trees',
+        entitlement: { entitlement: 'maxTrees', tier: 'free', limit: 3, requiredTier: 'hobbyist' },
+      };
+      store.dispatch(addTree.rejected(null, 'request-id', treeData, rejection));
+
+      expect(store.getState().trees.error).toBe('Your free plan allows 3 trees');
+    });
   });
 
   describe('updateTree action', () => {
     beforeEach(() => {
       // Add a tree to update
-      store.dispatch(fetchTrees.fulfilled([mockTree], 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree], nextCursor: null }, 'request-id'));
     });
 
     it('should handle updateTree.fulfilled', () => {
@@ -163,16 +218,53 @@ describe('treesSlice', () => {
       expect(state.isLoading).toBe(false);
       expect(state.error).toBe('Failed to update tree');
     });
+
+    describe('when the tree was changed elsewhere', () => {
+      const local = { ...mockTree, name: 'Renamed here' };
+      const server = { ...mockTree, name: 'Renamed on another phone', version: 4 };
+
+      beforeEach(() => {
+        store.dispatch(
+          updateTree.rejected(null, 'request-id', local, {
+            message: 'Tree tree-123 was changed by another request',
+            conflict: { local, server },
+          })
+        );
+      });
+
+      it('should hold both versions for the user to choose from', () => {
+        const state = store.getState().trees;
+
+        expect(state.conflict).toEqual({ local, server });
+        expect(state.error).toBe(null);
+        expect(state.trees[0].name).toBe('Front Yard Oak');
+      });
+
+      it('should show the server copy when the user keeps it', () => {
+        store.dispatch(keepServerVersion());
+        const state = store.getState().trees;
+
+        expect(state.conflict).toBe(null);
+        expect(state.trees[0]).toEqual(server);
+      });
+
+      it('should clear the conflict when the update is retried', () => {
+        store.dispatch(updateTree.pending('request-id', { ...local, version: server.version }));
+
+        expect(store.getState().trees.conflict).toBe(null);
+      });
+    });
   });
 
-  describe('deleteTree action', () => {
+  describe('archiveTree action', () => {
+    const archived = { ...mockTree, status: 'archived' as const, archivedAt: '2023-08-01T09:00:00Z' };
+
     beforeEach(() => {
-      // Add trees to delete
-      store.dispatch(fetchTrees.fulfilled([mockTree, mockTree2], 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree, mockTree2], nextCursor: null }, 'request-id'));
     });
 
-    it('should handle deleteTree.fulfilled', () => {
-      store.dispatch(deleteTree.fulfilled('tree-123', 'request-id', 'tree-123'));
+    it('should remove the archived tree from the active list', () => {
+      store.dispatch(archiveTree.fulfilled(archived, 'request-id', 'tree-123'));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(false);
@@ -181,31 +273,67 @@ describe('treesSlice', () => {
       expect(state.error).toBe(null);
     });
 
-    it('should handle deleteTree.rejected', () => {
-      const error = new Error('Failed to delete tree');
-      store.dispatch(deleteTree.rejected(error, 'request-id', 'tree-123'));
+    it('should handle archiveTree.rejected', () => {
+      const error = new Error('Failed to archive tree');
+      store.dispatch(archiveTree.rejected(error, 'request-id', 'tree-123'));
       const state = store.getState().trees;
       
       expect(state.isLoading).toBe(false);
       expect(state.trees).toHaveLength(2); // No trees removed
-      expect(state.error).toBe('Failed to delete tree');
+      expect(state.error).toBe('Failed to archive tree');
     });
 
-    it('should clear selectedTreeId when deleting selected tree', () => {
-      // Select a tree first
+    it('should clear selectedTreeId when archiving selected tree', () => {
       store.dispatch(setSelectedTree('tree-123'));
       
-      // Delete the selected tree
-      store.dispatch(deleteTree.fulfilled('tree-123', 'request-id', 'tree-123'));
+      store.dispatch(archiveTree.fulfilled(archived, 'request-id', 'tree-123'));
       const state = store.getState().trees;
       
       expect(state.selectedTreeId).toBe(null);
     });
   });
 
+  describe('restoreTree action', () => {
+    const archived = { ...mockTree, status: 'archived' as const, archivedAt: '2023-08-01T09:00:00Z' };
+
+    beforeEach(() => {
+      store.dispatch(setStatusFilter('archived'));
+      store.dispatch(fetchTrees.fulfilled({ trees: [archived], nextCursor: null }, 'request-id'));
+    });
+
+    it('should remove the restored tree from the archived list', () => {
+      store.dispatch(restoreTree.fulfilled(mockTree, 'request-id', 'tree-123'));
+      const state = store.getState().trees;
+
+      expect(state.trees).toEqual([]);
+      expect(state.isLoading).toBe(false);
+    });
+
+    it('should handle restoreTree.rejected', () => {
+      store.dispatch(restoreTree.rejected(new Error('Failed to restore tree'), 'request-id', 'tree-123'));
+      const state = store.getState().trees;
+
+      expect(state.trees).toEqual([archived]);
+      expect(state.error).toBe('Failed to restore tree');
+    });
+  });
+
+  describe('setStatusFilter', () => {
+    it('should switch lists and drop the trees and cursor of the previous one', () => {
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree], nextCursor: 'cursor-1' }, 'request-id'));
+
+      store.dispatch(setStatusFilter('archived'));
+      const state = store.getState().trees;
+
+      expect(state.statusFilter).toBe('archived');
+      expect(state.trees).toEqual([]);
+      expect(state.nextCursor).toBe(null);
+    });
+  });
+
   describe('synchronous actions', () => {
     beforeEach(() => {
-      store.dispatch(fetchTrees.fulfilled([mockTree, mockTree2], 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree, mockTree2], nextCursor: null }, 'request-id'));
     });
 
     it('should handle setSelectedTree', () => {
@@ -241,7 +369,7 @@ describe('treesSlice', () => {
 
   describe('selectors', () => {
     beforeEach(() => {
-      store.dispatch(fetchTrees.fulfilled([mockTree, mockTree2], 'request-id', 'user-123'));
+      store.dispatch(fetchTrees.fulfilled({ trees: [mockTree, mockTree2], nextCursor: null }, 'request-id'));
       store.dispatch(setSelectedTree('tree-123'));
     });
 
@@ -13,6 +13,7 @@ import {
 
 import authReducer from './slices/authSlice';
 import treesReducer from './slices/treesSlice';
+import careEventsReducer from './slices/careEventsSlice';
 
 // Persist configuration
 const authPersistConfig = {
@@ -35,6 +36,8 @@ export const store = configureStore({
   reducer: {
     auth: persistedAuthReducer,
     trees: persistedTreesReducer,
+    // Fetched when a tree's history is opened, so not persisted
+    careEvents: careEventsReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -0,0 +1,215 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import {
+  createCareEvent,
+  deleteCareEvent as deleteCareEventRequest,
+  listCareEvents,
+  updateCareEvent as updateCareEventRequest,
+} from '../../services/careEvents';
+import type { AuthState } from './authSlice';
+
+// Types
+export type CareEventType = 'watering' | 'fertilizing' | 'pruning' | 'inspection';
+
+export type PruningReason = 'dead' | 'diseased' | 'damaged' | 'crossing' | 'clearance' | 'shaping';
+
+export interface RemovedBranch {
+  diameter: number; // in inches, at the cut
+  location?: string;
+  reason?: PruningReason;
+}
+
+export interface CareEvent {
+  id: string;
+  treeId: string;
+  type: CareEventType;
+  date: string; // YYYY-MM-DD
+  notes?: string;
+  photoIds?: string[];
+  // Only recorded for pruning
+  branchesRemoved?: RemovedBranch[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CareEventData {
+  type: CareEventType;
+  date: string;
+  notes?: string;
+  photoIds?: string[];
+  branchesRemoved?: RemovedBranch[];
+}
+
+// One tree's care log, most recent first
+export interface TreeCareLog {
+  events: CareEvent[];
+  // Cursor for the next page of events; null once the log is complete
+  nextCursor: string | null;
+}
+
+export interface CareEventsState {
+  byTreeId: Record<string, TreeCareLog>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface CareEventsPage {
+  treeId: string;
+  events: CareEvent[];
+  nextCursor: string | null;
+}
+
+type CareEventsThunkState = { auth: AuthState; careEvents: CareEventsState };
+
+// Most recent first, as the API lists them
+const byDateDescending = (a: CareEvent, b: CareEvent) =>
+  b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt);
+
+// Async thunks
+export const fetchCareEvents = createAsyncThunk<
+  CareEventsPage,
+  string,
+  { state: CareEventsThunkState; rejectValue: string }
+>('careEvents/fetchCareEvents', async (treeId, { getState, rejectWithValue }) => {
+  try {
+    const { careEvents, pagination } = await listCareEvents(treeId, {}, getState().auth.tokens?.accessToken);
+    return { treeId, events: careEvents, nextCursor: pagination.nextCursor };
+  } catch (error) {
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch care events');
+  }
+});
+
+export const addCareEvent = createAsyncThunk<
+  CareEvent,
+  { treeId: string; data: CareEventData },
+  { state: CareEventsThunkState; rejectValue: string }
+>('careEvents/addCareEvent', async ({ treeId, data }, { getState, rejectWithValue }) => {
+  try {
+    return await createCareEvent(treeId, data, getState().auth.tokens?.accessToken);
+  } catch (error) {
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to add care event');
+  }
+});
+
+export const updateCareEvent = createAsyncThunk<
+  CareEvent,
+  { treeId: string; careEventId: string; changes: Partial<CareEventData> },
+  { state: CareEventsThunkState; rejectValue: string }
+>('careEvents/updateCareEvent', async ({ treeId, careEventId, changes }, { getState, rejectWithValue }) => {
+  try {
+    return await updateCareEventRequest(treeId, careEventId, changes, getState().auth.tokens?.accessToken);
+  } catch (error) {
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to update care event');
+  }
+});
+
+export const deleteCareEvent = createAsyncThunk<
+  CareEvent,
+  { treeId: string; careEventId: string },
+  { state: CareEventsThunkState; rejectValue: string }
+>('careEvents/deleteCareEvent', async ({ treeId, careEventId }, { getState, rejectWithValue }) => {
+  try {
+    return await deleteCareEventRequest(treeId, careEventId, getState().auth.tokens?.accessToken);
+  } catch (error) {
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete care event');
+  }
+});
+
+const logOf = (state: CareEventsState, treeId: string): TreeCareLog =>
+  (state.byTreeId[treeId] ??= { events: [], nextCursor: null });
+
+// Initial state
+const initialState: CareEventsState = {
+  byTreeId: {},
+  isLoading: false,
+  error: null,
+};
+
+// Care events slice
+const careEventsSlice = createSlice({
+  name: 'careEvents',
+  initialState,
+  reducers: {
+    clearCareEventsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch Care Events
+    builder
+      .addCase(fetchCareEvents.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchCareEvents.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.byTreeId[action.payload.treeId] = {
+          events: action.payload.events,
+          nextCursor: action.payload.nextCursor,
+        };
+      })
+      .addCase(fetchCareEvents.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload || action.error?.message || 'Failed to fetch care events';
+      });
+
+    // Add Care Event
+    builder
+      .addCase(addCareEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(addCareEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        const log = logOf(state, action.payload.treeId);
+        log.events.push(action.payload);
+        log.events.sort(byDateDescending);
+      })
+      .addCase(addCareEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload || action.error?.message || 'Failed to add care event';
+      });
+
+    // Update Care Event
+    builder
+      .addCase(updateCareEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(updateCareEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        const log = logOf(state, action.payload.treeId);
+        const index = log.events.findIndex(event => event.id === action.payload.id);
+        if (index !== -1) {
+          log.events[index] = action.payload;
+          // The date may have changed
+          log.events.sort(byDateDescending);
+        }
+      })
+      .addCase(updateCareEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload || action.error?.message || 'Failed to update care event';
+      });
+
+    // Delete Care Event
+    builder
+      .addCase(deleteCareEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(deleteCareEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        const log = logOf(state, action.payload.treeId);
+        log.events = log.events.filter(event => event.id !== action.payload.id);
+      })
+      .addCase(deleteCareEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload || action.error?.message || 'Failed to delete care event';
+      });
+  },
+});
+
+// Export actions
+export const { clearCareEventsError } = careEventsSlice.actions;
+
+// Export reducer
+export default careEventsSlice.reducer;
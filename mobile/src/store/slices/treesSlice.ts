@@ -1,4 +1,14 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { EntitlementDetails, entitlementDetails } from '../../services/api';
+import {
+  archiveTree as archiveTreeRequest,
+  conflictingTree,
+  createTree,
+  listTrees,
+  restoreTree as restoreTreeRequest,
+  updateTree as updateTreeRequest,
+} from '../../services/trees';
+import type { AuthState } from './authSlice';
 
 // Types
 export interface TreeSpecies {
@@ -28,6 +38,8 @@ export interface TreeGoals {
   aestheticStyle: 'natural' | 'formal' | 'pollarded';
 }
 
+export type TreeLifecycleStatus = 'active' | 'archived';
+
 export interface Tree {
   id: string;
   userId: string;
@@ -37,13 +49,17 @@ export interface Tree {
   location: TreeLocation;
   currentStatus: TreeStatus;
   goals: TreeGoals;
+  status: TreeLifecycleStatus;
+  archivedAt?: string;
+  // Bumped by every change on the server; updates are rejected if it moved on
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface CreateTreeData {
   name: string;
-  species: string;
+  species: TreeSpecies;
   plantedDate?: string;
   location?: Partial<TreeLocation>;
   goals?: Partial<TreeGoals>;
@@ -54,114 +70,171 @@ export interface TreesState {
   selectedTreeId: string | null;
   isLoading: boolean;
   error: string | null;
+  // Cursor for the next page of trees; null once the list is complete
+  nextCursor: string | null;
+  isLoadingMore: boolean;
+  // Which trees the list shows
+  statusFilter: TreeLifecycleStatus;
+  // An update that lost to a change made elsewhere, waiting for the user to pick a version
+  conflict: TreeConflict | null;
+}
+
+export interface TreeConflict {
+  local: Tree;
+  server: Tree;
 }
 
+export interface AddTreeRejection {
+  message: string;
+  // Set when the plan allows no more trees, for an upgrade prompt
+  entitlement?: EntitlementDetails;
+}
+
+export interface UpdateTreeRejection {
+  message: string;
+  conflict?: TreeConflict;
+}
+
+export interface TreesPage {
+  trees: Tree[];
+  nextCursor: string | null;
+}
+
+type TreesThunkState = { auth: AuthState; trees: TreesState };
+
 // Async thunks
 export const fetchTrees = createAsyncThunk<
-  Tree[],
-  string,
-  { rejectValue: string }
->('trees/fetchTrees', async (userId, { rejectWithValue }) => {
+  TreesPage,
+  void,
+  { state: TreesThunkState; rejectValue: string }
+>('trees/fetchTrees', async (_, { getState, rejectWithValue }) => {
   try {
-    // TODO: Replace with actual API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Simulated successful response - return empty array for now
-    return [];
+    const { auth, trees: state } = getState();
+    const { trees, pagination } = await listTrees({ status: state.statusFilter }, auth.tokens?.accessToken);
+    return { trees, nextCursor: pagination.nextCursor };
   } catch (error) {
     return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch trees');
   }
 });
 
+export const fetchMoreTrees = createAsyncThunk<
+  TreesPage,
+  void,
+  { state: TreesThunkState; rejectValue: string }
+>(
+  'trees/fetchMoreTrees',
+  async (_, { getState, rejectWithValue }) => {
+    const { auth, trees: state } = getState();
+    try {
+      const { trees, pagination } = await listTrees(
+        { cursor: state.nextCursor, status: state.statusFilter },
+        auth.tokens?.accessToken
+      );
+      return { trees, nextCursor: pagination.nextCursor };
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch more trees');
+    }
+  },
+  {
+    // Nothing left to load, or a page is already on its way
+    condition: (_, { getState }) => {
+      const { trees } = getState();
+      return Boolean(trees.nextCursor) && !trees.isLoading && !trees.isLoadingMore;
+    },
+  }
+);
+
 export const addTree = createAsyncThunk<
   Tree,
   CreateTreeData,
-  { rejectValue: string }
->('trees/addTree', async (treeData, { rejectWithValue }) => {
+  { state: TreesThunkState; rejectValue: AddTreeRejection }
+>('trees/addTree', async (treeData, { getState, rejectWithValue }) => {
   try {
-    // TODO: Replace with actual API call
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    // Simulated successful response
-    const newTree: Tree = {
-      id: `tree-${Date.now()}`,
-      userId: 'user-123', // TODO: Get from auth state
-      name: treeData.name,
-      species: {
-        scientificName: 'Quercus alba',
-        commonName: 'White Oak',
-        speciesId: treeData.species,
-      },
-      plantedDate: treeData.plantedDate || new Date().toISOString().split('T')[0],
-      location: {
-        yardPosition: treeData.location?.yardPosition || 'backyard',
-        coordinates: treeData.location?.coordinates || [0, 0],
-        sunExposure: treeData.location?.sunExposure || 'partial sun',
-        soilType: treeData.location?.soilType || 'loam',
-      },
-      currentStatus: {
-        height: 2.0,
-        trunkDiameter: 0.5,
-        canopySpread: 1.5,
-        healthScore: 100,
-        growthStage: 'seedling',
-      },
-      goals: {
-        targetHeight: treeData.goals?.targetHeight || 12,
-        clearanceNeeded: treeData.goals?.clearanceNeeded || 8,
-        aestheticStyle: treeData.goals?.aestheticStyle || 'natural',
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    return newTree;
+    return await createTree(treeData, getState().auth.tokens?.accessToken);
   } catch (error) {
-    return rejectWithValue(error instanceof Error ? error.message : 'Failed to add tree');
+    const message = error instanceof Error ? error.message : 'Failed to add tree';
+    const entitlement = entitlementDetails(error);
+    return rejectWithValue(entitlement ? { message, entitlement } : { message });
   }
 });
 
+// Only applies to tree.version; a change made elsewhere first becomes state.conflict
 export const updateTree = createAsyncThunk<
   Tree,
   Tree,
-  { rejectValue: string }
->('trees/updateTree', async (tree, { rejectWithValue }) => {
+  { state: TreesThunkState; rejectValue: UpdateTreeRejection }
+>('trees/updateTree', async (tree, { getState, rejectWithValue }) => {
   try {
-    // TODO: Replace with actual API call
-    await new Promise(resolve => setTimeout(resolve, 600));
-    
-    // Simulated successful response
-    return {
-      ...tree,
-      updatedAt: new Date().toISOString(),
-    };
+    return await updateTreeRequest(tree, getState().auth.tokens?.accessToken);
   } catch (error) {
-    return rejectWithValue(error instanceof Error ? error.message : 'Failed to update tree');
+    const message = error instanceof Error ? error.message : 'Failed to update tree';
+    const server = conflictingTree(error);
+    return rejectWithValue(server ? { message, conflict: { local: tree, server } } : { message });
   }
 });
 
-export const deleteTree = createAsyncThunk<
+// Save the user's edits over the server's copy
+export const keepLocalVersion = createAsyncThunk<void, void, { state: TreesThunkState }>(
+  'trees/keepLocalVersion',
+  async (_, { getState, dispatch }) => {
+    const { conflict } = getState().trees;
+    if (conflict) {
+      await dispatch(updateTree({ ...conflict.local, version: conflict.server.version }));
+    }
+  }
+);
+
+// Archived trees can be restored until the backend purges them
+export const archiveTree = createAsyncThunk<
+  Tree,
   string,
+  { state: TreesThunkState; rejectValue: string }
+>('trees/archiveTree', async (treeId, { getState, rejectWithValue }) => {
+  try {
+    return await archiveTreeRequest(treeId, getState().auth.tokens?.accessToken);
+  } catch (error) {
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to archive tree');
+  }
+});
+
+export const restoreTree = createAsyncThunk<
+  Tree,
   string,
-  { rejectValue: string }
->('trees/deleteTree', async (treeId, { rejectWithValue }) => {
+  { state: TreesThunkState; rejectValue: string }
+>('trees/restoreTree', async (treeId, { getState, rejectWithValue }) => {
   try {
-    // TODO: Replace with actual API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Simulated successful response
-    return treeId;
+    return await restoreTreeRequest(treeId, getState().auth.tokens?.accessToken);
   } catch (error) {
-    return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete tree');
+    return rejectWithValue(error instanceof Error ? error.message : 'Failed to restore tree');
   }
 });
 
+// Keep a tree whose status changed only if the list still shows that status
+const applyStatusChange = (state: TreesState, tree: Tree) => {
+  if (tree.status === state.statusFilter) {
+    const index = state.trees.findIndex(existing => existing.id === tree.id);
+    if (index !== -1) {
+      state.trees[index] = tree;
+    }
+    return;
+  }
+
+  state.trees = state.trees.filter(existing => existing.id !== tree.id);
+  if (state.selectedTreeId === tree.id) {
+    state.selectedTreeId = null;
+  }
+};
+
 // Initial state
 const initialState: TreesState = {
   trees: [],
   selectedTreeId: null,
   isLoading: false,
   error: null,
+  nextCursor: null,
+  isLoadingMore: false,
+  statusFilter: 'active',
+  conflict: null,
 };
 
 // Trees slice
@@ -181,6 +254,24 @@ const treesSlice = createSlice({
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
     },
+    // Follow with fetchTrees to load the newly selected list
+    setStatusFilter: (state, action: PayloadAction<TreeLifecycleStatus>) => {
+      state.statusFilter = action.payload;
+      state.trees = [];
+      state.nextCursor = null;
+    },
+    // Drop the user's edits in favour of the server's copy
+    keepServerVersion: (state) => {
+      if (!state.conflict) {
+        return;
+      }
+      const { server } = state.conflict;
+      const index = state.trees.findIndex(tree => tree.id === server.id);
+      if (index !== -1) {
+        state.trees[index] = server;
+      }
+      state.conflict = null;
+    },
   },
   extraReducers: (builder) => {
     // Fetch Trees
@@ -191,15 +282,34 @@ const treesSlice = createSlice({
       })
       .addCase(fetchTrees.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.trees = action.payload;
+        state.trees = action.payload.trees;
+        state.nextCursor = action.payload.nextCursor;
         state.error = null;
       })
       .addCase(fetchTrees.rejected, (state, action) => {
         state.isLoading = false;
         state.trees = [];
+        state.nextCursor = null;
         state.error = action.payload || action.error?.message || 'Failed to fetch trees';
       });
 
+    // Fetch More Trees
+    builder
+      .addCase(fetchMoreTrees.pending, (state) => {
+        state.isLoadingMore = true;
+      })
+      .addCase(fetchMoreTrees.fulfilled, (state, action) => {
+        state.isLoadingMore = false;
+        // Skip trees already listed, e.g. one added since the first page
+        const listed = new Set(state.trees.map(tree => tree.id));
+        state.trees.push(...action.payload.trees.filter(tree => !listed.has(tree.id)));
+        state.nextCursor = action.payload.nextCursor;
+      })
+      .addCase(fetchMoreTrees.rejected, (state) => {
+        // Keep showing the trees already loaded; reaching the end again retries
+        state.isLoadingMore = false;
+      });
+
     // Add Tree
     builder
       .addCase(addTree.pending, (state) => {
@@ -213,7 +323,7 @@ const treesSlice = createSlice({
       })
       .addCase(addTree.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || action.error?.message || 'Failed to add tree';
+        state.error = action.payload?.message || action.error?.message || 'Failed to add tree';
       });
 
     // Update Tree
@@ -221,6 +331,7 @@ const treesSlice = createSlice({
       .addCase(updateTree.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.conflict = null;
       })
       .addCase(updateTree.fulfilled, (state, action) => {
         state.isLoading = false;
@@ -232,33 +343,49 @@ const treesSlice = createSlice({
       })
       .addCase(updateTree.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || action.error?.message || 'Failed to update tree';
+        if (action.payload?.conflict) {
+          state.conflict = action.payload.conflict;
+          return;
+        }
+        state.error = action.payload?.message || action.error?.message || 'Failed to update tree';
       });
 
-    // Delete Tree
+    // Archive Tree
     builder
-      .addCase(deleteTree.pending, (state) => {
+      .addCase(archiveTree.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(deleteTree.fulfilled, (state, action) => {
+      .addCase(archiveTree.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.trees = state.trees.filter(tree => tree.id !== action.payload);
-        // Clear selection if deleted tree was selected
-        if (state.selectedTreeId === action.payload) {
-          state.selectedTreeId = null;
-        }
+        applyStatusChange(state, action.payload);
+        state.error = null;
+      })
+      .addCase(archiveTree.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload || action.error?.message || 'Failed to archive tree';
+      });
+
+    // Restore Tree
+    builder
+      .addCase(restoreTree.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(restoreTree.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyStatusChange(state, action.payload);
         state.error = null;
       })
-      .addCase(deleteTree.rejected, (state, action) => {
+      .addCase(restoreTree.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || action.error?.message || 'Failed to delete tree';
+        state.error = action.payload || action.error?.message || 'Failed to restore tree';
       });
   },
 });
 
 // Export actions
-export const { setSelectedTree, clearSelectedTree, setError, setLoading } = treesSlice.actions;
+export const { setSelectedTree, clearSelectedTree, setError, setLoading, setStatusFilter, keepServerVersion } = treesSlice.actions;
 
 // Export reducer
 export default treesSlice.reducer;
\ No newline at end of file
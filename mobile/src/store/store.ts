@@ -3,12 +3,14 @@ import { useDispatch, useSelector, TypedUseSelectorHook } from 'react-redux';
 import { persistStore, persistReducer } from 'redux-persist';
 import authReducer from './slices/authSlice';
 import treesReducer from './slices/treesSlice';
+import careEventsReducer from './slices/careEventsSlice';
 import { persistConfig } from './persistence';
 
 // Combine all reducers
 const rootReducer = combineReducers({
   auth: authReducer,
   trees: treesReducer,
+  careEvents: careEventsReducer,
 });
 
 // Create persisted reducer